@@ -0,0 +1,47 @@
+const SiteAdapter = require('./siteAdapter');
+const profile = require('./profiles/discoveryftp.json');
+
+/**
+ * Discovery FTP adapter
+ * Uses the discoveryftp selector profile and knows how posters are laid out
+ * on the content server, so movies without a listing image still get one.
+ */
+class DiscoveryFtpAdapter extends SiteAdapter {
+  constructor(options = {}) {
+    super(options.profile || profile, options);
+  }
+
+  /**
+   * Builds a poster URL on the content server from the detail URL, or from
+   * the title and year as a last resort
+   */
+  constructPosterUrl(movie) {
+    const posters = this.profile.posters;
+
+    if (movie.detailUrl) {
+      // Example: /m/Hindi/2025/Saiyaara -> /Movies/Hindi/2025/Saiyaara/poster.jpg
+      try {
+        const detailPath = new URL(movie.detailUrl).pathname;
+        const posterPath = detailPath.replace(posters.detailPathPrefix, posters.contentPathPrefix) + '/' + posters.fileName;
+        return `${posters.contentBaseUrl}${posterPath}`;
+      } catch (error) {
+        console.log(`Failed to construct poster URL for ${movie.title}: ${error.message}`);
+      }
+    }
+
+    if (movie.title && movie.year) {
+      // Try to detect language from title or use the default
+      const detectedLanguage = posters.languages.find(lang => movie.title.includes(lang) || movie.language === lang)
+        || posters.defaultLanguage;
+
+      // Clean title for URL (remove special characters, spaces)
+      const cleanTitle = movie.title.replace(/[^\w\s]/g, '').replace(/\s+/g, ' ').trim();
+
+      return `${posters.contentBaseUrl}${posters.contentPathPrefix}${detectedLanguage}/${movie.year}/${cleanTitle}/${posters.fileName}`;
+    }
+
+    return null;
+  }
+}
+
+module.exports = DiscoveryFtpAdapter;
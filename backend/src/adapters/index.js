@@ -0,0 +1,43 @@
+const fs = require('fs');
+const path = require('path');
+const config = require('../config');
+const SiteAdapter = require('./siteAdapter');
+const DiscoveryFtpAdapter = require('./discoveryFtpAdapter');
+
+const adapters = {
+  discoveryftp: DiscoveryFtpAdapter
+};
+
+/**
+ * Creates the configured site adapter. A custom JSON selector profile can be
+ * supplied through config.scraping.siteProfilePath; it replaces the adapter's
+ * built-in profile, or drives the generic adapter when no adapter is named.
+ */
+function createSiteAdapter(options = {}) {
+  const adapterName = options.adapter || config.scraping.siteAdapter;
+  const profilePath = options.profilePath || config.scraping.siteProfilePath;
+  const baseUrl = options.baseUrl || config.discovery.baseUrl;
+
+  let profile;
+  if (profilePath) {
+    profile = JSON.parse(fs.readFileSync(path.resolve(profilePath), 'utf8'));
+    console.log(`🧭 Loaded site profile "${profile.name}" from ${profilePath}`);
+  }
+
+  const Adapter = adapters[adapterName];
+  if (Adapter) {
+    return new Adapter({ profile, baseUrl });
+  }
+
+  if (profile) {
+    return new SiteAdapter(profile, { baseUrl });
+  }
+
+  throw new Error(`Unknown site adapter: ${adapterName} (expected one of: ${Object.keys(adapters).join(', ')})`);
+}
+
+module.exports = {
+  createSiteAdapter,
+  SiteAdapter,
+  DiscoveryFtpAdapter
+};
@@ -0,0 +1,312 @@
+/**
+ * Site Adapter
+ * Finds movie data in listing, detail and directory pages using a declarative
+ * selector profile. Subclasses add site-specific behaviour such as poster URL
+ * construction; everything selector-related lives in the profile.
+ */
+class SiteAdapter {
+  constructor(profile, options = {}) {
+    this.profile = profile;
+    this.name = profile.name;
+    this.baseUrl = options.baseUrl || profile.baseUrl;
+  }
+
+  /**
+   * Resolves a root-relative or absolute href against the site base URL;
+   * returns null for anything else
+   */
+  resolveUrl(href) {
+    if (!href) return null;
+
+    if (href.startsWith('/')) {
+      return new URL(href, this.baseUrl).href;
+    }
+    if (href.startsWith('http')) {
+      return href;
+    }
+    return null;
+  }
+
+  // Listing pages
+
+  /**
+   * Returns the elements that represent movies on a listing page, trying the
+   * profile's item selectors first, then table rows, then bare links
+   */
+  findListingItems($) {
+    const listing = this.profile.listing;
+
+    for (const selector of listing.itemSelectors) {
+      const elements = $(selector);
+      if (elements.length > 0) {
+        console.log(`Found ${elements.length} elements with selector: ${selector}`);
+        return elements;
+      }
+    }
+
+    if (listing.tableFallback) {
+      const tables = $('table');
+      if (tables.length > 0) {
+        const rows = tables.first().find('tr').slice(1); // Skip header row
+        if (rows.length > 0) {
+          console.log(`Found ${rows.length} table rows`);
+          return rows;
+        }
+      }
+    }
+
+    if (listing.linkFallbackSelector) {
+      const links = $(listing.linkFallbackSelector);
+      console.log(`Found ${links.length} potential movie links`);
+      return links;
+    }
+
+    return $();
+  }
+
+  /**
+   * Returns the first title that isn't a quality badge
+   */
+  findTitle(element) {
+    const { titleSelectors, ignoredTitles = [] } = this.profile.listing;
+    const isIgnored = (text) => ignoredTitles.some(ignored => text === ignored || text.includes(ignored));
+
+    let title = '';
+    for (const selector of titleSelectors) {
+      const titleElement = element.find(selector).first();
+      if (titleElement.length > 0) {
+        title = titleElement.text().trim();
+        if (title && !isIgnored(title)) {
+          return title;
+        }
+      }
+    }
+
+    if (title) {
+      return title;
+    }
+
+    // Fall back to the element text itself, skipping quality indicators
+    const elementText = element.text().trim().split('\n')[0].trim();
+    if (elementText && !isIgnored(elementText)) {
+      return elementText;
+    }
+
+    return '';
+  }
+
+  findDetailUrl(element) {
+    const linkElement = element.find(this.profile.listing.linkSelector).first();
+    if (linkElement.length === 0) return '';
+
+    return this.resolveUrl(linkElement.attr('href')) || '';
+  }
+
+  /**
+   * Returns the absolute URL of the first non-placeholder poster image
+   */
+  findPosterUrl(element) {
+    const { posterSelectors, ignoredPosters = [] } = this.profile.listing;
+
+    for (const selector of posterSelectors) {
+      const imgElement = element.find(selector).first();
+      if (imgElement.length === 0) continue;
+
+      const src = imgElement.attr('src');
+      if (src && !ignoredPosters.some(ignored => src.includes(ignored))) {
+        const posterUrl = this.resolveUrl(src);
+        if (posterUrl) {
+          return posterUrl;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  findYear(element) {
+    const { yearSelector } = this.profile.listing;
+    if (!yearSelector) return '';
+
+    const yearText = element.find(yearSelector).first().text().trim();
+    return /^\d{4}$/.test(yearText) ? yearText : '';
+  }
+
+  findQuality(element) {
+    const { qualitySelector } = this.profile.listing;
+    if (!qualitySelector) return '';
+
+    return element.find(qualitySelector).first().text().trim();
+  }
+
+  findSize(element) {
+    const { sizeSelector } = this.profile.listing;
+    if (!sizeSelector) return '';
+
+    const sizeText = element.find(sizeSelector).first().text().trim();
+    return /\d+(\.\d+)?\s*(MB|GB|KB)/i.test(sizeText) ? sizeText : '';
+  }
+
+  /**
+   * Builds a poster URL for movies whose listing has no usable image.
+   * The generic adapter has no way to guess one.
+   */
+  constructPosterUrl(movie) {
+    return null;
+  }
+
+  // Pagination
+
+  /**
+   * Returns the hrefs of pagination links plus category/year pages
+   */
+  findPaginationLinks($) {
+    const pagination = this.profile.pagination;
+    const paginationLinks = [];
+
+    for (const selector of pagination.linkSelectors) {
+      const links = $(selector);
+      if (links.length > 0) {
+        console.log(`Found ${links.length} pagination links with selector: ${selector}`);
+
+        links.each((index, element) => {
+          const href = $(element).attr('href');
+          if (href && !paginationLinks.includes(href)) {
+            paginationLinks.push(href);
+          }
+        });
+        break;
+      }
+    }
+
+    const categoryLinks = [];
+    $('a').each((index, element) => {
+      const href = $(element).attr('href');
+      const text = $(element).text().trim();
+      if (!href) return;
+
+      // Category links (Hindi, English, etc.)
+      if (pagination.categoryPatterns.some(pattern => href.includes(pattern)) && !categoryLinks.includes(href)) {
+        categoryLinks.push(href);
+      }
+
+      // Numeric page links, limited to the first few pages
+      if (/^\d+$/.test(text)) {
+        const pageNum = parseInt(text);
+        if (pageNum > 1 && pageNum <= pagination.maxNumberedPage && !categoryLinks.includes(href)) {
+          categoryLinks.push(href);
+        }
+      }
+    });
+
+    // Category links take priority over plain pagination
+    return [...new Set([...categoryLinks, ...paginationLinks])];
+  }
+
+  getMaxPages() {
+    return this.profile.pagination.maxPages;
+  }
+
+  // Detail pages
+
+  getVideoLinkSelector() {
+    return this.profile.detail.videoLinkSelectors.join(', ');
+  }
+
+  getDownloadButtonSelectors() {
+    return this.profile.detail.downloadButtonSelectors;
+  }
+
+  getEmbeddedSourceSelector() {
+    return this.profile.detail.embeddedSourceSelector;
+  }
+
+  /**
+   * Links to sidecar subtitle files; profiles without subtitle selectors find none
+   */
+  findSubtitleLinks($) {
+    const selectors = this.profile.detail.subtitleLinkSelectors || [];
+    return selectors.length > 0 ? $(selectors.join(', ')) : $([]);
+  }
+
+  /**
+   * Reads description, rating and genres from a detail page
+   */
+  findDetailMetadata($) {
+    const detail = this.profile.detail;
+    const genres = [];
+
+    $(detail.genreSelector).each((i, genreElement) => {
+      const genre = $(genreElement).text().trim();
+      if (genre && !genres.includes(genre)) {
+        genres.push(genre);
+      }
+    });
+
+    return {
+      description: $(detail.descriptionSelector).first().text().trim(),
+      rating: $(detail.ratingSelector).first().text().trim(),
+      genres
+    };
+  }
+
+  // Directory listings
+
+  getDirectoryPaths() {
+    return this.profile.directory.paths;
+  }
+
+  findDirectoryFileLinks($) {
+    return $(this.profile.directory.fileLinkSelector);
+  }
+
+  findDirectorySubtitleLinks($) {
+    const selector = this.profile.directory.subtitleLinkSelector;
+    return selector ? $(selector) : $([]);
+  }
+
+  findSubdirectoryLinks($) {
+    return $(this.profile.directory.subdirectoryLinkSelector).filter((i, el) => {
+      const href = $(el).attr('href');
+      return href && !href.includes('.') && href !== '../';
+    });
+  }
+
+  getDirectoryLimits() {
+    const { maxDirectoryLinks, maxSubdirectories } = this.profile.directory;
+    return { maxDirectoryLinks, maxSubdirectories };
+  }
+
+  // Series
+
+  /**
+   * Returns the links to season pages or folders on a series detail page
+   * as { href, text } pairs, without duplicates
+   */
+  findSeasonLinks($) {
+    const selectors = this.profile.series?.seasonLinkSelectors || [];
+    const seasonLinks = [];
+
+    for (const selector of selectors) {
+      $(selector).each((index, element) => {
+        const href = $(element).attr('href');
+        if (href && !seasonLinks.some(link => link.href === href)) {
+          seasonLinks.push({ href, text: $(element).text().trim() });
+        }
+      });
+    }
+
+    return seasonLinks;
+  }
+
+  getSeriesDirectoryPaths() {
+    return this.profile.series?.directoryPaths || [];
+  }
+
+  getSeriesLimits() {
+    const { maxSeries = 30, maxSeasons = 20 } = this.profile.series || {};
+    return { maxSeries, maxSeasons };
+  }
+}
+
+module.exports = SiteAdapter;
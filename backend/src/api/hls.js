@@ -0,0 +1,155 @@
+const express = require('express');
+const catalogService = require('../services/catalogService');
+const remuxService = require('../services/remuxService');
+const hlsService = require('../services/hlsService');
+
+const router = express.Router();
+
+const PLAYLIST_TYPE = 'application/vnd.apple.mpegurl';
+
+/**
+ * Looks up a movie's source, probes it and finds its segment boundaries. Fails with a `status` that the
+ * route sends back.
+ */
+async function resolveSource(movieId, sourceIndex) {
+  const movie = catalogService.getMovieById(movieId);
+  if (!movie) {
+    throw Object.assign(new Error(`Movie with ID ${movieId} does not exist`), { status: 404 });
+  }
+
+  const source = movie.downloadUrls?.[parseInt(sourceIndex)];
+  if (!source) {
+    throw Object.assign(new Error(`Movie ${movieId} has no source ${sourceIndex}`), { status: 404 });
+  }
+
+  const info = await remuxService.probe(source.url);
+  if (!info.duration) {
+    throw Object.assign(new Error('The file duration is unknown'), { status: 422 });
+  }
+
+  const plan = await hlsService.getSegmentPlan(source.url, info);
+  return { url: source.url, info, plan };
+}
+
+function getErrorStatus(error) {
+  if (error.status) return error.status;
+  if (error.code === 'SEGMENT_NOT_FOUND') return 404;
+  if (error.code === 'UNSUPPORTED_CODEC') return 415;
+  if (error.code === 'URL_NOT_ALLOWED') return 403;
+  if (error.code === 'HLS_BUSY') return 503;
+  return 500;
+}
+
+function sendPlaylist(res, playlist) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Content-Type', PLAYLIST_TYPE);
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.send(playlist);
+}
+
+async function sendSegment(req, res, options) {
+  try {
+    const { url, info, plan } = await resolveSource(req.params.movieId, req.params.sourceIndex);
+    const file = await hlsService.getSegment(url, info, plan, {
+      ...options,
+      segment: parseInt(req.params.segment)
+    });
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    res.type('video/mp2t');
+    res.sendFile(file);
+  } catch (error) {
+    console.error('HLS segment error:', error.message);
+    res.status(getErrorStatus(error)).json({
+      error: 'Failed to package segment',
+      details: error.message
+    });
+  }
+}
+
+/**
+ * GET /proxy/hls/:movieId/:sourceIndex/master.m3u8
+ * Master playlist with the video rendition and one rendition per audio track
+ */
+router.get('/hls/:movieId/:sourceIndex/master.m3u8', async (req, res) => {
+  try {
+    const { info } = await resolveSource(req.params.movieId, req.params.sourceIndex);
+
+    if (!info.remuxable) {
+      return res.status(415).json({
+        error: 'Failed to package video',
+        details: `Video codec ${info.video?.codec || 'unknown'} can't be packaged without transcoding`
+      });
+    }
+
+    sendPlaylist(res, hlsService.buildMasterPlaylist(info));
+  } catch (error) {
+    console.error('HLS playlist error:', error.message);
+    res.status(getErrorStatus(error)).json({
+      error: 'Failed to build playlist',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /proxy/hls/:movieId/:sourceIndex/video.m3u8
+ * Video media playlist
+ */
+router.get('/hls/:movieId/:sourceIndex/video.m3u8', async (req, res) => {
+  try {
+    const { plan } = await resolveSource(req.params.movieId, req.params.sourceIndex);
+    sendPlaylist(res, hlsService.buildMediaPlaylist(plan, 'video/'));
+  } catch (error) {
+    console.error('HLS playlist error:', error.message);
+    res.status(getErrorStatus(error)).json({
+      error: 'Failed to build playlist',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /proxy/hls/:movieId/:sourceIndex/audio/:track.m3u8
+ * Media playlist for one audio track
+ */
+router.get('/hls/:movieId/:sourceIndex/audio/:track.m3u8', async (req, res) => {
+  try {
+    const { info, plan } = await resolveSource(req.params.movieId, req.params.sourceIndex);
+    const track = parseInt(req.params.track);
+
+    if (!info.audio[track]) {
+      return res.status(404).json({
+        error: 'Failed to build playlist',
+        details: `Audio track ${req.params.track} doesn't exist`
+      });
+    }
+
+    sendPlaylist(res, hlsService.buildMediaPlaylist(plan, `${track}/`));
+  } catch (error) {
+    console.error('HLS playlist error:', error.message);
+    res.status(getErrorStatus(error)).json({
+      error: 'Failed to build playlist',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /proxy/hls/:movieId/:sourceIndex/video/:segment.ts
+ * A video segment, cut on first request and cached on disk
+ */
+router.get('/hls/:movieId/:sourceIndex/video/:segment.ts', (req, res) => {
+  return sendSegment(req, res, { type: 'video' });
+});
+
+/**
+ * GET /proxy/hls/:movieId/:sourceIndex/audio/:track/:segment.ts
+ * An audio segment, copied or encoded to AAC on first request and cached on disk
+ */
+router.get('/hls/:movieId/:sourceIndex/audio/:track/:segment.ts', (req, res) => {
+  return sendSegment(req, res, { type: 'audio', audioTrack: parseInt(req.params.track) });
+});
+
+module.exports = router;
@@ -1,25 +1,41 @@
 const express = require('express');
 const scraperService = require('../services/scraperService');
+const catalogService = require('../services/catalogService');
+const runHistoryService = require('../services/runHistoryService');
 const authService = require('../services/authService');
 const mockDataService = require('../services/mockDataService');
+const movieListingService = require('../services/movieListingService');
+const searchService = require('../services/searchService');
 
 const router = express.Router();
 
 /**
  * GET /api/movies
- * Returns all scraped movies as JSON array
+ * Returns the catalog, filtered and sorted by the query string:
+ *   sort=title|year|added|rating|size, order=asc|desc,
+ *   year, yearFrom, yearTo, language, genre, quality, format, minRating, ids
+ * Pass page and pageSize, or the cursor from the previous page, to get one
+ * page at a time; without them every matching movie is returned.
  */
 router.get('/movies', async (req, res) => {
   try {
-    const movies = scraperService.getMovies();
-    const lastScrapeTime = scraperService.getLastScrapeTime();
-    
+    const options = movieListingService.parseQuery(req.query);
+    if (options.error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid listing parameters',
+        message: options.error
+      });
+    }
+
+    const { movies, meta } = movieListingService.list(catalogService.getMovies(), options);
+
     res.json({
       success: true,
       data: movies,
       meta: {
-        total: movies.length,
-        lastUpdated: lastScrapeTime,
+        ...meta,
+        lastUpdated: catalogService.getLastScrapeTime(),
         isAuthenticated: authService.isAuthenticated
       }
     });
@@ -39,7 +55,7 @@ router.get('/movies', async (req, res) => {
  */
 router.get('/movies/debug', (req, res) => {
   try {
-    const movies = scraperService.getMovies();
+    const movies = catalogService.getMovies();
 
     // Get sample of movies with and without video
     const moviesWithVideo = movies.filter(movie => movie.downloadUrls && movie.downloadUrls.length > 0);
@@ -86,13 +102,12 @@ router.get('/movies/debug', (req, res) => {
 
 /**
  * GET /api/movies/:id
- * Returns a specific movie by ID
+ * Returns a specific movie by ID, resolving IDs retired by earlier scrapes
  */
 router.get('/movies/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const movies = scraperService.getMovies();
-    const movie = movies.find(m => m.id === id);
+    const movie = catalogService.getMovieById(id);
 
     if (!movie) {
       return res.status(404).json({
@@ -103,7 +118,13 @@ router.get('/movies/:id', async (req, res) => {
 
     res.json({
       success: true,
-      data: movie
+      data: movie,
+      ...(movie.id !== id && {
+        meta: {
+          requestedId: id,
+          canonicalId: movie.id
+        }
+      })
     });
   } catch (error) {
     console.error('Error fetching movie:', error.message);
@@ -118,11 +139,13 @@ router.get('/movies/:id', async (req, res) => {
 /**
  * POST /api/movies/refresh
  * Manually trigger a refresh of the movies list
+ * Pass ?full=true to re-enrich every movie instead of only new or changed ones
  */
 router.post('/movies/refresh', async (req, res) => {
   try {
-    console.log('Manual refresh triggered');
-    const movies = await scraperService.scrapeMovies();
+    const full = req.query.full === 'true';
+    console.log(`Manual ${full ? 'full' : 'incremental'} refresh triggered`);
+    const movies = await scraperService.scrapeMovies({ full, trigger: 'manual' });
 
     res.json({
       success: true,
@@ -130,7 +153,8 @@ router.post('/movies/refresh', async (req, res) => {
       data: movies,
       meta: {
         total: movies.length,
-        lastUpdated: scraperService.getLastScrapeTime()
+        lastUpdated: catalogService.getLastScrapeTime(),
+        run: runHistoryService.getLastRun('scrape')
       }
     });
   } catch (error) {
@@ -150,8 +174,7 @@ router.post('/movies/refresh', async (req, res) => {
 router.post('/movies/enrich/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const movies = scraperService.getMovies();
-    const movie = movies.find(m => m.id === id);
+    const movie = catalogService.getMovieById(id);
 
     if (!movie) {
       return res.status(404).json({
@@ -168,7 +191,15 @@ router.post('/movies/enrich/:id', async (req, res) => {
     const client = authService.getClient();
 
     // Enrich the movie data
-    await scraperService.enrichMovieData(client, movie);
+    const run = runHistoryService.startRun('enrich', { trigger: 'manual' });
+    await scraperService.enrichMovieData(client, movie, run);
+    await catalogService.save();
+    searchService.rebuild(catalogService.getMovies());
+    await runHistoryService.finishRun(run, {
+      moviesFound: 1,
+      enriched: 1,
+      changed: [{ id: movie.id, title: movie.title, year: movie.year || '' }]
+    });
 
     res.json({
       success: true,
@@ -196,7 +227,7 @@ router.post('/movies/enrich-all', async (req, res) => {
   try {
     console.log('Manual enrichment triggered for all movies without video content');
 
-    const movies = scraperService.getMovies();
+    const movies = catalogService.getMovies();
     const moviesWithoutVideo = movies.filter(movie => !movie.downloadUrls || movie.downloadUrls.length === 0);
 
     console.log(`Found ${moviesWithoutVideo.length} movies without video content out of ${movies.length} total movies`);
@@ -220,6 +251,7 @@ router.post('/movies/enrich-all', async (req, res) => {
 
     let enrichedCount = 0;
     let errorCount = 0;
+    const run = runHistoryService.startRun('enrich', { trigger: 'manual' });
 
     // Process movies in batches to avoid overwhelming the server
     const batchSize = 5;
@@ -229,12 +261,14 @@ router.post('/movies/enrich-all', async (req, res) => {
       await Promise.all(batch.map(async (movie) => {
         try {
           console.log(`Enriching movie ${i + batch.indexOf(movie) + 1}/${moviesWithoutVideo.length}: ${movie.title}`);
-          await scraperService.enrichMovieData(client, movie);
+          await scraperService.enrichMovieData(client, movie, run);
           if (movie.downloadUrls && movie.downloadUrls.length > 0) {
             enrichedCount++;
+            run.changed.push({ id: movie.id, title: movie.title, year: movie.year || '' });
           }
         } catch (error) {
           console.error(`Error enriching movie ${movie.title}:`, error.message);
+          runHistoryService.recordError(run, `enrich ${movie.id}`, error);
           errorCount++;
         }
       }));
@@ -245,6 +279,13 @@ router.post('/movies/enrich-all', async (req, res) => {
       }
     }
 
+    await catalogService.save();
+    searchService.rebuild(catalogService.getMovies());
+    await runHistoryService.finishRun(run, {
+      moviesFound: moviesWithoutVideo.length,
+      enriched: moviesWithoutVideo.length
+    });
+
     const finalMoviesWithVideo = movies.filter(movie => movie.downloadUrls && movie.downloadUrls.length > 0).length;
 
     res.json({
@@ -269,68 +310,14 @@ router.post('/movies/enrich-all', async (req, res) => {
   }
 });
 
-
-
-/**
- * GET /api/movies/search
- * Search movies by title, year, language, etc.
- */
-router.get('/movies/search', async (req, res) => {
-  try {
-    const { q, year, language, quality } = req.query;
-    let movies = scraperService.getMovies();
-    
-    if (q) {
-      const searchTerm = q.toLowerCase();
-      movies = movies.filter(movie =>
-        movie.title.toLowerCase().includes(searchTerm) ||
-        (movie.description && movie.description.toLowerCase().includes(searchTerm)) ||
-        (movie.genres && movie.genres.some(genre => genre.toLowerCase().includes(searchTerm)))
-      );
-    }
-    
-    if (year) {
-      movies = movies.filter(movie => movie.year === year);
-    }
-    
-    if (language) {
-      movies = movies.filter(movie => 
-        movie.language.toLowerCase() === language.toLowerCase()
-      );
-    }
-    
-    if (quality) {
-      movies = movies.filter(movie => 
-        movie.quality.toLowerCase().includes(quality.toLowerCase())
-      );
-    }
-    
-    res.json({
-      success: true,
-      data: movies,
-      meta: {
-        total: movies.length,
-        query: { q, year, language, quality }
-      }
-    });
-  } catch (error) {
-    console.error('Error searching movies:', error.message);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to search movies',
-      message: error.message
-    });
-  }
-});
-
 /**
  * GET /api/status
  * Returns API status and authentication info
  */
 router.get('/status', async (req, res) => {
   try {
-    const movies = scraperService.getMovies();
-    const lastScrapeTime = scraperService.getLastScrapeTime();
+    const movies = catalogService.getMovies();
+    const lastScrapeTime = catalogService.getLastScrapeTime();
     const mockMovies = mockDataService.getMovies();
 
     // Check if we're using mock data by comparing movie IDs
@@ -343,12 +330,17 @@ router.get('/status', async (req, res) => {
         isAuthenticated: authService.isAuthenticated,
         lastAuthTime: authService.lastAuthTime,
         moviesCount: movies.length,
+        seriesCount: catalogService.getSeries().length,
         lastScrapeTime: lastScrapeTime,
         uptime: process.uptime(),
         version: require('../../package.json').version,
         usingMockData: usingMockData,
         mockDataAvailable: mockMovies.length,
-        dataSource: usingMockData ? 'Mock Data (Site Unreachable)' : 'Live Discovery FTP Site'
+        dataSource: usingMockData ? 'Mock Data (Site Unreachable)' : 'Live Discovery FTP Site',
+        storage: catalogService.getStatus(),
+        lastScrapeRun: runHistoryService.getLastRun('scrape'),
+        lastEnrichRun: runHistoryService.getLastRun('enrich'),
+        lastSeriesRun: runHistoryService.getLastRun('series')
       }
     });
   } catch (error) {
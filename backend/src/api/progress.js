@@ -0,0 +1,112 @@
+const express = require('express');
+const progressService = require('../services/progressService');
+
+const router = express.Router();
+
+/**
+ * GET /api/progress
+ * Returns watch progress entries, newest first. Signed-in users get their
+ * own; everyone else shares one set.
+ * Optional query: limit=N
+ */
+router.get('/progress', (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit) || undefined;
+    const entries = progressService.getAll({ limit, userId: req.user?.id ?? null });
+
+    res.json({
+      success: true,
+      data: entries,
+      meta: {
+        total: entries.length
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching watch progress:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch watch progress',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/progress/:movieId
+ * Returns the progress of every source of a movie, newest first
+ */
+router.get('/progress/:movieId', (req, res) => {
+  try {
+    const entries = progressService.getForMovie(req.params.movieId, req.user?.id ?? null);
+
+    res.json({
+      success: true,
+      data: entries,
+      meta: {
+        total: entries.length
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching watch progress:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch watch progress',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/progress/:movieId
+ * Saves the position of one source of a movie
+ * Body: { sourceUrl, position, duration?, updatedAt? } with times in seconds
+ */
+router.put('/progress/:movieId', async (req, res) => {
+  try {
+    const invalid = progressService.validate(req.body);
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        error: invalid
+      });
+    }
+
+    const entry = await progressService.record(req.params.movieId, req.body, req.user?.id ?? null);
+
+    res.json({
+      success: true,
+      data: entry
+    });
+  } catch (error) {
+    console.error('Error saving watch progress:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save watch progress',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/progress/:movieId
+ * Forgets the progress of every source of a movie
+ */
+router.delete('/progress/:movieId', async (req, res) => {
+  try {
+    const removed = await progressService.remove(req.params.movieId, req.user?.id ?? null);
+
+    res.json({
+      success: true,
+      data: { removed }
+    });
+  } catch (error) {
+    console.error('Error removing watch progress:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove watch progress',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,113 @@
+const express = require('express');
+const runHistoryService = require('../services/runHistoryService');
+
+const router = express.Router();
+
+/**
+ * GET /api/scrape/runs
+ * Returns scrape and enrich run records, newest first
+ * Optional query: type=scrape|enrich|series, limit=N, offset=N
+ */
+router.get('/scrape/runs', (req, res) => {
+  try {
+    const { type } = req.query;
+    const limit = Math.max(parseInt(req.query.limit) || 0, 0) || undefined;
+    const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+    const runs = runHistoryService.getRuns({ type, limit, offset });
+
+    res.json({
+      success: true,
+      data: runs,
+      meta: {
+        total: runHistoryService.countRuns(type),
+        offset,
+        limit: limit || null
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching scrape runs:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch scrape runs',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/scrape/runs/:id
+ * Returns a single run record including its errors
+ */
+router.get('/scrape/runs/:id', (req, res) => {
+  try {
+    const run = runHistoryService.getRun(req.params.id);
+
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: 'Run not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...runHistoryService.summarizeRun(run),
+        errors: run.errors
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching scrape run:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch scrape run',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/scrape/runs/:id/diff
+ * Returns the movies a run added, removed and changed
+ */
+router.get('/scrape/runs/:id/diff', (req, res) => {
+  try {
+    const run = runHistoryService.getRun(req.params.id);
+
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: 'Run not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        added: run.added,
+        removed: run.removed,
+        changed: run.changed
+      },
+      meta: {
+        runId: run.id,
+        type: run.type,
+        status: run.status,
+        startedAt: run.startedAt,
+        endedAt: run.endedAt,
+        moviesFound: run.moviesFound,
+        added: run.added.length,
+        removed: run.removed.length,
+        changed: run.changed.length
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching scrape run diff:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch scrape run diff',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,101 @@
+const express = require('express');
+const catalogService = require('../services/catalogService');
+const movieListingService = require('../services/movieListingService');
+const searchService = require('../services/searchService');
+
+const router = express.Router();
+
+const DEFAULT_SUGGESTIONS = 8;
+const MAX_SUGGESTIONS = 20;
+
+/**
+ * GET /api/search?q=
+ * Ranked full-text search over titles, years, genres, languages, qualities
+ * and descriptions, tolerating typos and spelling variations. Takes the
+ * filters, sorts and paging of GET /api/movies; results are sorted by
+ * relevance unless another sort is asked for. Without q the whole catalog
+ * is listed. meta.facets counts the matches by language, year, decade,
+ * quality, genre, format and hasSubtitles; pass facets=false to leave it out.
+ */
+router.get('/search', (req, res) => {
+  try {
+    const q = String(req.query.q || '').trim();
+    const options = movieListingService.parseQuery(req.query, { relevance: Boolean(q) });
+    if (options.error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid search parameters',
+        message: options.error
+      });
+    }
+
+    const matches = q
+      ? searchService.search(q).map(result => result.movie)
+      : catalogService.getMovies();
+    const { movies, meta } = movieListingService.list(matches, options, { facets: req.query.facets !== 'false' });
+
+    res.json({
+      success: true,
+      data: movies,
+      meta: {
+        ...meta,
+        query: q,
+        lastUpdated: catalogService.getLastScrapeTime()
+      }
+    });
+  } catch (error) {
+    console.error('Error searching movies:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search movies',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/suggest?q=
+ * The titles best matching what has been typed so far, for search-as-you-type.
+ * Returns only what a suggestion list shows: ID, title, year and poster.
+ * Optional query: limit=N (default 8, at most 20; 400 when not a positive number)
+ */
+router.get('/suggest', (req, res) => {
+  try {
+    const q = String(req.query.q || '').trim();
+    const limit = req.query.limit === undefined ? DEFAULT_SUGGESTIONS : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid suggestion parameters',
+        message: 'limit must be a positive whole number'
+      });
+    }
+
+    const suggestions = q
+      ? searchService.search(q, { limit: Math.min(limit, MAX_SUGGESTIONS), titlesOnly: true }).map(({ movie }) => ({
+        id: movie.id,
+        title: movie.title,
+        year: movie.year || null,
+        poster: movie.poster || null
+      }))
+      : [];
+
+    res.json({
+      success: true,
+      data: suggestions,
+      meta: {
+        total: suggestions.length,
+        query: q
+      }
+    });
+  } catch (error) {
+    console.error('Error suggesting movies:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to suggest movies',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,171 @@
+const express = require('express');
+const seriesScraperService = require('../services/seriesScraperService');
+const catalogService = require('../services/catalogService');
+const runHistoryService = require('../services/runHistoryService');
+
+const router = express.Router();
+
+/**
+ * Replaces the episode lists of a series with per-season episode counts
+ */
+function summarizeSeries(series) {
+  return {
+    ...series,
+    seasons: series.seasons.map(({ episodes, ...season }) => ({
+      ...season,
+      episodeCount: episodes.length
+    }))
+  };
+}
+
+/**
+ * GET /api/series
+ * Returns all scraped series, with episode counts instead of episode lists
+ */
+router.get('/series', (req, res) => {
+  try {
+    const series = catalogService.getSeries();
+
+    res.json({
+      success: true,
+      data: series.map(summarizeSeries),
+      meta: {
+        total: series.length,
+        lastRun: runHistoryService.getLastRun('series')
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching series:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch series',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/series/refresh
+ * Manually trigger a series scrape
+ */
+router.post('/series/refresh', async (req, res) => {
+  try {
+    console.log('Manual series refresh triggered');
+    const series = await seriesScraperService.scrapeSeries({ trigger: 'manual' });
+
+    res.json({
+      success: true,
+      message: 'Series refreshed successfully',
+      data: series.map(summarizeSeries),
+      meta: {
+        total: series.length,
+        run: runHistoryService.getLastRun('series')
+      }
+    });
+  } catch (error) {
+    console.error('Error refreshing series:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refresh series',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/series/:id
+ * Returns a series with all seasons and episodes
+ */
+router.get('/series/:id', (req, res) => {
+  try {
+    const series = catalogService.getSeriesById(req.params.id);
+
+    if (!series) {
+      return res.status(404).json({
+        success: false,
+        error: 'Series not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: series
+    });
+  } catch (error) {
+    console.error('Error fetching series:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch series',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/series/:id/seasons/:seasonNumber
+ * Returns one season of a series with its episodes
+ */
+router.get('/series/:id/seasons/:seasonNumber', (req, res) => {
+  try {
+    const series = catalogService.getSeriesById(req.params.id);
+    const seasonNumber = parseInt(req.params.seasonNumber, 10);
+    const season = series && series.seasons.find(s => s.seasonNumber === seasonNumber);
+
+    if (!season) {
+      return res.status(404).json({
+        success: false,
+        error: series ? 'Season not found' : 'Series not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: season
+    });
+  } catch (error) {
+    console.error('Error fetching season:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch season',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/series/:id/episodes/:episodeId
+ * Returns an episode, with the IDs of the episodes before and after it
+ */
+router.get('/series/:id/episodes/:episodeId', (req, res) => {
+  try {
+    const series = catalogService.getSeriesById(req.params.id);
+    const episode = series && seriesScraperService.findEpisode(series, req.params.episodeId);
+
+    if (!episode) {
+      return res.status(404).json({
+        success: false,
+        error: series ? 'Episode not found' : 'Series not found'
+      });
+    }
+
+    const { previous, next } = seriesScraperService.getAdjacentEpisodes(series, episode.id);
+
+    res.json({
+      success: true,
+      data: episode,
+      meta: {
+        previousEpisodeId: previous ? previous.id : null,
+        nextEpisodeId: next ? next.id : null
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching episode:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch episode',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
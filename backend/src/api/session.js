@@ -0,0 +1,83 @@
+const config = require('../config');
+const userService = require('../services/userService');
+
+/**
+ * Reads the session token from an `Authorization: Bearer` header, or from the
+ * session cookie set at sign-in
+ */
+function getSessionToken(req) {
+  const authorization = req.headers.authorization || '';
+  if (authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const cookies = (req.headers.cookie || '').split(';');
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === config.users.cookieName) {
+      try {
+        return decodeURIComponent(value.join('='));
+      } catch (error) {
+        // A malformed cookie is no session rather than a failed request
+        return null;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sets req.user to the signed-in user, or null; never rejects a request
+ */
+function attachUser(req, res, next) {
+  req.sessionToken = getSessionToken(req);
+  req.user = userService.findBySession(req.sessionToken);
+  next();
+}
+
+/**
+ * Rejects requests without a valid session
+ */
+function requireUser(req, res, next) {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Sign in required'
+    });
+  }
+  next();
+}
+
+/**
+ * The frontend is served from another site in production, so the cookie has
+ * to be SameSite=None there, which browsers only accept over HTTPS
+ */
+function getCookieOptions() {
+  const production = config.server.nodeEnv === 'production';
+
+  return {
+    httpOnly: true,
+    secure: production,
+    sameSite: production ? 'none' : 'lax',
+    path: '/'
+  };
+}
+
+function setSessionCookie(res, token) {
+  res.cookie(config.users.cookieName, token, {
+    ...getCookieOptions(),
+    maxAge: config.users.sessionDays * 24 * 60 * 60 * 1000
+  });
+}
+
+function clearSessionCookie(res) {
+  res.clearCookie(config.users.cookieName, getCookieOptions());
+}
+
+module.exports = {
+  attachUser,
+  requireUser,
+  setSessionCookie,
+  clearSessionCookie
+};
@@ -0,0 +1,84 @@
+const express = require('express');
+const remuxService = require('../services/remuxService');
+const subtitleService = require('../services/subtitleService');
+
+const router = express.Router();
+
+const CONTENT_TYPES = {
+  vtt: 'text/vtt; charset=utf-8',
+  ass: 'text/x-ssa; charset=utf-8'
+};
+
+function getErrorStatus(error) {
+  if (error.code === 'TRACK_NOT_FOUND') return 404;
+  if (error.code === 'UNSUPPORTED_FORMAT') return 400;
+  if (error.code === 'BITMAP_SUBTITLE') return 415;
+  return 500;
+}
+
+/**
+ * Checks the url query parameter; sends the error response and returns null when invalid
+ */
+function getSourceUrl(req, res) {
+  const { url } = req.query;
+
+  if (!url) {
+    res.status(400).json({ error: 'URL parameter is required' });
+    return null;
+  }
+  if (!remuxService.isAllowedUrl(url)) {
+    res.status(403).json({ error: 'Only Discovery FTP URLs are allowed' });
+    return null;
+  }
+
+  return url;
+}
+
+/**
+ * GET /proxy/subtitles?url=
+ * Lists the subtitle tracks embedded in a file
+ */
+router.get('/subtitles', async (req, res) => {
+  try {
+    const url = getSourceUrl(req, res);
+    if (!url) return;
+
+    const tracks = await subtitleService.getTracks(url);
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.json({ success: true, data: tracks });
+  } catch (error) {
+    console.error('Subtitle list error:', error.message);
+    res.status(500).json({
+      error: 'Failed to list subtitles',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /proxy/subtitles/:track?url=&format=vtt&offset=0
+ * Extracts a subtitle track as WebVTT or ASS, shifted by `offset` seconds
+ */
+router.get('/subtitles/:track', async (req, res) => {
+  try {
+    const url = getSourceUrl(req, res);
+    if (!url) return;
+
+    const format = req.query.format || 'vtt';
+    const offset = parseFloat(req.query.offset) || 0;
+    const content = await subtitleService.getSubtitle(url, parseInt(req.params.track), format);
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    res.send(format === 'ass' ? subtitleService.shiftAss(content, offset) : subtitleService.shiftWebVtt(content, offset));
+  } catch (error) {
+    console.error('Subtitle extraction error:', error.message);
+    res.status(getErrorStatus(error)).json({
+      error: 'Failed to extract subtitles',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
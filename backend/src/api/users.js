@@ -0,0 +1,247 @@
+const express = require('express');
+const userService = require('../services/userService');
+const progressService = require('../services/progressService');
+const catalogService = require('../services/catalogService');
+const { requireUser, setSessionCookie, clearSessionCookie } = require('./session');
+
+const router = express.Router();
+
+function getErrorStatus(error) {
+  if (error.code === 'INVALID_CREDENTIALS') return 401;
+  if (error.code === 'REGISTRATION_CLOSED') return 403;
+  if (error.code === 'USERNAME_TAKEN') return 409;
+  if (error.code === 'TOO_MANY_ATTEMPTS') return 429;
+  if (error.code === 'INVALID_PREFERENCES' || error.code === 'WATCHLIST_FULL') return 400;
+  return 500;
+}
+
+function sendError(res, message, error) {
+  const status = getErrorStatus(error);
+  if (status === 500) {
+    console.error(`${message}:`, error.message);
+  }
+
+  res.status(status).json({
+    success: false,
+    error: status === 500 ? message : error.message,
+    ...(status === 500 && { message: error.message })
+  });
+}
+
+/**
+ * Watchlist items with the movie each one points at, null once it has left the catalog
+ */
+function withMovies(watchlist) {
+  return watchlist.map(item => ({
+    ...item,
+    movie: catalogService.getMovieById(item.movieId)
+  }));
+}
+
+/**
+ * POST /api/users/register
+ * Creates an account and signs it in
+ * Body: { username, password }
+ */
+router.post('/users/register', async (req, res) => {
+  try {
+    const invalid = userService.validateCredentials(req.body);
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        error: invalid
+      });
+    }
+
+    const { user, token } = await userService.register(req.body);
+    setSessionCookie(res, token);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        user: userService.toPublic(user),
+        token
+      }
+    });
+  } catch (error) {
+    sendError(res, 'Failed to register', error);
+  }
+});
+
+/**
+ * POST /api/users/login
+ * Opens a session, returned both as a cookie and as a token for the
+ * Authorization header. Answers 429 after too many failed attempts.
+ * Body: { username, password }
+ */
+router.post('/users/login', async (req, res) => {
+  try {
+    const { user, token } = await userService.login(req.body || {}, { ip: req.ip });
+    setSessionCookie(res, token);
+
+    res.json({
+      success: true,
+      data: {
+        user: userService.toPublic(user),
+        token
+      }
+    });
+  } catch (error) {
+    if (error.retryAfter) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+    }
+    sendError(res, 'Failed to sign in', error);
+  }
+});
+
+/**
+ * POST /api/users/logout
+ * Ends the current session
+ */
+router.post('/users/logout', async (req, res) => {
+  try {
+    await userService.logout(req.sessionToken);
+    clearSessionCookie(res);
+
+    res.json({
+      success: true
+    });
+  } catch (error) {
+    sendError(res, 'Failed to sign out', error);
+  }
+});
+
+/**
+ * GET /api/users/me
+ * Returns the signed-in user with their preferences
+ */
+router.get('/users/me', requireUser, (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      ...userService.toPublic(req.user),
+      preferences: req.user.preferences
+    }
+  });
+});
+
+/**
+ * GET /api/users/me/preferences
+ * Returns the signed-in user's preferences
+ */
+router.get('/users/me/preferences', requireUser, (req, res) => {
+  res.json({
+    success: true,
+    data: req.user.preferences
+  });
+});
+
+/**
+ * PATCH /api/users/me/preferences
+ * Merges keys into the preferences; a null value removes a key
+ */
+router.patch('/users/me/preferences', requireUser, async (req, res) => {
+  try {
+    const preferences = await userService.updatePreferences(req.user, req.body);
+
+    res.json({
+      success: true,
+      data: preferences
+    });
+  } catch (error) {
+    sendError(res, 'Failed to save preferences', error);
+  }
+});
+
+/**
+ * GET /api/users/me/watchlist
+ * Returns the watchlist, most recently added first
+ */
+router.get('/users/me/watchlist', requireUser, (req, res) => {
+  res.json({
+    success: true,
+    data: withMovies(req.user.watchlist),
+    meta: {
+      total: req.user.watchlist.length
+    }
+  });
+});
+
+/**
+ * PUT /api/users/me/watchlist/:movieId
+ * Adds a movie to the watchlist
+ */
+router.put('/users/me/watchlist/:movieId', requireUser, async (req, res) => {
+  try {
+    const movie = catalogService.getMovieById(req.params.movieId);
+    if (!movie) {
+      return res.status(404).json({
+        success: false,
+        error: 'Movie not found'
+      });
+    }
+
+    const watchlist = await userService.addToWatchlist(req.user, movie.id);
+
+    res.json({
+      success: true,
+      data: withMovies(watchlist)
+    });
+  } catch (error) {
+    sendError(res, 'Failed to update the watchlist', error);
+  }
+});
+
+/**
+ * DELETE /api/users/me/watchlist/:movieId
+ * Removes a movie from the watchlist
+ */
+router.delete('/users/me/watchlist/:movieId', requireUser, async (req, res) => {
+  try {
+    const watchlist = await userService.removeFromWatchlist(req.user, req.params.movieId);
+
+    res.json({
+      success: true,
+      data: withMovies(watchlist)
+    });
+  } catch (error) {
+    sendError(res, 'Failed to update the watchlist', error);
+  }
+});
+
+/**
+ * GET /api/users/me/history
+ * Returns the signed-in user's watch progress, newest first
+ * Optional query: limit=N
+ */
+router.get('/users/me/history', requireUser, (req, res) => {
+  const limit = parseInt(req.query.limit) || undefined;
+  const entries = progressService.getAll({ limit, userId: req.user.id });
+
+  res.json({
+    success: true,
+    data: entries,
+    meta: {
+      total: entries.length
+    }
+  });
+});
+
+/**
+ * DELETE /api/users/me/history
+ * Clears the signed-in user's watch progress
+ */
+router.delete('/users/me/history', requireUser, async (req, res) => {
+  try {
+    const removed = await progressService.remove(null, req.user.id);
+
+    res.json({
+      success: true,
+      data: { removed }
+    });
+  } catch (error) {
+    sendError(res, 'Failed to clear the watch history', error);
+  }
+});
+
+module.exports = router;
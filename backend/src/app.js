@@ -4,9 +4,25 @@ const helmet = require('helmet');
 const morgan = require('morgan');
 const config = require('./config');
 const moviesRouter = require('./api/movies');
+const scrapeRouter = require('./api/scrape');
+const seriesRouter = require('./api/series');
+const hlsRouter = require('./api/hls');
+const subtitlesRouter = require('./api/subtitles');
+const progressRouter = require('./api/progress');
+const usersRouter = require('./api/users');
+const searchRouter = require('./api/search');
+const { attachUser } = require('./api/session');
 const scheduler = require('./jobs/scheduler');
+const catalogService = require('./services/catalogService');
+const runHistoryService = require('./services/runHistoryService');
+const progressService = require('./services/progressService');
+const userService = require('./services/userService');
+const remuxService = require('./services/remuxService');
+const hlsService = require('./services/hlsService');
+const subtitleService = require('./services/subtitleService');
 
 const app = express();
+app.set('trust proxy', config.server.trustProxy);
 
 // Security middleware
 app.use(helmet({
@@ -42,7 +58,7 @@ const getAllowedOrigins = () => {
 app.use(cors({
   origin: getAllowedOrigins(),
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'HEAD'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Range'],
   exposedHeaders: ['Content-Length', 'Content-Range', 'Accept-Ranges']
 }));
@@ -126,6 +142,79 @@ app.get('/proxy/video', async (req, res) => {
   }
 });
 
+// Remux info: duration and what the remux does to each stream
+app.get('/proxy/remux/info', async (req, res) => {
+  try {
+    const { url } = req.query;
+
+    if (!url) {
+      return res.status(400).json({ error: 'URL parameter is required' });
+    }
+    if (!remuxService.isAllowedUrl(url)) {
+      return res.status(403).json({ error: 'Only Discovery FTP URLs are allowed' });
+    }
+
+    const info = await remuxService.probe(url);
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.json({ success: true, data: info });
+
+  } catch (error) {
+    console.error('Remux info error:', error.message);
+    res.status(500).json({
+      error: 'Failed to probe video',
+      details: error.message
+    });
+  }
+});
+
+// Remux endpoint: streams an MKV as fragmented MP4, starting at ?t=<seconds>
+app.get('/proxy/remux', async (req, res) => {
+  try {
+    const { url } = req.query;
+    const start = Math.max(parseFloat(req.query.t) || 0, 0);
+    const audioTrack = Math.max(parseInt(req.query.audioTrack) || 0, 0);
+
+    if (!url) {
+      return res.status(400).json({ error: 'URL parameter is required' });
+    }
+    if (!remuxService.isAllowedUrl(url)) {
+      return res.status(403).json({ error: 'Only Discovery FTP URLs are allowed' });
+    }
+
+    const { process: ffmpeg, info } = await remuxService.startRemux(url, { start, audioTrack });
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Expose-Headers', 'X-Remux-Start, X-Remux-Duration');
+    res.setHeader('Content-Type', 'video/mp4');
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('X-Remux-Start', String(start));
+    if (info.duration !== null) {
+      res.setHeader('X-Remux-Duration', String(info.duration));
+    }
+
+    // Stop ffmpeg as soon as the player goes away (seeking opens a new request)
+    res.on('close', () => ffmpeg.kill('SIGKILL'));
+    ffmpeg.on('error', (error) => {
+      if (!res.headersSent) {
+        res.removeHeader('Content-Type');
+        res.status(500).json({ error: 'Failed to start ffmpeg', details: error.message });
+      } else {
+        res.end();
+      }
+    });
+
+    ffmpeg.stdout.pipe(res);
+
+  } catch (error) {
+    console.error('Remux error:', error.message);
+    const status = error.code === 'REMUX_BUSY' ? 503 : error.code === 'UNSUPPORTED_CODEC' ? 415 : 500;
+    res.status(status).json({
+      error: 'Failed to remux video',
+      details: error.message
+    });
+  }
+});
+
 // Handle OPTIONS requests for poster proxy
 app.options('/proxy/poster', (req, res) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
@@ -243,7 +332,16 @@ app.get('/health', (req, res) => {
 });
 
 // API routes
+// Signed-in users get their own progress, watchlist and preferences
+app.use('/api', attachUser);
 app.use('/api', moviesRouter);
+app.use('/api', scrapeRouter);
+app.use('/api', seriesRouter);
+app.use('/api', progressRouter);
+app.use('/api', usersRouter);
+app.use('/api', searchRouter);
+app.use('/proxy', hlsRouter);
+app.use('/proxy', subtitlesRouter);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -252,9 +350,14 @@ app.get('/', (req, res) => {
     version: require('../package.json').version,
     endpoints: {
       movies: '/api/movies',
-      search: '/api/movies/search',
+      search: '/api/search',
+      suggest: '/api/suggest',
       refresh: '/api/movies/refresh',
+      series: '/api/series',
       status: '/api/status',
+      scrapeRuns: '/api/scrape/runs',
+      progress: '/api/progress',
+      users: '/api/users/me',
       health: '/health'
     },
     documentation: 'https://github.com/yourusername/discovery-ftp-scraper'
@@ -289,14 +392,22 @@ const gracefulShutdown = (signal) => {
   
   // Stop the scheduler
   scheduler.stop();
+
+  // Stop running remuxes, audio encodes and subtitle extractions so the server can close its connections
+  remuxService.stopAll();
+  hlsService.stopAll();
+  subtitleService.stopAll();
   
   // Close the server
-  server.close((err) => {
+  server.close(async (err) => {
     if (err) {
       console.error('Error during server shutdown:', err);
       process.exit(1);
     }
     
+    // Release the catalog store
+    await catalogService.close();
+    
     console.log('Server closed successfully');
     process.exit(0);
   });
@@ -324,13 +435,19 @@ process.on('unhandledRejection', (reason, promise) => {
 });
 
 // Start the server
-const server = app.listen(config.server.port, () => {
+const server = app.listen(config.server.port, async () => {
   console.log(`🚀 Discovery FTP Scraper API started`);
   console.log(`📡 Server running on port ${config.server.port}`);
   console.log(`🌍 Environment: ${config.server.nodeEnv}`);
   console.log(`🎬 Target URL: ${config.discovery.baseUrl}`);
   console.log(`⏰ Scrape interval: ${config.scraping.intervalMinutes} minutes`);
   
+  // Load the stored catalog so the API serves data before the first scrape finishes
+  await catalogService.load();
+  await runHistoryService.load();
+  await progressService.load();
+  await userService.load();
+  
   // Start the scheduler
   scheduler.start();
   
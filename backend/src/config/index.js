@@ -1,24 +1,75 @@
 require('dotenv').config();
+const path = require('path');
 
 const config = {
   server: {
     port: process.env.PORT || 3001,
-    nodeEnv: process.env.NODE_ENV || 'development'
+    nodeEnv: process.env.NODE_ENV || 'development',
+    // Reverse proxies in front of the server, so req.ip is the client's address
+    trustProxy: parseInt(process.env.TRUST_PROXY) || 0
   },
   
   discovery: {
     baseUrl: process.env.DISCOVERY_BASE_URL || 'https://dflix.discoveryftp.net',
     loginUrl: process.env.LOGIN_URL || 'https://dflix.discoveryftp.net/login',
-    moviesUrl: process.env.MOVIES_URL || 'https://dflix.discoveryftp.net/m'
+    moviesUrl: process.env.MOVIES_URL || 'https://dflix.discoveryftp.net/m',
+    seriesUrl: process.env.SERIES_URL || 'https://dflix.discoveryftp.net/s'
   },
   
   scraping: {
     intervalMinutes: parseInt(process.env.SCRAPE_INTERVAL_MINUTES) || 30,
+    mode: process.env.SCRAPE_MODE || 'incremental', // 'incremental' or 'full'
+    seriesRefreshHours: parseInt(process.env.SERIES_REFRESH_HOURS) || 24,
+    siteAdapter: process.env.SITE_ADAPTER || 'discoveryftp',
+    siteProfilePath: process.env.SITE_PROFILE_PATH || null, // Custom JSON selector profile
     maxRetries: parseInt(process.env.MAX_RETRIES) || 3,
     requestTimeout: parseInt(process.env.REQUEST_TIMEOUT) || 60000, // Increased to 60 seconds
     userAgent: process.env.USER_AGENT || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
   },
   
+  httpFixtures: {
+    mode: process.env.HTTP_FIXTURE_MODE || 'off', // 'record', 'replay' or 'off'
+    dir: process.env.HTTP_FIXTURE_DIR || path.join(__dirname, '../../tests/fixtures/http')
+  },
+  
+  storage: {
+    backend: process.env.STORAGE_BACKEND || 'json', // 'json' or 'sqlite'
+    dataDir: process.env.DATA_DIR || path.join(__dirname, '../../data'),
+    path: process.env.STORAGE_PATH || null, // Defaults to <dataDir>/catalog.json or catalog.db
+    runHistoryLimit: parseInt(process.env.RUN_HISTORY_LIMIT) || 100,
+    progressLimit: parseInt(process.env.PROGRESS_LIMIT) || 1000
+  },
+  
+  remux: {
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    ffprobePath: process.env.FFPROBE_PATH || 'ffprobe',
+    maxConcurrent: parseInt(process.env.REMUX_MAX_CONCURRENT) || 2,
+    audioBitrate: process.env.REMUX_AUDIO_BITRATE || '192k'
+  },
+  
+  hls: {
+    segmentDuration: parseFloat(process.env.HLS_SEGMENT_SECONDS) || 6,
+    cacheDir: process.env.HLS_CACHE_DIR || path.join(process.env.DATA_DIR || path.join(__dirname, '../../data'), 'hls'),
+    cacheMaxBytes: (parseInt(process.env.HLS_CACHE_MAX_MB) || 512) * 1024 * 1024,
+    maxConcurrent: parseInt(process.env.HLS_MAX_CONCURRENT) || 2,
+    maxAudioEncodes: parseInt(process.env.HLS_MAX_AUDIO_ENCODES) || 2
+  },
+  
+  users: {
+    allowRegistration: process.env.ALLOW_REGISTRATION !== 'false',
+    sessionDays: parseInt(process.env.SESSION_DAYS) || 30,
+    cookieName: process.env.SESSION_COOKIE_NAME || 'dflix_session',
+    loginMaxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS) || 5,
+    loginMaxAttemptsPerIp: parseInt(process.env.LOGIN_MAX_ATTEMPTS_PER_IP) || 20,
+    loginWindowMinutes: parseInt(process.env.LOGIN_WINDOW_MINUTES) || 15
+  },
+  
+  subtitles: {
+    cacheDir: process.env.SUBTITLE_CACHE_DIR || path.join(process.env.DATA_DIR || path.join(__dirname, '../../data'), 'subtitles'),
+    cacheMaxBytes: (parseInt(process.env.SUBTITLE_CACHE_MAX_MB) || 256) * 1024 * 1024,
+    maxConcurrent: parseInt(process.env.SUBTITLE_MAX_CONCURRENT) || 1
+  },
+  
   logging: {
     level: process.env.LOG_LEVEL || 'info'
   }
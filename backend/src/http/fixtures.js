@@ -0,0 +1,159 @@
+/**
+ * HTTP fixtures
+ * Record/replay layer for the axios client used by the scraper. In record mode
+ * every page response is saved as a JSON fixture; in replay mode requests are
+ * answered from those fixtures without touching the network.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const axios = require('axios');
+
+/**
+ * Returns the fixture file name for a request: a readable slug of the
+ * method and URL plus a short hash so distinct URLs never collide
+ */
+function getFixtureName(method, url) {
+  const normalizedMethod = (method || 'get').toLowerCase();
+  const hash = crypto.createHash('sha1').update(`${normalizedMethod} ${url}`).digest('hex').slice(0, 10);
+
+  let slug;
+  try {
+    const { hostname, pathname } = new URL(url);
+    slug = `${hostname}${pathname}`;
+  } catch (error) {
+    slug = url;
+  }
+
+  slug = slug.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 80);
+  return `${normalizedMethod}_${slug}_${hash}.json`;
+}
+
+function getRequestUrl(config) {
+  return axios.getUri(config);
+}
+
+/**
+ * Writes a response to the fixture directory; streams (video and poster
+ * proxying) can't be replayed and are skipped
+ */
+function recordResponse(response, fixtureDir) {
+  const { config } = response;
+
+  if (config.responseType === 'stream') {
+    return;
+  }
+
+  const url = getRequestUrl(config);
+  const fixture = {
+    method: (config.method || 'get').toUpperCase(),
+    url,
+    finalUrl: response.request?.res?.responseUrl || url,
+    status: response.status,
+    statusText: response.statusText,
+    headers: { 'content-type': response.headers['content-type'] || 'text/html' },
+    data: typeof response.data === 'string' ? response.data : JSON.stringify(response.data),
+    recordedAt: new Date().toISOString()
+  };
+
+  const filePath = path.join(fixtureDir, getFixtureName(config.method, url));
+  try {
+    fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2));
+    console.log(`📼 Recorded fixture ${path.basename(filePath)} for ${fixture.method} ${url} (${fixture.status})`);
+  } catch (error) {
+    console.error(`Failed to record fixture for ${url}:`, error.message);
+  }
+}
+
+/**
+ * Saves every buffered (non-stream) response of the client to the fixture
+ * directory, including the error statuses the client rejects, so a replay
+ * fails the same way the live request did
+ */
+function enableRecording(client, fixtureDir) {
+  fs.mkdirSync(fixtureDir, { recursive: true });
+
+  client.interceptors.response.use((response) => {
+    recordResponse(response, fixtureDir);
+    return response;
+  }, (error) => {
+    if (error.response) {
+      recordResponse(error.response, fixtureDir);
+    }
+    return Promise.reject(error);
+  });
+
+  return client;
+}
+
+/**
+ * Answers every request of the client from the fixture directory. Requests
+ * without a fixture fail with code ENOFIXTURE.
+ */
+function enableReplay(client, fixtureDir) {
+  client.defaults.adapter = async (config) => {
+    const url = getRequestUrl(config);
+    const filePath = path.join(fixtureDir, getFixtureName(config.method, url));
+
+    if (!fs.existsSync(filePath)) {
+      throw new axios.AxiosError(
+        `No recorded fixture for ${(config.method || 'get').toUpperCase()} ${url}`,
+        'ENOFIXTURE',
+        config
+      );
+    }
+
+    const fixture = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    const isJson = (fixture.headers['content-type'] || '').includes('application/json');
+
+    const response = {
+      data: isJson ? JSON.parse(fixture.data) : fixture.data,
+      status: fixture.status,
+      statusText: fixture.statusText || '',
+      headers: fixture.headers,
+      config,
+      request: { res: { responseUrl: fixture.finalUrl || url } }
+    };
+
+    const validateStatus = config.validateStatus;
+    if (!validateStatus || validateStatus(response.status)) {
+      return response;
+    }
+
+    throw new axios.AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? 'ERR_BAD_RESPONSE' : 'ERR_BAD_REQUEST',
+      config,
+      response.request,
+      response
+    );
+  };
+
+  return client;
+}
+
+/**
+ * Applies the configured fixture mode ('record', 'replay' or 'off') to a client
+ */
+function applyFixtureMode(client, fixtureConfig) {
+  const { mode, dir } = fixtureConfig;
+
+  if (mode === 'record') {
+    console.log(`📼 Recording HTTP fixtures to ${dir}`);
+    return enableRecording(client, dir);
+  }
+  if (mode === 'replay') {
+    console.log(`📼 Replaying HTTP fixtures from ${dir}`);
+    return enableReplay(client, dir);
+  }
+
+  return client;
+}
+
+module.exports = {
+  applyFixtureMode,
+  enableRecording,
+  enableReplay,
+  getFixtureName
+};
@@ -1,5 +1,8 @@
 const cron = require('node-cron');
 const scraperService = require('../services/scraperService');
+const seriesScraperService = require('../services/seriesScraperService');
+const catalogService = require('../services/catalogService');
+const runHistoryService = require('../services/runHistoryService');
 const authService = require('../services/authService');
 const config = require('../config');
 
@@ -81,18 +84,23 @@ class Scheduler {
     this.isRunning = false;
   }
 
-  async runScrapingJob() {
+  async runScrapingJob(trigger = 'scheduled') {
     const startTime = new Date();
-    console.log(`[${startTime.toISOString()}] Starting scheduled scraping job`);
+    console.log(`[${startTime.toISOString()}] Starting ${trigger} scraping job`);
 
     try {
-      const movies = await scraperService.scrapeMovies();
+      const movies = await scraperService.scrapeMovies({ trigger });
       const endTime = new Date();
       const duration = endTime - startTime;
       
       console.log(`[${endTime.toISOString()}] Scraping job completed successfully`);
       console.log(`- Movies found: ${movies.length}`);
       console.log(`- Duration: ${duration}ms`);
+
+      const run = runHistoryService.getLastRun('scrape');
+      if (run) {
+        console.log(`- Run ${run.id}: ${run.status}, ${run.pagesFetched} pages, ${run.addedCount} added, ${run.removedCount} removed, ${run.changedCount} changed`);
+      }
       
       // Log some sample movie titles for verification
       if (movies.length > 0) {
@@ -100,6 +108,14 @@ class Scheduler {
         console.log(`- Sample titles: ${sampleTitles}`);
       }
 
+      // Series failures shouldn't mark the movie scrape as failed
+      try {
+        const series = await seriesScraperService.scrapeSeries({ trigger });
+        console.log(`- Series found: ${series.length}`);
+      } catch (seriesError) {
+        console.error('Series scraping failed:', seriesError.message);
+      }
+
     } catch (error) {
       const endTime = new Date();
       console.error(`[${endTime.toISOString()}] Scraping job failed:`, error.message);
@@ -138,8 +154,8 @@ class Scheduler {
     const startTime = new Date();
     
     try {
-      const movies = scraperService.getMovies();
-      const lastScrapeTime = scraperService.getLastScrapeTime();
+      const movies = catalogService.getMovies();
+      const lastScrapeTime = catalogService.getLastScrapeTime();
       const timeSinceLastScrape = lastScrapeTime ? startTime - lastScrapeTime : null;
       
       // Check if data is stale (more than 2 hours old)
@@ -179,14 +195,15 @@ class Scheduler {
       nextRuns: this.tasks.map(({ name, task }) => ({
         name,
         nextRun: task.nextDate ? task.nextDate() : null
-      }))
+      })),
+      recentRuns: runHistoryService.getRuns({ limit: 5 })
     };
   }
 
   // Manual trigger methods
   async triggerScraping() {
     console.log('Manual scraping trigger requested');
-    return this.runScrapingJob();
+    return this.runScrapingJob('manual');
   }
 
   async triggerAuthRefresh() {
@@ -3,6 +3,7 @@ const cheerio = require('cheerio');
 const { CookieJar } = require('tough-cookie');
 const { wrapper } = require('axios-cookiejar-support');
 const config = require('../config');
+const { applyFixtureMode } = require('../http/fixtures');
 
 class AuthService {
   constructor() {
@@ -21,6 +22,7 @@ class AuthService {
       maxRedirects: 10,
       validateStatus: (status) => status < 400
     }));
+    applyFixtureMode(this.client, config.httpFixtures);
     
     this.isAuthenticated = false;
     this.lastAuthTime = null;
@@ -224,6 +226,7 @@ class AuthService {
         'User-Agent': config.scraping.userAgent
       }
     }));
+    applyFixtureMode(this.client, config.httpFixtures);
     this.isAuthenticated = false;
     this.lastAuthTime = null;
     this.authRetries = 0;
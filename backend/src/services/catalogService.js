@@ -0,0 +1,198 @@
+/**
+ * Catalog Service
+ * Owns the movie and series catalog: loads it from the configured store on boot,
+ * tracks when each item was first and last seen, and persists it after scrapes.
+ * The search index is rebuilt whenever the movies are replaced.
+ */
+
+const config = require('../config');
+const movieIdService = require('./movieIdService');
+const releaseNameService = require('./releaseNameService');
+const searchService = require('./searchService');
+const { createCatalogStore } = require('../storage');
+
+class CatalogService {
+  constructor() {
+    this.store = createCatalogStore(config.storage);
+    this.movies = [];
+    this.series = [];
+    this.lastScrapeTime = null;
+    this.isPersistent = false; // False while serving mock data
+    this.isLoaded = false;
+    this.lastSavedAt = null;
+    this.saving = Promise.resolve(true);
+  }
+
+  /**
+   * Loads the persisted catalog, leaving the catalog empty if nothing is stored
+   */
+  async load() {
+    try {
+      const snapshot = await this.store.load();
+
+      if (snapshot) {
+        this.movies = snapshot.movies;
+        this.series = snapshot.series || [];
+        this.lastScrapeTime = snapshot.lastScrapeTime;
+        this.isPersistent = true;
+        movieIdService.loadAliases(snapshot.aliases);
+        this.addMissingReleaseInfo(this.movies);
+        searchService.rebuild(this.movies);
+        console.log(`💾 Loaded ${this.movies.length} movies and ${this.series.length} series from ${this.store.name} store (${this.store.filePath})`);
+      } else {
+        console.log(`💾 No stored catalog found at ${this.store.filePath}, starting empty`);
+      }
+    } catch (error) {
+      console.error(`Failed to load catalog from ${this.store.name} store:`, error.message);
+    }
+
+    this.isLoaded = true;
+    return this.movies;
+  }
+
+  /**
+   * Replaces the catalog with the result of a scrape and persists it.
+   * Movies keep their firstSeenAt from the previous catalog.
+   */
+  async replaceMovies(movies, scrapeTime = new Date()) {
+    // Index previous movies by their current ID so aliased movies keep their history
+    const previousById = new Map(this.movies.map(movie => [movieIdService.resolve(movie.id), movie]));
+    this.markSeen(movies, previousById, scrapeTime);
+
+    this.movies = movies;
+    this.lastScrapeTime = scrapeTime;
+    this.isPersistent = true;
+    searchService.rebuild(this.movies);
+
+    await this.save();
+    return this.movies;
+  }
+
+  /**
+   * Replaces the series catalog with the result of a series scrape and persists it
+   */
+  async replaceSeries(series, scrapeTime = new Date()) {
+    const previousById = new Map(this.series.map(item => [item.id, item]));
+    this.markSeen(series, previousById, scrapeTime);
+
+    this.series = series;
+    await this.save();
+    return this.series;
+  }
+
+  markSeen(items, previousById, scrapeTime) {
+    const seenAt = scrapeTime.toISOString();
+
+    for (const item of items) {
+      const previous = previousById.get(item.id);
+      item.firstSeenAt = (previous && previous.firstSeenAt) || item.firstSeenAt || seenAt;
+      item.lastSeenAt = seenAt;
+    }
+  }
+
+  /**
+   * Parses the release name of download URLs stored before release info existed
+   */
+  addMissingReleaseInfo(movies) {
+    for (const movie of movies) {
+      for (const downloadUrl of movie.downloadUrls || []) {
+        if (!downloadUrl.release && downloadUrl.url) {
+          downloadUrl.release = releaseNameService.parse(downloadUrl.filename || downloadUrl.url);
+        }
+      }
+    }
+  }
+
+  /**
+   * Serves mock data without persisting it, unless a real catalog is already loaded
+   */
+  useMockMovies(mockMovies) {
+    if (this.isPersistent && this.movies.length > 0) {
+      console.log(`🎭 Keeping ${this.movies.length} stored movies instead of mock data`);
+      return this.movies;
+    }
+
+    this.movies = mockMovies;
+    this.lastScrapeTime = new Date();
+    this.isPersistent = false;
+    searchService.rebuild(this.movies);
+    return this.movies;
+  }
+
+  /**
+   * Writes the current catalog to the store once earlier saves have finished;
+   * mock data is never written
+   */
+  save() {
+    this.saving = this.saving.then(async () => {
+      if (!this.isPersistent && this.series.length === 0) {
+        return false;
+      }
+
+      try {
+        await this.store.save({
+          movies: this.isPersistent ? this.movies : [],
+          series: this.series,
+          aliases: movieIdService.getAliases(),
+          lastScrapeTime: this.lastScrapeTime
+        });
+        this.lastSavedAt = new Date();
+        return true;
+      } catch (error) {
+        console.error(`Failed to save catalog to ${this.store.name} store:`, error.message);
+        return false;
+      }
+    });
+    return this.saving;
+  }
+
+  getMovies() {
+    return this.movies;
+  }
+
+  /**
+   * Finds a movie by ID, following aliases left behind by earlier scrapes
+   */
+  getMovieById(id) {
+    const movie = this.movies.find(m => m.id === id);
+    if (movie) {
+      return movie;
+    }
+
+    const resolvedId = movieIdService.resolve(id);
+    if (resolvedId === id) {
+      return null;
+    }
+
+    return this.movies.find(m => m.id === resolvedId) || null;
+  }
+
+  getSeries() {
+    return this.series;
+  }
+
+  getSeriesById(id) {
+    return this.series.find(item => item.id === id) || null;
+  }
+
+  getLastScrapeTime() {
+    return this.lastScrapeTime;
+  }
+
+  getStatus() {
+    return {
+      backend: this.store.name,
+      path: this.store.filePath,
+      isLoaded: this.isLoaded,
+      isPersistent: this.isPersistent,
+      lastSavedAt: this.lastSavedAt
+    };
+  }
+
+  async close() {
+    await this.saving;
+    await this.store.close();
+  }
+}
+
+module.exports = new CatalogService();
@@ -0,0 +1,563 @@
+/**
+ * HLS Service
+ * Packages a movie source as a VOD HLS presentation without transcoding the
+ * video. Segment boundaries are video keyframes found by probing the file
+ * around every `segmentDuration` seconds, so each copied video segment starts
+ * on its own keyframe and the playlist durations match the segment contents.
+ * Video and AAC audio are cut per segment the first time they are requested;
+ * other audio is encoded to AAC by one continuous ffmpeg run per track so
+ * segment boundaries don't add encoder priming gaps. Segments are kept in an
+ * on-disk cache that is trimmed to a size cap, least recently used first.
+ * Video and each audio track are separate renditions, so players can switch
+ * audio tracks.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const readline = require('readline');
+const { spawn } = require('child_process');
+const config = require('../config');
+const remuxService = require('./remuxService');
+
+// Kill ffmpeg when a single segment takes longer than this
+const SEGMENT_TIMEOUT_MS = 60000;
+// Give up on finding keyframes after this and fall back to fixed segments
+const KEYFRAME_PROBE_TIMEOUT_MS = 120000;
+// Bandwidth advertised in the master playlist when the bitrate is unknown
+const DEFAULT_BANDWIDTH = 5000000;
+// Seek this far past a segment start so rounding never lands on the keyframe before it
+const SEEK_MARGIN = 0.005;
+// A continuous audio encode that will reach a requested segment within this many
+// segments is waited for instead of being restarted at the segment
+const AUDIO_LOOKAHEAD_SEGMENTS = 4;
+// Stop a continuous audio encode when no segment of it was requested for this long
+const AUDIO_JOB_IDLE_MS = 60000;
+
+class HlsService {
+  constructor() {
+    this.cacheEntries = new Map(); // file -> size, in least recently used order
+    this.cacheSize = 0;
+    this.cacheLoaded = false;
+    this.pendingSegments = new Map();
+    this.runningJobs = 0;
+    this.jobQueue = [];
+    this.segmentPlans = new Map(); // url -> Promise of the segment plan
+    this.audioJobs = new Map(); // segment directory and track -> continuous audio encode
+  }
+
+  /**
+   * Resolves with the `{ start, length }` of every segment of a source. The
+   * plan is computed once per URL so playlists and segments always agree.
+   */
+  getSegmentPlan(url, info) {
+    if (!this.segmentPlans.has(url)) {
+      const plan = this.probeKeyframes(url, info.duration)
+        .catch((error) => {
+          console.error(`⚠️ Keyframe probe failed for ${url}, using fixed segments:`, error.message);
+          return [];
+        })
+        .then(keyframes => this.buildSegmentPlan(info.duration, keyframes));
+      this.segmentPlans.set(url, plan);
+    }
+
+    return this.segmentPlans.get(url);
+  }
+
+  /**
+   * Finds a video keyframe near every segment boundary. Each read interval
+   * seeks through the container index and reads a single packet, so only a
+   * little of the file is fetched around each boundary.
+   */
+  async probeKeyframes(url, duration) {
+    const targets = [];
+    for (let time = config.hls.segmentDuration; time < duration; time += config.hls.segmentDuration) {
+      targets.push(`${time.toFixed(3)}%+#1`);
+    }
+    if (targets.length === 0) return [];
+
+    const output = await remuxService.runFfprobe([
+      '-v', 'error',
+      ...remuxService.getInputArgs(),
+      '-select_streams', 'v:0',
+      '-show_entries', 'packet=pts_time,flags',
+      '-read_intervals', targets.join(','),
+      '-of', 'csv=p=0',
+      url
+    ], { timeout: KEYFRAME_PROBE_TIMEOUT_MS });
+
+    return this.parseKeyframes(output);
+  }
+
+  /**
+   * Reads the keyframe times out of ffprobe's `pts_time,flags` CSV lines
+   */
+  parseKeyframes(output) {
+    return output.split('\n')
+      .map(line => line.trim().split(','))
+      .filter(fields => fields.length >= 2 && fields[fields.length - 1].startsWith('K'))
+      .map(fields => parseFloat(fields[0]))
+      .filter(Number.isFinite);
+  }
+
+  /**
+   * Splits the duration at the given keyframes, skipping any that would make
+   * a segment shorter than half the target length. Without keyframes the
+   * segments are `segmentDuration` long with a shorter last one.
+   */
+  buildSegmentPlan(duration, keyframes = []) {
+    const { segmentDuration } = config.hls;
+    const starts = [0];
+
+    if (keyframes.length === 0) {
+      for (let start = segmentDuration; start < duration; start += segmentDuration) {
+        starts.push(start);
+      }
+    } else {
+      for (const time of [...new Set(keyframes)].sort((a, b) => a - b)) {
+        const previous = starts[starts.length - 1];
+        if (time - previous >= segmentDuration / 2 && duration - time >= segmentDuration / 2) {
+          starts.push(time);
+        }
+      }
+    }
+
+    return starts.map((start, i) => ({
+      start,
+      length: (i + 1 < starts.length ? starts[i + 1] : duration) - start
+    }));
+  }
+
+  /**
+   * Master playlist: one video rendition with every audio track as an
+   * alternative rendition in the "audio" group
+   */
+  buildMasterPlaylist(info) {
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+
+    info.audio.forEach((track, i) => {
+      const attributes = [
+        'TYPE=AUDIO',
+        'GROUP-ID="audio"',
+        `NAME="${this.getAudioTrackName(track)}"`,
+        track.language ? `LANGUAGE="${track.language}"` : null,
+        `DEFAULT=${i === 0 ? 'YES' : 'NO'}`,
+        'AUTOSELECT=YES',
+        `URI="audio/${track.index}.m3u8"`
+      ].filter(Boolean);
+      lines.push(`#EXT-X-MEDIA:${attributes.join(',')}`);
+    });
+
+    const bandwidth = info.bitrate || DEFAULT_BANDWIDTH;
+    lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth}${info.audio.length > 0 ? ',AUDIO="audio"' : ''}`);
+    lines.push('video.m3u8');
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Media playlist listing every segment of the plan; `prefix` is the segment
+   * path relative to the playlist
+   */
+  buildMediaPlaylist(plan, prefix) {
+    const longest = plan.reduce((max, { length }) => Math.max(max, length), 0);
+    const lines = [
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      `#EXT-X-TARGETDURATION:${Math.ceil(longest)}`,
+      '#EXT-X-MEDIA-SEQUENCE:0',
+      '#EXT-X-PLAYLIST-TYPE:VOD'
+    ];
+
+    plan.forEach(({ length }, segment) => {
+      lines.push(`#EXTINF:${length.toFixed(3)},`, `${prefix}${segment}.ts`);
+    });
+
+    lines.push('#EXT-X-ENDLIST');
+    return lines.join('\n') + '\n';
+  }
+
+  getAudioTrackName(track) {
+    const name = track.title || track.language || `Track ${track.index + 1}`;
+    return name.replace(/"/g, "'");
+  }
+
+  /**
+   * AAC can be copied into the segments as is; anything else is encoded
+   */
+  isCopiedAudio(track) {
+    return track?.codec === 'aac';
+  }
+
+  /**
+   * Builds the ffmpeg arguments for one copied MPEG-TS segment: video, or an
+   * AAC audio track. The seek lands on the keyframe the segment starts with
+   * and reading stops just before the next segment's keyframe. `-copyts`
+   * keeps the source timestamps so segments line up on the player's timeline.
+   */
+  buildSegmentArgs(url, info, plan, { type, segment, audioTrack = 0 }) {
+    const { start, length } = plan[segment];
+    const args = ['-hide_banner', '-loglevel', 'error', ...remuxService.getInputArgs()];
+
+    if (start > 0) {
+      args.push('-ss', (start + SEEK_MARGIN).toFixed(3));
+    }
+    args.push('-t', (length - (start > 0 ? 2 : 1) * SEEK_MARGIN).toFixed(3), '-i', url, '-copyts');
+
+    if (type === 'video') {
+      args.push('-map', '0:v:0', '-c:v', 'copy', '-an');
+      if (info.video?.codec === 'h264') {
+        args.push('-bsf:v', 'h264_mp4toannexb');
+      } else if (info.video?.codec === 'hevc') {
+        args.push('-bsf:v', 'hevc_mp4toannexb');
+      }
+    } else {
+      args.push('-map', `0:a:${audioTrack}`, '-c:a', 'copy', '-vn');
+    }
+
+    args.push('-sn', '-muxdelay', '0', '-muxpreload', '0', '-f', 'mpegts');
+    return args;
+  }
+
+  /**
+   * Builds the ffmpeg arguments for encoding an audio track to AAC from
+   * `segment` to the end of the file in one run. The segment muxer splits the
+   * output at the plan's boundaries and prints each finished file on stdout.
+   */
+  buildAudioEncodeArgs(url, plan, { segment, audioTrack = 0, output }) {
+    const { start } = plan[segment];
+    const last = plan[plan.length - 1];
+    const boundaries = [...plan.slice(segment + 1).map(entry => entry.start), last.start + last.length];
+    const args = ['-hide_banner', '-loglevel', 'error', ...remuxService.getInputArgs()];
+
+    if (start > 0) {
+      args.push('-ss', (start + SEEK_MARGIN).toFixed(3));
+    }
+    args.push(
+      '-i', url, '-copyts',
+      '-map', `0:a:${audioTrack}`,
+      '-c:a', 'aac', '-b:a', config.remux.audioBitrate, '-ac', '2',
+      '-vn', '-sn', '-muxdelay', '0', '-muxpreload', '0',
+      '-f', 'segment', '-segment_format', 'mpegts',
+      '-segment_times', boundaries.map(time => time.toFixed(3)).join(','),
+      '-segment_start_number', String(segment),
+      '-segment_list', 'pipe:1', '-segment_list_type', 'csv',
+      '-y', output
+    );
+    return args;
+  }
+
+  /**
+   * Returns the path of a cached segment, cutting it first when needed.
+   * Concurrent requests for the same segment share one ffmpeg run.
+   */
+  async getSegment(url, info, plan, options) {
+    const { type, segment, audioTrack = 0 } = options;
+
+    if (!Number.isInteger(segment) || segment < 0 || segment >= plan.length) {
+      const error = new Error(`Segment ${segment} is out of range`);
+      error.code = 'SEGMENT_NOT_FOUND';
+      throw error;
+    }
+    if (type === 'video' && !info.remuxable) {
+      const error = new Error(`Video codec ${info.video?.codec || 'unknown'} can't be packaged without transcoding`);
+      error.code = 'UNSUPPORTED_CODEC';
+      throw error;
+    }
+    if (type === 'audio' && !info.audio[audioTrack]) {
+      const error = new Error(`Audio track ${audioTrack} doesn't exist`);
+      error.code = 'SEGMENT_NOT_FOUND';
+      throw error;
+    }
+
+    await this.loadCache();
+
+    const file = this.getSegmentPath(url, plan, options);
+    if (this.cacheEntries.has(file) && fs.existsSync(file)) {
+      this.touchCacheEntry(file);
+      return file;
+    }
+
+    if (type === 'audio' && !this.isCopiedAudio(info.audio[audioTrack])) {
+      return this.waitForEncodedAudio(url, plan, options, file);
+    }
+
+    if (!this.pendingSegments.has(file)) {
+      const job = this.runQueued(() => this.cutSegment(url, info, plan, options, file))
+        .then(async (size) => {
+          this.addCacheEntry(file, size);
+          await this.enforceCacheLimit(file);
+          return file;
+        })
+        .finally(() => this.pendingSegments.delete(file));
+      this.pendingSegments.set(file, job);
+    }
+
+    return this.pendingSegments.get(file);
+  }
+
+  /**
+   * Segments are stored per source and plan, so segments cut on other
+   * boundaries (e.g. before a failed keyframe probe) are never mixed in
+   */
+  getSegmentPath(url, plan, { type, segment, audioTrack = 0 }) {
+    const key = crypto.createHash('sha1')
+      .update(url)
+      .update(plan.map(({ start }) => start.toFixed(3)).join(','))
+      .digest('hex')
+      .slice(0, 16);
+    const name = type === 'video' ? `video-${segment}.ts` : `audio${audioTrack}-${segment}.ts`;
+    return path.join(config.hls.cacheDir, key, name);
+  }
+
+  /**
+   * Runs ffmpeg into a temporary file and renames it once complete, so a
+   * half-written segment is never served. Resolves with the segment size.
+   */
+  cutSegment(url, info, plan, options, file) {
+    const args = [...this.buildSegmentArgs(url, info, plan, options), '-y', `${file}.tmp`];
+
+    return new Promise((resolve, reject) => {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+
+      const ffmpeg = spawn(config.remux.ffmpegPath, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+      let stderr = '';
+      const timeoutId = setTimeout(() => ffmpeg.kill('SIGKILL'), SEGMENT_TIMEOUT_MS);
+
+      ffmpeg.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+      ffmpeg.on('error', (error) => {
+        clearTimeout(timeoutId);
+        reject(new Error(`ffmpeg failed to start: ${error.code === 'ENOENT' ? 'ffmpeg is not installed' : error.message}`));
+      });
+      ffmpeg.on('close', (code) => {
+        clearTimeout(timeoutId);
+        if (code !== 0) {
+          fs.rmSync(`${file}.tmp`, { force: true });
+          reject(new Error(`ffmpeg exited with ${code === null ? 'a timeout' : `code ${code}`}: ${stderr.trim().slice(-500)}`));
+          return;
+        }
+
+        fs.renameSync(`${file}.tmp`, file);
+        resolve(fs.statSync(file).size);
+      });
+    });
+  }
+
+  /**
+   * Waits for a segment of the track's continuous audio encode. A running
+   * encode is reused when it will reach the segment soon; otherwise (e.g.
+   * after a seek) it is replaced by one starting at the segment. Fails with
+   * code HLS_BUSY when `maxAudioEncodes` other encodes are running.
+   */
+  waitForEncodedAudio(url, plan, options, file) {
+    const { segment, audioTrack = 0 } = options;
+    const dir = path.dirname(file);
+    const key = `${dir}:${audioTrack}`;
+    let job = this.audioJobs.get(key);
+
+    if (!job || segment < job.nextSegment || segment > job.nextSegment + AUDIO_LOOKAHEAD_SEGMENTS) {
+      if (job) {
+        this.stopAudioJob(job);
+      } else if (this.audioJobs.size >= config.hls.maxAudioEncodes) {
+        const error = new Error(`Too many audio encodes in progress (limit ${config.hls.maxAudioEncodes})`);
+        error.code = 'HLS_BUSY';
+        return Promise.reject(error);
+      }
+      job = this.startAudioJob(key, url, plan, { segment, audioTrack }, dir);
+    }
+
+    clearTimeout(job.idleTimer);
+    job.idleTimer = setTimeout(() => this.stopAudioJob(job), AUDIO_JOB_IDLE_MS);
+    job.idleTimer.unref();
+
+    return new Promise((resolve, reject) => {
+      job.waiters.push({ segment, resolve, reject });
+    });
+  }
+
+  startAudioJob(key, url, plan, { segment, audioTrack }, dir) {
+    // Temporary names are unique per run so a replaced encode can't clobber its successor
+    const id = crypto.randomBytes(4).toString('hex');
+    const args = this.buildAudioEncodeArgs(url, plan, {
+      segment,
+      audioTrack,
+      output: path.join(dir, `audio${audioTrack}-%d.ts.${id}.tmp`)
+    });
+
+    fs.mkdirSync(dir, { recursive: true });
+    const ffmpeg = spawn(config.remux.ffmpegPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const job = { key, id, dir, audioTrack, process: ffmpeg, segmentCount: plan.length, nextSegment: segment, waiters: [], idleTimer: null };
+    let stderr = '';
+
+    this.audioJobs.set(key, job);
+    console.log(`🔊 Encoding audio track ${audioTrack} of ${url} from segment ${segment}`);
+
+    readline.createInterface({ input: ffmpeg.stdout }).on('line', (line) => {
+      this.finishAudioSegment(job, line).catch((error) => {
+        console.error('HLS audio segment error:', error.message);
+      });
+    });
+    ffmpeg.stderr.on('data', (data) => {
+      stderr = (stderr + data.toString()).slice(-500);
+    });
+    ffmpeg.on('error', (error) => {
+      this.endAudioJob(job, new Error(`ffmpeg failed to start: ${error.code === 'ENOENT' ? 'ffmpeg is not installed' : error.message}`));
+    });
+    ffmpeg.on('close', (code) => {
+      fs.rmSync(path.join(dir, `audio${audioTrack}-${job.nextSegment}.ts.${id}.tmp`), { force: true });
+      this.endAudioJob(job, new Error(code === 0
+        ? 'Audio encode ended before the segment'
+        : `ffmpeg exited with ${code === null ? 'a signal' : `code ${code}`}: ${stderr.trim()}`));
+    });
+
+    return job;
+  }
+
+  /**
+   * Moves a segment the encode has finished into the cache and hands it to
+   * the requests waiting for it. `line` is the segment list's
+   * `file,start,end` entry for the segment.
+   */
+  async finishAudioSegment(job, line) {
+    const name = path.basename(line.split(',')[0].trim());
+    const match = /-(\d+)\.ts\.[0-9a-f]+\.tmp$/.exec(name);
+    if (!match) return;
+
+    const segment = parseInt(match[1]);
+    const tmp = path.join(job.dir, name);
+    job.nextSegment = segment + 1;
+
+    if (segment >= job.segmentCount) {
+      await fs.promises.rm(tmp, { force: true });
+      return;
+    }
+
+    const file = path.join(job.dir, `audio${job.audioTrack}-${segment}.ts`);
+    await fs.promises.rename(tmp, file);
+    this.addCacheEntry(file, (await fs.promises.stat(file)).size);
+
+    job.waiters = job.waiters.filter((waiter) => {
+      if (waiter.segment !== segment) return true;
+      waiter.resolve(file);
+      return false;
+    });
+    await this.enforceCacheLimit(file);
+  }
+
+  /**
+   * Forgets an encode and fails the requests still waiting on it
+   */
+  endAudioJob(job, error) {
+    clearTimeout(job.idleTimer);
+    if (this.audioJobs.get(job.key) === job) {
+      this.audioJobs.delete(job.key);
+    }
+
+    job.waiters.forEach(waiter => waiter.reject(error));
+    job.waiters = [];
+  }
+
+  stopAudioJob(job) {
+    this.endAudioJob(job, new Error('Audio encode was stopped'));
+    job.process.kill('SIGKILL');
+  }
+
+  /**
+   * Stops every continuous audio encode (used on shutdown)
+   */
+  stopAll() {
+    for (const job of this.audioJobs.values()) {
+      this.stopAudioJob(job);
+    }
+  }
+
+  /**
+   * Runs a segment job once fewer than `maxConcurrent` are in progress
+   */
+  async runQueued(job) {
+    if (this.runningJobs >= config.hls.maxConcurrent) {
+      await new Promise(resolve => this.jobQueue.push(resolve));
+    }
+
+    this.runningJobs++;
+    try {
+      return await job();
+    } finally {
+      this.runningJobs--;
+      const next = this.jobQueue.shift();
+      if (next) next();
+    }
+  }
+
+  /**
+   * Indexes segments left in the cache directory by an earlier run, oldest first
+   */
+  async loadCache() {
+    if (this.cacheLoaded) return;
+    this.cacheLoaded = true;
+
+    if (!fs.existsSync(config.hls.cacheDir)) return;
+
+    const files = [];
+    for (const dir of fs.readdirSync(config.hls.cacheDir, { withFileTypes: true })) {
+      if (!dir.isDirectory()) continue;
+
+      const dirPath = path.join(config.hls.cacheDir, dir.name);
+      for (const name of fs.readdirSync(dirPath)) {
+        const file = path.join(dirPath, name);
+        if (name.endsWith('.tmp')) {
+          fs.rmSync(file, { force: true });
+          continue;
+        }
+        const stats = fs.statSync(file);
+        files.push({ file, size: stats.size, time: stats.atimeMs });
+      }
+    }
+
+    files.sort((a, b) => a.time - b.time);
+    files.forEach(({ file, size }) => this.addCacheEntry(file, size));
+    await this.enforceCacheLimit();
+  }
+
+  addCacheEntry(file, size) {
+    if (this.cacheEntries.has(file)) {
+      this.cacheSize -= this.cacheEntries.get(file);
+      this.cacheEntries.delete(file);
+    }
+    this.cacheEntries.set(file, size);
+    this.cacheSize += size;
+  }
+
+  touchCacheEntry(file) {
+    const size = this.cacheEntries.get(file);
+    this.cacheEntries.delete(file);
+    this.cacheEntries.set(file, size);
+  }
+
+  /**
+   * Deletes least recently used segments until the cache fits its cap. The
+   * segment that is about to be served is kept.
+   */
+  async enforceCacheLimit(keep = null) {
+    for (const [file, size] of this.cacheEntries) {
+      if (this.cacheSize <= config.hls.cacheMaxBytes) break;
+      if (file === keep) continue;
+
+      this.cacheEntries.delete(file);
+      this.cacheSize -= size;
+      await fs.promises.rm(file, { force: true });
+    }
+  }
+
+  getCacheStats() {
+    return {
+      segments: this.cacheEntries.size,
+      bytes: this.cacheSize,
+      maxBytes: config.hls.cacheMaxBytes
+    };
+  }
+}
+
+module.exports = new HlsService();
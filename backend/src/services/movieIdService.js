@@ -0,0 +1,162 @@
+/**
+ * Movie ID Service
+ * Derives stable movie IDs from scraped content and keeps an alias table so
+ * IDs handed out by earlier scrapes keep resolving after the catalog changes
+ */
+
+const crypto = require('crypto');
+
+class MovieIdService {
+  constructor() {
+    // Maps a retired movie ID to the ID that replaced it
+    this.aliases = new Map();
+  }
+
+  /**
+   * Builds a deterministic ID from the detail URL path, from the file path
+   * (sourceUrl) for movies found in directory listings, or from title, year
+   * and language when the movie has neither
+   */
+  generateId(movie) {
+    return `movie_${this.hashKey(this.getIdentityKey(movie))}`;
+  }
+
+  /**
+   * Series IDs follow the same rules as movie IDs, with their own prefix
+   */
+  generateSeriesId(series) {
+    return `series_${this.hashKey(this.getIdentityKey(series))}`;
+  }
+
+  generateEpisodeId(seriesId, seasonNumber, episodeNumber) {
+    return `episode_${this.hashKey(`${seriesId}|s${seasonNumber}|e${episodeNumber}`)}`;
+  }
+
+  hashKey(key) {
+    return crypto.createHash('sha1').update(key).digest('hex').slice(0, 12);
+  }
+
+  getIdentityKey(movie) {
+    const detailPath = this.normalizePath(movie.detailUrl);
+    if (detailPath) {
+      return `path:${detailPath}`;
+    }
+
+    // Several files of one title sit side by side in a directory, so each file is its own movie
+    const sourcePath = this.normalizePath(movie.sourceUrl);
+    if (sourcePath) {
+      return `source:${sourcePath}`;
+    }
+
+    return `meta:${this.getMetadataKey(movie)}`;
+  }
+
+  /**
+   * Reduces a detail or file URL to its decoded, lower-cased path so host
+   * changes, query strings and trailing slashes don't change the ID
+   */
+  normalizePath(url) {
+    if (!url) return null;
+
+    try {
+      let pathname = new URL(url, 'http://localhost').pathname;
+      try {
+        pathname = decodeURIComponent(pathname);
+      } catch (error) {
+        // Keep the raw path if it contains malformed escapes
+      }
+
+      const normalized = pathname
+        .toLowerCase()
+        .replace(/\/{2,}/g, '/')
+        .replace(/\/+$/, '');
+
+      return normalized || null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  getMetadataKey(movie) {
+    const normalize = (value) => (value || '')
+      .toString()
+      .toLowerCase()
+      .replace(/[^\w\s]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return [normalize(movie.title), normalize(movie.year), normalize(movie.language)].join('|');
+  }
+
+  /**
+   * Records aliases for movies of the previous catalog whose IDs no longer
+   * exist, matching them to the new catalog by detail path or metadata
+   */
+  recordAliases(previousMovies, currentMovies) {
+    const currentIds = new Set(currentMovies.map(movie => movie.id));
+    const byPath = new Map();
+    const byMetadata = new Map();
+
+    for (const movie of currentMovies) {
+      const detailPath = this.normalizePath(movie.detailUrl);
+      if (detailPath && !byPath.has(detailPath)) {
+        byPath.set(detailPath, movie.id);
+      }
+
+      const metadataKey = this.getMetadataKey(movie);
+      if (!byMetadata.has(metadataKey)) {
+        byMetadata.set(metadataKey, movie.id);
+      }
+    }
+
+    let recorded = 0;
+
+    for (const movie of previousMovies) {
+      if (!movie.id || currentIds.has(movie.id)) continue;
+
+      const detailPath = this.normalizePath(movie.detailUrl);
+      const replacementId = (detailPath && byPath.get(detailPath)) || byMetadata.get(this.getMetadataKey(movie));
+
+      if (replacementId && replacementId !== movie.id) {
+        this.aliases.set(movie.id, replacementId);
+        recorded++;
+      }
+    }
+
+    // A movie that came back under its old ID no longer needs an alias
+    for (const id of currentIds) {
+      this.aliases.delete(id);
+    }
+
+    if (recorded > 0) {
+      console.log(`🔗 Recorded ${recorded} movie ID aliases (${this.aliases.size} total)`);
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Follows the alias chain for an ID and returns the current ID
+   */
+  resolve(id) {
+    let currentId = id;
+    const visited = new Set();
+
+    while (this.aliases.has(currentId) && !visited.has(currentId)) {
+      visited.add(currentId);
+      currentId = this.aliases.get(currentId);
+    }
+
+    return currentId;
+  }
+
+  getAliases() {
+    return Object.fromEntries(this.aliases);
+  }
+
+  loadAliases(aliases = {}) {
+    this.aliases = new Map(Object.entries(aliases));
+  }
+}
+
+module.exports = new MovieIdService();
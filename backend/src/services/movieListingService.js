@@ -0,0 +1,302 @@
+/**
+ * Movie Listing Service
+ * Filters, sorts and pages the catalog for GET /api/movies and search
+ * results. Pages are asked for by number, or by the cursor the previous page
+ * returned; a cursor holds the sort key and ID of the last movie sent, so it
+ * stays in place when the catalog changes between requests.
+ */
+
+const movieIdService = require('./movieIdService');
+
+const DEFAULT_PAGE_SIZE = 48;
+const MAX_PAGE_SIZE = 200;
+
+const UNITS = { B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3, TB: 1024 ** 4 };
+
+/**
+ * "1.5 GB" as bytes, or null when the size is missing or unreadable
+ */
+function parseSize(size) {
+  const match = /([\d.]+)\s*(TB|GB|MB|KB|B)\b/i.exec(size || '');
+  return match ? parseFloat(match[1]) * UNITS[match[2].toUpperCase()] : null;
+}
+
+function parseRating(rating) {
+  const value = parseFloat(rating);
+  return Number.isFinite(value) ? value : null;
+}
+
+function parseYear(year) {
+  const value = parseInt(year);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Each sort reads one key from a movie; movies without it go last in either direction
+const SORTS = {
+  title: { key: movie => (movie.title || '').toLowerCase(), order: 'asc' },
+  year: { key: movie => parseYear(movie.year), order: 'desc' },
+  added: { key: movie => movie.firstSeenAt || null, order: 'desc' },
+  rating: { key: movie => parseRating(movie.rating), order: 'desc' },
+  size: { key: movie => parseSize(movie.size), order: 'desc' }
+};
+
+// Search results arrive best first, so relevance keeps the order they came in
+const RELEVANCE = { key: null, order: 'asc' };
+
+// Sources scraped from detail pages may only have a URL to go by
+function sourceFormat(source) {
+  const format = source.format || (/\.([a-z0-9]+)(?:[?#]|$)/i.exec(source.url || '') || [])[1] || '';
+  return format.toUpperCase();
+}
+
+// Best first; listing qualities such as "4K" or "FHD" are read as one of these
+const RESOLUTIONS = [
+  ['2160p', /2160|4k|uhd/i],
+  ['1440p', /1440/],
+  ['1080p', /1080|fhd/i],
+  ['720p', /720/],
+  ['576p', /576/],
+  ['480p', /480/],
+  ['360p', /360/]
+];
+
+/**
+ * A quality as a resolution when it names one, otherwise as given ("HD", "CAM")
+ */
+function normalizeQuality(quality) {
+  const resolution = RESOLUTIONS.find(([, pattern]) => pattern.test(quality));
+  return resolution ? resolution[0] : String(quality).trim();
+}
+
+// The values a movie has for each facet; a list filter of the same name keeps movies with any of the values asked for
+const FACETS = {
+  language: movie => (movie.language ? [movie.language] : []),
+  year: (movie) => {
+    const year = parseYear(movie.year);
+    return year === null ? [] : [String(year)];
+  },
+  decade: (movie) => {
+    const year = parseYear(movie.year);
+    return year === null ? [] : [`${Math.floor(year / 10) * 10}s`];
+  },
+  quality: movie => [
+    ...(movie.quality ? [normalizeQuality(movie.quality)] : []),
+    ...(movie.downloadUrls || []).map(source => source.release?.resolution).filter(Boolean)
+  ],
+  genre: movie => movie.genres || [],
+  format: movie => (movie.downloadUrls || []).map(sourceFormat).filter(Boolean),
+  hasSubtitles: movie => [(movie.subtitles || []).length > 0 ? 'true' : 'false']
+};
+
+/**
+ * The order buckets are listed in: years and decades newest first, qualities
+ * best first, subtitles yes before no and the rest most common first
+ */
+function compareBuckets(facet, a, b) {
+  if (facet === 'year' || facet === 'decade' || facet === 'hasSubtitles') {
+    return b.value.localeCompare(a.value);
+  }
+  if (facet === 'quality') {
+    const rank = value => {
+      const index = RESOLUTIONS.findIndex(([resolution]) => resolution === value);
+      return index === -1 ? RESOLUTIONS.length : index;
+    };
+    const byRank = rank(a.value) - rank(b.value);
+    if (byRank !== 0) return byRank;
+  }
+  return b.count - a.count || a.value.localeCompare(b.value);
+}
+
+function splitList(value) {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : String(value).split(','))
+    .map(item => String(item).trim())
+    .filter(Boolean);
+}
+
+class MovieListingService {
+  /**
+   * Reads the listing parameters of a request, returning { error } for values
+   * it can't use. Search results can also be sorted by relevance, their default.
+   */
+  parseQuery(query = {}, { relevance = false } = {}) {
+    const sorts = relevance ? { relevance: RELEVANCE, ...SORTS } : SORTS;
+    const sort = query.sort || (relevance ? 'relevance' : 'title');
+    if (!sorts[sort]) {
+      return { error: `sort must be one of: ${Object.keys(sorts).join(', ')}` };
+    }
+
+    const order = query.order || sorts[sort].order;
+    if (order !== 'asc' && order !== 'desc') {
+      return { error: 'order must be asc or desc' };
+    }
+
+    const paginated = query.page !== undefined || query.pageSize !== undefined || query.cursor !== undefined;
+    const page = Math.max(parseInt(query.page) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(query.pageSize) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    let cursor = null;
+    if (query.cursor) {
+      try {
+        cursor = JSON.parse(Buffer.from(query.cursor, 'base64url').toString('utf8'));
+      } catch (error) {
+        cursor = null;
+      }
+      if (!cursor || typeof cursor.id !== 'string' || cursor.sort !== sort || cursor.order !== order) {
+        return { error: 'cursor is invalid or belongs to another sort' };
+      }
+    }
+
+    return {
+      sort,
+      order,
+      paginated,
+      page,
+      pageSize,
+      cursor,
+      filters: {
+        ids: splitList(query.ids),
+        yearFrom: parseYear(query.yearFrom),
+        yearTo: parseYear(query.yearTo),
+        minRating: parseRating(query.minRating),
+        facets: Object.fromEntries(Object.keys(FACETS).map((facet) => {
+          const values = splitList(query[facet]).map(value => (facet === 'quality' ? normalizeQuality(value) : value));
+          return [facet, values.map(value => value.toLowerCase())];
+        }))
+      }
+    };
+  }
+
+  /**
+   * Keeps the movies matching every filter given
+   */
+  applyFilters(movies, filters) {
+    return this.applyRangeFilters(movies, filters)
+      .filter(movie => Object.keys(FACETS).every(facet => this.matchesFacet(movie, facet, filters)));
+  }
+
+  /**
+   * The filters that aren't facets: IDs, year range and minimum rating
+   */
+  applyRangeFilters(movies, filters) {
+    const ids = filters.ids.length > 0
+      ? new Set(filters.ids.map(id => movieIdService.resolve(id)))
+      : null;
+
+    return movies.filter((movie) => {
+      const year = parseYear(movie.year);
+
+      if (ids && !ids.has(movie.id)) return false;
+      if (filters.yearFrom !== null && (year === null || year < filters.yearFrom)) return false;
+      if (filters.yearTo !== null && (year === null || year > filters.yearTo)) return false;
+      if (filters.minRating !== null && !(parseRating(movie.rating) >= filters.minRating)) return false;
+
+      return true;
+    });
+  }
+
+  matchesFacet(movie, facet, filters) {
+    const selected = filters.facets[facet];
+    return selected.length === 0 || FACETS[facet](movie).some(value => selected.includes(value.toLowerCase()));
+  }
+
+  /**
+   * Counts the movies having each value of each facet. A facet's counts leave
+   * out its own filter, so they tell how many movies choosing one more value
+   * would add.
+   */
+  countFacets(movies, filters) {
+    const facets = Object.keys(FACETS);
+    // Facet -> lowercased value -> bucket
+    const buckets = new Map(facets.map(facet => [facet, new Map()]));
+
+    for (const movie of this.applyRangeFilters(movies, filters)) {
+      const failed = facets.filter(facet => !this.matchesFacet(movie, facet, filters));
+      if (failed.length > 1) continue;
+
+      for (const facet of failed.length === 1 ? failed : facets) {
+        const counted = new Set();
+        for (const value of FACETS[facet](movie)) {
+          const key = value.toLowerCase();
+          if (counted.has(key)) continue;
+          counted.add(key);
+
+          const facetBuckets = buckets.get(facet);
+          if (!facetBuckets.has(key)) facetBuckets.set(key, { value, count: 0 });
+          facetBuckets.get(key).count++;
+        }
+      }
+    }
+
+    return Object.fromEntries(facets.map(facet => [
+      facet,
+      [...buckets.get(facet).values()].sort((a, b) => compareBuckets(facet, a, b))
+    ]));
+  }
+
+  /**
+   * Orders two (key, id) pairs; the ID breaks ties so every position is unique
+   */
+  compareEntries(a, b, order) {
+    if (a.key !== b.key) {
+      if (a.key === null) return 1;
+      if (b.key === null) return -1;
+      const result = a.key < b.key ? -1 : 1;
+      return order === 'asc' ? result : -result;
+    }
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  }
+
+  encodeCursor(entry, sort, order) {
+    return Buffer.from(JSON.stringify({ sort, order, key: entry.key, id: entry.id }), 'utf8').toString('base64url');
+  }
+
+  /**
+   * Returns one page of the filtered, sorted catalog with its pagination meta.
+   * Without page, pageSize or cursor every match is returned at once. Pass
+   * facets to add the facet counts to the meta.
+   */
+  list(movies, options, { facets = false } = {}) {
+    const { sort, order, paginated, page, pageSize, cursor, filters } = options;
+    const getKey = sort === 'relevance' ? (movie, rank) => rank : SORTS[sort].key;
+
+    const entries = this.applyFilters(movies, filters)
+      .map((movie, rank) => ({ movie, id: movie.id, key: getKey(movie, rank) }))
+      .sort((a, b) => this.compareEntries(a, b, order));
+    const total = entries.length;
+    const facetMeta = facets ? { facets: this.countFacets(movies, filters) } : {};
+
+    if (!paginated) {
+      return {
+        movies: entries.map(entry => entry.movie),
+        meta: { total, sort, order, ...facetMeta }
+      };
+    }
+
+    let start = (page - 1) * pageSize;
+    if (cursor) {
+      const index = entries.findIndex(entry => this.compareEntries(entry, cursor, order) > 0);
+      start = index === -1 ? total : index;
+    }
+
+    const pageEntries = entries.slice(start, start + pageSize);
+    const last = pageEntries[pageEntries.length - 1];
+    const hasMore = start + pageEntries.length < total;
+
+    return {
+      movies: pageEntries.map(entry => entry.movie),
+      meta: {
+        total,
+        sort,
+        order,
+        page: Math.floor(start / pageSize) + 1,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+        nextCursor: hasMore && last ? this.encodeCursor(last, sort, order) : null,
+        ...facetMeta
+      }
+    };
+  }
+}
+
+module.exports = new MovieListingService();
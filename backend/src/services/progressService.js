@@ -0,0 +1,152 @@
+/**
+ * Progress Service
+ * Keeps where playback of each movie and source stopped, so players can
+ * offer to resume and list what is being watched. Each user account has its
+ * own entries; a null user ID is progress shared by everyone not signed in.
+ * Persisted next to the catalog; the newest entries are kept up to the
+ * configured limit.
+ */
+
+const config = require('../config');
+const catalogService = require('./catalogService');
+
+// A title counts as watched once this share of it has played
+const WATCHED_THRESHOLD = 0.9;
+
+class ProgressService {
+  constructor() {
+    this.entries = new Map();
+    this.isLoaded = false;
+    this.saving = Promise.resolve();
+  }
+
+  async load() {
+    try {
+      const entries = await catalogService.store.loadProgress();
+      this.entries = new Map(entries.map(entry => [this.getKey(entry.userId, entry.movieId, entry.sourceUrl), entry]));
+      console.log(`⏯️ Loaded ${this.entries.size} watch progress entries`);
+    } catch (error) {
+      console.error('Failed to load watch progress:', error.message);
+    }
+
+    this.isLoaded = true;
+    return this.getAll();
+  }
+
+  getKey(userId, movieId, sourceUrl) {
+    return `${userId || ''}\n${movieId}\n${sourceUrl}`;
+  }
+
+  /**
+   * Checks a progress update, returning what is wrong with it or null
+   */
+  validate({ sourceUrl, position, duration } = {}) {
+    if (typeof sourceUrl !== 'string' || !sourceUrl) {
+      return 'sourceUrl is required';
+    }
+    if (typeof position !== 'number' || !Number.isFinite(position) || position < 0) {
+      return 'position must be a number of seconds';
+    }
+    if (duration != null && (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0)) {
+      return 'duration must be a positive number of seconds';
+    }
+    return null;
+  }
+
+  /**
+   * Saves the position of one source of a movie. An update older than the
+   * saved entry loses, so devices syncing late don't rewind each other.
+   */
+  async record(movieId, { sourceUrl, position, duration = null, updatedAt }, userId = null) {
+    const key = this.getKey(userId, movieId, sourceUrl);
+    const existing = this.entries.get(key);
+    const timestamp = updatedAt && !isNaN(new Date(updatedAt)) ? new Date(updatedAt).toISOString() : new Date().toISOString();
+
+    if (existing && existing.updatedAt > timestamp) {
+      return existing;
+    }
+
+    const knownDuration = duration ?? existing?.duration ?? null;
+    const entry = {
+      userId,
+      movieId,
+      sourceUrl,
+      position,
+      duration: knownDuration,
+      // Stays set when the title is watched again from the start
+      watched: Boolean(existing?.watched) || this.isWatched(position, knownDuration),
+      updatedAt: timestamp
+    };
+
+    // Re-inserted so the map stays in update order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.trim();
+    await this.persist();
+
+    return entry;
+  }
+
+  isWatched(position, duration) {
+    return Boolean(duration) && position / duration >= WATCHED_THRESHOLD;
+  }
+
+  /**
+   * A user's entries newest first, optionally only the last `limit`
+   */
+  getAll({ limit, userId = null } = {}) {
+    const entries = [...this.entries.values()]
+      .filter(entry => (entry.userId || null) === userId)
+      .reverse();
+    return limit ? entries.slice(0, limit) : entries;
+  }
+
+  /**
+   * Every source of a movie that has a position, newest first
+   */
+  getForMovie(movieId, userId = null) {
+    return this.getAll({ userId }).filter(entry => entry.movieId === movieId);
+  }
+
+  /**
+   * Forgets a user's progress of one movie, or of every movie without one
+   */
+  async remove(movieId, userId = null) {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if ((entry.userId || null) === userId && (!movieId || entry.movieId === movieId)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      await this.persist();
+    }
+    return removed;
+  }
+
+  trim() {
+    const limit = config.storage.progressLimit;
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= limit) break;
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Writes the entries one save at a time, since the JSON store renames a
+   * temporary file into place
+   */
+  persist() {
+    const entries = [...this.entries.values()];
+    this.saving = this.saving
+      .then(() => catalogService.store.saveProgress(entries))
+      .catch((error) => {
+        console.error('Failed to save watch progress:', error.message);
+      });
+    return this.saving;
+  }
+}
+
+module.exports = new ProgressService();
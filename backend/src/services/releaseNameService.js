@@ -0,0 +1,429 @@
+/**
+ * Release Name Service
+ * Parses scene-style release names such as
+ * `Movie.Name.2024.1080p.WEB-DL.DDP5.1.x265-GRP.mkv` into structured fields.
+ * Used for directory listings, download links and listing titles alike.
+ */
+
+const VIDEO_EXTENSIONS = ['mkv', 'mp4', 'avi', 'webm', 'mov', 'm4v', 'wmv', 'flv', 'ts', 'm2ts', 'mpg', 'mpeg', 'vob'];
+
+// Markers that reliably end the title wherever they appear
+const RESOLUTIONS = [
+  ['2160p', /(?<![a-z0-9])(?:2160p|4k|uhd)(?![a-z0-9])/i],
+  ['1440p', /(?<![a-z0-9])1440p(?![a-z0-9])/i],
+  ['1080p', /(?<![a-z0-9])(?:1080[pi]|fhd)(?![a-z0-9])/i],
+  ['720p', /(?<![a-z0-9])720p(?![a-z0-9])/i],
+  ['576p', /(?<![a-z0-9])576p(?![a-z0-9])/i],
+  ['480p', /(?<![a-z0-9])480p(?![a-z0-9])/i],
+  ['360p', /(?<![a-z0-9])360p(?![a-z0-9])/i]
+];
+
+const SOURCES = [
+  ['WEB-DL', /(?<![a-z0-9])web[ ._-]?dl(?![a-z0-9])/i],
+  ['WEBRip', /(?<![a-z0-9])web[ ._-]?rip(?![a-z0-9])/i],
+  ['BluRay', /(?<![a-z0-9])(?:blu[ ._-]?ray|b[dr][ ._-]?rip|bd[ ._-]?remux|remux)(?![a-z0-9])/i],
+  ['HDRip', /(?<![a-z0-9])hd[ ._-]?rip(?![a-z0-9])/i],
+  ['DVDScr', /(?<![a-z0-9])(?:dvd[ ._-]?scr|screener)(?![a-z0-9])/i],
+  ['DVDRip', /(?<![a-z0-9])dvd(?:[ ._-]?rip)?(?![a-z0-9])/i],
+  ['HDTV', /(?<![a-z0-9])(?:hdtv|pdtv)(?![a-z0-9])/i],
+  ['CAM', /(?<![a-z0-9])(?:hd[ ._-]?cam|cam[ ._-]?rip)(?![a-z0-9])/i],
+  ['TS', /(?<![a-z0-9])(?:hd[ ._-]?ts|telesync)(?![a-z0-9])/i],
+  ['TC', /(?<![a-z0-9])(?:hd[ ._-]?tc|telecine)(?![a-z0-9])/i]
+];
+
+// Short tokens that are only trusted after the title
+const WEAK_SOURCES = [
+  ['WEB-DL', /(?<![a-z0-9])web(?![a-z0-9])/i],
+  ['CAM', /(?<![a-z0-9])cam(?![a-z0-9])/i],
+  ['TS', /(?<![a-z0-9])ts(?![a-z0-9])/i],
+  ['TC', /(?<![a-z0-9])tc(?![a-z0-9])/i]
+];
+
+const VIDEO_CODECS = [
+  ['H.265', /(?<![a-z0-9])(?:[xh][ .]?265|hevc)(?![a-z0-9])/i],
+  ['H.264', /(?<![a-z0-9])(?:[xh][ .]?264|avc)(?![a-z0-9])/i],
+  ['AV1', /(?<![a-z0-9])av1(?![a-z0-9])/i],
+  ['VP9', /(?<![a-z0-9])vp9(?![a-z0-9])/i],
+  ['XviD', /(?<![a-z0-9])xvid(?![a-z0-9])/i],
+  ['DivX', /(?<![a-z0-9])divx(?![a-z0-9])/i]
+];
+
+// Checked in order, so the more specific codecs come first. Audio tokens are
+// often glued to their channel count (DDP5.1, AAC2.0), hence the looser lookahead.
+const AUDIO_CODECS = [
+  ['DTS-HD MA', /(?<![a-z0-9])dts[ ._-]?hd[ ._-]?ma(?![a-z])/i],
+  ['DTS:X', /(?<![a-z0-9])dts[ ._:-]?x(?![a-z0-9])/i],
+  ['DTS-HD', /(?<![a-z0-9])dts[ ._-]?hd(?![a-z])/i],
+  ['TrueHD', /(?<![a-z0-9])true[ ._-]?hd(?![a-z])/i],
+  ['E-AC-3', /(?<![a-z0-9])(?:ddp|dd\+|e[ ._-]?ac[ ._-]?3|dolby[ ._-]?digital[ ._-]?plus)(?![a-z])/i],
+  ['AC-3', /(?<![a-z0-9])(?:dd|ac[ ._-]?3|dolby[ ._-]?digital)(?![a-z])/i],
+  ['DTS', /(?<![a-z0-9])dts(?![a-z])/i],
+  ['AAC', /(?<![a-z0-9])aac(?![a-z])/i],
+  ['FLAC', /(?<![a-z0-9])flac(?![a-z])/i],
+  ['Opus', /(?<![a-z0-9])opus(?![a-z])/i],
+  ['MP3', /(?<![a-z0-9])mp3(?![a-z0-9])/i]
+];
+
+const AUDIO_CHANNELS = ['1.0', '2.0', '2.1', '5.1', '6.1', '7.1'];
+const CHANNEL_COUNTS = { 2: '2.0', 6: '5.1', 8: '7.1' };
+
+const HDR_FORMATS = [
+  ['Dolby Vision', /(?<![a-z0-9])(?:dolby[ ._-]?vision|dovi|dv)(?![a-z0-9])/i],
+  ['HDR10+', /(?<![a-z0-9])hdr10(?:\+|plus)/i],
+  ['HDR10', /(?<![a-z0-9])hdr10(?![a-z0-9+])/i],
+  ['HLG', /(?<![a-z0-9])hlg(?![a-z0-9])/i],
+  ['HDR', /(?<![a-z0-9])hdr(?![a-z0-9])/i]
+];
+
+const LANGUAGES = [
+  ['Hindi', /(?<![a-z0-9])(?:hindi|hin)(?![a-z0-9])/i],
+  ['English', /(?<![a-z0-9])(?:english|eng)(?![a-z0-9])/i],
+  ['Tamil', /(?<![a-z0-9])(?:tamil|tam)(?![a-z0-9])/i],
+  ['Telugu', /(?<![a-z0-9])(?:telugu|tel)(?![a-z0-9])/i],
+  ['Malayalam', /(?<![a-z0-9])(?:malayalam|mal)(?![a-z0-9])/i],
+  ['Kannada', /(?<![a-z0-9])(?:kannada|kan)(?![a-z0-9])/i],
+  ['Bengali', /(?<![a-z0-9])(?:bengali|bangla|ben)(?![a-z0-9])/i],
+  ['Punjabi', /(?<![a-z0-9])punjabi(?![a-z0-9])/i],
+  ['Marathi', /(?<![a-z0-9])marathi(?![a-z0-9])/i],
+  ['Urdu', /(?<![a-z0-9])urdu(?![a-z0-9])/i],
+  ['Korean', /(?<![a-z0-9])(?:korean|kor)(?![a-z0-9])/i],
+  ['Japanese', /(?<![a-z0-9])(?:japanese|jpn|jap)(?![a-z0-9])/i],
+  ['Chinese', /(?<![a-z0-9])(?:chinese|mandarin|chi)(?![a-z0-9])/i],
+  ['Spanish', /(?<![a-z0-9])(?:spanish|spa)(?![a-z0-9])/i],
+  ['French', /(?<![a-z0-9])(?:french|fre)(?![a-z0-9])/i]
+];
+
+// ISO 639-1 codes, used for subtitle file suffixes ("Movie.en.srt") and <track srclang>
+const LANGUAGE_CODES = {
+  Hindi: 'hi', English: 'en', Tamil: 'ta', Telugu: 'te', Malayalam: 'ml', Kannada: 'kn',
+  Bengali: 'bn', Punjabi: 'pa', Marathi: 'mr', Urdu: 'ur', Korean: 'ko', Japanese: 'ja',
+  Chinese: 'zh', Spanish: 'es', French: 'fr'
+};
+
+const SUBTITLE_EXTENSIONS = ['srt', 'vtt', 'ass', 'ssa', 'sub'];
+
+const MULTI_AUDIO = /(?<![a-z0-9])(?:dual[ ._-]?audio|dual|multi(?:[ ._-]?audio)?)(?![a-z0-9])/i;
+
+const EDITIONS = [
+  ['Extended', /(?<![a-z0-9])extended(?:[ ._-]?(?:cut|edition))?(?![a-z0-9])/i],
+  ["Director's Cut", /(?<![a-z0-9])directors?'?s?[ ._-]?cut(?![a-z0-9])/i],
+  ['Theatrical', /(?<![a-z0-9])theatrical(?:[ ._-]?cut)?(?![a-z0-9])/i],
+  ['Final Cut', /(?<![a-z0-9])final[ ._-]?cut(?![a-z0-9])/i],
+  ['Special Edition', /(?<![a-z0-9])special[ ._-]?edition(?![a-z0-9])/i],
+  ['Unrated', /(?<![a-z0-9])unrated(?![a-z0-9])/i],
+  ['Uncut', /(?<![a-z0-9])uncut(?![a-z0-9])/i],
+  ['Remastered', /(?<![a-z0-9])remastered(?![a-z0-9])/i],
+  ['IMAX', /(?<![a-z0-9])imax(?![a-z0-9])/i],
+  ['Criterion', /(?<![a-z0-9])criterion(?![a-z0-9])/i]
+];
+
+const YEAR = /(?<![a-z0-9])(19\d{2}|20\d{2})(?![a-z0-9])/gi;
+
+const SEASON_EPISODE = [
+  /(?<![a-z0-9])s(\d{1,2})[ ._-]?e(\d{1,3})(?!\d)/i,
+  /(?<![a-z0-9])(\d{1,2})x(\d{2,3})(?![a-z0-9])/i,
+  /(?<![a-z0-9])season[ ._-]?(\d{1,2})[ ._-]?episode[ ._-]?(\d{1,3})(?![a-z0-9])/i,
+  /(?<![a-z0-9])s(\d{1,2})(?![a-z0-9])/i,
+  /(?<![a-z0-9])season[ ._-]?(\d{1,2})(?![a-z0-9])/i
+];
+
+const EPISODE = /(?<![a-z0-9])(?:episode|ep)[ ._-]?(\d{1,3})(?![a-z0-9])/i;
+
+// Fansub releases number episodes absolutely: "Show - 05 [1080p]"
+const ABSOLUTE_EPISODE = /\s-\s(\d{1,3})(?=\s|[[(]|$)/;
+
+// Suffixes of hyphenated tokens that must not be taken for a release group
+const HYPHENATED_TOKEN = /(?:web|blu|dts|ac|dolby|hdr10)$/i;
+const NON_GROUP_SUFFIX = /^(?:dl|rip|ray|hd|ma|x|3|audio|cut)$/i;
+
+class ReleaseNameService {
+  /**
+   * Parses a file name, URL or listing title. Fields that can't be
+   * determined are null (languages is always an array).
+   */
+  parse(input) {
+    const result = {
+      title: '',
+      year: null,
+      resolution: null,
+      source: null,
+      videoCodec: null,
+      audioCodec: null,
+      audioChannels: null,
+      hdr: null,
+      languages: [],
+      multiAudio: false,
+      edition: null,
+      releaseGroup: null,
+      season: null,
+      episode: null,
+      container: null
+    };
+
+    let name = this.getBaseName(input);
+    if (!name) {
+      return result;
+    }
+
+    const extensionMatch = name.match(/\.([a-z0-9]{2,4})$/i);
+    if (extensionMatch && VIDEO_EXTENSIONS.includes(extensionMatch[1].toLowerCase())) {
+      result.container = extensionMatch[1].toLowerCase();
+      name = name.slice(0, -extensionMatch[0].length);
+    }
+
+    // Leading [Group] tags, as used by fansub releases
+    const leadingGroup = name.match(/^\[([^\]]+)\]\s*/);
+    if (leadingGroup) {
+      result.releaseGroup = leadingGroup[1].trim();
+      name = name.slice(leadingGroup[0].length);
+    }
+
+    const titleEnd = this.findTitleEnd(name, result);
+    const tail = name.slice(titleEnd);
+
+    if (!result.releaseGroup) {
+      result.releaseGroup = this.findReleaseGroup(name, titleEnd);
+    }
+
+    const tailWithoutGroup = result.releaseGroup && tail.endsWith(result.releaseGroup)
+      ? tail.slice(0, -result.releaseGroup.length)
+      : tail;
+
+    result.resolution = this.findFirst(RESOLUTIONS, tailWithoutGroup);
+    result.source = this.findEarliest(SOURCES, tailWithoutGroup) || this.findEarliest(WEAK_SOURCES, tailWithoutGroup);
+    result.videoCodec = this.findFirst(VIDEO_CODECS, tailWithoutGroup);
+    result.audioCodec = this.findFirst(AUDIO_CODECS, tailWithoutGroup);
+    result.audioChannels = this.findAudioChannels(tailWithoutGroup);
+    result.hdr = this.findFirst(HDR_FORMATS, tailWithoutGroup);
+    result.edition = this.findFirst(EDITIONS, tailWithoutGroup);
+
+    // Season folders ("Season 2") are nothing but a season marker
+    const nameWithoutGroup = name.slice(0, titleEnd) + tailWithoutGroup;
+    this.findSeasonEpisode(nameWithoutGroup, result);
+
+    let title = this.cleanTitle(name.slice(0, titleEnd));
+
+    // Listing titles like "Jawan Hindi" carry the language after the title
+    const trailingLanguage = this.splitTrailingLanguage(title);
+    if (trailingLanguage) {
+      title = trailingLanguage.title;
+      result.languages.push(trailingLanguage.language);
+    }
+
+    for (const [language, pattern] of LANGUAGES) {
+      if (pattern.test(tailWithoutGroup) && !result.languages.includes(language)) {
+        result.languages.push(language);
+      }
+    }
+
+    result.title = title;
+    result.multiAudio = result.languages.length > 1 || MULTI_AUDIO.test(tailWithoutGroup);
+
+    return result;
+  }
+
+  /**
+   * Reads the language and flags of a sidecar subtitle file from the tags
+   * before its extension ("Movie.2023.1080p.en.forced.srt", "Movie.English.SDH.srt")
+   */
+  parseSubtitleName(input) {
+    const result = {
+      format: null,
+      language: null,
+      languageCode: null,
+      forced: false,
+      hearingImpaired: false
+    };
+
+    let name = this.getBaseName(input);
+    const extensionMatch = name.match(/\.([a-z]{3})$/i);
+    if (extensionMatch && SUBTITLE_EXTENSIONS.includes(extensionMatch[1].toLowerCase())) {
+      result.format = extensionMatch[1].toLowerCase();
+      name = name.slice(0, -extensionMatch[0].length);
+    }
+
+    // Only the last few tags describe the subtitle; earlier ones belong to the video
+    const tags = name.split(/[ ._-]+/).slice(-3).reverse();
+    for (const tag of tags) {
+      const lowerTag = tag.toLowerCase();
+
+      if (lowerTag === 'forced') {
+        result.forced = true;
+      } else if (lowerTag === 'sdh' || lowerTag === 'cc') {
+        result.hearingImpaired = true;
+      } else if (!result.language) {
+        const byCode = Object.keys(LANGUAGE_CODES).find(language => LANGUAGE_CODES[language] === lowerTag);
+        const byName = LANGUAGES.find(([, pattern]) => pattern.test(tag));
+        result.language = byCode || (byName ? byName[0] : null);
+      }
+    }
+
+    result.languageCode = result.language ? LANGUAGE_CODES[result.language] : null;
+    return result;
+  }
+
+  /**
+   * Strips URL paths, query strings and percent-encoding from the input
+   */
+  getBaseName(input) {
+    if (!input || typeof input !== 'string') return '';
+
+    let name = input.trim().split(/[?#]/)[0];
+    if (name.includes('/')) {
+      name = name.replace(/\/+$/, '').split('/').pop();
+    }
+
+    try {
+      name = decodeURIComponent(name);
+    } catch (error) {
+      // Keep the raw name if it contains malformed escapes
+    }
+
+    return name.trim();
+  }
+
+  /**
+   * Returns the index where the title ends: at the release year, or at the
+   * first resolution, source, codec or episode marker when there is no year.
+   * Sets result.year.
+   */
+  findTitleEnd(name, result) {
+    let firstMarker = name.length;
+    for (const [, pattern] of [...RESOLUTIONS, ...SOURCES, ...VIDEO_CODECS]) {
+      const match = pattern.exec(name);
+      if (match && match.index > 0 && match.index < firstMarker) {
+        firstMarker = match.index;
+      }
+    }
+    for (const pattern of [...SEASON_EPISODE, ABSOLUTE_EPISODE]) {
+      const match = pattern.exec(name);
+      if (match && match.index > 0 && match.index < firstMarker) {
+        firstMarker = match.index;
+      }
+    }
+
+    // The release year is the last year before the technical markers, so
+    // titles containing numbers ("Blade Runner 2049 2017") keep them
+    let yearMatch = null;
+    for (const match of name.matchAll(YEAR)) {
+      if (match.index >= firstMarker) break;
+      yearMatch = match;
+    }
+
+    if (yearMatch && yearMatch.index > 0) {
+      result.year = yearMatch[1];
+      return yearMatch.index;
+    }
+
+    return firstMarker;
+  }
+
+  /**
+   * Returns the group after the last hyphen ("x265-GRP") or in trailing
+   * brackets ("[YTS.MX]"), if it comes after the title
+   */
+  findReleaseGroup(name, titleEnd) {
+    const bracketMatch = name.match(/\[([^\]]+)\]\s*$/);
+    if (bracketMatch && bracketMatch.index >= titleEnd) {
+      const candidate = bracketMatch[1].trim();
+      const isTechnical = [...RESOLUTIONS, ...SOURCES, ...VIDEO_CODECS, ...AUDIO_CODECS]
+        .some(([, pattern]) => pattern.test(candidate));
+      if (!isTechnical) {
+        return candidate;
+      }
+    }
+
+    const hyphenMatch = name.match(/-([a-z0-9]+)$/i);
+    if (!hyphenMatch || hyphenMatch.index < titleEnd || titleEnd === name.length) {
+      return null;
+    }
+
+    const group = hyphenMatch[1];
+    const beforeHyphen = name.slice(0, hyphenMatch.index);
+    if (NON_GROUP_SUFFIX.test(group) || HYPHENATED_TOKEN.test(beforeHyphen)) {
+      return null;
+    }
+
+    return group;
+  }
+
+  findSeasonEpisode(text, result) {
+    for (const pattern of SEASON_EPISODE) {
+      const match = pattern.exec(text);
+      if (match) {
+        result.season = parseInt(match[1], 10);
+        result.episode = match[2] !== undefined ? parseInt(match[2], 10) : null;
+        break;
+      }
+    }
+
+    if (result.episode === null) {
+      const episodeMatch = EPISODE.exec(text) || ABSOLUTE_EPISODE.exec(text);
+      if (episodeMatch) {
+        result.episode = parseInt(episodeMatch[1], 10);
+      }
+    }
+  }
+
+  findAudioChannels(text) {
+    const pattern = /(?<![0-9])([1-7])[ .]([01])(?![0-9])/g;
+    for (const match of text.matchAll(pattern)) {
+      const channels = `${match[1]}.${match[2]}`;
+      if (AUDIO_CHANNELS.includes(channels)) {
+        return channels;
+      }
+    }
+
+    const countMatch = text.match(/(?<![a-z0-9])([268])ch(?![a-z0-9])/i);
+    return countMatch ? CHANNEL_COUNTS[countMatch[1]] : null;
+  }
+
+  /**
+   * Returns the value of the first table entry whose pattern matches
+   */
+  findFirst(table, text) {
+    const entry = table.find(([, pattern]) => pattern.test(text));
+    return entry ? entry[0] : null;
+  }
+
+  /**
+   * Returns the value of the entry that matches earliest in the text
+   */
+  findEarliest(table, text) {
+    let best = null;
+    let bestIndex = Infinity;
+
+    for (const [value, pattern] of table) {
+      const match = pattern.exec(text);
+      if (match && match.index < bestIndex) {
+        best = value;
+        bestIndex = match.index;
+      }
+    }
+
+    return best;
+  }
+
+  cleanTitle(rawTitle) {
+    return rawTitle
+      .replace(/_/g, ' ')
+      .replace(/(?<!\d)\.|\.(?!\d)/g, ' ') // Keep dots inside numbers ("Robot 2.0")
+      .replace(/[[(]\s*$/, '')
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s-]+|[\s-]+$/g, '')
+      .trim();
+  }
+
+  splitTrailingLanguage(title) {
+    const words = title.split(' ');
+    if (words.length < 2) return null;
+
+    const lastWord = words[words.length - 1];
+    const entry = LANGUAGES.find(([language]) => language.toLowerCase() === lastWord.toLowerCase());
+    if (!entry) return null;
+
+    return { title: words.slice(0, -1).join(' '), language: entry[0] };
+  }
+}
+
+module.exports = new ReleaseNameService();
@@ -0,0 +1,236 @@
+/**
+ * Remux Service
+ * Turns Matroska files into fragmented MP4 on the fly with a locally installed
+ * ffmpeg so they play in a plain <video> element. H.264/H.265 video is stream
+ * copied; audio is copied when browsers decode it and transcoded to AAC otherwise
+ * (AC-3, E-AC-3, DTS, TrueHD...).
+ */
+
+const { spawn, execFile } = require('child_process');
+const config = require('../config');
+
+// Video codecs (ffprobe names) that can be copied into MP4 as-is
+const COPYABLE_VIDEO_CODECS = ['h264', 'hevc'];
+// Audio codecs every browser decodes from MP4; anything else becomes AAC
+const BROWSER_AUDIO_CODECS = ['aac', 'mp3'];
+// Subtitle codecs ffmpeg can convert to WebVTT; bitmap subtitles (PGS, VobSub) can't be
+const TEXT_SUBTITLE_CODECS = ['subrip', 'srt', 'ass', 'ssa', 'webvtt', 'mov_text', 'text'];
+// Sources are only ever read from this host and its subdomains
+const SOURCE_HOST = 'discoveryftp.net';
+// Keeps ffmpeg and ffprobe from opening local files or other protocols (file:, concat:...)
+const PROTOCOL_WHITELIST = 'http,https,tcp,tls';
+// Probe results kept; the least recently used are dropped past this
+const PROBE_CACHE_SIZE = 500;
+
+class RemuxService {
+  constructor() {
+    this.activeProcesses = new Set();
+    this.startingRemuxes = 0; // Remuxes holding a slot while their file is probed
+    this.probeCache = new Map(); // url -> probe result, in least recently used order
+  }
+
+  /**
+   * Whether a URL may be handed to ffmpeg: http(s) on the source host only
+   */
+  isAllowedUrl(url) {
+    let parsed;
+    try {
+      parsed = new URL(url);
+    } catch (error) {
+      return false;
+    }
+
+    return (parsed.protocol === 'http:' || parsed.protocol === 'https:') &&
+      (parsed.hostname === SOURCE_HOST || parsed.hostname.endsWith(`.${SOURCE_HOST}`));
+  }
+
+  /**
+   * The input options every ffmpeg and ffprobe run starts with
+   */
+  getInputArgs() {
+    return ['-protocol_whitelist', PROTOCOL_WHITELIST, '-user_agent', config.scraping.userAgent];
+  }
+
+  /**
+   * Reads the duration and streams of a file with ffprobe; the last
+   * PROBE_CACHE_SIZE files are cached. Fails with code URL_NOT_ALLOWED for
+   * URLs off the source host.
+   */
+  async probe(url) {
+    if (!this.isAllowedUrl(url)) {
+      const error = new Error('Only Discovery FTP URLs are allowed');
+      error.code = 'URL_NOT_ALLOWED';
+      throw error;
+    }
+    if (this.probeCache.has(url)) {
+      const info = this.probeCache.get(url);
+      this.probeCache.delete(url);
+      this.probeCache.set(url, info);
+      return info;
+    }
+
+    const output = await this.runFfprobe([
+      '-v', 'error',
+      ...this.getInputArgs(),
+      '-show_entries', 'format=duration,bit_rate:stream=index,codec_type,codec_name,channels:stream_disposition=default,forced:stream_tags=language,title',
+      '-of', 'json',
+      url
+    ]);
+
+    const info = this.parseProbeOutput(output);
+    this.probeCache.set(url, info);
+    if (this.probeCache.size > PROBE_CACHE_SIZE) {
+      this.probeCache.delete(this.probeCache.keys().next().value);
+    }
+    return info;
+  }
+
+  /**
+   * Converts ffprobe JSON into the duration, the first video stream and the
+   * audio streams, with what the remux would do to each
+   */
+  parseProbeOutput(output) {
+    const data = typeof output === 'string' ? JSON.parse(output) : output;
+    const streams = data.streams || [];
+    const duration = parseFloat(data.format?.duration);
+    const bitrate = parseInt(data.format?.bit_rate);
+
+    const videoStream = streams.find(stream => stream.codec_type === 'video');
+    const audioStreams = streams.filter(stream => stream.codec_type === 'audio');
+    const subtitleStreams = streams.filter(stream => stream.codec_type === 'subtitle');
+
+    return {
+      duration: Number.isFinite(duration) ? duration : null,
+      bitrate: Number.isFinite(bitrate) ? bitrate : null,
+      video: videoStream ? {
+        codec: videoStream.codec_name,
+        copyable: COPYABLE_VIDEO_CODECS.includes(videoStream.codec_name)
+      } : null,
+      audio: audioStreams.map((stream, audioIndex) => ({
+        index: audioIndex,
+        codec: stream.codec_name,
+        channels: stream.channels || null,
+        language: stream.tags?.language || null,
+        title: stream.tags?.title || null,
+        transcode: !BROWSER_AUDIO_CODECS.includes(stream.codec_name)
+      })),
+      subtitles: subtitleStreams.map((stream, subtitleIndex) => ({
+        index: subtitleIndex,
+        codec: stream.codec_name,
+        language: stream.tags?.language || null,
+        title: stream.tags?.title || null,
+        isDefault: stream.disposition?.default === 1,
+        isForced: stream.disposition?.forced === 1,
+        isText: TEXT_SUBTITLE_CODECS.includes(stream.codec_name)
+      })),
+      remuxable: Boolean(videoStream && COPYABLE_VIDEO_CODECS.includes(videoStream.codec_name))
+    };
+  }
+
+  /**
+   * Builds the ffmpeg arguments for a remux starting at `start` seconds
+   */
+  buildArgs(url, info, { start = 0, audioTrack = 0 } = {}) {
+    const audio = info.audio[audioTrack] || info.audio[0] || null;
+    const args = ['-hide_banner', '-loglevel', 'error', ...this.getInputArgs()];
+
+    // Input seeking jumps to the keyframe before `start`, which stream copy needs
+    if (start > 0) {
+      args.push('-ss', String(start));
+    }
+    args.push('-i', url, '-map', '0:v:0');
+
+    if (audio) {
+      args.push('-map', `0:a:${audio.index}`);
+    }
+
+    args.push('-c:v', 'copy');
+    if (info.video?.codec === 'hevc') {
+      // Safari only plays HEVC in MP4 with the hvc1 sample entry
+      args.push('-tag:v', 'hvc1');
+    }
+
+    if (audio?.transcode) {
+      args.push('-c:a', 'aac', '-b:a', config.remux.audioBitrate, '-ac', '2');
+    } else if (audio) {
+      args.push('-c:a', 'copy');
+    }
+
+    args.push(
+      '-sn',
+      '-movflags', 'frag_keyframe+empty_moov+default_base_moof',
+      '-f', 'mp4',
+      'pipe:1'
+    );
+
+    return args;
+  }
+
+  /**
+   * Starts an ffmpeg remux and returns the process; its stdout is the
+   * fragmented MP4. Fails with code REMUX_BUSY when too many remuxes run and
+   * UNSUPPORTED_CODEC when the video can't be copied. The slot is taken
+   * before the file is probed, so requests arriving meanwhile count against it.
+   */
+  async startRemux(url, options = {}) {
+    if (this.activeProcesses.size + this.startingRemuxes >= config.remux.maxConcurrent) {
+      const error = new Error(`Too many remuxes in progress (limit ${config.remux.maxConcurrent})`);
+      error.code = 'REMUX_BUSY';
+      throw error;
+    }
+
+    this.startingRemuxes++;
+    let info;
+    try {
+      info = await this.probe(url);
+    } finally {
+      this.startingRemuxes--;
+    }
+
+    if (!info.remuxable) {
+      const error = new Error(`Video codec ${info.video?.codec || 'unknown'} can't be remuxed without transcoding`);
+      error.code = 'UNSUPPORTED_CODEC';
+      throw error;
+    }
+
+    const args = this.buildArgs(url, info, options);
+    const ffmpeg = spawn(config.remux.ffmpegPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+    this.activeProcesses.add(ffmpeg);
+    ffmpeg.on('close', () => this.activeProcesses.delete(ffmpeg));
+    ffmpeg.on('error', (error) => {
+      this.activeProcesses.delete(ffmpeg);
+      console.error('ffmpeg failed to start:', error.message);
+    });
+    ffmpeg.stderr.on('data', (data) => {
+      console.error(`ffmpeg: ${data.toString().trim()}`);
+    });
+
+    console.log(`🎞️ Remuxing ${url} from ${options.start || 0}s`);
+    return { process: ffmpeg, info };
+  }
+
+  /**
+   * Stops every running remux (used on shutdown)
+   */
+  stopAll() {
+    for (const ffmpeg of this.activeProcesses) {
+      ffmpeg.kill('SIGKILL');
+    }
+    this.activeProcesses.clear();
+  }
+
+  runFfprobe(args, { timeout = 30000 } = {}) {
+    return new Promise((resolve, reject) => {
+      execFile(config.remux.ffprobePath, args, { timeout, maxBuffer: 1024 * 1024 }, (error, stdout) => {
+        if (error) {
+          reject(new Error(`ffprobe failed: ${error.code === 'ENOENT' ? 'ffprobe is not installed' : error.message}`));
+          return;
+        }
+        resolve(stdout);
+      });
+    });
+  }
+}
+
+module.exports = new RemuxService();
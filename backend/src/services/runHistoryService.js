@@ -0,0 +1,147 @@
+/**
+ * Run History Service
+ * Keeps a record of every scrape and enrich run, including the movies it
+ * added, removed and changed, and persists the history next to the catalog
+ */
+
+const config = require('../config');
+const catalogService = require('./catalogService');
+
+class RunHistoryService {
+  constructor() {
+    this.runs = [];
+    this.isLoaded = false;
+    this.sequence = 0;
+  }
+
+  async load() {
+    try {
+      this.runs = await catalogService.store.loadRuns();
+      console.log(`📜 Loaded ${this.runs.length} scrape run records`);
+    } catch (error) {
+      console.error('Failed to load scrape run history:', error.message);
+    }
+
+    this.isLoaded = true;
+    return this.runs;
+  }
+
+  /**
+   * Opens a run record; pass it to finishRun once the run is over
+   */
+  startRun(type, details = {}) {
+    this.sequence++;
+    const startedAt = new Date();
+
+    const run = {
+      id: `run_${startedAt.getTime().toString(36)}_${this.sequence}`,
+      type,
+      trigger: details.trigger || 'manual',
+      mode: details.mode || null,
+      status: 'running',
+      startedAt: startedAt.toISOString(),
+      endedAt: null,
+      durationMs: null,
+      pagesFetched: 0,
+      moviesFound: 0,
+      enriched: 0,
+      reused: 0,
+      errors: [],
+      added: [],
+      removed: [],
+      changed: []
+    };
+
+    this.runs.push(run);
+    return run;
+  }
+
+  /**
+   * Closes a run record with its final counters and persists the history
+   */
+  async finishRun(run, result = {}) {
+    Object.assign(run, result);
+
+    const endedAt = new Date();
+    run.endedAt = endedAt.toISOString();
+    run.durationMs = endedAt - new Date(run.startedAt);
+    if (run.status === 'running') {
+      run.status = run.errors.length > 0 ? 'completed_with_errors' : 'success';
+    }
+
+    // Drop the oldest records beyond the configured limit
+    const limit = config.storage.runHistoryLimit;
+    if (this.runs.length > limit) {
+      this.runs = this.runs.slice(this.runs.length - limit);
+    }
+
+    try {
+      await catalogService.store.saveRuns(this.runs);
+    } catch (error) {
+      console.error('Failed to save scrape run history:', error.message);
+    }
+
+    return run;
+  }
+
+  /**
+   * Records an error against a run, keeping the list bounded
+   */
+  recordError(run, context, error) {
+    if (!run) return;
+
+    if (run.errors.length < 100) {
+      run.errors.push({
+        context,
+        message: error.message || String(error),
+        at: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Returns run records newest first, without the per-movie diff lists.
+   * offset skips the newest records, for paging with limit.
+   */
+  getRuns({ type, limit, offset = 0 } = {}) {
+    let runs = [...this.runs].reverse();
+
+    if (type) {
+      runs = runs.filter(run => run.type === type);
+    }
+    runs = runs.slice(offset, limit ? offset + limit : undefined);
+
+    return runs.map(run => this.summarizeRun(run));
+  }
+
+  countRuns(type) {
+    return type ? this.runs.filter(run => run.type === type).length : this.runs.length;
+  }
+
+  getRun(id) {
+    return this.runs.find(run => run.id === id) || null;
+  }
+
+  getLastRun(type) {
+    for (let i = this.runs.length - 1; i >= 0; i--) {
+      if (!type || this.runs[i].type === type) {
+        return this.summarizeRun(this.runs[i]);
+      }
+    }
+    return null;
+  }
+
+  summarizeRun(run) {
+    const { added, removed, changed, errors, ...summary } = run;
+
+    return {
+      ...summary,
+      errorCount: errors.length,
+      addedCount: added.length,
+      removedCount: removed.length,
+      changedCount: changed.length
+    };
+  }
+}
+
+module.exports = new RunHistoryService();
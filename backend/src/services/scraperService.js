@@ -1,22 +1,44 @@
+const crypto = require('crypto');
 const cheerio = require('cheerio');
 const authService = require('./authService');
 const mockDataService = require('./mockDataService');
+const movieIdService = require('./movieIdService');
+const releaseNameService = require('./releaseNameService');
+const catalogService = require('./catalogService');
+const runHistoryService = require('./runHistoryService');
 const config = require('../config');
+const { createSiteAdapter } = require('../adapters');
+
+// Fields filled in by enrichMovieData that incremental scrapes carry over
+const ENRICHED_FIELDS = ['downloadUrls', 'subtitles', 'description', 'rating', 'genres', 'enrichedAt'];
 
 class ScraperService {
   constructor() {
-    this.moviesCache = [];
-    this.lastScrapeTime = null;
     this.isScrapingInProgress = false;
+    this.currentRun = null;
+    this.adapter = createSiteAdapter();
   }
 
-  async scrapeMovies() {
+  /**
+   * Scrapes the listing pages and enriches movies with detail page data.
+   * In incremental mode only new or changed movies are enriched; pass
+   * { full: true } to re-enrich everything. Every call is saved as a run record,
+   * tagged with options.trigger ('scheduled' or 'manual').
+   */
+  async scrapeMovies(options = {}) {
+    const incremental = !options.full && config.scraping.mode !== 'full';
+
     if (this.isScrapingInProgress) {
       console.log('Scraping already in progress, skipping...');
-      return this.moviesCache;
+      return catalogService.getMovies();
     }
 
     this.isScrapingInProgress = true;
+    const run = runHistoryService.startRun('scrape', {
+      trigger: options.trigger,
+      mode: incremental ? 'incremental' : 'full'
+    });
+    this.currentRun = run;
     
     try {
       console.log('Starting movie scraping process...');
@@ -28,11 +50,9 @@ class ScraperService {
       } catch (authError) {
         console.log('🎭 Authentication failed, using mock data instead...');
         console.log(`Auth error: ${authError.message}`);
-        const mockMovies = mockDataService.getMovies();
-        this.moviesCache = mockMovies;
-        this.lastScrapeTime = new Date();
-        console.log(`✅ Loaded ${mockMovies.length} mock movies for demo purposes`);
-        return mockMovies;
+        runHistoryService.recordError(run, 'auth', authError);
+        run.status = 'fallback';
+        return this.fallBackToMockData();
       }
 
       const client = authService.getClient();
@@ -43,64 +63,10 @@ class ScraperService {
       if (moviesResponse.status !== 200) {
         throw new Error(`Movies page returned status: ${moviesResponse.status}`);
       }
+      run.pagesFetched++;
       
       const $ = cheerio.load(moviesResponse.data);
-      const movies = [];
-      
-      // Try different selectors to find movie items - Discovery FTP specific
-      const movieSelectors = [
-        '.card',                              // Individual movie cards
-        '.movie-item',
-        '.movie-card',
-        '.film-item',
-        '.video-item',
-        '.media-item',
-        'tr[data-name]',                      // Table rows with data-name attribute
-        'tr:has(td)',                         // Table rows with cells
-        '.list-item',
-        'li:has(a[href*="movie"])',
-        'li:has(a[href*="film"])',
-        'div:has(img[src*="poster"])',
-        'div:has(img[src*="thumb"])'
-      ];
-      
-      let movieElements = $();
-      
-      for (const selector of movieSelectors) {
-        const elements = $(selector);
-        if (elements.length > 0) {
-          console.log(`Found ${elements.length} elements with selector: ${selector}`);
-          movieElements = elements;
-          break;
-        }
-      }
-      
-      // If no specific movie elements found, try to parse table structure
-      if (movieElements.length === 0) {
-        const tables = $('table');
-        if (tables.length > 0) {
-          movieElements = tables.first().find('tr').slice(1); // Skip header row
-          console.log(`Found ${movieElements.length} table rows`);
-        }
-      }
-      
-      // If still no elements, try to find any links that might be movies
-      if (movieElements.length === 0) {
-        movieElements = $('a[href*=".mp4"], a[href*=".mkv"], a[href*=".avi"], a[href*="movie"], a[href*="film"]');
-        console.log(`Found ${movieElements.length} potential movie links`);
-      }
-      
-      // Process each movie element
-      movieElements.each((index, element) => {
-        try {
-          const movie = this.extractMovieData($, $(element), index, 'main');
-          if (movie && movie.title) {
-            movies.push(movie);
-          }
-        } catch (error) {
-          console.error(`Error processing movie element ${index}:`, error.message);
-        }
-      });
+      const movies = await this.extractMoviesFromPage($, 'main');
       
       console.log(`Successfully scraped ${movies.length} movies from main page`);
 
@@ -112,42 +78,74 @@ class ScraperService {
       const directoryMovies = await this.scrapeDirectoryStructure(client);
       movies.push(...directoryMovies);
 
-      // Now enrich ALL movies (main page + pagination + directory) with video data
-      console.log(`Starting enrichment process for ${movies.length} total movies...`);
-      let enrichedCount = 0;
-      let processedCount = 0;
+      // Only compare against a real catalog, never against mock data
+      const previousMovies = catalogService.isPersistent ? catalogService.getMovies() : [];
+      const previousById = new Map(previousMovies.map(movie => [movieIdService.resolve(movie.id), movie]));
+
+      // Enrich movies (main page + pagination + directory) with video data
+      const moviesToEnrich = [];
+      let reusedCount = 0;
 
       for (const movie of movies) {
-        if (movie.detailUrl) {
-          try {
-            processedCount++;
-            console.log(`Enriching movie ${processedCount}/${movies.length}: ${movie.title}`);
-            await this.enrichMovieData(client, movie);
-            if (movie.downloadUrls && movie.downloadUrls.length > 0) {
-              enrichedCount++;
-            }
+        if (!movie.detailUrl) continue;
+
+        const previous = previousById.get(movie.id);
+        if (incremental && this.canReuseEnrichment(previous, movie)) {
+          this.copyEnrichedFields(previous, movie);
+          reusedCount++;
+        } else {
+          moviesToEnrich.push(movie);
+        }
+      }
+
+      console.log(`Starting ${incremental ? 'incremental' : 'full'} enrichment for ${moviesToEnrich.length} of ${movies.length} movies (${reusedCount} unchanged)...`);
+      let enrichedCount = 0;
+      let processedCount = 0;
 
-            // Add delay between requests to avoid overwhelming the server
-            await new Promise(resolve => setTimeout(resolve, 200));
-          } catch (error) {
-            console.error(`Error enriching movie data for ${movie.title}:`, error.message);
+      for (const movie of moviesToEnrich) {
+        try {
+          processedCount++;
+          console.log(`Enriching movie ${processedCount}/${moviesToEnrich.length}: ${movie.title}`);
+          await this.enrichMovieData(client, movie);
+          if (movie.downloadUrls && movie.downloadUrls.length > 0) {
+            enrichedCount++;
           }
+
+          // Add delay between requests to avoid overwhelming the server
+          await this.delay(200);
+        } catch (error) {
+          console.error(`Error enriching movie data for ${movie.title}:`, error.message);
+          runHistoryService.recordError(run, `enrich ${movie.id}`, error);
         }
       }
 
       console.log(`Enrichment completed: ${enrichedCount} movies now have video content out of ${movies.length} total movies`);
 
-      this.moviesCache = movies;
-      this.lastScrapeTime = new Date();
-
       // Remove duplicates based on title and year
       const uniqueMovies = this.deduplicateMovies(movies);
 
+      // Keep IDs from the previous catalog resolvable
+      movieIdService.recordAliases(catalogService.getMovies(), uniqueMovies);
+
+      // Record what this run added, removed and changed
+      const changes = this.detectChanges(previousMovies, uniqueMovies);
+      Object.assign(run, changes, {
+        moviesFound: uniqueMovies.length,
+        enriched: processedCount,
+        reused: reusedCount
+      });
+      console.log(`Catalog changes: ${changes.added.length} added, ${changes.removed.length} removed, ${changes.changed.length} changed`);
+
+      // Persist the new catalog
+      await catalogService.replaceMovies(uniqueMovies);
+
       console.log(`Total movies scraped: ${movies.length}, unique movies: ${uniqueMovies.length}`);
       return uniqueMovies;
       
     } catch (error) {
       console.error('Error scraping movies:', error.message);
+      runHistoryService.recordError(run, 'scrape', error);
+      run.status = 'failed';
 
       // If authentication failed, reset and retry once
       if (error.message.includes('401') || error.message.includes('403')) {
@@ -168,31 +166,93 @@ class ScraperService {
           error.message.includes('ECONNREFUSED') ||
           error.message.includes('Cannot reach Discovery FTP site')) {
         console.log('🎭 Site unreachable, falling back to mock data...');
-        const mockMovies = mockDataService.getMovies();
-        this.moviesCache = mockMovies;
-        this.lastScrapeTime = new Date();
-        console.log(`✅ Loaded ${mockMovies.length} mock movies for demo purposes`);
-        return mockMovies;
+        run.status = 'fallback';
+        return this.fallBackToMockData();
       }
 
       throw error;
     } finally {
       this.isScrapingInProgress = false;
+      this.currentRun = null;
+      await runHistoryService.finishRun(run);
     }
   }
 
-  extractMovieData($, element, index, pageId = 'main') {
-    // Generate a unique ID using timestamp, page, and index
-    const uniqueId = `movie_${pageId}_${index}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  /**
+   * Builds a fingerprint of the listing fields whose change should trigger re-enrichment
+   */
+  computeListingFingerprint(movie) {
+    const fields = [movie.title || '', movie.poster || '', movie.quality || ''];
+    return crypto.createHash('sha1').update(JSON.stringify(fields)).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Checks whether a previously enriched movie can be reused as-is
+   */
+  canReuseEnrichment(previous, movie) {
+    return Boolean(
+      previous &&
+      previous.enrichedAt &&
+      previous.detailUrl === movie.detailUrl &&
+      previous.listingFingerprint === movie.listingFingerprint
+    );
+  }
+
+  copyEnrichedFields(previous, movie) {
+    for (const field of ENRICHED_FIELDS) {
+      if (previous[field] !== undefined) {
+        movie[field] = previous[field];
+      }
+    }
+  }
+
+  /**
+   * Compares two catalogs by ID and listing fingerprint, returning
+   * { id, title, year } entries for added, removed and changed movies
+   */
+  detectChanges(previousMovies, currentMovies) {
+    const previousById = new Map(previousMovies.map(movie => [movieIdService.resolve(movie.id), movie]));
+    const currentIds = new Set(currentMovies.map(movie => movie.id));
+    const describe = (movie) => ({ id: movie.id, title: movie.title, year: movie.year || '' });
+
+    const added = [];
+    const changed = [];
+
+    for (const movie of currentMovies) {
+      const previous = previousById.get(movie.id);
+      if (!previous) {
+        added.push(describe(movie));
+      } else if (previous.listingFingerprint !== movie.listingFingerprint) {
+        changed.push(describe(movie));
+      }
+    }
+
+    const removed = previousMovies
+      .filter(movie => !currentIds.has(movieIdService.resolve(movie.id)))
+      .map(describe);
+
+    return { added, removed, changed };
+  }
+
+  /**
+   * Serves mock movies when the site is unreachable, keeping any stored catalog
+   */
+  fallBackToMockData() {
+    const movies = catalogService.useMockMovies(mockDataService.getMovies());
+    console.log(`✅ Serving ${movies.length} movies while Discovery FTP is unavailable`);
+    return movies;
+  }
 
+  extractMovieData($, element, index, pageId = 'main') {
     const movie = {
-      id: uniqueId,
+      id: '',
       title: '',
       poster: '',
       year: '',
       language: '',
       detailUrl: '',
       downloadUrls: [],
+      subtitles: [],
       genres: [],
       rating: '',
       size: '',
@@ -200,168 +260,57 @@ class ScraperService {
       description: ''
     };
 
-    // Extract title - Discovery FTP specific selectors
-    const titleSelectors = [
-      '.details h3',           // Main title in details section
-      'h3',                    // Any h3 tag
-      '.movie-title',          // Generic movie title class
-      '.title',                // Generic title class
-      '.name'                  // Generic name class
-    ];
-
-    for (const selector of titleSelectors) {
-      const titleElement = element.find(selector).first();
-      if (titleElement.length > 0) {
-        movie.title = titleElement.text().trim();
-        if (movie.title && movie.title !== '1080P' && movie.title !== 'CAM-RIP' && !movie.title.includes('WEB-DL')) {
-          break;
-        }
-      }
-    }
-
-    // If no title found, try the element text itself but filter out quality indicators
-    if (!movie.title) {
-      const elementText = element.text().trim().split('\n')[0].trim();
-      if (elementText && !elementText.includes('1080P') && !elementText.includes('CAM-RIP')) {
-        movie.title = elementText;
-      }
-    }
+    // Extract title, skipping quality badges
+    movie.title = this.adapter.findTitle(element);
     
     // Extract detail URL
-    const linkElement = element.find('a').first();
-    if (linkElement.length > 0) {
-      let href = linkElement.attr('href');
-      if (href) {
-        if (href.startsWith('/')) {
-          movie.detailUrl = new URL(href, config.discovery.baseUrl).href;
-        } else if (href.startsWith('http')) {
-          movie.detailUrl = href;
-        }
-      }
-    }
+    movie.detailUrl = this.adapter.findDetailUrl(element);
     
-    // Extract poster/thumbnail - Discovery FTP specific
-    const posterSelectors = [
-      '.poster img',           // Main poster image in poster div
-      'img[src*="poster"]',    // Any image with "poster" in src
-      'img[src*="media"]',     // Discovery FTP media images
-      '.card-img-top',         // Bootstrap card image
-      '.movie-poster',         // Common poster class
-      'img'                    // Fallback to any image
-    ];
-
-    let posterFound = false;
-    for (const selector of posterSelectors) {
-      const imgElement = element.find(selector).first();
-      if (imgElement.length > 0) {
-        let src = imgElement.attr('src');
-        if (src && !src.includes('blank_poster.png') && !src.includes('placeholder')) { // Skip placeholder images
-          let posterUrl;
-          if (src.startsWith('/')) {
-            posterUrl = new URL(src, config.discovery.baseUrl).href;
-          } else if (src.startsWith('http')) {
-            posterUrl = src;
-          }
-
-          // Use frontend API route to handle CORS and authentication
-          if (posterUrl) {
-            console.log(`Found poster URL for ${movie.title}: ${posterUrl}`);
-            // Use a relative URL so the frontend origin/port doesn't matter
-            movie.poster = `/api/poster?url=${encodeURIComponent(posterUrl)}`;
-            posterFound = true;
-            break; // Found a valid poster, stop looking
-          }
-        }
-      }
-    }
-
-    // If no poster found, try to construct one from the detail URL
-    if (!posterFound && movie.detailUrl) {
-      // Extract movie path from detail URL and construct poster URL
-      // Example: https://dflix.discoveryftp.net/m/Hindi/2025/Saiyaara -> poster at same location
-      try {
-        const detailPath = new URL(movie.detailUrl).pathname;
-        // Convert /m/Hindi/2025/Saiyaara to /Movies/Hindi/2025/Saiyaara/poster.jpg
-        const posterPath = detailPath.replace('/m/', '/Movies/') + '/poster.jpg';
-        const constructedPosterUrl = `https://content1.discoveryftp.net${posterPath}`;
+    // Extract poster/thumbnail
+    const posterUrl = this.adapter.findPosterUrl(element);
+    if (posterUrl) {
+      console.log(`Found poster URL for ${movie.title}: ${posterUrl}`);
+      // Use a relative URL so the frontend origin/port doesn't matter
+      movie.poster = `/api/poster?url=${encodeURIComponent(posterUrl)}`;
+    } else {
+      // No usable image, let the adapter construct one from the site layout
+      const constructedPosterUrl = this.adapter.constructPosterUrl(movie);
+      if (constructedPosterUrl) {
         console.log(`Constructed poster URL for ${movie.title}: ${constructedPosterUrl}`);
         movie.poster = `/api/poster?url=${encodeURIComponent(constructedPosterUrl)}`;
-        posterFound = true;
-      } catch (error) {
-        console.log(`Failed to construct poster URL for ${movie.title}: ${error.message}`);
-      }
-    }
-
-    // Final fallback: Generate poster URL from movie title and year
-    if (!posterFound && movie.title && movie.year) {
-      // Try to construct poster URL based on Discovery FTP structure
-      const languages = ['Hindi', 'English', 'Tamil', 'Telugu', 'Malayalam', 'Kannada', 'Bengali', 'Animation', 'Others'];
-
-      // Try to detect language from title or use a default
-      let detectedLanguage = 'Hindi'; // Default
-      for (const lang of languages) {
-        if (movie.title.includes(lang) || movie.language === lang) {
-          detectedLanguage = lang;
-          break;
-        }
       }
-
-      // Clean title for URL (remove special characters, spaces)
-      const cleanTitle = movie.title.replace(/[^\w\s]/g, '').replace(/\s+/g, ' ').trim();
-
-      // Construct potential poster URL
-      const constructedPosterUrl = `https://content1.discoveryftp.net/Movies/${detectedLanguage}/${movie.year}/${cleanTitle}/poster.jpg`;
-      console.log(`Final fallback poster URL for ${movie.title}: ${constructedPosterUrl}`);
-      movie.poster = `/api/poster?url=${encodeURIComponent(constructedPosterUrl)}`;
     }
     
-    // Extract year - Discovery FTP specific
-    // First try to find year in the feedback section
-    const yearElement = element.find('.feedback .movie_details_span[title="views"]').first();
-    if (yearElement.length > 0) {
-      const yearText = yearElement.text().trim();
-      if (/^\d{4}$/.test(yearText)) {
-        movie.year = yearText;
-      }
-    }
+    // Extract year from the listing badge
+    movie.year = this.adapter.findYear(element);
 
-    // Fallback: Extract year from title or separate field
-    if (!movie.year) {
-      const yearMatch = movie.title.match(/\((\d{4})\)/) || movie.title.match(/(\d{4})/);
-      if (yearMatch) {
-        movie.year = yearMatch[1];
-      }
+    // Titles sometimes carry year, quality and language ("Jawan (2023) 1080p Hindi")
+    const release = releaseNameService.parse(movie.title);
+
+    // Fallback: Extract year from title
+    if (!movie.year && release.year) {
+      movie.year = release.year;
     }
     
     // Extract size if in table format
-    const sizeElement = element.find('td').eq(1);
-    if (sizeElement.length > 0) {
-      const sizeText = sizeElement.text().trim();
-      if (sizeText.match(/\d+(\.\d+)?\s*(MB|GB|KB)/i)) {
-        movie.size = sizeText;
-      }
-    }
+    movie.size = this.adapter.findSize(element);
     
-    // Extract quality - Discovery FTP specific
-    // First try to get quality from the quality badge
-    const qualityElement = element.find('.movie_details_span_end').first();
-    if (qualityElement.length > 0) {
-      movie.quality = qualityElement.text().trim();
-    }
+    // Extract quality from the quality badge
+    movie.quality = this.adapter.findQuality(element);
 
     // Fallback: Extract quality from title
     if (!movie.quality) {
-      const qualityMatch = movie.title.match(/(720p|1080p|4K|HD|CAM|TS|DVDRip|BRRip)/i);
-      if (qualityMatch) {
-        movie.quality = qualityMatch[1];
-      }
+      movie.quality = release.resolution || release.source || '';
     }
-    
+
     // Extract language from title
-    const languageMatch = movie.title.match(/(Hindi|English|Tamil|Telugu|Malayalam|Kannada|Bengali|Punjabi|Marathi)/i);
-    if (languageMatch) {
-      movie.language = languageMatch[1];
+    if (release.languages.length > 0) {
+      movie.language = release.languages[0];
     }
+
+    // Derive a stable ID from the detail URL, or title/year/language
+    movie.id = movieIdService.generateId(movie);
+    movie.listingFingerprint = this.computeListingFingerprint(movie);
     
     // Enhanced direct download detection with better MKV support
     if (movie.detailUrl && this.isDirectVideoFile(movie.detailUrl)) {
@@ -382,74 +331,12 @@ class ScraperService {
     const additionalMovies = [];
 
     try {
-      // Look for pagination links
-      const paginationSelectors = [
-        'a[href*="page="]',
-        'a[href*="p="]',
-        '.pagination a',
-        '.page-link',
-        '.next',
-        'a:contains("Next")',
-        'a:contains(">")',
-        'a[href*="/m/"]'
-      ];
-
-      const paginationLinks = [];
-
-      for (const selector of paginationSelectors) {
-        const links = $(selector);
-        if (links.length > 0) {
-          console.log(`Found ${links.length} pagination links with selector: ${selector}`);
-
-          links.each((index, element) => {
-            const href = $(element).attr('href');
-            if (href && !paginationLinks.includes(href)) {
-              paginationLinks.push(href);
-            }
-          });
-          break;
-        }
-      }
-
-      // Also try to find category and year-based links
-      const categoryLinks = [];
-      $('a').each((index, element) => {
-        const href = $(element).attr('href');
-        const text = $(element).text().trim();
-
-        // Look for category links (Hindi, English, etc.)
-        if (href && (
-          href.includes('/Hindi') ||
-          href.includes('/English') ||
-          href.includes('/Tamil') ||
-          href.includes('/Bangla') ||
-          href.includes('/2024') ||
-          href.includes('/2025') ||
-          href.includes('/genre/') ||
-          href.includes('/category/')
-        )) {
-          if (!categoryLinks.includes(href)) {
-            categoryLinks.push(href);
-          }
-        }
-
-        // Look for numeric page links
-        if (href && /^\d+$/.test(text)) {
-          const pageNum = parseInt(text);
-          if (pageNum > 1 && pageNum <= 5) { // Limit to first few pages
-            if (!categoryLinks.includes(href)) {
-              categoryLinks.push(href);
-            }
-          }
-        }
-      });
-
-      // Combine pagination links and category links, prioritize category links
-      const allPageUrls = [...new Set([...categoryLinks, ...paginationLinks])];
+      // Look for pagination, category and year-based links
+      const allPageUrls = this.adapter.findPaginationLinks($);
       console.log(`Found ${allPageUrls.length} potential page URLs:`, allPageUrls.slice(0, 20));
 
       // Scrape each additional page (limit to prevent infinite loops)
-      const maxPages = 20; // Increased to get more content
+      const maxPages = this.adapter.getMaxPages();
       let pagesScraped = 0;
 
       for (const pageUrl of allPageUrls.slice(0, maxPages)) {
@@ -458,6 +345,7 @@ class ScraperService {
           console.log(`Scraping additional page: ${fullUrl}`);
 
           const pageResponse = await client.get(fullUrl);
+          this.recordPageFetch();
           if (pageResponse.status === 200) {
             const page$ = cheerio.load(pageResponse.data);
             const pageMovies = await this.extractMoviesFromPage(page$);
@@ -467,10 +355,11 @@ class ScraperService {
             pagesScraped++;
 
             // Add delay between requests to be respectful
-            await new Promise(resolve => setTimeout(resolve, 500));
+            await this.delay(500);
           }
         } catch (error) {
           console.error(`Error scraping page ${pageUrl}:`, error.message);
+          runHistoryService.recordError(this.currentRun, `page ${pageUrl}`, error);
         }
       }
 
@@ -483,9 +372,20 @@ class ScraperService {
     return additionalMovies;
   }
 
-  resolvePageUrl(href) {
-    const config = require('../config');
+  /**
+   * Pauses between requests so we don't overwhelm the server
+   */
+  delay(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  recordPageFetch() {
+    if (this.currentRun) {
+      this.currentRun.pagesFetched++;
+    }
+  }
 
+  resolvePageUrl(href) {
     // If it's already a full URL, return it
     if (href.startsWith('http')) {
       return href;
@@ -493,59 +393,23 @@ class ScraperService {
 
     // If it starts with /, make it relative to base URL
     if (href.startsWith('/')) {
-      return config.discovery.baseUrl + href;
+      return this.adapter.baseUrl + href;
     }
 
     // Otherwise, make it relative to base URL
-    return config.discovery.baseUrl + '/' + href;
+    return this.adapter.baseUrl + '/' + href;
   }
 
-  async extractMoviesFromPage(page$) {
+  async extractMoviesFromPage(page$, pageId = 'pagination') {
     const movies = [];
 
-    // Use the same selectors as the main scraping method
-    const movieSelectors = [
-      '.movie-item',
-      '.movie-card',
-      '.film-item',
-      '.video-item',
-      '.media-item',
-      'tr[data-name]',
-      'tr:has(td)',
-      '.list-item',
-      'li:has(a[href*="movie"])',
-      'li:has(a[href*="film"])',
-      'div:has(img[src*="poster"])',
-      'div:has(img[src*="thumb"])'
-    ];
-
-    let movieElements = page$();
-
-    for (const selector of movieSelectors) {
-      const elements = page$(selector);
-      if (elements.length > 0) {
-        movieElements = elements;
-        break;
-      }
-    }
-
-    // If no specific movie elements found, try table structure
-    if (movieElements.length === 0) {
-      const tables = page$('table');
-      if (tables.length > 0) {
-        movieElements = tables.first().find('tr').slice(1);
-      }
-    }
-
-    // If still no elements, try to find any links that might be movies
-    if (movieElements.length === 0) {
-      movieElements = page$('a[href*=".mp4"], a[href*=".mkv"], a[href*=".avi"], a[href*="movie"], a[href*="film"]');
-    }
+    // The adapter's listing selectors, shared by the main and paginated pages
+    const movieElements = this.adapter.findListingItems(page$);
 
     // Process each movie element
     movieElements.each((index, element) => {
       try {
-        const movie = this.extractMovieData(page$, page$(element), index, 'pagination');
+        const movie = this.extractMovieData(page$, page$(element), index, pageId);
         if (movie && movie.title) {
           movies.push(movie);
         }
@@ -561,78 +425,70 @@ class ScraperService {
     const directoryMovies = [];
 
     try {
-      const config = require('../config');
-
-      // Common directory paths for movie content
-      const directoryPaths = [
-        '/Movies',
-        '/Movies/Hindi',
-        '/Movies/English',
-        '/Movies/2024',
-        '/Movies/2025',
-        '/m/Hindi',
-        '/m/English',
-        '/m/2024',
-        '/m/2025',
-        '/content/Movies',
-        '/files/Movies'
-      ];
+      // Directory paths for movie content come from the site profile
+      const directoryPaths = this.adapter.getDirectoryPaths();
+      const { maxDirectoryLinks, maxSubdirectories } = this.adapter.getDirectoryLimits();
 
       console.log('Checking directory structures for additional content...');
 
       for (const path of directoryPaths) {
         try {
-          const fullUrl = config.discovery.baseUrl + path;
+          const fullUrl = this.adapter.baseUrl + path;
           console.log(`Checking directory: ${fullUrl}`);
 
           const response = await client.get(fullUrl);
+          this.recordPageFetch();
           if (response.status === 200) {
             const dir$ = cheerio.load(response.data);
 
             // Look for directory listings or file links
-            const fileLinks = dir$('a[href*=".mkv"], a[href*=".mp4"], a[href*=".avi"]');
-            const dirLinks = dir$('a[href*="/"]').filter((i, el) => {
-              const href = dir$(el).attr('href');
-              return href && !href.includes('.') && href !== '../';
-            });
+            const fileLinks = this.adapter.findDirectoryFileLinks(dir$);
+            const dirLinks = this.adapter.findSubdirectoryLinks(dir$);
 
             console.log(`Found ${fileLinks.length} file links and ${dirLinks.length} directory links in ${path}`);
 
             // Process file links directly
+            const listingMovies = [];
             fileLinks.each((index, element) => {
               try {
                 const movie = this.extractMovieFromFileLink(dir$, dir$(element), fullUrl);
                 if (movie && movie.title) {
-                  directoryMovies.push(movie);
+                  listingMovies.push(movie);
                 }
               } catch (error) {
                 console.error(`Error processing file link:`, error.message);
               }
             });
+            this.attachDirectorySubtitles(dir$, listingMovies, fullUrl);
+            directoryMovies.push(...listingMovies);
 
             // Process subdirectories (limit depth to prevent infinite recursion)
-            if (dirLinks.length > 0 && dirLinks.length < 50) {
-              for (let i = 0; i < Math.min(dirLinks.length, 10); i++) {
+            if (dirLinks.length > 0 && dirLinks.length < maxDirectoryLinks) {
+              for (let i = 0; i < Math.min(dirLinks.length, maxSubdirectories); i++) {
                 try {
                   const subDir = dir$(dirLinks[i]).attr('href');
                   if (subDir && !subDir.includes('..')) {
                     const subDirUrl = fullUrl + '/' + subDir;
                     const subResponse = await client.get(subDirUrl);
+                    this.recordPageFetch();
 
                     if (subResponse.status === 200) {
                       const subDir$ = cheerio.load(subResponse.data);
-                      const subFileLinks = subDir$('a[href*=".mkv"], a[href*=".mp4"], a[href*=".avi"]');
+                      const subFileLinks = this.adapter.findDirectoryFileLinks(subDir$);
+                      const subdirectoryMovies = [];
 
                       subFileLinks.each((index, element) => {
                         try {
                           const movie = this.extractMovieFromFileLink(subDir$, subDir$(element), subDirUrl);
                           if (movie && movie.title) {
-                            directoryMovies.push(movie);
+                            subdirectoryMovies.push(movie);
                           }
                         } catch (error) {
                           console.error(`Error processing subdirectory file:`, error.message);
                         }
                       });
+                      this.attachDirectorySubtitles(subDir$, subdirectoryMovies, subDirUrl);
+                      directoryMovies.push(...subdirectoryMovies);
                     }
                   }
                 } catch (error) {
@@ -642,12 +498,13 @@ class ScraperService {
             }
 
             // Add delay between directory requests
-            await new Promise(resolve => setTimeout(resolve, 500));
+            await this.delay(500);
           }
         } catch (error) {
           // Silently continue if directory doesn't exist
           if (!error.message.includes('404')) {
             console.error(`Error checking directory ${path}:`, error.message);
+            runHistoryService.recordError(this.currentRun, `directory ${path}`, error);
           }
         }
       }
@@ -661,15 +518,44 @@ class ScraperService {
     return directoryMovies;
   }
 
+  /**
+   * Gives each movie of a directory listing the subtitle files next to it:
+   * files named after the video ("Movie.2023.1080p.en.srt" for
+   * "Movie.2023.1080p.mkv") or with the same parsed title and year
+   */
+  attachDirectorySubtitles($, movies, baseUrl) {
+    const subtitleLinks = this.adapter.findDirectorySubtitleLinks($);
+    if (subtitleLinks.length === 0 || movies.length === 0) return;
+
+    const subtitles = [];
+    subtitleLinks.each((index, element) => {
+      const href = $(element).attr('href');
+      if (!href || !this.isSubtitleFile(href)) return;
+
+      const fullUrl = href.startsWith('http') ? href : baseUrl + (href.startsWith('/') ? '' : '/') + href;
+      subtitles.push(this.analyzeSubtitleFile(fullUrl));
+    });
+
+    for (const movie of movies) {
+      const videoName = movie.downloadUrls[0]?.url.split('/').pop().replace(/\.[^.]+$/, '').toLowerCase() || '';
+
+      movie.subtitles = subtitles.filter((subtitle) => {
+        if (videoName && subtitle.filename.toLowerCase().startsWith(`${videoName}.`)) {
+          return true;
+        }
+
+        const release = releaseNameService.parse(subtitle.filename);
+        return release.title.toLowerCase() === movie.title.toLowerCase() && (release.year || '') === (movie.year || '');
+      });
+    }
+  }
+
   extractMovieFromFileLink($, element, baseUrl) {
     const href = element.attr('href');
     const filename = element.text().trim() || href;
 
     if (!href || !filename) return null;
 
-    // Generate unique ID for directory-sourced movies
-    const uniqueId = `movie_dir_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
     // Build full URL
     let fullUrl = href;
     if (!href.startsWith('http')) {
@@ -677,13 +563,15 @@ class ScraperService {
     }
 
     // Extract movie info from filename
-    const title = this.extractTitleFromFilename(filename);
-    const year = this.extractYearFromFilename(filename);
-    const quality = this.extractQualityFromFilename(filename);
+    const release = releaseNameService.parse(filename);
+    const title = this.extractTitleFromFilename(filename, release);
+    const year = this.extractYearFromFilename(filename, release);
+    const quality = this.extractQualityFromFilename(filename, release);
     const format = filename.split('.').pop()?.toUpperCase() || 'UNKNOWN';
 
     return {
-      id: uniqueId,
+      id: movieIdService.generateId({ title, year, language: '', sourceUrl: fullUrl }),
+      listingFingerprint: this.computeListingFingerprint({ title, quality }),
       title,
       year,
       quality,
@@ -692,8 +580,10 @@ class ScraperService {
         url: fullUrl,
         quality,
         format: format.toLowerCase(),
-        label: `${quality} ${format}`
+        label: `${quality} ${format}`,
+        release
       }],
+      subtitles: [],
       poster: null,
       description: `${title} (${year}) - ${quality} ${format}`,
       detailUrl: null,
@@ -705,32 +595,21 @@ class ScraperService {
     };
   }
 
-  extractTitleFromFilename(filename) {
-    // Remove file extension
-    let title = filename.replace(/\.[^.]+$/, '');
-
-    // Remove common patterns
-    title = title.replace(/_(19|20)\d{2}_.*/, ''); // Remove year and everything after
-    title = title.replace(/\.(19|20)\d{2}\..*/, ''); // Remove year with dots
-    title = title.replace(/[\._]/g, ' '); // Replace dots and underscores with spaces
-    title = title.replace(/\s+/g, ' '); // Normalize spaces
-    title = title.trim();
-
-    return title || 'Unknown Movie';
+  extractTitleFromFilename(filename, release = releaseNameService.parse(filename)) {
+    return release.title || 'Unknown Movie';
   }
 
-  extractYearFromFilename(filename) {
-    const yearMatch = filename.match(/(19|20)\d{2}/);
-    return yearMatch ? yearMatch[0] : new Date().getFullYear().toString();
+  extractYearFromFilename(filename, release = releaseNameService.parse(filename)) {
+    return release.year || new Date().getFullYear().toString();
   }
 
-  extractQualityFromFilename(filename) {
-    const qualityMatch = filename.match(/(720p|1080p|4K|2160p|HD|SD|CAM|TS|DVDRip|BRRip|BluRay)/i);
-    return qualityMatch ? qualityMatch[1] : 'Unknown';
+  extractQualityFromFilename(filename, release = releaseNameService.parse(filename)) {
+    return release.resolution || release.source || 'Unknown';
   }
 
   deduplicateMovies(movies) {
     const seen = new Map();
+    const byId = new Map();
     const uniqueMovies = [];
 
     for (const movie of movies) {
@@ -739,17 +618,18 @@ class ScraperService {
       const firstUrl = movie.downloadUrls?.[0]?.url || '';
       const key = `${normalizedTitle}_${movie.year}_${firstUrl.split('/').pop()}`;
 
-      if (!seen.has(key)) {
-        // Ensure the movie has a unique ID
-        if (!movie.id || movie.id.startsWith('movie_0') || movie.id.startsWith('movie_1')) {
-          movie.id = `movie_unique_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        }
+      movie.id = movie.id || movieIdService.generateId(movie);
 
+      // Movies with the same ID have the same identity (detail page, file or
+      // metadata), so they are merged rather than renamed by listing order
+      if (!seen.has(key) && !byId.has(movie.id)) {
+        byId.set(movie.id, movie);
         seen.set(key, movie);
         uniqueMovies.push(movie);
       } else {
         // If we've seen this movie before, merge the download URLs
-        const existingMovie = seen.get(key);
+        const existingMovie = seen.get(key) || byId.get(movie.id);
+        seen.set(key, existingMovie);
         if (movie.downloadUrls && movie.downloadUrls.length > 0) {
           existingMovie.downloadUrls = existingMovie.downloadUrls || [];
 
@@ -766,6 +646,13 @@ class ScraperService {
           }
         }
 
+        for (const subtitle of movie.subtitles || []) {
+          existingMovie.subtitles = existingMovie.subtitles || [];
+          if (!existingMovie.subtitles.some(existing => existing.url === subtitle.url)) {
+            existingMovie.subtitles.push(subtitle);
+          }
+        }
+
         // Update other fields if they're missing in the existing movie
         if (!existingMovie.poster && movie.poster) {
           existingMovie.poster = movie.poster;
@@ -791,7 +678,11 @@ class ScraperService {
     return uniqueMovies;
   }
 
-  async enrichMovieData(client, movie) {
+  /**
+   * Enriches a movie from its detail page; fetches and errors are counted
+   * against the given run record (the current scrape run by default)
+   */
+  async enrichMovieData(client, movie, run = this.currentRun) {
     if (!movie.detailUrl || this.isDirectVideoFile(movie.detailUrl)) {
       return; // Skip if it's a direct download link
     }
@@ -799,24 +690,19 @@ class ScraperService {
     try {
       console.log(`Enriching movie data for: ${movie.title} (${movie.detailUrl})`);
       const detailResponse = await client.get(movie.detailUrl);
+      if (run) run.pagesFetched++;
       const $ = cheerio.load(detailResponse.data);
 
       // Enhanced download link detection with better format support
       const downloadLinks = [];
 
       // Primary video selectors - look for direct video file links
-      const videoSelectors = [
-        'a[href*=".mp4"]', 'a[href*=".mkv"]', 'a[href*=".avi"]',
-        'a[href*=".webm"]', 'a[href*=".mov"]', 'a[href*=".wmv"]',
-        'a[href*=".m4v"]', 'a[href*=".flv"]'
-      ];
-
-      $(videoSelectors.join(', ')).each((i, link) => {
+      $(this.adapter.getVideoLinkSelector()).each((i, link) => {
         const href = $(link).attr('href');
         if (href) {
           let fullUrl = href;
           if (href.startsWith('/')) {
-            fullUrl = new URL(href, config.discovery.baseUrl).href;
+            fullUrl = new URL(href, this.adapter.baseUrl).href;
           }
 
           const text = $(link).text().trim();
@@ -831,22 +717,14 @@ class ScraperService {
 
       // Fallback 1: Look for download buttons or links with common download text
       if (downloadLinks.length === 0) {
-        const downloadSelectors = [
-          'a:contains("Download")', 'a:contains("download")',
-          'a:contains("Watch")', 'a:contains("watch")',
-          'a:contains("Play")', 'a:contains("play")',
-          '.download-btn', '.download-link', '.watch-btn',
-          'button[onclick*="download"]', 'a[onclick*="download"]'
-        ];
-
-        downloadSelectors.forEach(selector => {
+        this.adapter.getDownloadButtonSelectors().forEach(selector => {
           try {
             $(selector).each((i, link) => {
               const href = $(link).attr('href') || $(link).attr('onclick');
               if (href && (href.includes('.mp4') || href.includes('.mkv') || href.includes('.avi'))) {
                 let fullUrl = href;
                 if (href.startsWith('/')) {
-                  fullUrl = new URL(href, config.discovery.baseUrl).href;
+                  fullUrl = new URL(href, this.adapter.baseUrl).href;
                 }
 
                 const text = $(link).text().trim();
@@ -874,7 +752,7 @@ class ScraperService {
           if (url && this.isDirectVideoFile(url)) {
             let fullUrl = url;
             if (url.startsWith('/')) {
-              fullUrl = new URL(url, config.discovery.baseUrl).href;
+              fullUrl = new URL(url, this.adapter.baseUrl).href;
             }
 
             const text = $(link).text().trim();
@@ -890,12 +768,12 @@ class ScraperService {
 
       // Fallback 3: Look for embedded video sources or iframe sources
       if (downloadLinks.length === 0) {
-        $('video source, iframe').each((i, element) => {
+        $(this.adapter.getEmbeddedSourceSelector()).each((i, element) => {
           const src = $(element).attr('src');
           if (src && this.isDirectVideoFile(src)) {
             let fullUrl = src;
             if (src.startsWith('/')) {
-              fullUrl = new URL(src, config.discovery.baseUrl).href;
+              fullUrl = new URL(src, this.adapter.baseUrl).href;
             }
 
             const videoInfo = this.analyzeVideoFile(fullUrl, { title: movie.title });
@@ -910,6 +788,19 @@ class ScraperService {
 
       movie.downloadUrls = downloadLinks;
 
+      // Sidecar subtitle files linked from the same page
+      const subtitles = [];
+      this.adapter.findSubtitleLinks($).each((i, link) => {
+        const href = $(link).attr('href');
+        if (!href || !this.isSubtitleFile(href)) return;
+
+        const fullUrl = href.startsWith('/') ? new URL(href, this.adapter.baseUrl).href : href;
+        if (!subtitles.some(subtitle => subtitle.url === fullUrl)) {
+          subtitles.push(this.analyzeSubtitleFile(fullUrl, $(link).text().trim()));
+        }
+      });
+      movie.subtitles = subtitles;
+
       console.log(`Found ${downloadLinks.length} video links for ${movie.title}`);
       if (downloadLinks.length === 0) {
         console.warn(`No video links found for ${movie.title} at ${movie.detailUrl}`);
@@ -919,35 +810,39 @@ class ScraperService {
       }
 
       // Look for additional metadata
-      const description = $('.description, .synopsis, .plot').first().text().trim();
+      const { description, rating, genres } = this.adapter.findDetailMetadata($);
       if (description) {
         movie.description = description;
       }
 
-      const rating = $('.rating, .imdb-rating').first().text().trim();
       if (rating) {
         movie.rating = rating;
       }
 
-      // Extract genres
-      $('.genre, .genres').each((i, genreElement) => {
-        const genre = $(genreElement).text().trim();
-        if (genre && !movie.genres.includes(genre)) {
+      for (const genre of genres) {
+        if (!movie.genres.includes(genre)) {
           movie.genres.push(genre);
         }
-      });
+      }
+
+      movie.enrichedAt = new Date().toISOString();
 
     } catch (error) {
       console.error(`Error enriching movie ${movie.title}:`, error.message);
+      runHistoryService.recordError(run, `enrich ${movie.id}`, error);
     }
   }
 
   getMovies() {
-    return this.moviesCache;
+    return catalogService.getMovies();
+  }
+
+  getMovieById(id) {
+    return catalogService.getMovieById(id);
   }
 
   getLastScrapeTime() {
-    return this.lastScrapeTime;
+    return catalogService.getLastScrapeTime();
   }
 
   /**
@@ -990,26 +885,51 @@ class ScraperService {
     return hasVideoExtension || hasVideoPattern;
   }
 
+  /**
+   * Checks if URL points to a sidecar subtitle file
+   */
+  isSubtitleFile(url) {
+    if (!url || typeof url !== 'string') return false;
+    return /\.(srt|vtt|ass|ssa|sub)(?:[?#&]|$)/i.test(url);
+  }
+
+  /**
+   * Describes a subtitle file, guessing its language from the filename
+   */
+  analyzeSubtitleFile(url, text = '') {
+    const filename = releaseNameService.getBaseName(url);
+    const { format, language, languageCode, forced, hearingImpaired } = releaseNameService.parseSubtitleName(filename);
+
+    return {
+      url,
+      filename,
+      format,
+      language,
+      languageCode,
+      forced,
+      hearingImpaired,
+      label: text && text !== filename ? text : (language || filename)
+    };
+  }
+
   /**
    * Analyzes video file and extracts metadata
    */
   analyzeVideoFile(url, movie = {}) {
     const filename = url.split('/').pop() || '';
     const format = url.split('.').pop()?.toUpperCase() || 'UNKNOWN';
+    const release = releaseNameService.parse(filename);
 
     // Extract quality from filename or movie data
-    let quality = movie.quality || 'Unknown';
-    const qualityMatch = filename.match(/(720p|1080p|4K|2160p|HD|SD|CAM|TS|DVDRip|BRRip|BluRay)/i);
-    if (qualityMatch) {
-      quality = qualityMatch[1];
-    }
+    const quality = release.resolution || release.source || movie.quality || 'Unknown';
 
     // Extract additional metadata for MKV files
     const videoInfo = {
       url,
       quality,
       format,
-      filename
+      filename,
+      release
     };
 
     if (format === 'MKV') {
@@ -1024,15 +944,17 @@ class ScraperService {
    */
   detectMKVFeatures(title, url) {
     const text = `${title} ${url}`.toLowerCase();
+    const fileRelease = releaseNameService.parse(url);
+    const titleRelease = releaseNameService.parse(title);
 
     const features = {
       hasSubtitles: false,
       audioTracks: [],
-      videoCodec: null,
-      audioCodec: null,
-      resolution: null,
-      hdr: false,
-      multiAudio: false
+      videoCodec: fileRelease.videoCodec || titleRelease.videoCodec,
+      audioCodec: fileRelease.audioCodec || titleRelease.audioCodec,
+      resolution: fileRelease.resolution || titleRelease.resolution,
+      hdr: Boolean(fileRelease.hdr || titleRelease.hdr),
+      multiAudio: fileRelease.multiAudio || titleRelease.multiAudio
     };
 
     // Subtitle detection
@@ -1040,40 +962,14 @@ class ScraperService {
     features.hasSubtitles = subtitleIndicators.some(indicator => text.includes(indicator));
 
     // Audio track detection
-    const audioLanguages = ['hindi', 'english', 'tamil', 'telugu', 'malayalam', 'kannada', 'bengali'];
-    features.audioTracks = audioLanguages.filter(lang => text.includes(lang));
-    features.multiAudio = features.audioTracks.length > 1 || text.includes('dual.audio');
-
-    // Video codec detection
-    if (text.includes('h264') || text.includes('x264')) {
-      features.videoCodec = 'H.264';
-    } else if (text.includes('h265') || text.includes('x265') || text.includes('hevc')) {
-      features.videoCodec = 'H.265';
-    } else if (text.includes('vp9')) {
-      features.videoCodec = 'VP9';
-    }
+    features.audioTracks = [...new Set([...fileRelease.languages, ...titleRelease.languages])];
+    features.multiAudio = features.multiAudio || features.audioTracks.length > 1;
 
-    // Audio codec detection
-    if (text.includes('aac')) {
-      features.audioCodec = 'AAC';
-    } else if (text.includes('ac3') || text.includes('dolby')) {
-      features.audioCodec = 'AC-3';
-    } else if (text.includes('dts')) {
-      features.audioCodec = 'DTS';
-    }
-
-    // Resolution detection
-    if (text.includes('4k') || text.includes('2160p')) {
+    // Keep the 4K label clients already display
+    if (features.resolution === '2160p') {
       features.resolution = '4K';
-    } else if (text.includes('1080p')) {
-      features.resolution = '1080p';
-    } else if (text.includes('720p')) {
-      features.resolution = '720p';
     }
 
-    // HDR detection
-    features.hdr = text.includes('hdr') || text.includes('dolby.vision') || text.includes('hdr10');
-
     return features;
   }
 }
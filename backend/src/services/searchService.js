@@ -0,0 +1,260 @@
+/**
+ * Search Service
+ * An in-memory inverted index over the movie catalog, rebuilt by the catalog
+ * service whenever its movies are replaced. Words are also indexed by a
+ * spelling key that folds the usual variations of romanized Hindi and Bengali
+ * titles (Saiyaara / Saiyara, Bhool / Bhul), so either spelling finds the
+ * other. Query words match whole words, spelling keys, prefixes (for
+ * search-as-you-type) and, failing those, words a typo or two away.
+ */
+
+// How much a word found in each field counts
+const FIELD_WEIGHTS = {
+  title: 10,
+  year: 5,
+  genres: 4,
+  language: 3,
+  quality: 2,
+  description: 1
+};
+
+// How much each kind of match counts, relative to the word itself
+const MATCH_FACTORS = {
+  exact: 1,
+  spelling: 0.9,
+  typo: [0, 0.6, 0.45]
+};
+
+const EXACT_TITLE_BONUS = 20;
+const TITLE_PREFIX_BONUS = 8;
+
+// Left out of the words a movie must match, but still scored when present
+const STOP_WORDS = new Set(['a', 'an', 'and', 'of', 'the', 'to', 'in', 'on', 'at', 'for']);
+
+/**
+ * Lowercases, strips accents and splits on anything that isn't a letter or digit
+ */
+function tokenize(text) {
+  return String(text || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Folds spelling variations: long vowels, doubled letters, aspirated
+ * consonants and a few interchangeable letters
+ */
+function spellingKey(token) {
+  return token
+    .replace(/ph/g, 'f')
+    .replace(/([bcdgjkpt])h/g, '$1')
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/w/g, 'v')
+    .replace(/q/g, 'k')
+    .replace(/z/g, 'j')
+    .replace(/(.)\1+/g, '$1');
+}
+
+/**
+ * Typos tolerated in a word: none for short words, where one edit finds too much
+ */
+function allowedTypos(key) {
+  if (key.length <= 3) return 0;
+  if (key.length <= 7) return 1;
+  return 2;
+}
+
+/**
+ * Edit distance with transpositions, giving up once it exceeds max
+ */
+function editDistance(a, b, max) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow = null;
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+      if (previousRow && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2] + 1);
+      }
+      nextRow.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    previousRow = row;
+    row = nextRow;
+  }
+
+  return row[b.length];
+}
+
+class SearchService {
+  constructor() {
+    this.movies = [];
+    // Word -> movie index -> weight of the best field it appears in
+    this.postings = new Map();
+    // Spelling key -> words that fold to it
+    this.words = new Map();
+    // Spelling keys in order, for prefix lookups
+    this.sortedKeys = [];
+    // Titles as spelling keys, to spot queries naming the whole title or its start
+    this.titles = [];
+    this.builtAt = null;
+  }
+
+  /**
+   * Replaces the index with one over the given movies
+   */
+  rebuild(movies) {
+    const startedAt = Date.now();
+    this.movies = movies;
+    this.postings = new Map();
+    this.words = new Map();
+    this.titles = movies.map(movie => tokenize(movie.title).map(spellingKey).join(' '));
+
+    movies.forEach((movie, index) => {
+      this.addField(index, FIELD_WEIGHTS.title, movie.title);
+      this.addField(index, FIELD_WEIGHTS.year, movie.year);
+      this.addField(index, FIELD_WEIGHTS.genres, (movie.genres || []).join(' '));
+      this.addField(index, FIELD_WEIGHTS.language, movie.language);
+      this.addField(index, FIELD_WEIGHTS.quality, movie.quality);
+      this.addField(index, FIELD_WEIGHTS.description, movie.description);
+    });
+
+    this.sortedKeys = [...this.words.keys()].sort();
+    this.builtAt = new Date();
+    console.log(`🔎 Indexed ${movies.length} movies (${this.postings.size} words) in ${Date.now() - startedAt}ms`);
+  }
+
+  addField(index, weight, text) {
+    for (const token of tokenize(text)) {
+      let docs = this.postings.get(token);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(token, docs);
+
+        const key = spellingKey(token);
+        if (!this.words.has(key)) this.words.set(key, new Set());
+        this.words.get(key).add(token);
+      }
+      docs.set(index, Math.max(docs.get(index) || 0, weight));
+    }
+  }
+
+  /**
+   * Index words a query word may stand for, each with how well it matches
+   */
+  expand(term) {
+    const key = spellingKey(term);
+    const matches = new Map();
+    const consider = (word, factor) => {
+      if (factor > (matches.get(word) || 0)) matches.set(word, factor);
+    };
+
+    for (const word of this.words.get(key) || []) {
+      consider(word, word === term ? MATCH_FACTORS.exact : MATCH_FACTORS.spelling);
+    }
+
+    // Words the query word is the start of, worth more the more of the word it covers
+    if (key.length >= 2) {
+      for (let i = this.lowerBound(key); i < this.sortedKeys.length && this.sortedKeys[i].startsWith(key); i++) {
+        const candidate = this.sortedKeys[i];
+        if (candidate === key) continue;
+        for (const word of this.words.get(candidate)) {
+          consider(word, 0.5 + 0.3 * (key.length / candidate.length));
+        }
+      }
+    }
+
+    // Only look for typos when the word matched nothing better
+    const maxTypos = allowedTypos(key);
+    if (matches.size === 0 && maxTypos > 0) {
+      for (const [candidate, words] of this.words) {
+        const distance = editDistance(key, candidate, maxTypos);
+        if (distance > maxTypos) continue;
+        for (const word of words) consider(word, MATCH_FACTORS.typo[distance]);
+      }
+    }
+
+    return matches;
+  }
+
+  lowerBound(key) {
+    let low = 0;
+    let high = this.sortedKeys.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.sortedKeys[mid] < key) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  /**
+   * Movies matching every word of the query, best first, as { movie, score }.
+   * Pass limit to get only the top results, and titlesOnly to match titles alone.
+   */
+  search(query, { limit, titlesOnly = false } = {}) {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    const required = terms.some(term => !STOP_WORDS.has(term))
+      ? terms.filter(term => !STOP_WORDS.has(term))
+      : terms;
+    const scores = new Map();
+    const matchedTerms = new Map();
+
+    for (const term of terms) {
+      // The best match of this term in each movie
+      const best = new Map();
+      for (const [word, factor] of this.expand(term)) {
+        for (const [index, weight] of this.postings.get(word)) {
+          if (titlesOnly && weight < FIELD_WEIGHTS.title) continue;
+          best.set(index, Math.max(best.get(index) || 0, weight * factor));
+        }
+      }
+
+      for (const [index, score] of best) {
+        scores.set(index, (scores.get(index) || 0) + score);
+        if (required.includes(term)) matchedTerms.set(index, (matchedTerms.get(index) || 0) + 1);
+      }
+    }
+
+    const phrase = terms.map(spellingKey).join(' ');
+    const results = [];
+    for (const [index, score] of scores) {
+      if ((matchedTerms.get(index) || 0) < required.length) continue;
+
+      const title = this.titles[index];
+      let bonus = 0;
+      if (title === phrase) bonus = EXACT_TITLE_BONUS;
+      else if (title.startsWith(phrase)) bonus = TITLE_PREFIX_BONUS;
+
+      results.push({ movie: this.movies[index], score: Math.round((score + bonus) * 100) / 100 });
+    }
+
+    results.sort((a, b) => b.score - a.score || (a.movie.title || '').localeCompare(b.movie.title || ''));
+    return limit ? results.slice(0, limit) : results;
+  }
+
+  getStatus() {
+    return {
+      movies: this.movies.length,
+      words: this.postings.size,
+      builtAt: this.builtAt
+    };
+  }
+}
+
+module.exports = new SearchService();
@@ -0,0 +1,513 @@
+/**
+ * Series Scraper Service
+ * Scrapes TV series into a Series -> Season -> Episode tree, from the series
+ * listing and detail pages and from series folders in the directory listings.
+ * Season and episode numbers come from the episode file names.
+ */
+
+const cheerio = require('cheerio');
+const authService = require('./authService');
+const catalogService = require('./catalogService');
+const movieIdService = require('./movieIdService');
+const releaseNameService = require('./releaseNameService');
+const runHistoryService = require('./runHistoryService');
+const scraperService = require('./scraperService');
+const config = require('../config');
+
+class SeriesScraperService {
+  constructor() {
+    this.isScrapingInProgress = false;
+    this.currentRun = null;
+  }
+
+  get adapter() {
+    return scraperService.adapter;
+  }
+
+  /**
+   * Scrapes the series listing and directory tree. In incremental mode series
+   * scraped within the last `seriesRefreshHours` whose listing entry hasn't
+   * changed keep their seasons; pass { full: true } to fetch every series.
+   */
+  async scrapeSeries(options = {}) {
+    const incremental = !options.full && config.scraping.mode !== 'full';
+
+    if (this.isScrapingInProgress) {
+      console.log('Series scraping already in progress, skipping...');
+      return catalogService.getSeries();
+    }
+
+    this.isScrapingInProgress = true;
+    const run = runHistoryService.startRun('series', {
+      trigger: options.trigger,
+      mode: incremental ? 'incremental' : 'full'
+    });
+    this.currentRun = run;
+
+    try {
+      console.log('📺 Starting series scraping process...');
+
+      await authService.ensureAuthenticated();
+      const client = authService.getClient();
+
+      const series = [];
+
+      try {
+        const response = await client.get(config.discovery.seriesUrl);
+        this.recordPageFetch();
+        series.push(...this.extractSeriesFromPage(cheerio.load(response.data)));
+        console.log(`Found ${series.length} series on the series page`);
+      } catch (error) {
+        console.error('Error fetching series page:', error.message);
+        runHistoryService.recordError(run, 'series listing', error);
+      }
+
+      const previousById = new Map(incremental ? catalogService.getSeries().map(item => [item.id, item]) : []);
+
+      const seriesToScrape = [];
+      for (const item of series) {
+        const previous = previousById.get(item.id);
+        if (this.canReuseSeries(previous, item)) {
+          this.copyScrapedFields(previous, item);
+        } else {
+          seriesToScrape.push(item);
+        }
+      }
+
+      let processedCount = 0;
+      for (const item of seriesToScrape) {
+        processedCount++;
+        console.log(`Scraping series ${processedCount}/${seriesToScrape.length}: ${item.title}`);
+        await this.scrapeSeriesDetails(client, item);
+        await scraperService.delay(200);
+      }
+
+      series.push(...await this.scrapeSeriesDirectories(client, previousById));
+      console.log(`Reused ${run.reused} unchanged series`);
+
+      const uniqueSeries = this.mergeSeries(series);
+      uniqueSeries.forEach(item => this.finalizeSeries(item));
+
+      const previousIds = new Set(catalogService.getSeries().map(item => item.id));
+      const currentIds = new Set(uniqueSeries.map(item => item.id));
+      Object.assign(run, {
+        moviesFound: uniqueSeries.length,
+        enriched: processedCount,
+        added: uniqueSeries.filter(item => !previousIds.has(item.id)).map(item => ({ id: item.id, title: item.title })),
+        removed: catalogService.getSeries().filter(item => !currentIds.has(item.id)).map(item => ({ id: item.id, title: item.title }))
+      });
+
+      await catalogService.replaceSeries(uniqueSeries);
+
+      const episodeCount = uniqueSeries.reduce((total, item) => total + item.episodeCount, 0);
+      console.log(`📺 Series scraping completed: ${uniqueSeries.length} series, ${episodeCount} episodes`);
+      return uniqueSeries;
+
+    } catch (error) {
+      console.error('Error scraping series:', error.message);
+      runHistoryService.recordError(run, 'series', error);
+      run.status = 'failed';
+      throw error;
+    } finally {
+      this.isScrapingInProgress = false;
+      this.currentRun = null;
+      await runHistoryService.finishRun(run);
+    }
+  }
+
+  /**
+   * Builds empty Series objects from the cards of a series listing page
+   */
+  extractSeriesFromPage($) {
+    const series = [];
+
+    this.adapter.findListingItems($).each((index, element) => {
+      const $element = $(element);
+      const detailUrl = this.adapter.findDetailUrl($element);
+      const title = this.adapter.findTitle($element);
+      if (!detailUrl || !title) return;
+
+      const posterUrl = this.adapter.findPosterUrl($element);
+      const release = releaseNameService.parse(title);
+
+      const item = this.createSeries({
+        title: release.title || title,
+        year: this.adapter.findYear($element) || release.year || '',
+        language: release.languages[0] || '',
+        quality: this.adapter.findQuality($element),
+        poster: posterUrl ? `/api/poster?url=${encodeURIComponent(posterUrl)}` : null,
+        detailUrl,
+        source: 'listing'
+      });
+      item.listingFingerprint = scraperService.computeListingFingerprint(item);
+      series.push(item);
+    });
+
+    return series;
+  }
+
+  createSeries(fields) {
+    const series = {
+      id: null,
+      title: '',
+      poster: null,
+      year: '',
+      language: '',
+      detailUrl: null,
+      directoryUrl: null,
+      description: '',
+      rating: '',
+      genres: [],
+      quality: '',
+      source: 'listing',
+      seasons: [],
+      seasonCount: 0,
+      episodeCount: 0,
+      ...fields
+    };
+
+    series.id = movieIdService.generateSeriesId(series);
+    return series;
+  }
+
+  /**
+   * Reads metadata and episodes from a series detail page, following its
+   * season links
+   */
+  async scrapeSeriesDetails(client, series) {
+    try {
+      const response = await client.get(series.detailUrl);
+      this.recordPageFetch();
+      const $ = cheerio.load(response.data);
+
+      const { description, rating, genres } = this.adapter.findDetailMetadata($);
+      series.description = description || series.description;
+      series.rating = rating || series.rating;
+      series.genres = [...new Set([...series.genres, ...genres])];
+
+      this.addEpisodeLinks($, series, series.detailUrl);
+
+      const { maxSeasons } = this.adapter.getSeriesLimits();
+      const seasonLinks = this.adapter.findSeasonLinks($).slice(0, maxSeasons);
+
+      for (const { href, text } of seasonLinks) {
+        const seasonUrl = new URL(href, series.detailUrl).href;
+        const seasonNumber = this.parseSeasonNumber(text) || this.parseSeasonNumber(href);
+
+        try {
+          const seasonResponse = await client.get(seasonUrl);
+          this.recordPageFetch();
+          this.addEpisodeLinks(cheerio.load(seasonResponse.data), series, seasonUrl, seasonNumber);
+          await scraperService.delay(200);
+        } catch (error) {
+          console.error(`Error fetching season page ${seasonUrl}:`, error.message);
+          runHistoryService.recordError(this.currentRun, `season ${series.id}`, error);
+        }
+      }
+
+      series.enrichedAt = new Date().toISOString();
+    } catch (error) {
+      console.error(`Error scraping series ${series.title}:`, error.message);
+      runHistoryService.recordError(this.currentRun, `series ${series.id}`, error);
+    }
+  }
+
+  /**
+   * Checks whether a series from the previous catalog can be reused without
+   * fetching its pages again. Listing entries mustn't have changed, and even
+   * unchanged series are fetched again after `seriesRefreshHours` so new
+   * episodes show up.
+   */
+  canReuseSeries(previous, series) {
+    if (!previous || !previous.enrichedAt) return false;
+
+    const age = Date.now() - new Date(previous.enrichedAt).getTime();
+    if (!(age < config.scraping.seriesRefreshHours * 60 * 60 * 1000)) return false;
+
+    return series.source === 'directory'
+      ? previous.directoryUrl === series.directoryUrl
+      : previous.detailUrl === series.detailUrl && previous.listingFingerprint === series.listingFingerprint;
+  }
+
+  /**
+   * Copies the metadata and episodes of a reused series
+   */
+  copyScrapedFields(previous, series) {
+    series.description = previous.description || series.description;
+    series.rating = previous.rating || series.rating;
+    series.genres = [...new Set([...series.genres, ...previous.genres])];
+    series.enrichedAt = previous.enrichedAt;
+
+    for (const season of previous.seasons) {
+      for (const episode of season.episodes) {
+        for (const downloadUrl of episode.downloadUrls) {
+          this.addEpisodeFile(series, downloadUrl.url, {
+            label: downloadUrl.label,
+            seasonNumber: season.seasonNumber
+          });
+        }
+      }
+    }
+
+    if (this.currentRun) {
+      this.currentRun.reused++;
+    }
+  }
+
+  /**
+   * Walks series folders in the directory listings: each subfolder of a
+   * series directory is a series, and each subfolder of a series is a season.
+   * Series in `previousById` that can be reused aren't fetched again.
+   */
+  async scrapeSeriesDirectories(client, previousById = new Map()) {
+    const series = [];
+    const { maxSeries, maxSeasons } = this.adapter.getSeriesLimits();
+
+    for (const path of this.adapter.getSeriesDirectoryPaths()) {
+      const directoryUrl = new URL(`${path.replace(/\/+$/, '')}/`, this.adapter.baseUrl).href;
+
+      try {
+        const response = await client.get(directoryUrl);
+        this.recordPageFetch();
+        const $ = cheerio.load(response.data);
+
+        const seriesUrls = this.findChildFolders($, directoryUrl).slice(0, maxSeries);
+        console.log(`Found ${seriesUrls.length} series folders in ${directoryUrl}`);
+
+        for (const seriesUrl of seriesUrls) {
+          const release = releaseNameService.parse(this.getFolderName(seriesUrl));
+          if (!release.title) continue;
+
+          const item = this.createSeries({
+            title: release.title,
+            year: release.year || '',
+            language: release.languages[0] || '',
+            directoryUrl: seriesUrl,
+            source: 'directory'
+          });
+
+          const previous = previousById.get(item.id);
+          if (this.canReuseSeries(previous, item)) {
+            this.copyScrapedFields(previous, item);
+            series.push(item);
+            continue;
+          }
+
+          const seriesResponse = await client.get(seriesUrl);
+          this.recordPageFetch();
+          const series$ = cheerio.load(seriesResponse.data);
+          this.addEpisodeLinks(series$, item, seriesUrl);
+
+          const seasonUrls = this.findChildFolders(series$, seriesUrl).slice(0, maxSeasons);
+          for (const seasonUrl of seasonUrls) {
+            const seasonNumber = this.parseSeasonNumber(this.getFolderName(seasonUrl));
+
+            try {
+              const seasonResponse = await client.get(seasonUrl);
+              this.recordPageFetch();
+              this.addEpisodeLinks(cheerio.load(seasonResponse.data), item, seasonUrl, seasonNumber);
+            } catch (error) {
+              console.error(`Error fetching season folder ${seasonUrl}:`, error.message);
+              runHistoryService.recordError(this.currentRun, `season folder ${seasonUrl}`, error);
+            }
+          }
+
+          item.enrichedAt = new Date().toISOString();
+          series.push(item);
+          await scraperService.delay(200);
+        }
+      } catch (error) {
+        // Silently continue if directory doesn't exist
+        if (!error.message.includes('404')) {
+          console.error(`Error checking series directory ${path}:`, error.message);
+          runHistoryService.recordError(this.currentRun, `series directory ${path}`, error);
+        }
+      }
+    }
+
+    return series;
+  }
+
+  /**
+   * Returns the absolute URLs of the folders directly below a directory
+   * listing, leaving out parent and sibling links
+   */
+  findChildFolders($, directoryUrl) {
+    const folderUrls = [];
+
+    this.adapter.findSubdirectoryLinks($).each((index, element) => {
+      const folderUrl = new URL($(element).attr('href'), directoryUrl).href;
+      if (folderUrl.startsWith(directoryUrl) && folderUrl !== directoryUrl && !folderUrls.includes(folderUrl)) {
+        folderUrls.push(folderUrl);
+      }
+    });
+
+    return folderUrls;
+  }
+
+  /**
+   * Adds every video link on a page to the series as an episode file
+   */
+  addEpisodeLinks($, series, pageUrl, seasonNumber = null) {
+    $(this.adapter.getVideoLinkSelector()).each((index, element) => {
+      const href = $(element).attr('href');
+      if (!href) return;
+
+      this.addEpisodeFile(series, new URL(href, pageUrl).href, {
+        label: $(element).text().trim(),
+        seasonNumber
+      });
+    });
+  }
+
+  /**
+   * Files the video under its season and episode, taken from the file name,
+   * the season page it was found on, or its position in the season
+   */
+  addEpisodeFile(series, url, { label = '', seasonNumber = null } = {}) {
+    const videoInfo = scraperService.analyzeVideoFile(url);
+    const { release } = videoInfo;
+
+    const number = release.season || seasonNumber || 1;
+    let season = series.seasons.find(s => s.seasonNumber === number);
+    if (!season) {
+      season = { seasonNumber: number, title: `Season ${number}`, episodes: [] };
+      series.seasons.push(season);
+    }
+
+    const isKnown = season.episodes.some(episode =>
+      episode.downloadUrls.some(downloadUrl => downloadUrl.url === url)
+    );
+    if (isKnown) return;
+
+    const episodeNumber = release.episode
+      || season.episodes.reduce((max, episode) => Math.max(max, episode.episodeNumber), 0) + 1;
+
+    let episode = season.episodes.find(e => e.episodeNumber === episodeNumber);
+    if (!episode) {
+      episode = {
+        id: null,
+        seriesId: series.id,
+        seasonNumber: number,
+        episodeNumber,
+        title: `Episode ${episodeNumber}`,
+        downloadUrls: []
+      };
+      season.episodes.push(episode);
+    }
+
+    if (label) {
+      videoInfo.label = label;
+    }
+    episode.downloadUrls.push(videoInfo);
+  }
+
+  /**
+   * Combines series found more than once (listing and directory tree, or
+   * repeated cards) into one, merging their seasons and episodes
+   */
+  mergeSeries(seriesList) {
+    const byId = new Map();
+
+    for (const series of seriesList) {
+      const existing = byId.get(series.id);
+      if (!existing) {
+        byId.set(series.id, series);
+        continue;
+      }
+
+      for (const field of ['poster', 'year', 'language', 'detailUrl', 'directoryUrl', 'description', 'rating', 'quality', 'listingFingerprint', 'enrichedAt']) {
+        if (!existing[field] && series[field]) {
+          existing[field] = series[field];
+        }
+      }
+      existing.genres = [...new Set([...existing.genres, ...series.genres])];
+
+      for (const season of series.seasons) {
+        for (const episode of season.episodes) {
+          for (const downloadUrl of episode.downloadUrls) {
+            this.addEpisodeFile(existing, downloadUrl.url, {
+              label: downloadUrl.label,
+              seasonNumber: season.seasonNumber
+            });
+          }
+        }
+      }
+    }
+
+    return [...byId.values()];
+  }
+
+  /**
+   * Sorts seasons and episodes, assigns episode IDs and counts
+   */
+  finalizeSeries(series) {
+    series.seasons.sort((a, b) => a.seasonNumber - b.seasonNumber);
+
+    for (const season of series.seasons) {
+      season.episodes.sort((a, b) => a.episodeNumber - b.episodeNumber);
+      for (const episode of season.episodes) {
+        episode.id = movieIdService.generateEpisodeId(series.id, season.seasonNumber, episode.episodeNumber);
+        episode.seriesId = series.id;
+      }
+    }
+
+    series.seasonCount = series.seasons.length;
+    series.episodeCount = series.seasons.reduce((total, season) => total + season.episodes.length, 0);
+    return series;
+  }
+
+  parseSeasonNumber(text) {
+    if (!text) return null;
+    return releaseNameService.parse(text).season;
+  }
+
+  getFolderName(url) {
+    const folder = new URL(url).pathname.replace(/\/+$/, '').split('/').pop() || '';
+    try {
+      return decodeURIComponent(folder);
+    } catch (error) {
+      return folder;
+    }
+  }
+
+  recordPageFetch() {
+    if (this.currentRun) {
+      this.currentRun.pagesFetched++;
+    }
+  }
+
+  getSeries() {
+    return catalogService.getSeries();
+  }
+
+  getSeriesById(id) {
+    return catalogService.getSeriesById(id);
+  }
+
+  /**
+   * Finds an episode of a series by ID
+   */
+  findEpisode(series, episodeId) {
+    return this.getEpisodeList(series).find(episode => episode.id === episodeId) || null;
+  }
+
+  /**
+   * Returns the episodes around an episode in watch order, crossing season boundaries
+   */
+  getAdjacentEpisodes(series, episodeId) {
+    const episodes = this.getEpisodeList(series);
+    const index = episodes.findIndex(episode => episode.id === episodeId);
+
+    return {
+      previous: index > 0 ? episodes[index - 1] : null,
+      next: index >= 0 && index < episodes.length - 1 ? episodes[index + 1] : null
+    };
+  }
+
+  getEpisodeList(series) {
+    return series.seasons.flatMap(season => season.episodes);
+  }
+}
+
+module.exports = new SeriesScraperService();
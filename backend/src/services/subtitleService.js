@@ -0,0 +1,345 @@
+/**
+ * Subtitle Service
+ * Extracts subtitle tracks embedded in a source file with ffmpeg, as WebVTT
+ * for the browser's native text tracks or as ASS to keep the styling.
+ * Subtitles are interleaved through the whole file, so an extraction reads
+ * all of it: every text track is extracted in the same pass, and the results
+ * are cached on disk. The cache is trimmed to a size cap, least recently used
+ * first.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { spawn } = require('child_process');
+const config = require('../config');
+const remuxService = require('./remuxService');
+
+const FORMATS = {
+  vtt: { codec: 'webvtt', muxer: 'webvtt' },
+  ass: { codec: 'ass', muxer: 'ass' }
+};
+
+// Reading a large file from the upstream server can take a while
+const EXTRACT_TIMEOUT_MS = 10 * 60 * 1000;
+
+class SubtitleService {
+  constructor() {
+    this.pendingExtractions = new Map();
+    this.cacheEntries = new Map(); // file -> size, in least recently used order
+    this.cacheSize = 0;
+    this.cacheLoaded = false;
+    this.runningJobs = 0;
+    this.jobQueue = [];
+    this.activeProcesses = new Set();
+  }
+
+  /**
+   * Lists the subtitle tracks of a file, with whether each can be extracted
+   */
+  async getTracks(url) {
+    const info = await remuxService.probe(url);
+    return info.subtitles;
+  }
+
+  /**
+   * Returns a subtitle track as WebVTT or ASS text, extracting it on first use.
+   * Fails with code TRACK_NOT_FOUND, UNSUPPORTED_FORMAT or BITMAP_SUBTITLE.
+   */
+  async getSubtitle(url, track, format = 'vtt') {
+    if (!FORMATS[format]) {
+      const error = new Error(`Unknown subtitle format ${format}`);
+      error.code = 'UNSUPPORTED_FORMAT';
+      throw error;
+    }
+
+    const tracks = await this.getTracks(url);
+    const subtitle = tracks[track];
+    if (!subtitle) {
+      const error = new Error(`Subtitle track ${track} doesn't exist`);
+      error.code = 'TRACK_NOT_FOUND';
+      throw error;
+    }
+    if (!subtitle.isText) {
+      const error = new Error(`${subtitle.codec} subtitles are images and can't be converted to text`);
+      error.code = 'BITMAP_SUBTITLE';
+      throw error;
+    }
+
+    await this.loadCache();
+
+    const file = this.getCachePath(url, track, format);
+    if (this.cacheEntries.has(file) && fs.existsSync(file)) {
+      this.touchCacheEntry(file);
+    } else {
+      await this.extractTextTracks(url, tracks, format);
+    }
+
+    return fs.promises.readFile(file, 'utf8');
+  }
+
+  /**
+   * Extracts every text track of a file in one ffmpeg run; concurrent
+   * requests for the same file and format share the run. At most
+   * `maxConcurrent` runs read files at once; the rest wait their turn.
+   */
+  extractTextTracks(url, tracks, format) {
+    const key = `${format}:${url}`;
+
+    if (!this.pendingExtractions.has(key)) {
+      const outputs = tracks
+        .filter(track => track.isText)
+        .map(track => ({ track: track.index, file: this.getCachePath(url, track.index, format) }));
+
+      const extraction = this.runQueued(() => this.runExtraction(url, outputs, format))
+        .then(async () => {
+          outputs.forEach(({ file }) => this.addCacheEntry(file, fs.statSync(file).size));
+          await this.enforceCacheLimit(outputs.map(({ file }) => file));
+        })
+        .finally(() => this.pendingExtractions.delete(key));
+      this.pendingExtractions.set(key, extraction);
+    }
+
+    return this.pendingExtractions.get(key);
+  }
+
+  getCachePath(url, track, format) {
+    const key = crypto.createHash('sha1').update(url).digest('hex').slice(0, 16);
+    return path.join(config.subtitles.cacheDir, key, `${track}.${format}`);
+  }
+
+  /**
+   * Builds the ffmpeg arguments for one output file per track, each written
+   * to a temporary file first
+   */
+  buildExtractArgs(url, outputs, format) {
+    const args = [
+      '-hide_banner', '-loglevel', 'error',
+      ...remuxService.getInputArgs(),
+      '-i', url
+    ];
+
+    for (const { track, file } of outputs) {
+      args.push(
+        '-map', `0:s:${track}`,
+        '-c:s', FORMATS[format].codec,
+        '-f', FORMATS[format].muxer,
+        '-y', `${file}.tmp`
+      );
+    }
+
+    return args;
+  }
+
+  /**
+   * Runs ffmpeg and renames the temporary files once every track is complete
+   */
+  runExtraction(url, outputs, format) {
+    const args = this.buildExtractArgs(url, outputs, format);
+    console.log(`💬 Extracting ${outputs.length} subtitle track(s) of ${url} as ${format}`);
+
+    return new Promise((resolve, reject) => {
+      outputs.forEach(({ file }) => fs.mkdirSync(path.dirname(file), { recursive: true }));
+
+      const ffmpeg = spawn(config.remux.ffmpegPath, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+      let stderr = '';
+      const timeoutId = setTimeout(() => ffmpeg.kill('SIGKILL'), EXTRACT_TIMEOUT_MS);
+      this.activeProcesses.add(ffmpeg);
+
+      ffmpeg.stderr.on('data', (data) => {
+        stderr = (stderr + data.toString()).slice(-500);
+      });
+      ffmpeg.on('error', (error) => {
+        clearTimeout(timeoutId);
+        this.activeProcesses.delete(ffmpeg);
+        reject(new Error(`ffmpeg failed to start: ${error.code === 'ENOENT' ? 'ffmpeg is not installed' : error.message}`));
+      });
+      ffmpeg.on('close', (code) => {
+        clearTimeout(timeoutId);
+        this.activeProcesses.delete(ffmpeg);
+        if (code !== 0) {
+          outputs.forEach(({ file }) => fs.rmSync(`${file}.tmp`, { force: true }));
+          reject(new Error(`ffmpeg exited with ${code === null ? 'a timeout' : `code ${code}`}: ${stderr.trim()}`));
+          return;
+        }
+
+        outputs.forEach(({ file }) => fs.renameSync(`${file}.tmp`, file));
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Runs an extraction once fewer than `maxConcurrent` are in progress
+   */
+  async runQueued(job) {
+    if (this.runningJobs >= config.subtitles.maxConcurrent) {
+      await new Promise(resolve => this.jobQueue.push(resolve));
+    }
+
+    this.runningJobs++;
+    try {
+      return await job();
+    } finally {
+      this.runningJobs--;
+      const next = this.jobQueue.shift();
+      if (next) next();
+    }
+  }
+
+  /**
+   * Stops every running extraction (used on shutdown)
+   */
+  stopAll() {
+    for (const ffmpeg of this.activeProcesses) {
+      ffmpeg.kill('SIGKILL');
+    }
+    this.activeProcesses.clear();
+  }
+
+  /**
+   * Indexes tracks left in the cache directory by an earlier run, oldest first
+   */
+  async loadCache() {
+    if (this.cacheLoaded) return;
+    this.cacheLoaded = true;
+
+    if (!fs.existsSync(config.subtitles.cacheDir)) return;
+
+    const files = [];
+    for (const dir of fs.readdirSync(config.subtitles.cacheDir, { withFileTypes: true })) {
+      if (!dir.isDirectory()) continue;
+
+      const dirPath = path.join(config.subtitles.cacheDir, dir.name);
+      for (const name of fs.readdirSync(dirPath)) {
+        const file = path.join(dirPath, name);
+        if (name.endsWith('.tmp')) {
+          fs.rmSync(file, { force: true });
+          continue;
+        }
+        const stats = fs.statSync(file);
+        files.push({ file, size: stats.size, time: stats.atimeMs });
+      }
+    }
+
+    files.sort((a, b) => a.time - b.time);
+    files.forEach(({ file, size }) => this.addCacheEntry(file, size));
+    await this.enforceCacheLimit();
+  }
+
+  addCacheEntry(file, size) {
+    if (this.cacheEntries.has(file)) {
+      this.cacheSize -= this.cacheEntries.get(file);
+      this.cacheEntries.delete(file);
+    }
+    this.cacheEntries.set(file, size);
+    this.cacheSize += size;
+  }
+
+  touchCacheEntry(file) {
+    const size = this.cacheEntries.get(file);
+    this.cacheEntries.delete(file);
+    this.cacheEntries.set(file, size);
+  }
+
+  /**
+   * Deletes least recently used tracks until the cache fits its cap. The
+   * tracks just extracted are kept.
+   */
+  async enforceCacheLimit(keep = []) {
+    for (const [file, size] of this.cacheEntries) {
+      if (this.cacheSize <= config.subtitles.cacheMaxBytes) break;
+      if (keep.includes(file)) continue;
+
+      this.cacheEntries.delete(file);
+      this.cacheSize -= size;
+      await fs.promises.rm(file, { force: true });
+    }
+  }
+
+  getCacheStats() {
+    return {
+      tracks: this.cacheEntries.size,
+      bytes: this.cacheSize,
+      maxBytes: config.subtitles.cacheMaxBytes
+    };
+  }
+
+  /**
+   * Moves every cue of a WebVTT file by `offset` seconds. Cues that end up
+   * entirely before zero are dropped.
+   */
+  shiftWebVtt(content, offset) {
+    if (!offset) return content;
+
+    const blocks = content.replace(/\r\n/g, '\n').split(/\n{2,}/);
+    const shifted = [];
+
+    for (const block of blocks) {
+      const match = block.match(/^((?:.*\n)?)([\d:.]+) --> ([\d:.]+)(.*)\n([\s\S]*)$/);
+      if (!match) {
+        shifted.push(block);
+        continue;
+      }
+
+      const [, identifier, start, end, settings, text] = match;
+      const newEnd = this.parseTimestamp(end) + offset;
+      if (newEnd <= 0) continue;
+
+      const newStart = Math.max(this.parseTimestamp(start) + offset, 0);
+      shifted.push(`${identifier}${this.formatVttTimestamp(newStart)} --> ${this.formatVttTimestamp(newEnd)}${settings}\n${text}`);
+    }
+
+    return shifted.join('\n\n');
+  }
+
+  /**
+   * Moves every Dialogue line of an ASS file by `offset` seconds
+   */
+  shiftAss(content, offset) {
+    if (!offset) return content;
+
+    return content
+      .split(/\r?\n/)
+      .map((line) => {
+        const match = line.match(/^Dialogue:\s*([^,]*),([^,]*),([^,]*),(.*)$/);
+        if (!match) return line;
+
+        const [, layer, start, end, rest] = match;
+        const newEnd = this.parseTimestamp(end) + offset;
+        if (newEnd <= 0) return null;
+
+        const newStart = Math.max(this.parseTimestamp(start) + offset, 0);
+        return `Dialogue: ${layer},${this.formatAssTimestamp(newStart)},${this.formatAssTimestamp(newEnd)},${rest}`;
+      })
+      .filter(line => line !== null)
+      .join('\n');
+  }
+
+  /**
+   * Parses h:mm:ss.xxx, mm:ss.xxx and ASS h:mm:ss.cc timestamps to seconds
+   */
+  parseTimestamp(timestamp) {
+    return timestamp.trim().split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+  }
+
+  formatVttTimestamp(seconds) {
+    const totalMs = Math.round(seconds * 1000);
+    const h = Math.floor(totalMs / 3600000);
+    const m = Math.floor((totalMs % 3600000) / 60000);
+    const s = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(ms).padStart(3, '0')}`;
+  }
+
+  formatAssTimestamp(seconds) {
+    const totalCs = Math.round(seconds * 100);
+    const h = Math.floor(totalCs / 360000);
+    const m = Math.floor((totalCs % 360000) / 6000);
+    const s = Math.floor((totalCs % 6000) / 100);
+    const cs = totalCs % 100;
+    return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(cs).padStart(2, '0')}`;
+  }
+}
+
+module.exports = new SubtitleService();
@@ -0,0 +1,312 @@
+/**
+ * User Service
+ * Local user accounts for the people sharing this server, unrelated to the
+ * Discovery FTP login in AuthService. Passwords are stored as scrypt hashes
+ * and sessions as SHA-256 hashes of random tokens, so the stored file can't
+ * be used to sign in. Each user has a watchlist and free-form preferences;
+ * watch history lives in ProgressService.
+ */
+
+const crypto = require('crypto');
+const { promisify } = require('util');
+const config = require('../config');
+const catalogService = require('./catalogService');
+
+const scrypt = promisify(crypto.scrypt);
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const HASH_BYTES = 64;
+// Sessions kept per user; signing in again past this drops the oldest
+const MAX_SESSIONS = 20;
+// Bytes the serialized preferences of one user may take
+const MAX_PREFERENCES_SIZE = 16 * 1024;
+const MAX_WATCHLIST_SIZE = 2000;
+// Failed sign-ins remembered before expired ones are swept out
+const MAX_TRACKED_FAILURES = 10000;
+
+class UserService {
+  constructor() {
+    this.users = [];
+    this.isLoaded = false;
+    this.saving = Promise.resolve();
+    // "ip:<address>" or "user:<name>" -> { count, resetAt } of recent failed sign-ins
+    this.loginFailures = new Map();
+  }
+
+  async load() {
+    try {
+      this.users = await catalogService.store.loadUsers();
+      console.log(`👤 Loaded ${this.users.length} user accounts`);
+    } catch (error) {
+      console.error('Failed to load user accounts:', error.message);
+    }
+
+    this.isLoaded = true;
+    return this.users.length;
+  }
+
+  normalizeUsername(username) {
+    return typeof username === 'string' ? username.trim().toLowerCase() : '';
+  }
+
+  /**
+   * Checks sign-up details, returning what is wrong with them or null
+   */
+  validateCredentials({ username, password } = {}) {
+    if (!USERNAME_PATTERN.test(this.normalizeUsername(username))) {
+      return 'username must be 3-32 letters, digits, dots, dashes or underscores';
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  async hashPassword(password, salt) {
+    const hash = await scrypt(password, Buffer.from(salt, 'hex'), HASH_BYTES);
+    return hash.toString('hex');
+  }
+
+  hashToken(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Creates an account and signs it in. Fails with code REGISTRATION_CLOSED
+   * or USERNAME_TAKEN.
+   */
+  async register({ username, password }) {
+    if (!config.users.allowRegistration) {
+      const error = new Error('Registration is closed on this server');
+      error.code = 'REGISTRATION_CLOSED';
+      throw error;
+    }
+
+    const name = this.normalizeUsername(username);
+    const salt = crypto.randomBytes(16).toString('hex');
+    const passwordHash = await this.hashPassword(password, salt);
+
+    // Checked after hashing, so two sign-ups for one name can't both get through
+    if (this.findByUsername(name)) {
+      const error = new Error(`The username ${name} is taken`);
+      error.code = 'USERNAME_TAKEN';
+      throw error;
+    }
+
+    const user = {
+      id: `user_${crypto.randomBytes(8).toString('hex')}`,
+      username: name,
+      passwordSalt: salt,
+      passwordHash,
+      createdAt: new Date().toISOString(),
+      preferences: {},
+      watchlist: [],
+      sessions: []
+    };
+
+    this.users.push(user);
+    const token = this.createSession(user);
+    await this.persist();
+
+    return { user, token };
+  }
+
+  /**
+   * Checks a username and password and opens a session. Fails with code
+   * INVALID_CREDENTIALS, without saying which of the two was wrong, and with
+   * TOO_MANY_ATTEMPTS (and retryAfter in seconds) once the account or the
+   * address has failed too often.
+   */
+  async login({ username, password }, { ip = '' } = {}) {
+    const name = this.normalizeUsername(username);
+    const keys = [
+      { key: `user:${name}`, limit: config.users.loginMaxAttempts },
+      { key: `ip:${ip}`, limit: config.users.loginMaxAttemptsPerIp }
+    ];
+    this.checkLoginThrottle(keys);
+
+    const user = this.findByUsername(name);
+    // Hashes even for unknown users, so the response time doesn't give them away
+    const salt = user ? user.passwordSalt : crypto.randomBytes(16).toString('hex');
+    const hash = await this.hashPassword(typeof password === 'string' ? password : '', salt);
+
+    if (!user || !crypto.timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(user.passwordHash, 'hex'))) {
+      keys.forEach(({ key }) => this.recordLoginFailure(key));
+      const error = new Error('Wrong username or password');
+      error.code = 'INVALID_CREDENTIALS';
+      throw error;
+    }
+
+    this.loginFailures.delete(`user:${name}`);
+    const token = this.createSession(user);
+    await this.persist();
+
+    return { user, token };
+  }
+
+  /**
+   * Fails with code TOO_MANY_ATTEMPTS when any of the keys has used up its
+   * failed sign-ins for the current window. Checked before hashing, so a
+   * locked-out client doesn't cost scrypt time either.
+   */
+  checkLoginThrottle(keys) {
+    const now = Date.now();
+
+    for (const { key, limit } of keys) {
+      const failures = this.loginFailures.get(key);
+      if (failures && failures.resetAt > now && failures.count >= limit) {
+        const error = new Error('Too many failed sign-ins, try again later');
+        error.code = 'TOO_MANY_ATTEMPTS';
+        error.retryAfter = Math.ceil((failures.resetAt - now) / 1000);
+        throw error;
+      }
+    }
+  }
+
+  recordLoginFailure(key) {
+    const now = Date.now();
+
+    if (this.loginFailures.size >= MAX_TRACKED_FAILURES) {
+      for (const [trackedKey, failures] of this.loginFailures) {
+        if (failures.resetAt <= now) this.loginFailures.delete(trackedKey);
+      }
+    }
+
+    const failures = this.loginFailures.get(key);
+    if (failures && failures.resetAt > now) {
+      failures.count++;
+    } else {
+      this.loginFailures.set(key, { count: 1, resetAt: now + config.users.loginWindowMinutes * 60 * 1000 });
+    }
+  }
+
+  /**
+   * Adds a session to a user, returning its token; only the hash is kept
+   */
+  createSession(user) {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+
+    user.sessions = user.sessions
+      .filter(session => new Date(session.expiresAt).getTime() > now)
+      .slice(-(MAX_SESSIONS - 1));
+    user.sessions.push({
+      tokenHash: this.hashToken(token),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + config.users.sessionDays * 24 * 60 * 60 * 1000).toISOString()
+    });
+
+    return token;
+  }
+
+  /**
+   * The user a session token belongs to, or null when it is unknown or expired
+   */
+  findBySession(token) {
+    if (!token) return null;
+
+    const tokenHash = this.hashToken(token);
+    const now = Date.now();
+
+    return this.users.find(user => user.sessions.some(session =>
+      session.tokenHash === tokenHash && new Date(session.expiresAt).getTime() > now
+    )) || null;
+  }
+
+  findByUsername(username) {
+    return this.users.find(user => user.username === username) || null;
+  }
+
+  async logout(token) {
+    const user = this.findBySession(token);
+    if (!user) return false;
+
+    const tokenHash = this.hashToken(token);
+    user.sessions = user.sessions.filter(session => session.tokenHash !== tokenHash);
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * What the API shows of an account
+   */
+  toPublic(user) {
+    return {
+      id: user.id,
+      username: user.username,
+      createdAt: user.createdAt
+    };
+  }
+
+  /**
+   * Merges preferences into the saved ones; a null value removes a key.
+   * Fails with code INVALID_PREFERENCES.
+   */
+  async updatePreferences(user, preferences) {
+    if (!preferences || typeof preferences !== 'object' || Array.isArray(preferences)) {
+      const error = new Error('Preferences must be a JSON object');
+      error.code = 'INVALID_PREFERENCES';
+      throw error;
+    }
+
+    const merged = { ...user.preferences };
+    Object.entries(preferences).forEach(([key, value]) => {
+      if (value === null) delete merged[key];
+      else merged[key] = value;
+    });
+
+    if (JSON.stringify(merged).length > MAX_PREFERENCES_SIZE) {
+      const error = new Error(`Preferences may take at most ${MAX_PREFERENCES_SIZE} bytes`);
+      error.code = 'INVALID_PREFERENCES';
+      throw error;
+    }
+
+    user.preferences = merged;
+    await this.persist();
+    return user.preferences;
+  }
+
+  /**
+   * Adds a movie to the front of the watchlist; adding it again moves it there.
+   * Fails with code WATCHLIST_FULL.
+   */
+  async addToWatchlist(user, movieId) {
+    const rest = user.watchlist.filter(item => item.movieId !== movieId);
+    if (rest.length >= MAX_WATCHLIST_SIZE) {
+      const error = new Error(`A watchlist holds at most ${MAX_WATCHLIST_SIZE} movies`);
+      error.code = 'WATCHLIST_FULL';
+      throw error;
+    }
+
+    user.watchlist = [{ movieId, addedAt: new Date().toISOString() }, ...rest];
+    await this.persist();
+    return user.watchlist;
+  }
+
+  async removeFromWatchlist(user, movieId) {
+    const before = user.watchlist.length;
+    user.watchlist = user.watchlist.filter(item => item.movieId !== movieId);
+
+    if (user.watchlist.length !== before) {
+      await this.persist();
+    }
+    return user.watchlist;
+  }
+
+  /**
+   * Writes the accounts one save at a time, since the JSON store renames a
+   * temporary file into place
+   */
+  persist() {
+    const users = [...this.users];
+    this.saving = this.saving
+      .then(() => catalogService.store.saveUsers(users))
+      .catch((error) => {
+        console.error('Failed to save user accounts:', error.message);
+      });
+    return this.saving;
+  }
+}
+
+module.exports = new UserService();
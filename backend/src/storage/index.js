@@ -0,0 +1,47 @@
+const path = require('path');
+const JsonCatalogStore = require('./jsonCatalogStore');
+const SqliteCatalogStore = require('./sqliteCatalogStore');
+
+const backends = {
+  json: { Store: JsonCatalogStore, defaultFile: 'catalog.json' },
+  sqlite: { Store: SqliteCatalogStore, defaultFile: 'catalog.db' }
+};
+
+/**
+ * Whether the optional better-sqlite3 package is installed and loads
+ */
+function isSqliteAvailable() {
+  try {
+    require('better-sqlite3');
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Creates the catalog store selected by the storage configuration. SQLite
+ * falls back to a JSON file in the same directory when better-sqlite3 is
+ * missing, so the catalog is still saved.
+ */
+function createCatalogStore(storageConfig) {
+  const backend = backends[storageConfig.backend];
+
+  if (!backend) {
+    throw new Error(`Unknown storage backend: ${storageConfig.backend} (expected one of: ${Object.keys(backends).join(', ')})`);
+  }
+
+  const filePath = storageConfig.path || path.join(storageConfig.dataDir, backend.defaultFile);
+
+  if (storageConfig.backend === 'sqlite' && !isSqliteAvailable()) {
+    const jsonPath = path.join(path.dirname(filePath), backends.json.defaultFile);
+    console.warn(`⚠️ better-sqlite3 is not installed, storing the catalog as JSON in ${jsonPath}`);
+    return new backends.json.Store(jsonPath);
+  }
+
+  return new backend.Store(filePath);
+}
+
+module.exports = {
+  createCatalogStore
+};
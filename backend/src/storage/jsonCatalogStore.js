@@ -0,0 +1,102 @@
+const crypto = require('crypto');
+const fs = require('fs').promises;
+const path = require('path');
+
+/**
+ * JSON file catalog store
+ * Keeps the whole catalog in a single JSON document, with scrape run history,
+ * watch progress and user accounts in files next to it. Writes go to a temporary file first and are
+ * renamed into place, so readers never see a partial file.
+ */
+class JsonCatalogStore {
+  constructor(filePath) {
+    this.name = 'json';
+    this.filePath = filePath;
+    this.runsPath = path.join(path.dirname(filePath), 'scrape-runs.json');
+    this.progressPath = path.join(path.dirname(filePath), 'watch-progress.json');
+    this.usersPath = path.join(path.dirname(filePath), 'users.json');
+  }
+
+  async readJson(filePath) {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async writeJsonAtomic(filePath, value) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Unique per write so overlapping writes of the same file can't rename each other's half-written file
+    const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(value), 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async load() {
+    const snapshot = await this.readJson(this.filePath);
+    if (!snapshot) {
+      return null;
+    }
+
+    return {
+      movies: Array.isArray(snapshot.movies) ? snapshot.movies : [],
+      series: Array.isArray(snapshot.series) ? snapshot.series : [],
+      aliases: snapshot.aliases || {},
+      lastScrapeTime: snapshot.lastScrapeTime ? new Date(snapshot.lastScrapeTime) : null
+    };
+  }
+
+  async save({ movies, series = [], aliases, lastScrapeTime }) {
+    await this.writeJsonAtomic(this.filePath, {
+      version: 1,
+      savedAt: new Date().toISOString(),
+      lastScrapeTime,
+      aliases,
+      movies,
+      series
+    });
+  }
+
+  async loadRuns() {
+    const runs = await this.readJson(this.runsPath);
+    return Array.isArray(runs) ? runs : [];
+  }
+
+  async saveRuns(runs) {
+    await this.writeJsonAtomic(this.runsPath, runs);
+  }
+
+  async loadProgress() {
+    const entries = await this.readJson(this.progressPath);
+    return Array.isArray(entries) ? entries : [];
+  }
+
+  async saveProgress(entries) {
+    await this.writeJsonAtomic(this.progressPath, entries);
+  }
+
+  async loadUsers() {
+    const users = await this.readJson(this.usersPath);
+    return Array.isArray(users) ? users : [];
+  }
+
+  async saveUsers(users) {
+    await this.writeJsonAtomic(this.usersPath, users);
+  }
+
+  async close() {
+    // Nothing to release for a plain file
+  }
+}
+
+module.exports = JsonCatalogStore;
@@ -0,0 +1,201 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * SQLite catalog store
+ * Stores each movie and series as a JSON row next to its first/last seen
+ * timestamps, plus scrape run history, watch progress and user accounts. A
+ * save replaces the catalog inside one transaction, so it is all-or-nothing.
+ */
+class SqliteCatalogStore {
+  constructor(filePath) {
+    this.name = 'sqlite';
+    this.filePath = filePath;
+    this.db = null;
+  }
+
+  open() {
+    if (this.db) {
+      return this.db;
+    }
+
+    let Database;
+    try {
+      Database = require('better-sqlite3');
+    } catch (error) {
+      throw new Error(`SQLite storage requires the better-sqlite3 package: ${error.message}`);
+    }
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS movies (
+        id TEXT PRIMARY KEY,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        first_seen_at TEXT,
+        last_seen_at TEXT
+      );
+      CREATE TABLE IF NOT EXISTS series (
+        id TEXT PRIMARY KEY,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        first_seen_at TEXT,
+        last_seen_at TEXT
+      );
+      CREATE TABLE IF NOT EXISTS aliases (
+        old_id TEXT PRIMARY KEY,
+        new_id TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      );
+      CREATE TABLE IF NOT EXISTS scrape_runs (
+        id TEXT PRIMARY KEY,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS watch_progress (
+        user_id TEXT NOT NULL,
+        movie_id TEXT NOT NULL,
+        source_url TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (user_id, movie_id, source_url)
+      );
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE,
+        data TEXT NOT NULL
+      );
+    `);
+
+    return this.db;
+  }
+
+  async load() {
+    const db = this.open();
+
+    const rows = db.prepare('SELECT data FROM movies ORDER BY position').all();
+    const seriesRows = db.prepare('SELECT data FROM series ORDER BY position').all();
+    const aliasRows = db.prepare('SELECT old_id, new_id FROM aliases').all();
+    const lastScrapeRow = db.prepare('SELECT value FROM meta WHERE key = ?').get('lastScrapeTime');
+
+    if (rows.length === 0 && seriesRows.length === 0 && aliasRows.length === 0 && !lastScrapeRow) {
+      return null;
+    }
+
+    return {
+      movies: rows.map(row => JSON.parse(row.data)),
+      series: seriesRows.map(row => JSON.parse(row.data)),
+      aliases: Object.fromEntries(aliasRows.map(row => [row.old_id, row.new_id])),
+      lastScrapeTime: lastScrapeRow && lastScrapeRow.value ? new Date(lastScrapeRow.value) : null
+    };
+  }
+
+  async save({ movies, series = [], aliases, lastScrapeTime }) {
+    const db = this.open();
+
+    const insertMovie = db.prepare(
+      'INSERT INTO movies (id, position, data, first_seen_at, last_seen_at) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertSeries = db.prepare(
+      'INSERT INTO series (id, position, data, first_seen_at, last_seen_at) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertAlias = db.prepare('INSERT INTO aliases (old_id, new_id) VALUES (?, ?)');
+    const upsertMeta = db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)');
+
+    const replaceCatalog = db.transaction(() => {
+      db.prepare('DELETE FROM movies').run();
+      db.prepare('DELETE FROM series').run();
+      db.prepare('DELETE FROM aliases').run();
+
+      movies.forEach((movie, index) => {
+        insertMovie.run(movie.id, index, JSON.stringify(movie), movie.firstSeenAt || null, movie.lastSeenAt || null);
+      });
+
+      series.forEach((item, index) => {
+        insertSeries.run(item.id, index, JSON.stringify(item), item.firstSeenAt || null, item.lastSeenAt || null);
+      });
+
+      Object.entries(aliases || {}).forEach(([oldId, newId]) => {
+        insertAlias.run(oldId, newId);
+      });
+
+      upsertMeta.run('lastScrapeTime', lastScrapeTime ? new Date(lastScrapeTime).toISOString() : null);
+      upsertMeta.run('savedAt', new Date().toISOString());
+    });
+
+    replaceCatalog();
+  }
+
+  async loadRuns() {
+    const db = this.open();
+    return db.prepare('SELECT data FROM scrape_runs ORDER BY position').all().map(row => JSON.parse(row.data));
+  }
+
+  async saveRuns(runs) {
+    const db = this.open();
+    const insertRun = db.prepare('INSERT INTO scrape_runs (id, position, data) VALUES (?, ?, ?)');
+
+    const replaceRuns = db.transaction(() => {
+      db.prepare('DELETE FROM scrape_runs').run();
+      runs.forEach((run, index) => {
+        insertRun.run(run.id, index, JSON.stringify(run));
+      });
+    });
+
+    replaceRuns();
+  }
+
+  async loadProgress() {
+    const db = this.open();
+    return db.prepare('SELECT data FROM watch_progress ORDER BY updated_at').all().map(row => JSON.parse(row.data));
+  }
+
+  async saveProgress(entries) {
+    const db = this.open();
+    const insertEntry = db.prepare('INSERT INTO watch_progress (user_id, movie_id, source_url, updated_at, data) VALUES (?, ?, ?, ?, ?)');
+
+    const replaceProgress = db.transaction(() => {
+      db.prepare('DELETE FROM watch_progress').run();
+      entries.forEach((entry) => {
+        // Progress saved without an account is shared, stored under an empty user ID
+        insertEntry.run(entry.userId || '', entry.movieId, entry.sourceUrl, entry.updatedAt, JSON.stringify(entry));
+      });
+    });
+
+    replaceProgress();
+  }
+
+  async loadUsers() {
+    const db = this.open();
+    return db.prepare('SELECT data FROM users ORDER BY rowid').all().map(row => JSON.parse(row.data));
+  }
+
+  async saveUsers(users) {
+    const db = this.open();
+    const insertUser = db.prepare('INSERT INTO users (id, username, data) VALUES (?, ?, ?)');
+
+    const replaceUsers = db.transaction(() => {
+      db.prepare('DELETE FROM users').run();
+      users.forEach((user) => {
+        insertUser.run(user.id, user.username, JSON.stringify(user));
+      });
+    });
+
+    replaceUsers();
+  }
+
+  async close() {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
+
+module.exports = SqliteCatalogStore;
@@ -0,0 +1,258 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createCatalogStore } = require('../src/storage');
+const JsonCatalogStore = require('../src/storage/jsonCatalogStore');
+const SqliteCatalogStore = require('../src/storage/sqliteCatalogStore');
+const catalogService = require('../src/services/catalogService');
+const movieIdService = require('../src/services/movieIdService');
+const searchService = require('../src/services/searchService');
+
+const SCRAPE_TIME = new Date('2025-06-01T12:00:00.000Z');
+
+const movies = [
+  {
+    id: 'movie_saiyaara', title: 'Saiyaara', year: '2025', language: 'Hindi',
+    downloadUrls: [{ url: 'https://dflix.discoveryftp.net/m/Saiyaara.2025.1080p.mkv', release: { resolution: '1080p' } }],
+    firstSeenAt: '2025-05-01T00:00:00.000Z', lastSeenAt: '2025-06-01T12:00:00.000Z'
+  },
+  { id: 'movie_dune', title: 'Dune', year: '2021', downloadUrls: [], firstSeenAt: null, lastSeenAt: null }
+];
+const series = [{ id: 'series_dark', title: 'Dark', seasons: [{ number: 1, episodes: [] }] }];
+const aliases = { movie_old: 'movie_saiyaara' };
+
+function snapshot() {
+  return { movies, series, aliases, lastScrapeTime: SCRAPE_TIME };
+}
+
+describe.each([
+  ['json', JsonCatalogStore],
+  ['sqlite', SqliteCatalogStore]
+])('%s catalog store', (backend, Store) => {
+  let dataDir;
+  let store;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), `catalog-${backend}-`));
+    store = createCatalogStore({ backend, dataDir, path: null });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('is created for its backend name', () => {
+    expect(store).toBeInstanceOf(Store);
+    expect(store.name).toBe(backend);
+    expect(path.dirname(store.filePath)).toBe(dataDir);
+  });
+
+  test('loads nothing before the first save', async () => {
+    await expect(store.load()).resolves.toBeNull();
+    await expect(store.loadRuns()).resolves.toEqual([]);
+    await expect(store.loadProgress()).resolves.toEqual([]);
+    await expect(store.loadUsers()).resolves.toEqual([]);
+  });
+
+  test('loads back what was saved, in order', async () => {
+    await store.save(snapshot());
+
+    await expect(store.load()).resolves.toEqual(snapshot());
+  });
+
+  test('replaces the whole catalog on every save', async () => {
+    await store.save(snapshot());
+    await store.save({ movies: [movies[1]], aliases: {}, lastScrapeTime: null });
+
+    await expect(store.load()).resolves.toEqual({ movies: [movies[1]], series: [], aliases: {}, lastScrapeTime: null });
+  });
+
+  test('survives overlapping saves', async () => {
+    await Promise.all([
+      store.save(snapshot()),
+      store.save({ movies: [movies[1]], aliases: {}, lastScrapeTime: null })
+    ]);
+
+    const saved = await store.load();
+    expect([2, 1]).toContain(saved.movies.length);
+    expect(fs.readdirSync(dataDir).filter(file => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  test('keeps the catalog after the store is reopened', async () => {
+    await store.save(snapshot());
+    await store.close();
+
+    const reopened = createCatalogStore({ backend, dataDir, path: null });
+    await expect(reopened.load()).resolves.toEqual(snapshot());
+    await reopened.close();
+  });
+
+  test('round-trips run history, watch progress and users', async () => {
+    const runs = [{ id: 'run_1', type: 'scrape', status: 'success' }, { id: 'run_2', type: 'enrich', status: 'failed' }];
+    const progress = [
+      { movieId: 'movie_dune', sourceUrl: 'https://dflix.discoveryftp.net/Dune.mkv', updatedAt: '2025-06-01T00:00:00.000Z', position: 60 },
+      { userId: 'user_1', movieId: 'movie_dune', sourceUrl: 'https://dflix.discoveryftp.net/Dune.mkv', updatedAt: '2025-06-02T00:00:00.000Z', position: 90 }
+    ];
+    const users = [{ id: 'user_1', username: 'alice', watchlist: [{ movieId: 'movie_dune' }] }];
+
+    await store.saveRuns(runs);
+    await store.saveProgress(progress);
+    await store.saveUsers(users);
+
+    await expect(store.loadRuns()).resolves.toEqual(runs);
+    await expect(store.loadProgress()).resolves.toEqual(progress);
+    await expect(store.loadUsers()).resolves.toEqual(users);
+  });
+});
+
+describe('createCatalogStore', () => {
+  let dataDir;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-store-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('uses an explicit path over the data directory', () => {
+    const filePath = path.join(dataDir, 'nested', 'movies.json');
+    expect(createCatalogStore({ backend: 'json', dataDir: '/unused', path: filePath }).filePath).toBe(filePath);
+  });
+
+  test('rejects unknown backends', () => {
+    expect(() => createCatalogStore({ backend: 'mongo', dataDir })).toThrow('Unknown storage backend: mongo (expected one of: json, sqlite)');
+  });
+
+  test('falls back to JSON next to the SQLite file when better-sqlite3 is missing', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    let store;
+
+    jest.isolateModules(() => {
+      jest.doMock('better-sqlite3', () => {
+        throw new Error("Cannot find module 'better-sqlite3'");
+      });
+      store = require('../src/storage').createCatalogStore({ backend: 'sqlite', dataDir, path: path.join(dataDir, 'db', 'catalog.db') });
+    });
+    jest.dontMock('better-sqlite3');
+
+    expect(store.name).toBe('json');
+    expect(store.filePath).toBe(path.join(dataDir, 'db', 'catalog.json'));
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('better-sqlite3 is not installed'));
+  });
+});
+
+describe('catalogService', () => {
+  let dataDir;
+  let originalStore;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-service-'));
+    originalStore = catalogService.store;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    Object.assign(catalogService, { movies: [], series: [], lastScrapeTime: null, isPersistent: false });
+    movieIdService.loadAliases({});
+  });
+
+  afterEach(async () => {
+    await catalogService.close();
+    catalogService.store = originalStore;
+    Object.assign(catalogService, { movies: [], series: [], lastScrapeTime: null, isPersistent: false });
+    movieIdService.loadAliases({});
+    searchService.rebuild([]);
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  function useStore(backend) {
+    catalogService.store = createCatalogStore({ backend, dataDir, path: null });
+  }
+
+  test('restores movies, aliases and the search index on load', async () => {
+    useStore('json');
+    movieIdService.loadAliases(aliases);
+    await catalogService.replaceMovies(movies.map(movie => ({ ...movie })), SCRAPE_TIME);
+
+    Object.assign(catalogService, { movies: [], lastScrapeTime: null, isPersistent: false });
+    movieIdService.loadAliases({});
+    searchService.rebuild([]);
+    await catalogService.load();
+
+    expect(catalogService.getMovies().map(movie => movie.id)).toEqual(['movie_saiyaara', 'movie_dune']);
+    expect(catalogService.getLastScrapeTime()).toEqual(SCRAPE_TIME);
+    expect(catalogService.getMovieById('movie_old').id).toBe('movie_saiyaara');
+    expect(searchService.search('saiyara')[0].movie.id).toBe('movie_saiyaara');
+  });
+
+  test('keeps when a movie was first seen across scrapes', async () => {
+    useStore('json');
+    await catalogService.replaceMovies([{ id: 'movie_dune', title: 'Dune' }], new Date('2025-01-01T00:00:00.000Z'));
+    await catalogService.replaceMovies([{ id: 'movie_dune', title: 'Dune' }], SCRAPE_TIME);
+
+    expect(catalogService.getMovieById('movie_dune')).toMatchObject({
+      firstSeenAt: '2025-01-01T00:00:00.000Z',
+      lastSeenAt: SCRAPE_TIME.toISOString()
+    });
+  });
+
+  test('carries the catalog over when switching backends', async () => {
+    useStore('json');
+    movieIdService.loadAliases(aliases);
+    await catalogService.replaceMovies(movies.map(movie => ({ ...movie })), SCRAPE_TIME);
+    await catalogService.replaceSeries(series, SCRAPE_TIME);
+
+    await catalogService.close();
+    useStore('sqlite');
+    await catalogService.save();
+    const saved = await catalogService.store.load();
+
+    expect(catalogService.getStatus().backend).toBe('sqlite');
+    expect(saved.movies).toEqual(catalogService.getMovies());
+    expect(saved.series).toEqual(catalogService.getSeries());
+    expect(saved.aliases).toEqual(aliases);
+    expect(saved.lastScrapeTime).toEqual(SCRAPE_TIME);
+  });
+
+  test('writes overlapping saves one after another', async () => {
+    useStore('json');
+    let writing = 0;
+    const save = catalogService.store.save.bind(catalogService.store);
+    const overlaps = [];
+    jest.spyOn(catalogService.store, 'save').mockImplementation(async (snapshot) => {
+      overlaps.push(writing++);
+      await save(snapshot);
+      writing--;
+    });
+    catalogService.isPersistent = true;
+
+    catalogService.movies = [movies[0]];
+    const first = catalogService.save();
+    catalogService.movies = movies;
+    const results = await Promise.all([first, catalogService.save(), catalogService.save()]);
+
+    expect(results).toEqual([true, true, true]);
+    expect(overlaps).toEqual([0, 0, 0]);
+    expect((await catalogService.store.load()).movies.map(movie => movie.id)).toEqual(['movie_saiyaara', 'movie_dune']);
+    expect(fs.readdirSync(dataDir).filter(file => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  test('never writes mock data', async () => {
+    useStore('json');
+    catalogService.useMockMovies(movies);
+
+    await expect(catalogService.save()).resolves.toBe(false);
+    await expect(catalogService.store.load()).resolves.toBeNull();
+  });
+
+  test('starts empty when the stored catalog can\'t be read', async () => {
+    useStore('json');
+    fs.writeFileSync(catalogService.store.filePath, '{ not json');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(catalogService.load()).resolves.toEqual([]);
+    expect(catalogService.getStatus()).toMatchObject({ isLoaded: true, isPersistent: false });
+  });
+});
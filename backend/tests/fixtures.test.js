@@ -0,0 +1,97 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const axios = require('axios');
+const { enableRecording, enableReplay, getFixtureName } = require('../src/http/fixtures');
+
+describe('HTTP fixtures', () => {
+  let fixtureDir;
+
+  beforeEach(() => {
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-test-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  test('gives distinct URLs distinct fixture names', () => {
+    const name = getFixtureName('GET', 'https://example.com/m/Hindi/2025/Saiyaara');
+
+    expect(name).toMatch(/^get_example_com_m_Hindi_2025_Saiyaara_[0-9a-f]{10}\.json$/);
+    expect(getFixtureName('get', 'https://example.com/m/Hindi/2025/Saiyaara')).toBe(name);
+    expect(getFixtureName('get', 'https://example.com/m/Hindi/2025/Saiyaara?page=2')).not.toBe(name);
+  });
+
+  test('replays a recorded response', async () => {
+    const recorder = enableRecording(axios.create(), fixtureDir);
+    recorder.defaults.adapter = async (config) => ({
+      data: '<html><body>Recorded</body></html>',
+      status: 200,
+      statusText: 'OK',
+      headers: { 'content-type': 'text/html' },
+      config,
+      request: {}
+    });
+    await recorder.get('https://example.com/m');
+
+    const client = enableReplay(axios.create(), fixtureDir);
+    const response = await client.get('https://example.com/m');
+
+    expect(response.status).toBe(200);
+    expect(response.data).toBe('<html><body>Recorded</body></html>');
+    expect(response.request.res.responseUrl).toBe('https://example.com/m');
+  });
+
+  test('fails with ENOFIXTURE for requests that were never recorded', async () => {
+    const client = enableReplay(axios.create(), fixtureDir);
+
+    await expect(client.get('https://example.com/missing')).rejects.toMatchObject({ code: 'ENOFIXTURE' });
+  });
+
+  test.each([
+    [404, 'ERR_BAD_REQUEST'],
+    [500, 'ERR_BAD_RESPONSE']
+  ])('records a %i response and replays it as the same error', async (status, code) => {
+    const recorder = enableRecording(axios.create({ validateStatus: (value) => value < 400 }), fixtureDir);
+    recorder.defaults.adapter = async (config) => {
+      const response = { data: 'Failed', status, statusText: 'Failed', headers: { 'content-type': 'text/html' }, config, request: {} };
+      throw new axios.AxiosError(`Request failed with status code ${status}`, code, config, {}, response);
+    };
+    const live = await recorder.get('https://example.com/m/broken').catch(error => error);
+
+    const client = enableReplay(axios.create({ validateStatus: (value) => value < 400 }), fixtureDir);
+    const replayed = await client.get('https://example.com/m/broken').catch(error => error);
+
+    expect(live.code).toBe(code);
+    expect(replayed).toBeInstanceOf(axios.AxiosError);
+    expect(replayed).toMatchObject({ code, message: live.message, response: { status, data: 'Failed' } });
+  });
+
+  test('does not record failures without a response', async () => {
+    const recorder = enableRecording(axios.create(), fixtureDir);
+    recorder.defaults.adapter = async (config) => {
+      throw new axios.AxiosError('timeout of 1000ms exceeded', 'ECONNABORTED', config);
+    };
+
+    await expect(recorder.get('https://example.com/slow')).rejects.toMatchObject({ code: 'ECONNABORTED' });
+    expect(fs.readdirSync(fixtureDir)).toEqual([]);
+  });
+
+  test('rejects recorded error statuses like a live request', async () => {
+    fs.writeFileSync(path.join(fixtureDir, getFixtureName('get', 'https://example.com/gone')), JSON.stringify({
+      method: 'GET',
+      url: 'https://example.com/gone',
+      status: 404,
+      statusText: 'Not Found',
+      headers: { 'content-type': 'text/html' },
+      data: 'Not Found'
+    }));
+
+    const client = enableReplay(axios.create(), fixtureDir);
+
+    await expect(client.get('https://example.com/gone')).rejects.toMatchObject({ response: { status: 404 } });
+  });
+});
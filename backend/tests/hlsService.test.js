@@ -0,0 +1,323 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const config = require('../src/config');
+const remuxService = require('../src/services/remuxService');
+const hlsService = require('../src/services/hlsService');
+
+const URL = 'https://dflix.discoveryftp.net/m/Movie.2023.1080p.mkv';
+
+function probeInfo({ videoCodec = 'h264', duration = '20.5', audio } = {}) {
+  return remuxService.parseProbeOutput({
+    streams: [
+      { index: 0, codec_type: 'video', codec_name: videoCodec },
+      ...(audio || [
+        { codec_name: 'ac3', channels: 6, tags: { language: 'eng', title: 'English "DD" 5.1' } },
+        { codec_name: 'aac', channels: 2, tags: { language: 'hin' } }
+      ]).map((stream, i) => ({ index: i + 1, codec_type: 'audio', ...stream }))
+    ],
+    format: { duration, bit_rate: '8000000' }
+  });
+}
+
+// Keyframes as probed near 6s, 12s and 18s; 6.2 and 18.1 are too close to a neighbour to start a segment
+const KEYFRAMES = [5.005, 6.2, 11.97, 18.1];
+
+describe('hlsService segment plans', () => {
+  afterEach(() => {
+    hlsService.segmentPlans.clear();
+    jest.restoreAllMocks();
+  });
+
+  test('splits the duration into fixed segments without keyframes', () => {
+    expect(hlsService.buildSegmentPlan(20.5)).toEqual([
+      { start: 0, length: 6 },
+      { start: 6, length: 6 },
+      { start: 12, length: 6 },
+      { start: 18, length: 2.5 }
+    ]);
+  });
+
+  test('starts segments on keyframes at least half a segment apart', () => {
+    const plan = hlsService.buildSegmentPlan(20.5, KEYFRAMES);
+
+    expect(plan.map(({ start }) => start)).toEqual([0, 5.005, 11.97]);
+    expect(plan[1].length).toBeCloseTo(6.965);
+    expect(plan[2].length).toBeCloseTo(8.53);
+  });
+
+  test('reads keyframe times out of ffprobe packets', () => {
+    expect(hlsService.parseKeyframes('5.005000,K__\n6.006000,___\n\n11.970000,K_\nN/A,K_\n')).toEqual([5.005, 11.97]);
+  });
+
+  test('probes one keyframe near every segment boundary', async () => {
+    const runFfprobe = jest.spyOn(remuxService, 'runFfprobe').mockResolvedValue('5.005000,K__\n11.970000,K__\n18.100000,K__\n');
+
+    await expect(hlsService.probeKeyframes(URL, 20.5)).resolves.toEqual([5.005, 11.97, 18.1]);
+
+    const args = runFfprobe.mock.calls[0][0];
+    expect(args[args.indexOf('-read_intervals') + 1]).toBe('6.000%+#1,12.000%+#1,18.000%+#1');
+    expect(args.join(' ')).toContain('-select_streams v:0 -show_entries packet=pts_time,flags');
+  });
+
+  test('falls back to fixed segments when the keyframes can\'t be probed, once per source', async () => {
+    const runFfprobe = jest.spyOn(remuxService, 'runFfprobe').mockRejectedValue(new Error('ffprobe is not installed'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const plan = await hlsService.getSegmentPlan(URL, probeInfo());
+
+    expect(plan).toEqual(hlsService.buildSegmentPlan(20.5));
+    await expect(hlsService.getSegmentPlan(URL, probeInfo())).resolves.toBe(plan);
+    expect(runFfprobe).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('hlsService playlists', () => {
+  test('lists the video rendition with every audio track as an alternative', () => {
+    const playlist = hlsService.buildMasterPlaylist(probeInfo());
+
+    expect(playlist).toContain(
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="audio",NAME="English \'DD\' 5.1",LANGUAGE="eng",DEFAULT=YES,AUTOSELECT=YES,URI="audio/0.m3u8"'
+    );
+    expect(playlist).toContain('NAME="hin",LANGUAGE="hin",DEFAULT=NO,AUTOSELECT=YES,URI="audio/1.m3u8"');
+    expect(playlist).toContain('#EXT-X-STREAM-INF:BANDWIDTH=8000000,AUDIO="audio"\nvideo.m3u8');
+  });
+
+  test('leaves out the audio group for silent files', () => {
+    const playlist = hlsService.buildMasterPlaylist(probeInfo({ audio: [] }));
+
+    expect(playlist).not.toContain('#EXT-X-MEDIA');
+    expect(playlist).toContain('#EXT-X-STREAM-INF:BANDWIDTH=8000000\nvideo.m3u8');
+  });
+
+  test('lists fixed segments with a shorter last one', () => {
+    const playlist = hlsService.buildMediaPlaylist(hlsService.buildSegmentPlan(20.5), 'video/');
+
+    expect(playlist).toContain('#EXT-X-TARGETDURATION:6');
+    expect(playlist).toContain('#EXT-X-PLAYLIST-TYPE:VOD');
+    expect(playlist.match(/#EXTINF/g)).toHaveLength(4);
+    expect(playlist).toContain('#EXTINF:6.000,\nvideo/0.ts');
+    expect(playlist).toContain('#EXTINF:2.500,\nvideo/3.ts\n#EXT-X-ENDLIST');
+  });
+
+  test('lists the real length of keyframe segments with a target that covers the longest', () => {
+    const playlist = hlsService.buildMediaPlaylist(hlsService.buildSegmentPlan(20.5, KEYFRAMES), '1/');
+
+    expect(playlist).toContain('#EXT-X-TARGETDURATION:9');
+    expect(playlist).toContain('#EXTINF:5.005,\n1/0.ts\n#EXTINF:6.965,\n1/1.ts\n#EXTINF:8.530,\n1/2.ts\n#EXT-X-ENDLIST');
+  });
+});
+
+describe('hlsService.buildSegmentArgs', () => {
+  const plan = hlsService.buildSegmentPlan(20.5, KEYFRAMES);
+
+  test('copies the video from the segment\'s keyframe up to the next one', () => {
+    const args = hlsService.buildSegmentArgs(URL, probeInfo(), plan, { type: 'video', segment: 1 });
+    const joined = args.join(' ');
+
+    expect(args.indexOf('-ss')).toBeLessThan(args.indexOf('-i'));
+    expect(joined).toContain(`-ss 5.010 -t 6.955 -i ${URL} -copyts -map 0:v:0 -c:v copy -an`);
+    expect(joined).toContain('-f mpegts');
+    expect(joined).toContain('-protocol_whitelist http,https,tcp,tls');
+  });
+
+  test('cuts the first segment from the start of the file', () => {
+    const joined = hlsService.buildSegmentArgs(URL, probeInfo(), plan, { type: 'video', segment: 0 }).join(' ');
+
+    expect(joined).not.toContain('-ss');
+    expect(joined).toContain(`-t 5.000 -i ${URL}`);
+  });
+
+  test('copies AAC audio tracks', () => {
+    const joined = hlsService.buildSegmentArgs(URL, probeInfo(), plan, { type: 'audio', segment: 2, audioTrack: 1 }).join(' ');
+
+    expect(joined).toContain('-ss 11.975 -t 8.520');
+    expect(joined).toContain('-map 0:a:1 -c:a copy -vn');
+  });
+});
+
+describe('hlsService.buildAudioEncodeArgs', () => {
+  test('encodes the track to AAC in one run split at the remaining boundaries', () => {
+    const plan = hlsService.buildSegmentPlan(20.5, KEYFRAMES);
+    const args = hlsService.buildAudioEncodeArgs(URL, plan, { segment: 1, audioTrack: 0, output: '/cache/audio0-%d.ts.tmp' });
+    const joined = args.join(' ');
+
+    expect(joined).toContain(`-ss 5.010 -i ${URL} -copyts -map 0:a:0 -c:a aac`);
+    expect(joined).toContain('-f segment -segment_format mpegts -segment_times 11.970,20.500 -segment_start_number 1');
+    expect(joined).toContain('-segment_list pipe:1 -segment_list_type csv');
+    expect(args[args.length - 1]).toBe('/cache/audio0-%d.ts.tmp');
+  });
+});
+
+describe('hlsService.getSegment', () => {
+  const originalCache = { ...config.hls };
+  const plan = hlsService.buildSegmentPlan(20.5);
+  let cacheDir;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hls-cache-'));
+    config.hls.cacheDir = cacheDir;
+    hlsService.cacheEntries.clear();
+    hlsService.cacheSize = 0;
+    hlsService.cacheLoaded = false;
+  });
+
+  afterEach(() => {
+    Object.assign(config.hls, originalCache);
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  test('rejects segments outside the file and missing audio tracks', async () => {
+    const info = probeInfo();
+
+    await expect(hlsService.getSegment(URL, info, plan, { type: 'video', segment: 4 })).rejects.toMatchObject({ code: 'SEGMENT_NOT_FOUND' });
+    await expect(hlsService.getSegment(URL, info, plan, { type: 'audio', segment: 0, audioTrack: 2 })).rejects.toMatchObject({ code: 'SEGMENT_NOT_FOUND' });
+  });
+
+  test('refuses video it would have to transcode', async () => {
+    await expect(hlsService.getSegment(URL, probeInfo({ videoCodec: 'mpeg4' }), plan, { type: 'video', segment: 0 }))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED_CODEC' });
+  });
+
+  test('serves cached segments without running ffmpeg', async () => {
+    const file = hlsService.getSegmentPath(URL, plan, { type: 'video', segment: 1 });
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, 'segment');
+    const cutSegment = jest.spyOn(hlsService, 'cutSegment');
+
+    await expect(hlsService.getSegment(URL, probeInfo(), plan, { type: 'video', segment: 1 })).resolves.toBe(file);
+    expect(cutSegment).not.toHaveBeenCalled();
+    expect(hlsService.getCacheStats()).toMatchObject({ segments: 1, bytes: 7 });
+  });
+
+  test('keeps segments of different plans apart', () => {
+    const keyframePlan = hlsService.buildSegmentPlan(20.5, KEYFRAMES);
+
+    expect(path.dirname(hlsService.getSegmentPath(URL, keyframePlan, { type: 'video', segment: 1 })))
+      .not.toBe(path.dirname(hlsService.getSegmentPath(URL, plan, { type: 'video', segment: 1 })));
+  });
+
+  test('cuts AAC segments but waits on the continuous encode for other audio', async () => {
+    const cutSegment = jest.spyOn(hlsService, 'cutSegment').mockResolvedValue(7);
+    const waitForEncodedAudio = jest.spyOn(hlsService, 'waitForEncodedAudio').mockResolvedValue('/cache/audio0-1.ts');
+
+    await hlsService.getSegment(URL, probeInfo(), plan, { type: 'audio', segment: 1, audioTrack: 1 });
+    await expect(hlsService.getSegment(URL, probeInfo(), plan, { type: 'audio', segment: 1, audioTrack: 0 }))
+      .resolves.toBe('/cache/audio0-1.ts');
+
+    expect(cutSegment).toHaveBeenCalledTimes(1);
+    expect(cutSegment.mock.calls[0][3]).toMatchObject({ audioTrack: 1 });
+    expect(waitForEncodedAudio).toHaveBeenCalledTimes(1);
+  });
+
+  test('evicts least recently used segments over the size cap', async () => {
+    config.hls.cacheMaxBytes = 20;
+    const files = ['a', 'b', 'c'].map((name) => {
+      const file = path.join(cacheDir, `${name}.ts`);
+      fs.writeFileSync(file, '0123456789');
+      return file;
+    });
+
+    hlsService.addCacheEntry(files[0], 10);
+    hlsService.addCacheEntry(files[1], 10);
+    hlsService.touchCacheEntry(files[0]);
+    hlsService.addCacheEntry(files[2], 10);
+    await hlsService.enforceCacheLimit(files[2]);
+
+    expect(fs.existsSync(files[1])).toBe(false);
+    expect(fs.existsSync(files[0])).toBe(true);
+    expect(hlsService.getCacheStats()).toMatchObject({ segments: 2, bytes: 20 });
+  });
+});
+
+describe('hlsService continuous audio encodes', () => {
+  const originalCache = { ...config.hls };
+  const plan = hlsService.buildSegmentPlan(60);
+  let cacheDir;
+  let startAudioJob;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hls-audio-'));
+    config.hls.cacheDir = cacheDir;
+    hlsService.cacheEntries.clear();
+    hlsService.cacheSize = 0;
+    startAudioJob = jest.spyOn(hlsService, 'startAudioJob').mockImplementation((key, url, plan, { segment, audioTrack }, dir) => {
+      const job = { key, dir, audioTrack, process: { kill: jest.fn() }, segmentCount: plan.length, nextSegment: segment, waiters: [], idleTimer: null };
+      hlsService.audioJobs.set(key, job);
+      return job;
+    });
+  });
+
+  afterEach(() => {
+    hlsService.stopAll();
+    Object.assign(config.hls, originalCache);
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  function request(segment) {
+    const file = hlsService.getSegmentPath(URL, plan, { type: 'audio', segment, audioTrack: 0 });
+    return { file, result: hlsService.waitForEncodedAudio(URL, plan, { segment, audioTrack: 0 }, file) };
+  }
+
+  test('keeps one encode running for requests it will soon reach', async () => {
+    const results = [3, 4, 7].map(segment => request(segment).result);
+
+    expect(startAudioJob).toHaveBeenCalledTimes(1);
+    expect(startAudioJob.mock.calls[0][3]).toEqual({ segment: 3, audioTrack: 0 });
+
+    hlsService.stopAll();
+    await Promise.all(results.map(result => expect(result).rejects.toThrow('Audio encode was stopped')));
+  });
+
+  test('restarts the encode at a segment it has passed or won\'t reach soon', async () => {
+    const first = request(3).result;
+    const firstJob = startAudioJob.mock.results[0].value;
+
+    const second = request(9).result;
+    await expect(first).rejects.toThrow('Audio encode was stopped');
+    expect(firstJob.process.kill).toHaveBeenCalledWith('SIGKILL');
+
+    startAudioJob.mock.results[1].value.nextSegment = 10;
+    const third = request(2).result;
+    await expect(second).rejects.toThrow('Audio encode was stopped');
+    expect(startAudioJob.mock.calls.map(call => call[3].segment)).toEqual([3, 9, 2]);
+
+    hlsService.stopAll();
+    await expect(third).rejects.toThrow('Audio encode was stopped');
+  });
+
+  test('refuses new encodes past maxAudioEncodes but still restarts running ones', async () => {
+    config.hls.maxAudioEncodes = 1;
+    const first = request(3).result;
+    const otherFile = path.join(cacheDir, 'other', 'audio0-3.ts');
+
+    await expect(hlsService.waitForEncodedAudio(URL, plan, { segment: 3, audioTrack: 0 }, otherFile))
+      .rejects.toMatchObject({ code: 'HLS_BUSY' });
+    expect(startAudioJob).toHaveBeenCalledTimes(1);
+
+    const second = request(9).result;
+    await expect(first).rejects.toThrow('Audio encode was stopped');
+    expect(startAudioJob).toHaveBeenCalledTimes(2);
+
+    hlsService.stopAll();
+    await expect(second).rejects.toThrow('Audio encode was stopped');
+  });
+
+  test('caches each finished segment and hands it to its requests', async () => {
+    const { file, result } = request(1);
+    const job = startAudioJob.mock.results[0].value;
+    const tmp = path.join(job.dir, 'audio0-1.ts.0a1b2c3d.tmp');
+    fs.mkdirSync(job.dir, { recursive: true });
+    fs.writeFileSync(tmp, 'segment');
+
+    await hlsService.finishAudioSegment(job, `${tmp},6.000000,12.000000`);
+
+    await expect(result).resolves.toBe(file);
+    expect(fs.existsSync(tmp)).toBe(false);
+    expect(fs.readFileSync(file, 'utf8')).toBe('segment');
+    expect(job.nextSegment).toBe(2);
+    expect(hlsService.getCacheStats()).toMatchObject({ segments: 1, bytes: 7 });
+  });
+});
@@ -0,0 +1,106 @@
+const movieIdService = require('../src/services/movieIdService');
+
+const BASE_URL = 'https://dflix.discoveryftp.net';
+
+describe('movieIdService.generateId', () => {
+  test('gives the same movie the same ID every time', () => {
+    const movie = { title: 'Saiyaara', year: '2025', language: 'Hindi', detailUrl: `${BASE_URL}/m/Hindi/2025/Saiyaara` };
+
+    expect(movieIdService.generateId(movie)).toMatch(/^movie_[0-9a-f]{12}$/);
+    expect(movieIdService.generateId({ ...movie })).toBe(movieIdService.generateId(movie));
+  });
+
+  test('prefers the detail path over title, year and language', () => {
+    const detailUrl = `${BASE_URL}/m/Hindi/2025/Saiyaara`;
+    const id = movieIdService.generateId({ title: 'Saiyaara', year: '2025', detailUrl });
+
+    expect(movieIdService.generateId({ title: 'Saiyaara (2025)', year: '', detailUrl })).toBe(id);
+    expect(movieIdService.generateId({ title: 'Saiyaara', year: '2025' })).not.toBe(id);
+  });
+
+  test('ignores the host, query string, case and trailing slashes of the detail URL', () => {
+    const id = movieIdService.generateId({ detailUrl: `${BASE_URL}/m/Hindi/2025/Saiyaara` });
+
+    expect(movieIdService.generateId({ detailUrl: 'https://mirror.discoveryftp.net/m/hindi/2025/saiyaara/?ref=home' })).toBe(id);
+    expect(movieIdService.generateId({ detailUrl: '/m//Hindi/2025/Saiyaara' })).toBe(id);
+    expect(movieIdService.generateId({ detailUrl: '/m/Hindi/2025/Saiyaara%20' })).not.toBe(id);
+  });
+
+  test('falls back to title, year and language without a detail page', () => {
+    const id = movieIdService.generateId({ title: 'The Matrix', year: '1999', language: 'English' });
+
+    expect(movieIdService.generateId({ title: 'the matrix!', year: '1999', language: 'english' })).toBe(id);
+    expect(movieIdService.generateId({ title: 'The Matrix', year: '1999', language: 'Hindi' })).not.toBe(id);
+  });
+
+  test('tells apart files of one title found in a directory', () => {
+    const file = (name) => ({ title: 'Dune Part Two', year: '2024', language: '', sourceUrl: `${BASE_URL}/Movies/English/${name}` });
+    const id1080 = movieIdService.generateId(file('Dune.Part.Two.2024.1080p.mkv'));
+    const id2160 = movieIdService.generateId(file('Dune.Part.Two.2024.2160p.mkv'));
+
+    expect(id1080).not.toBe(id2160);
+    expect(movieIdService.generateId(file('Dune.Part.Two.2024.1080p.mkv'))).toBe(id1080);
+  });
+
+  test('keeps series and episode IDs apart from movie IDs', () => {
+    const series = { detailUrl: `${BASE_URL}/s/English/Dark` };
+
+    expect(movieIdService.generateSeriesId(series)).toBe(movieIdService.generateId(series).replace('movie_', 'series_'));
+    expect(movieIdService.generateEpisodeId('series_1', 1, 2)).not.toBe(movieIdService.generateEpisodeId('series_1', 2, 1));
+  });
+});
+
+describe('movieIdService aliases', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    movieIdService.loadAliases({});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('maps retired IDs to the movie with the same detail path or metadata', () => {
+    const previous = [
+      { id: 'movie_old_path', title: 'Saiyaara', detailUrl: `${BASE_URL}/m/Hindi/2025/Saiyaara` },
+      { id: 'movie_old_meta', title: 'The Matrix', year: '1999', language: 'English' },
+      { id: 'movie_gone', title: 'Removed', year: '2001' },
+      { id: 'movie_kept', title: 'Kept' }
+    ];
+    const current = [
+      { id: 'movie_new_path', title: 'Saiyaara (2025)', detailUrl: 'https://mirror.discoveryftp.net/m/Hindi/2025/Saiyaara/' },
+      { id: 'movie_new_meta', title: 'The Matrix', year: '1999', language: 'English' },
+      { id: 'movie_kept', title: 'Kept' }
+    ];
+
+    expect(movieIdService.recordAliases(previous, current)).toBe(2);
+    expect(movieIdService.getAliases()).toEqual({
+      movie_old_path: 'movie_new_path',
+      movie_old_meta: 'movie_new_meta'
+    });
+    expect(movieIdService.resolve('movie_gone')).toBe('movie_gone');
+  });
+
+  test('follows alias chains to the current ID', () => {
+    movieIdService.loadAliases({ movie_a: 'movie_b', movie_b: 'movie_c' });
+
+    expect(movieIdService.resolve('movie_a')).toBe('movie_c');
+    expect(movieIdService.resolve('movie_c')).toBe('movie_c');
+  });
+
+  test('stops on alias cycles', () => {
+    movieIdService.loadAliases({ movie_a: 'movie_b', movie_b: 'movie_a' });
+
+    expect(['movie_a', 'movie_b']).toContain(movieIdService.resolve('movie_a'));
+  });
+
+  test('drops the alias of a movie that comes back under its old ID', () => {
+    movieIdService.loadAliases({ movie_back: 'movie_other' });
+    movieIdService.recordAliases([], [{ id: 'movie_back', title: 'Back' }]);
+
+    expect(movieIdService.resolve('movie_back')).toBe('movie_back');
+  });
+});
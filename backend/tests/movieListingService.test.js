@@ -0,0 +1,194 @@
+const movieIdService = require('../src/services/movieIdService');
+const movieListingService = require('../src/services/movieListingService');
+
+const movies = [
+  {
+    id: 'movie_a', title: 'Jawan', year: '2023', language: 'Hindi', quality: '1080p', rating: '7.0',
+    size: '2.1 GB', genres: ['Action'], firstSeenAt: '2025-01-03T00:00:00.000Z',
+    downloadUrls: [{ url: 'https://example.com/Jawan.mkv', format: 'MKV' }]
+  },
+  {
+    id: 'movie_b', title: 'Dune', year: '2021', language: 'English', quality: '2160p', rating: '8.0',
+    size: '850 MB', genres: ['Sci-Fi', 'Adventure'], firstSeenAt: '2025-01-01T00:00:00.000Z',
+    downloadUrls: [{ url: 'https://example.com/Dune.mp4' }]
+  },
+  {
+    id: 'movie_c', title: 'animal', year: '2023', language: 'Hindi', quality: '720p', rating: 'N/A',
+    size: '', genres: ['Drama'], firstSeenAt: '2025-01-02T00:00:00.000Z',
+    downloadUrls: [],
+    subtitles: [{ url: 'https://example.com/Animal.srt', language: 'English' }]
+  },
+  {
+    id: 'movie_d', title: 'Oppenheimer', year: '2023', language: 'English', quality: '1080p', rating: '8.4',
+    size: '1.5 TB', genres: ['Drama'], firstSeenAt: '2025-01-04T00:00:00.000Z',
+    downloadUrls: [{ url: 'https://example.com/Oppenheimer.mkv', format: 'MKV' }]
+  }
+];
+
+function listIds(query) {
+  const options = movieListingService.parseQuery(query);
+  return movieListingService.list(movies, options).movies.map(movie => movie.id);
+}
+
+describe('movieListingService', () => {
+  afterEach(() => {
+    movieIdService.loadAliases({});
+  });
+
+  describe('sorting', () => {
+    test('sorts by title without regard to case by default', () => {
+      expect(listIds({})).toEqual(['movie_c', 'movie_b', 'movie_a', 'movie_d']);
+    });
+
+    test.each([
+      ['added', ['movie_d', 'movie_a', 'movie_c', 'movie_b']],
+      ['rating', ['movie_d', 'movie_b', 'movie_a', 'movie_c']],
+      ['size', ['movie_d', 'movie_a', 'movie_b', 'movie_c']],
+      ['year', ['movie_a', 'movie_c', 'movie_d', 'movie_b']]
+    ])('sorts by %s, newest or largest first', (sort, expected) => {
+      expect(listIds({ sort })).toEqual(expected);
+    });
+
+    test('keeps movies without the sorted value last in ascending order too', () => {
+      expect(listIds({ sort: 'rating', order: 'asc' })).toEqual(['movie_a', 'movie_b', 'movie_d', 'movie_c']);
+    });
+
+    test('keeps the order of search results when sorting by relevance', () => {
+      const ranked = [movies[3], movies[0], movies[2]];
+      const options = movieListingService.parseQuery({}, { relevance: true });
+
+      expect(options.sort).toBe('relevance');
+      expect(movieListingService.list(ranked, options).movies.map(movie => movie.id)).toEqual(['movie_d', 'movie_a', 'movie_c']);
+      expect(movieListingService.parseQuery({ sort: 'relevance' }).error).toMatch(/sort must be one of/);
+    });
+
+    test('rejects unknown sorts and orders', () => {
+      expect(movieListingService.parseQuery({ sort: 'popularity' }).error).toMatch(/sort must be one of/);
+      expect(movieListingService.parseQuery({ order: 'up' }).error).toBe('order must be asc or desc');
+    });
+  });
+
+  describe('filters', () => {
+    test('matches any of the values given for a filter', () => {
+      expect(listIds({ genre: 'drama,sci-fi' })).toEqual(['movie_c', 'movie_b', 'movie_d']);
+    });
+
+    test('combines filters', () => {
+      expect(listIds({ language: 'hindi', quality: '1080p' })).toEqual(['movie_a']);
+      expect(listIds({ year: '2023', format: 'mkv', minRating: '8' })).toEqual(['movie_d']);
+    });
+
+    test('reads the format from the URL when a source has none', () => {
+      expect(listIds({ format: 'mp4' })).toEqual(['movie_b']);
+    });
+
+    test('filters a year range', () => {
+      expect(listIds({ yearFrom: '2022' })).toEqual(['movie_c', 'movie_a', 'movie_d']);
+      expect(listIds({ yearTo: '2022' })).toEqual(['movie_b']);
+    });
+
+    test('finds movies by retired IDs', () => {
+      movieIdService.loadAliases({ movie_old: 'movie_d' });
+      expect(listIds({ ids: 'movie_old,movie_a' })).toEqual(['movie_a', 'movie_d']);
+    });
+  });
+
+  describe('facets', () => {
+    function facetsFor(query) {
+      return movieListingService.list(movies, movieListingService.parseQuery(query), { facets: true }).meta.facets;
+    }
+
+    test('counts every facet value', () => {
+      const facets = facetsFor({});
+
+      expect(facets.language).toEqual([{ value: 'English', count: 2 }, { value: 'Hindi', count: 2 }]);
+      expect(facets.year).toEqual([{ value: '2023', count: 3 }, { value: '2021', count: 1 }]);
+      expect(facets.decade).toEqual([{ value: '2020s', count: 4 }]);
+      expect(facets.quality).toEqual([
+        { value: '2160p', count: 1 },
+        { value: '1080p', count: 2 },
+        { value: '720p', count: 1 }
+      ]);
+      expect(facets.genre[0]).toEqual({ value: 'Drama', count: 2 });
+      expect(facets.format).toEqual([{ value: 'MKV', count: 2 }, { value: 'MP4', count: 1 }]);
+      expect(facets.hasSubtitles).toEqual([{ value: 'true', count: 1 }, { value: 'false', count: 3 }]);
+    });
+
+    test('counts a facet without its own filter so more values can be chosen', () => {
+      const facets = facetsFor({ language: 'Hindi' });
+
+      expect(facets.language).toEqual([{ value: 'English', count: 2 }, { value: 'Hindi', count: 2 }]);
+      expect(facets.year).toEqual([{ value: '2023', count: 2 }]);
+      expect(facets.format).toEqual([{ value: 'MKV', count: 1 }]);
+    });
+
+    test('applies the filters of the other facets', () => {
+      const facets = facetsFor({ language: 'English', quality: '1080p' });
+
+      expect(facets.language).toEqual([{ value: 'English', count: 1 }, { value: 'Hindi', count: 1 }]);
+      expect(facets.quality).toEqual([{ value: '2160p', count: 1 }, { value: '1080p', count: 1 }]);
+    });
+
+    test('filters by the new facets', () => {
+      expect(listIds({ decade: '2020s', hasSubtitles: 'true' })).toEqual(['movie_c']);
+      expect(listIds({ quality: '4K' })).toEqual(['movie_b']);
+    });
+
+    test('leaves the counts out unless asked for', () => {
+      expect(movieListingService.list(movies, movieListingService.parseQuery({})).meta.facets).toBeUndefined();
+    });
+  });
+
+  describe('pagination', () => {
+    test('returns every match with the total when no page is asked for', () => {
+      const result = movieListingService.list(movies, movieListingService.parseQuery({ language: 'English' }));
+      expect(result.movies).toHaveLength(2);
+      expect(result.meta).toEqual({ total: 2, sort: 'title', order: 'asc' });
+    });
+
+    test('returns numbered pages', () => {
+      const result = movieListingService.list(movies, movieListingService.parseQuery({ page: '2', pageSize: '3' }));
+      expect(result.movies.map(movie => movie.id)).toEqual(['movie_d']);
+      expect(result.meta).toMatchObject({ total: 4, page: 2, pageSize: 3, totalPages: 2, nextCursor: null });
+    });
+
+    test('follows cursors to the end of the list', () => {
+      const seen = [];
+      let query = { sort: 'size', pageSize: '3' };
+
+      for (;;) {
+        const result = movieListingService.list(movies, movieListingService.parseQuery(query));
+        seen.push(...result.movies.map(movie => movie.id));
+        if (!result.meta.nextCursor) break;
+        query = { ...query, cursor: result.meta.nextCursor };
+      }
+
+      expect(seen).toEqual(['movie_d', 'movie_a', 'movie_b', 'movie_c']);
+    });
+
+    test('neither skips nor repeats movies when one is added before the cursor', () => {
+      const query = { sort: 'added', pageSize: '2' };
+      const first = movieListingService.list(movies, movieListingService.parseQuery(query));
+      const newer = { id: 'movie_e', title: 'Saiyaara', firstSeenAt: '2025-01-05T00:00:00.000Z' };
+
+      const second = movieListingService.list(
+        [newer, ...movies],
+        movieListingService.parseQuery({ ...query, cursor: first.meta.nextCursor })
+      );
+
+      expect(first.movies.map(movie => movie.id)).toEqual(['movie_d', 'movie_a']);
+      expect(second.movies.map(movie => movie.id)).toEqual(['movie_c', 'movie_b']);
+    });
+
+    test('rejects a cursor from another sort', () => {
+      const { meta } = movieListingService.list(movies, movieListingService.parseQuery({ sort: 'year', pageSize: '1' }));
+
+      expect(movieListingService.parseQuery({ sort: 'title', cursor: meta.nextCursor }).error).toMatch(/cursor/);
+      expect(movieListingService.parseQuery({ cursor: 'not-a-cursor' }).error).toMatch(/cursor/);
+    });
+
+    test('caps the page size', () => {
+      expect(movieListingService.parseQuery({ pageSize: '5000' }).pageSize).toBe(200);
+    });
+  });
+});
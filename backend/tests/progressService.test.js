@@ -0,0 +1,93 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const JsonCatalogStore = require('../src/storage/jsonCatalogStore');
+const catalogService = require('../src/services/catalogService');
+const progressService = require('../src/services/progressService');
+
+const URL = 'https://dflix.discoveryftp.net/m/Movie.2023.1080p.mkv';
+const OTHER_URL = 'https://dflix.discoveryftp.net/m/Movie.2023.720p.mp4';
+
+describe('progressService', () => {
+  let dataDir;
+  let originalStore;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'progress-'));
+    originalStore = catalogService.store;
+    catalogService.store = new JsonCatalogStore(path.join(dataDir, 'catalog.json'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await progressService.load();
+  });
+
+  afterEach(() => {
+    catalogService.store = originalStore;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  test('keeps one position per movie and source', async () => {
+    await progressService.record('movie_a', { sourceUrl: URL, position: 120, duration: 7200 });
+    await progressService.record('movie_a', { sourceUrl: OTHER_URL, position: 60, duration: 7200 });
+    await progressService.record('movie_a', { sourceUrl: URL, position: 300 });
+
+    const entries = progressService.getForMovie('movie_a');
+    expect(entries.map(entry => [entry.sourceUrl, entry.position])).toEqual([[URL, 300], [OTHER_URL, 60]]);
+    expect(entries[0].duration).toBe(7200);
+  });
+
+  test('marks a title watched past 90% and keeps the mark on a rewatch', async () => {
+    const almost = await progressService.record('movie_a', { sourceUrl: URL, position: 6400, duration: 7200 });
+    expect(almost.watched).toBe(false);
+
+    const done = await progressService.record('movie_a', { sourceUrl: URL, position: 6500, duration: 7200 });
+    expect(done.watched).toBe(true);
+
+    const rewatch = await progressService.record('movie_a', { sourceUrl: URL, position: 30, duration: 7200 });
+    expect(rewatch.watched).toBe(true);
+  });
+
+  test('ignores updates older than the saved entry', async () => {
+    await progressService.record('movie_a', { sourceUrl: URL, position: 600, updatedAt: '2026-01-02T00:00:00.000Z' });
+    const stale = await progressService.record('movie_a', { sourceUrl: URL, position: 100, updatedAt: '2026-01-01T00:00:00.000Z' });
+
+    expect(stale.position).toBe(600);
+  });
+
+  test('persists entries through the catalog store', async () => {
+    await progressService.record('movie_a', { sourceUrl: URL, position: 120, duration: 7200 });
+    await progressService.record('movie_b', { sourceUrl: OTHER_URL, position: 45, duration: 5400 });
+
+    await progressService.load();
+
+    expect(progressService.getAll().map(entry => entry.movieId)).toEqual(['movie_b', 'movie_a']);
+    expect(progressService.getAll({ limit: 1 })).toHaveLength(1);
+  });
+
+  test('removes every source of a movie', async () => {
+    await progressService.record('movie_a', { sourceUrl: URL, position: 120 });
+    await progressService.record('movie_a', { sourceUrl: OTHER_URL, position: 60 });
+    await progressService.record('movie_b', { sourceUrl: URL, position: 10 });
+
+    expect(await progressService.remove('movie_a')).toBe(2);
+    expect(progressService.getAll().map(entry => entry.movieId)).toEqual(['movie_b']);
+  });
+
+  test('keeps the progress of each user apart from the shared progress', async () => {
+    await progressService.record('movie_a', { sourceUrl: URL, position: 120 });
+    await progressService.record('movie_a', { sourceUrl: URL, position: 900 }, 'user_1');
+
+    expect(progressService.getForMovie('movie_a').map(entry => entry.position)).toEqual([120]);
+    expect(progressService.getForMovie('movie_a', 'user_1').map(entry => entry.position)).toEqual([900]);
+
+    expect(await progressService.remove(null, 'user_1')).toBe(1);
+    expect(progressService.getAll()).toHaveLength(1);
+  });
+
+  test('validates updates', () => {
+    expect(progressService.validate({ sourceUrl: URL, position: 12.5, duration: 7200 })).toBeNull();
+    expect(progressService.validate({ position: 12 })).toBe('sourceUrl is required');
+    expect(progressService.validate({ sourceUrl: URL, position: -1 })).toMatch(/position/);
+    expect(progressService.validate({ sourceUrl: URL, position: 1, duration: 0 })).toMatch(/duration/);
+  });
+});
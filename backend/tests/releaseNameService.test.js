@@ -0,0 +1,304 @@
+const releaseNameService = require('../src/services/releaseNameService');
+
+describe('releaseNameService.parse', () => {
+  describe('titles and years', () => {
+    test.each([
+      ['Movie.Name.2024.1080p.WEB-DL.DDP5.1.x265-GRP.mkv', 'Movie Name', '2024'],
+      ['The_Matrix_1999_720p_BRRip.mp4', 'The Matrix', '1999'],
+      ['Dune.Part.Two.2024.1080p.BluRay.x264.mkv', 'Dune Part Two', '2024'],
+      ['Inception.2010.2160p.BluRay.x265.mkv', 'Inception', '2010'],
+      ['Saiyaara.2025.1080p.WEB-DL.Hindi.DDP5.1.x264.mkv', 'Saiyaara', '2025'],
+      ['Blade.Runner.2049.2017.2160p.UHD.BluRay.x265-TERMiNAL.mkv', 'Blade Runner 2049', '2017'],
+      ['2001.A.Space.Odyssey.1968.1080p.BluRay.x264.mkv', '2001 A Space Odyssey', '1968'],
+      ['1917.2019.1080p.WEBRip.x264.mp4', '1917', '2019'],
+      ['Movie Name (2024) [1080p] [YTS.MX]', 'Movie Name', '2024'],
+      ['Jawan (2023) 1080p Hindi', 'Jawan', '2023'],
+      ['Robot.2.0.2018.Hindi.1080p.WEB-DL.AAC2.0.x264.mkv', 'Robot 2.0', '2018'],
+      ['Mission.Impossible.Dead.Reckoning.Part.One.2023.1080p.WEBRip.mkv', 'Mission Impossible Dead Reckoning Part One', '2023'],
+      ['Spider-Man.No.Way.Home.2021.1080p.WEB-DL.x264-EVO.mkv', 'Spider-Man No Way Home', '2021'],
+      ['Toy.Story.4.2019.720p.BluRay.x264.mkv', 'Toy Story 4', '2019'],
+      ['Oppenheimer.2023.2160p.BluRay.HDR.x265.DTS.mkv', 'Oppenheimer', '2023'],
+      ['The Dark Knight 2008 1080p BluRay x264', 'The Dark Knight', '2008'],
+      ['Pathaan 2023 Hindi 720p HDRip.mkv', 'Pathaan', '2023'],
+      ['Alien.1979.Directors.Cut.1080p.BluRay.x264.mkv', 'Alien', '1979'],
+      ['Joker.2019.IMAX.2160p.WEB-DL.DDP5.1.Atmos.HEVC.mkv', 'Joker', '2019']
+    ])('%s -> "%s" (%s)', (name, title, year) => {
+      expect(releaseNameService.parse(name)).toMatchObject({ title, year });
+    });
+
+    test.each([
+      ['Spider-Man.mkv', 'Spider-Man'],
+      ['Saiyaara', 'Saiyaara'],
+      ['Interstellar.1080p.BluRay.x264.mkv', 'Interstellar'],
+      ['2012.mkv', '2012'],
+      ['Show.Name.S01E02.720p.HDTV.x264-KILLERS.mkv', 'Show Name'],
+      ['[SubsPlease] Frieren - 05 (1080p) [ABCD1234].mkv', 'Frieren']
+    ])('%s -> "%s" without a year', (name, title) => {
+      expect(releaseNameService.parse(name)).toMatchObject({ title, year: null });
+    });
+  });
+
+  describe('resolution', () => {
+    test.each([
+      ['Movie.2024.2160p.WEB-DL.mkv', '2160p'],
+      ['Movie.2024.4K.WEB-DL.mkv', '2160p'],
+      ['Movie.2024.UHD.BluRay.mkv', '2160p'],
+      ['Movie.2024.1440p.WEBRip.mkv', '1440p'],
+      ['Movie.2024.1080p.WEB-DL.mkv', '1080p'],
+      ['Movie.2024.1080i.HDTV.mkv', '1080p'],
+      ['Movie.2024.720p.BluRay.mkv', '720p'],
+      ['Movie.2024.576p.DVDRip.mkv', '576p'],
+      ['Movie.2024.480p.WEB-DL.mkv', '480p'],
+      ['Movie.2024.360p.CAM.mp4', '360p'],
+      ['Movie.2024.WEB-DL.mkv', null],
+      ['The 4Kids Story 2024 720p', '720p']
+    ])('%s -> %s', (name, resolution) => {
+      expect(releaseNameService.parse(name).resolution).toBe(resolution);
+    });
+  });
+
+  describe('source', () => {
+    test.each([
+      ['Movie.2024.1080p.WEB-DL.mkv', 'WEB-DL'],
+      ['Movie.2024.1080p.WEBDL.mkv', 'WEB-DL'],
+      ['Movie.2024.1080p.WEB.H264-GRP.mkv', 'WEB-DL'],
+      ['Movie.2024.1080p.WEBRip.x264.mkv', 'WEBRip'],
+      ['Movie.2024.1080p.WEB-Rip.x264.mkv', 'WEBRip'],
+      ['Movie.2024.1080p.BluRay.x264.mkv', 'BluRay'],
+      ['Movie.2024.1080p.Blu-Ray.x264.mkv', 'BluRay'],
+      ['Movie.2024.720p.BRRip.x264.mkv', 'BluRay'],
+      ['Movie.2024.720p.BDRip.x264.mkv', 'BluRay'],
+      ['Movie.2024.2160p.BluRay.REMUX.HEVC.mkv', 'BluRay'],
+      ['Movie.2024.720p.HDRip.x264.mkv', 'HDRip'],
+      ['Movie.2024.DVDRip.XviD.avi', 'DVDRip'],
+      ['Movie.2024.DVDScr.XviD.avi', 'DVDScr'],
+      ['Movie.2024.720p.HDTV.x264.mkv', 'HDTV'],
+      ['Movie.2024.HDCAM.x264.mp4', 'CAM'],
+      ['Movie.2024.CAMRip.x264.mp4', 'CAM'],
+      ['Movie.2024.CAM.x264.mp4', 'CAM'],
+      ['Movie.2024.HDTS.x264.mp4', 'TS'],
+      ['Movie.2024.TELESYNC.x264.mp4', 'TS'],
+      ['Movie.2024.TS.x264.mp4', 'TS'],
+      ['Movie.2024.HDTC.x264.mp4', 'TC'],
+      ['The.Cam.Girl.2024.1080p.WEB-DL.mkv', 'WEB-DL'],
+      ['Movie.2024.1080p.x264.mkv', null]
+    ])('%s -> %s', (name, source) => {
+      expect(releaseNameService.parse(name).source).toBe(source);
+    });
+  });
+
+  describe('video codec', () => {
+    test.each([
+      ['Movie.2024.1080p.WEB-DL.x264.mkv', 'H.264'],
+      ['Movie.2024.1080p.WEB-DL.H264.mkv', 'H.264'],
+      ['Movie.2024.1080p.WEB-DL.H.264.mkv', 'H.264'],
+      ['Movie.2024.1080p.BluRay.AVC.mkv', 'H.264'],
+      ['Movie.2024.1080p.WEB-DL.x265.mkv', 'H.265'],
+      ['Movie.2024.1080p.WEB-DL.H.265.mkv', 'H.265'],
+      ['Movie.2024.2160p.BluRay.HEVC.mkv', 'H.265'],
+      ['Movie.2024.1080p.WEB-DL.AV1.mkv', 'AV1'],
+      ['Movie.2024.1080p.WEB-DL.VP9.webm', 'VP9'],
+      ['Movie.2024.DVDRip.XviD.avi', 'XviD'],
+      ['Movie.2024.DVDRip.DivX.avi', 'DivX'],
+      ['Movie.2024.1080p.WEB-DL.mkv', null]
+    ])('%s -> %s', (name, videoCodec) => {
+      expect(releaseNameService.parse(name).videoCodec).toBe(videoCodec);
+    });
+  });
+
+  describe('audio codec and channels', () => {
+    test.each([
+      ['Movie.2024.1080p.WEB-DL.DDP5.1.x265.mkv', 'E-AC-3', '5.1'],
+      ['Movie.2024.1080p.WEB-DL.DD+5.1.x264.mkv', 'E-AC-3', '5.1'],
+      ['Movie.2024.1080p.WEB-DL.EAC3.5.1.x264.mkv', 'E-AC-3', '5.1'],
+      ['Movie.2024.1080p.WEB-DL.DD5.1.x264.mkv', 'AC-3', '5.1'],
+      ['Movie.2024.1080p.BluRay.AC3.x264.mkv', 'AC-3', null],
+      ['Movie.2024.1080p.BluRay.DTS.x264.mkv', 'DTS', null],
+      ['Movie.2024.1080p.BluRay.DTS-HD.MA.7.1.x264.mkv', 'DTS-HD MA', '7.1'],
+      ['Movie.2024.1080p.BluRay.DTS-HD.5.1.x264.mkv', 'DTS-HD', '5.1'],
+      ['Movie.2024.2160p.BluRay.DTS-X.7.1.x265.mkv', 'DTS:X', '7.1'],
+      ['Movie.2024.2160p.BluRay.TrueHD.7.1.Atmos.x265.mkv', 'TrueHD', '7.1'],
+      ['Movie.2024.1080p.WEB-DL.AAC2.0.x264.mkv', 'AAC', '2.0'],
+      ['Movie.2024.720p.WEBRip.AAC.x264.mp4', 'AAC', null],
+      ['Movie.2024.1080p.BluRay.FLAC.2.0.x264.mkv', 'FLAC', '2.0'],
+      ['Movie.2024.1080p.WEB-DL.Opus.AV1.mkv', 'Opus', null],
+      ['Movie.2024.DVDRip.MP3.XviD.avi', 'MP3', null],
+      ['Movie.2024.1080p.WEB-DL.6CH.x265.mkv', null, '5.1'],
+      ['Movie.2024.1080p.WEB-DL.x264.mkv', null, null],
+      ['Movie.2012.1080p.BluRay.x264.mkv', null, null]
+    ])('%s -> %s %s', (name, audioCodec, audioChannels) => {
+      expect(releaseNameService.parse(name)).toMatchObject({ audioCodec, audioChannels });
+    });
+
+    test('does not mistake DTS followed by the video codec for DTS:X', () => {
+      expect(releaseNameService.parse('Movie.2024.1080p.BluRay.DTS.x264.mkv').audioCodec).toBe('DTS');
+    });
+  });
+
+  describe('HDR', () => {
+    test.each([
+      ['Movie.2024.2160p.WEB-DL.DV.HEVC.mkv', 'Dolby Vision'],
+      ['Movie.2024.2160p.WEB-DL.DoVi.HEVC.mkv', 'Dolby Vision'],
+      ['Movie.2024.2160p.WEB-DL.Dolby.Vision.HEVC.mkv', 'Dolby Vision'],
+      ['Movie.2024.2160p.WEB-DL.DV.HDR10.HEVC.mkv', 'Dolby Vision'],
+      ['Movie.2024.2160p.WEB-DL.HDR10+.HEVC.mkv', 'HDR10+'],
+      ['Movie.2024.2160p.WEB-DL.HDR10Plus.HEVC.mkv', 'HDR10+'],
+      ['Movie.2024.2160p.BluRay.HDR10.HEVC.mkv', 'HDR10'],
+      ['Movie.2024.2160p.BluRay.HDR.x265.mkv', 'HDR'],
+      ['Movie.2024.2160p.HDTV.HLG.HEVC.mkv', 'HLG'],
+      ['Movie.2024.720p.HDRip.x264.mkv', null],
+      ['Movie.2024.1080p.WEB-DL.x264.mkv', null]
+    ])('%s -> %s', (name, hdr) => {
+      expect(releaseNameService.parse(name).hdr).toBe(hdr);
+    });
+  });
+
+  describe('languages', () => {
+    test.each([
+      ['Saiyaara.2025.1080p.WEB-DL.Hindi.DDP5.1.x264.mkv', ['Hindi'], false],
+      ['Movie.2024.1080p.WEB-DL.Hindi.English.DDP5.1.x264.mkv', ['Hindi', 'English'], true],
+      ['Movie.2024.1080p.WEB-DL.Dual.Audio.Hindi.x264.mkv', ['Hindi'], true],
+      ['Movie.2024.1080p.WEB-DL.MULTi.x264.mkv', [], true],
+      ['Movie.2024.720p.HDRip.Tamil.Telugu.Malayalam.x264.mkv', ['Tamil', 'Telugu', 'Malayalam'], true],
+      ['Movie.2024.1080p.WEB-DL.HIN-ENG.x264.mkv', ['Hindi', 'English'], true],
+      ['Movie.2024.1080p.WEB-DL.Bengali.x264.mkv', ['Bengali'], false],
+      ['Movie.2024.1080p.WEB-DL.Korean.x264.mkv', ['Korean'], false],
+      ['Jawan Hindi', ['Hindi'], false],
+      ['English.Vinglish.2012.1080p.WEB-DL.x264.mkv', [], false],
+      ['The.English.Patient.1996.1080p.BluRay.x264.mkv', [], false]
+    ])('%s -> %j', (name, languages, multiAudio) => {
+      expect(releaseNameService.parse(name)).toMatchObject({ languages, multiAudio });
+    });
+  });
+
+  describe('edition', () => {
+    test.each([
+      ['Movie.2024.Extended.1080p.BluRay.x264.mkv', 'Extended'],
+      ['Movie.2024.Extended.Cut.1080p.BluRay.x264.mkv', 'Extended'],
+      ['Movie.2024.Directors.Cut.1080p.BluRay.x264.mkv', "Director's Cut"],
+      ["Movie.2024.Director's.Cut.1080p.BluRay.x264.mkv", "Director's Cut"],
+      ['Movie.2024.Theatrical.1080p.BluRay.x264.mkv', 'Theatrical'],
+      ['Blade.Runner.1982.Final.Cut.1080p.BluRay.x264.mkv', 'Final Cut'],
+      ['Movie.2024.UNRATED.1080p.BluRay.x264.mkv', 'Unrated'],
+      ['Movie.2024.Uncut.720p.WEB-DL.mkv', 'Uncut'],
+      ['Movie.2024.Remastered.1080p.BluRay.x264.mkv', 'Remastered'],
+      ['Movie.2024.IMAX.2160p.WEB-DL.mkv', 'IMAX'],
+      ['Movie.2024.Special.Edition.1080p.BluRay.mkv', 'Special Edition'],
+      ['Movie.2024.Criterion.1080p.BluRay.mkv', 'Criterion'],
+      ['Movie.2024.1080p.BluRay.x264.mkv', null]
+    ])('%s -> %s', (name, edition) => {
+      expect(releaseNameService.parse(name).edition).toBe(edition);
+    });
+  });
+
+  describe('release group', () => {
+    test.each([
+      ['Movie.Name.2024.1080p.WEB-DL.DDP5.1.x265-GRP.mkv', 'GRP'],
+      ['Show.Name.S01E02.720p.HDTV.x264-KILLERS.mkv', 'KILLERS'],
+      ['Movie.2024.1080p.BluRay.x264-SPARKS', 'SPARKS'],
+      ['Movie Name (2024) [1080p] [YTS.MX]', 'YTS.MX'],
+      ['[SubsPlease] Frieren - 05 (1080p) [ABCD1234].mkv', 'SubsPlease'],
+      ['Movie.2024.1080p.WEB-DL.mkv', null],
+      ['Movie.2024.1080p.BluRay.DTS-HD.mkv', null],
+      ['Movie.2024.1080p.Blu-Ray.mkv', null],
+      ['Spider-Man.mkv', null],
+      ['Spider-Man.No.Way.Home.2021.1080p.WEB-DL.x264-EVO.mkv', 'EVO']
+    ])('%s -> %s', (name, releaseGroup) => {
+      expect(releaseNameService.parse(name).releaseGroup).toBe(releaseGroup);
+    });
+  });
+
+  describe('season and episode', () => {
+    test.each([
+      ['Show.Name.S01E02.720p.HDTV.x264-KILLERS.mkv', 1, 2],
+      ['Show.Name.S10E110.1080p.WEB-DL.mkv', 10, 110],
+      ['Show.Name.s02e05.1080p.WEB-DL.mkv', 2, 5],
+      ['Show Name S03 E04 1080p WEB-DL', 3, 4],
+      ['Show.Name.1x02.HDTV.XviD.avi', 1, 2],
+      ['Show.Name.Season.2.Episode.7.720p.mkv', 2, 7],
+      ['Show.Name.S01.1080p.WEB-DL.mkv', 1, null],
+      ['Show Name Season 4 Complete 720p', 4, null],
+      ['[SubsPlease] Frieren - 05 (1080p) [ABCD1234].mkv', null, 5],
+      ['Movie.Name.2024.1080p.WEB-DL.mkv', null, null],
+      ['Movie.1920x1080.2024.mkv', null, null]
+    ])('%s -> S%s E%s', (name, season, episode) => {
+      expect(releaseNameService.parse(name)).toMatchObject({ season, episode });
+    });
+  });
+
+  describe('inputs', () => {
+    test.each([
+      ['Movie.2024.1080p.mkv', 'mkv'],
+      ['Movie.2024.1080p.MP4', 'mp4'],
+      ['Movie.2024.DVDRip.avi', 'avi'],
+      ['Movie.2024.1080p.m2ts', 'm2ts'],
+      ['Movie.2024.1080p', null],
+      ['Movie.Name.2024', null]
+    ])('%s -> container %s', (name, container) => {
+      expect(releaseNameService.parse(name).container).toBe(container);
+    });
+
+    test('parses the file name of a URL', () => {
+      const release = releaseNameService.parse(
+        'https://content1.discoveryftp.net/Movies/Hindi/2025/Saiyaara/Saiyaara.2025.1080p.WEB-DL.Hindi.DDP5.1.x264.mkv?token=abc'
+      );
+
+      expect(release).toEqual({
+        title: 'Saiyaara',
+        year: '2025',
+        resolution: '1080p',
+        source: 'WEB-DL',
+        videoCodec: 'H.264',
+        audioCodec: 'E-AC-3',
+        audioChannels: '5.1',
+        hdr: null,
+        languages: ['Hindi'],
+        multiAudio: false,
+        edition: null,
+        releaseGroup: null,
+        season: null,
+        episode: null,
+        container: 'mkv'
+      });
+    });
+
+    test('decodes percent-encoded file names', () => {
+      expect(releaseNameService.parse('/Movies/The%20Dark%20Knight%202008%201080p.mkv')).toMatchObject({
+        title: 'The Dark Knight',
+        year: '2008',
+        resolution: '1080p'
+      });
+    });
+
+    test.each([[''], [null], [undefined], [42]])('returns empty fields for %p', (input) => {
+      expect(releaseNameService.parse(input)).toMatchObject({
+        title: '',
+        year: null,
+        resolution: null,
+        languages: []
+      });
+    });
+  });
+});
+
+describe('releaseNameService.parseSubtitleName', () => {
+  test.each([
+    ['Movie.2023.1080p.WEB-DL.Hindi.x264.en.srt', { format: 'srt', language: 'English', languageCode: 'en', forced: false, hearingImpaired: false }],
+    ['Movie.2023.English.SDH.srt', { format: 'srt', language: 'English', languageCode: 'en', hearingImpaired: true }],
+    ['Movie.2023.1080p.BluRay.x264.forced.eng.vtt', { format: 'vtt', language: 'English', forced: true }],
+    ['Movie.2023.Bangla.ass', { format: 'ass', language: 'Bengali', languageCode: 'bn' }],
+    ['Movie.2023.hi.sub', { format: 'sub', language: 'Hindi', languageCode: 'hi' }]
+  ])('reads the language and flags of %s', (input, expected) => {
+    expect(releaseNameService.parseSubtitleName(input)).toMatchObject(expected);
+  });
+
+  test('leaves the language empty when no tag names one', () => {
+    expect(releaseNameService.parseSubtitleName('/Movies/Movie.2023.1080p.x264.srt')).toEqual({
+      format: 'srt',
+      language: null,
+      languageCode: null,
+      forced: false,
+      hearingImpaired: false
+    });
+  });
+});
@@ -0,0 +1,188 @@
+const remuxService = require('../src/services/remuxService');
+
+const URL = 'https://dflix.discoveryftp.net/m/Movie.2023.1080p.mkv';
+
+function probeOutput({ videoCodec = 'h264', audio = [{ codec_name: 'ac3', channels: 6, tags: { language: 'eng' } }] } = {}) {
+  return JSON.stringify({
+    streams: [
+      { index: 0, codec_type: 'video', codec_name: videoCodec },
+      ...audio.map((stream, i) => ({ index: i + 1, codec_type: 'audio', ...stream })),
+      { index: 9, codec_type: 'subtitle', codec_name: 'subrip' }
+    ],
+    format: { duration: '5400.123000' }
+  });
+}
+
+describe('remuxService.parseProbeOutput', () => {
+  test('reads duration, video and audio streams', () => {
+    const info = remuxService.parseProbeOutput(probeOutput({
+      audio: [
+        { codec_name: 'dts', channels: 6, tags: { language: 'eng', title: 'DTS 5.1' } },
+        { codec_name: 'aac', channels: 2, tags: { language: 'hin' } }
+      ]
+    }));
+
+    expect(info.duration).toBeCloseTo(5400.123);
+    expect(info.video).toEqual({ codec: 'h264', copyable: true });
+    expect(info.remuxable).toBe(true);
+    expect(info.audio).toEqual([
+      { index: 0, codec: 'dts', channels: 6, language: 'eng', title: 'DTS 5.1', transcode: true },
+      { index: 1, codec: 'aac', channels: 2, language: 'hin', title: null, transcode: false }
+    ]);
+  });
+
+  test('marks video that would need transcoding as not remuxable', () => {
+    const info = remuxService.parseProbeOutput(probeOutput({ videoCodec: 'mpeg4' }));
+
+    expect(info.video.copyable).toBe(false);
+    expect(info.remuxable).toBe(false);
+  });
+
+  test('handles files without a duration or audio', () => {
+    const info = remuxService.parseProbeOutput({ streams: [{ codec_type: 'video', codec_name: 'hevc' }], format: {} });
+
+    expect(info.duration).toBeNull();
+    expect(info.audio).toEqual([]);
+    expect(info.remuxable).toBe(true);
+  });
+});
+
+describe('remuxService.isAllowedUrl', () => {
+  test.each([
+    URL,
+    'http://discoveryftp.net/m/Movie.mkv',
+    'https://cdn.dflix.discoveryftp.net/Movie.mkv'
+  ])('allows %s', (url) => {
+    expect(remuxService.isAllowedUrl(url)).toBe(true);
+  });
+
+  test.each([
+    'https://discoveryftp.net.example.com/Movie.mkv',
+    'https://example.com/discoveryftp.net/Movie.mkv',
+    'https://notdiscoveryftp.net/Movie.mkv',
+    'file:///etc/passwd?discoveryftp.net',
+    'concat:https://dflix.discoveryftp.net/a.mkv|/etc/passwd',
+    'ftp://dflix.discoveryftp.net/Movie.mkv',
+    'not a url'
+  ])('refuses %s', (url) => {
+    expect(remuxService.isAllowedUrl(url)).toBe(false);
+  });
+
+  test('keeps ffprobe away from other URLs', async () => {
+    const runFfprobe = jest.spyOn(remuxService, 'runFfprobe');
+
+    await expect(remuxService.probe('file:///etc/passwd')).rejects.toMatchObject({ code: 'URL_NOT_ALLOWED' });
+    expect(runFfprobe).not.toHaveBeenCalled();
+    runFfprobe.mockRestore();
+  });
+});
+
+describe('remuxService.buildArgs', () => {
+  test('restricts ffmpeg to network protocols', () => {
+    const args = remuxService.buildArgs(URL, remuxService.parseProbeOutput(probeOutput()));
+
+    expect(args.indexOf('-protocol_whitelist')).toBeLessThan(args.indexOf('-i'));
+    expect(args[args.indexOf('-protocol_whitelist') + 1]).toBe('http,https,tcp,tls');
+  });
+
+  test('copies video and transcodes AC-3 audio to AAC', () => {
+    const info = remuxService.parseProbeOutput(probeOutput());
+    const args = remuxService.buildArgs(URL, info);
+
+    expect(args).not.toContain('-ss');
+    expect(args.join(' ')).toContain(`-i ${URL} -map 0:v:0 -map 0:a:0 -c:v copy -c:a aac`);
+    expect(args.join(' ')).toContain('-movflags frag_keyframe+empty_moov+default_base_moof -f mp4 pipe:1');
+    expect(args).toContain('-sn');
+  });
+
+  test('copies audio browsers can decode', () => {
+    const info = remuxService.parseProbeOutput(probeOutput({ audio: [{ codec_name: 'aac', channels: 2 }] }));
+    const args = remuxService.buildArgs(URL, info).join(' ');
+
+    expect(args).toContain('-c:a copy');
+    expect(args).not.toContain('-c:a aac');
+  });
+
+  test('seeks before the input when a start time is given', () => {
+    const info = remuxService.parseProbeOutput(probeOutput());
+    const args = remuxService.buildArgs(URL, info, { start: 754.5 });
+
+    expect(args.indexOf('-ss')).toBeLessThan(args.indexOf('-i'));
+    expect(args[args.indexOf('-ss') + 1]).toBe('754.5');
+  });
+
+  test('maps the requested audio track, falling back to the first one', () => {
+    const info = remuxService.parseProbeOutput(probeOutput({
+      audio: [{ codec_name: 'eac3' }, { codec_name: 'aac' }]
+    }));
+
+    expect(remuxService.buildArgs(URL, info, { audioTrack: 1 }).join(' ')).toContain('-map 0:a:1 -c:v copy -c:a copy');
+    expect(remuxService.buildArgs(URL, info, { audioTrack: 5 }).join(' ')).toContain('-map 0:a:0 -c:v copy -c:a aac');
+  });
+
+  test('tags HEVC as hvc1 and skips audio mapping for silent files', () => {
+    const info = remuxService.parseProbeOutput(probeOutput({ videoCodec: 'hevc', audio: [] }));
+    const args = remuxService.buildArgs(URL, info).join(' ');
+
+    expect(args).toContain('-c:v copy -tag:v hvc1');
+    expect(args).not.toContain('0:a:');
+    expect(args).not.toContain('-c:a');
+  });
+});
+
+describe('remuxService.startRemux', () => {
+  afterEach(() => {
+    remuxService.probeCache.clear();
+    remuxService.activeProcesses.clear();
+  });
+
+  test('refuses video it would have to transcode', async () => {
+    remuxService.probeCache.set(URL, remuxService.parseProbeOutput(probeOutput({ videoCodec: 'vc1' })));
+
+    await expect(remuxService.startRemux(URL)).rejects.toMatchObject({ code: 'UNSUPPORTED_CODEC' });
+  });
+
+  test('refuses new remuxes over the concurrency limit', async () => {
+    remuxService.activeProcesses.add({}).add({});
+
+    await expect(remuxService.startRemux(URL)).rejects.toMatchObject({ code: 'REMUX_BUSY' });
+  });
+
+  test('holds a slot while probing and frees it when the probe fails', async () => {
+    const probes = [];
+    const runFfprobe = jest.spyOn(remuxService, 'runFfprobe').mockImplementation(() => {
+      return new Promise((resolve, reject) => probes.push(reject));
+    });
+
+    const starts = [remuxService.startRemux(URL), remuxService.startRemux(`${URL}?2`)];
+    await expect(remuxService.startRemux(`${URL}?3`)).rejects.toMatchObject({ code: 'REMUX_BUSY' });
+
+    probes.forEach(reject => reject(new Error('ffprobe failed: timeout')));
+    await Promise.all(starts.map(start => expect(start).rejects.toThrow('ffprobe failed')));
+    expect(remuxService.startingRemuxes).toBe(0);
+    runFfprobe.mockRestore();
+  });
+});
+
+describe('remuxService.probe', () => {
+  afterEach(() => {
+    remuxService.probeCache.clear();
+  });
+
+  test('keeps only the most recently used probes', async () => {
+    const runFfprobe = jest.spyOn(remuxService, 'runFfprobe').mockResolvedValue(probeOutput());
+
+    await remuxService.probe(`${URL}?0`);
+    await remuxService.probe(`${URL}?1`);
+    await remuxService.probe(`${URL}?0`);
+    for (let i = 2; i <= 500; i++) {
+      await remuxService.probe(`${URL}?${i}`);
+    }
+
+    expect(remuxService.probeCache.size).toBe(500);
+    expect(remuxService.probeCache.has(`${URL}?0`)).toBe(true);
+    expect(remuxService.probeCache.has(`${URL}?1`)).toBe(false);
+    expect(runFfprobe).toHaveBeenCalledTimes(501);
+    runFfprobe.mockRestore();
+  });
+});
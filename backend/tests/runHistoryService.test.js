@@ -0,0 +1,173 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const express = require('express');
+const config = require('../src/config');
+const JsonCatalogStore = require('../src/storage/jsonCatalogStore');
+const catalogService = require('../src/services/catalogService');
+const runHistoryService = require('../src/services/runHistoryService');
+const scrapeRouter = require('../src/api/scrape');
+
+describe('runHistoryService', () => {
+  const originalLimit = config.storage.runHistoryLimit;
+  let dataDir;
+  let originalStore;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runs-'));
+    originalStore = catalogService.store;
+    catalogService.store = new JsonCatalogStore(path.join(dataDir, 'catalog.json'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await runHistoryService.load();
+  });
+
+  afterEach(() => {
+    catalogService.store = originalStore;
+    config.storage.runHistoryLimit = originalLimit;
+    runHistoryService.runs = [];
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  async function recordRun(type, result = {}) {
+    const run = runHistoryService.startRun(type, { trigger: 'scheduled', mode: 'full' });
+    return runHistoryService.finishRun(run, result);
+  }
+
+  test('records a run with its counters and persists it', async () => {
+    const run = runHistoryService.startRun('scrape', { trigger: 'scheduled', mode: 'incremental' });
+    expect(run).toMatchObject({ type: 'scrape', trigger: 'scheduled', mode: 'incremental', status: 'running', endedAt: null });
+
+    await runHistoryService.finishRun(run, { moviesFound: 3, added: [{ id: 'movie_a' }] });
+
+    expect(run.status).toBe('success');
+    expect(run.durationMs).toBeGreaterThanOrEqual(0);
+    expect(new Date(run.endedAt).getTime()).toBeGreaterThanOrEqual(new Date(run.startedAt).getTime());
+
+    runHistoryService.runs = [];
+    await runHistoryService.load();
+    expect(runHistoryService.getRun(run.id)).toMatchObject({ moviesFound: 3, status: 'success' });
+  });
+
+  test('records a failed run with its error', async () => {
+    const run = runHistoryService.startRun('enrich');
+    runHistoryService.recordError(run, 'enrich movie_a', new Error('Detail page returned status: 500'));
+    run.status = 'failed';
+
+    await runHistoryService.finishRun(run);
+
+    expect(run.status).toBe('failed');
+    expect(run.errors).toEqual([{ context: 'enrich movie_a', message: 'Detail page returned status: 500', at: expect.any(String) }]);
+    expect(runHistoryService.getLastRun('enrich')).toMatchObject({ status: 'failed', errorCount: 1 });
+  });
+
+  test('marks a run with errors that still finished as completed with errors', async () => {
+    const run = runHistoryService.startRun('scrape');
+    runHistoryService.recordError(run, 'page 2', new Error('timeout'));
+
+    await expect(runHistoryService.finishRun(run)).resolves.toMatchObject({ status: 'completed_with_errors' });
+  });
+
+  test('keeps at most 100 errors per run', () => {
+    const run = runHistoryService.startRun('scrape');
+    for (let i = 0; i < 150; i++) {
+      runHistoryService.recordError(run, `page ${i}`, new Error('timeout'));
+    }
+
+    expect(run.errors).toHaveLength(100);
+  });
+
+  test('lists runs newest first without their diff lists', async () => {
+    await recordRun('scrape', { added: [{ id: 'movie_a' }], changed: [{ id: 'movie_b' }] });
+    await recordRun('enrich');
+
+    const runs = runHistoryService.getRuns();
+
+    expect(runs.map(run => run.type)).toEqual(['enrich', 'scrape']);
+    expect(runs[1]).toMatchObject({ addedCount: 1, removedCount: 0, changedCount: 1, errorCount: 0 });
+    expect(runs[1]).not.toHaveProperty('added');
+  });
+
+  test('pages through runs of one type', async () => {
+    for (let i = 0; i < 5; i++) {
+      await recordRun(i % 2 === 0 ? 'scrape' : 'series', { moviesFound: i });
+    }
+
+    expect(runHistoryService.getRuns({ type: 'scrape' }).map(run => run.moviesFound)).toEqual([4, 2, 0]);
+    expect(runHistoryService.getRuns({ type: 'scrape', limit: 2 }).map(run => run.moviesFound)).toEqual([4, 2]);
+    expect(runHistoryService.getRuns({ type: 'scrape', limit: 2, offset: 2 }).map(run => run.moviesFound)).toEqual([0]);
+    expect(runHistoryService.countRuns('scrape')).toBe(3);
+    expect(runHistoryService.countRuns()).toBe(5);
+  });
+
+  test('drops the oldest runs beyond the history limit', async () => {
+    config.storage.runHistoryLimit = 2;
+    for (let i = 0; i < 3; i++) {
+      await recordRun('scrape', { moviesFound: i });
+    }
+
+    expect(runHistoryService.getRuns().map(run => run.moviesFound)).toEqual([2, 1]);
+  });
+});
+
+describe('scrape run API', () => {
+  let server;
+  let baseUrl;
+  let runs;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use('/api', scrapeRouter);
+    server = await new Promise(resolve => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}/api`;
+  });
+
+  beforeEach(() => {
+    runs = ['scrape', 'enrich', 'scrape'].map((type, i) => ({
+      ...runHistoryService.startRun(type),
+      id: `run_${i}`,
+      status: i === 2 ? 'failed' : 'success',
+      errors: i === 2 ? [{ context: 'scrape', message: 'Movies page returned status: 503', at: '2025-06-01T00:00:00.000Z' }] : [],
+      added: i === 0 ? [{ id: 'movie_a', title: 'Jawan' }] : []
+    }));
+    runHistoryService.runs = runs;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    runHistoryService.runs = [];
+  });
+
+  async function get(url) {
+    const response = await fetch(`${baseUrl}${url}`);
+    return { status: response.status, body: await response.json() };
+  }
+
+  test('pages run summaries with the total for the type', async () => {
+    const { body } = await get('/scrape/runs?type=scrape&limit=1&offset=1');
+
+    expect(body.data.map(run => run.id)).toEqual(['run_0']);
+    expect(body.meta).toEqual({ total: 2, offset: 1, limit: 1 });
+  });
+
+  test('returns one run with its errors', async () => {
+    const { body } = await get('/scrape/runs/run_2');
+
+    expect(body.data).toMatchObject({ id: 'run_2', status: 'failed', errorCount: 1 });
+    expect(body.data.errors[0].message).toBe('Movies page returned status: 503');
+  });
+
+  test('returns the movies a run added', async () => {
+    const { body } = await get('/scrape/runs/run_0/diff');
+
+    expect(body.data.added).toEqual([{ id: 'movie_a', title: 'Jawan' }]);
+    expect(body.meta).toMatchObject({ runId: 'run_0', added: 1, removed: 0 });
+  });
+
+  test('answers 404 for unknown runs', async () => {
+    await expect(get('/scrape/runs/run_missing')).resolves.toMatchObject({ status: 404 });
+    await expect(get('/scrape/runs/run_missing/diff')).resolves.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,296 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Keep the catalog and run history of these tests out of the real data directory
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'scraper-test-'));
+process.env.STORAGE_BACKEND = 'json';
+process.env.HTTP_FIXTURE_MODE = 'off';
+
+const axios = require('axios');
+const cheerio = require('cheerio');
+const { enableReplay } = require('../src/http/fixtures');
+const authService = require('../src/services/authService');
+const catalogService = require('../src/services/catalogService');
+const movieIdService = require('../src/services/movieIdService');
+const runHistoryService = require('../src/services/runHistoryService');
+const scraperService = require('../src/services/scraperService');
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'http');
+const BASE_URL = 'https://dflix.discoveryftp.net';
+
+function createReplayClient() {
+  return enableReplay(axios.create({ validateStatus: (status) => status < 400 }), FIXTURE_DIR);
+}
+
+async function loadPage(client, url) {
+  const response = await client.get(url);
+  return cheerio.load(response.data);
+}
+
+describe('ScraperService with recorded fixtures', () => {
+  let client;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(scraperService, 'delay').mockResolvedValue();
+  });
+
+  beforeEach(() => {
+    client = createReplayClient();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(process.env.DATA_DIR, { recursive: true, force: true });
+  });
+
+  describe('listing pages', () => {
+    test('parses movie cards into Movie objects', async () => {
+      const $ = await loadPage(client, `${BASE_URL}/m`);
+      const movies = await scraperService.extractMoviesFromPage($, 'main');
+
+      expect(movies).toHaveLength(2);
+
+      const saiyaaraUrl = `${BASE_URL}/m/Hindi/2025/Saiyaara`;
+      expect(movies[0]).toEqual({
+        id: movieIdService.generateId({ detailUrl: saiyaaraUrl }),
+        title: 'Saiyaara',
+        poster: `/api/poster?url=${encodeURIComponent('https://content1.discoveryftp.net/Movies/Hindi/2025/Saiyaara/poster.jpg')}`,
+        year: '2025',
+        language: '',
+        detailUrl: saiyaaraUrl,
+        downloadUrls: [],
+        subtitles: [],
+        genres: [],
+        rating: '',
+        size: '',
+        quality: '1080P',
+        description: '',
+        listingFingerprint: expect.any(String)
+      });
+    });
+
+    test('constructs a poster URL when the listing only has a placeholder', async () => {
+      const $ = await loadPage(client, `${BASE_URL}/m`);
+      const [, oppenheimer] = await scraperService.extractMoviesFromPage($, 'main');
+
+      expect(oppenheimer.title).toBe('Oppenheimer');
+      expect(oppenheimer.year).toBe('2023');
+      expect(oppenheimer.quality).toBe('WEB-DL');
+      expect(oppenheimer.poster).toBe(
+        `/api/poster?url=${encodeURIComponent('https://content1.discoveryftp.net/Movies/English/2023/Oppenheimer/poster.jpg')}`
+      );
+    });
+
+    test('derives the same IDs and fingerprints on every parse', async () => {
+      const first = await scraperService.extractMoviesFromPage(await loadPage(client, `${BASE_URL}/m`));
+      const second = await scraperService.extractMoviesFromPage(await loadPage(client, `${BASE_URL}/m`));
+
+      expect(second.map(movie => movie.id)).toEqual(first.map(movie => movie.id));
+      expect(second.map(movie => movie.listingFingerprint)).toEqual(first.map(movie => movie.listingFingerprint));
+    });
+  });
+
+  describe('detail pages', () => {
+    test('collects video links and metadata', async () => {
+      const movie = { id: 'saiyaara', title: 'Saiyaara', detailUrl: `${BASE_URL}/m/Hindi/2025/Saiyaara`, downloadUrls: [], genres: [] };
+
+      await scraperService.enrichMovieData(client, movie, null);
+
+      expect(movie.description).toBe('A troubled young musician and a shy writer fall for each other.');
+      expect(movie.rating).toBe('7.1');
+      expect(movie.genres).toEqual(['Drama', 'Romance']);
+      expect(movie.enrichedAt).toEqual(expect.any(String));
+      expect(movie.downloadUrls).toHaveLength(2);
+      expect(movie.downloadUrls[0]).toMatchObject({
+        url: 'https://content1.discoveryftp.net/Movies/Hindi/2025/Saiyaara/Saiyaara.2025.1080p.WEB-DL.Hindi.DDP5.1.x264.mkv',
+        quality: '1080p',
+        format: 'MKV',
+        filename: 'Saiyaara.2025.1080p.WEB-DL.Hindi.DDP5.1.x264.mkv',
+        label: 'Saiyaara 1080p'
+      });
+      expect(movie.downloadUrls[1]).toMatchObject({
+        quality: '720p',
+        format: 'MP4',
+        label: 'Saiyaara 720p'
+      });
+    });
+
+    test('collects sidecar subtitles with their language', async () => {
+      const movie = { id: 'saiyaara', title: 'Saiyaara', detailUrl: `${BASE_URL}/m/Hindi/2025/Saiyaara`, downloadUrls: [], genres: [] };
+
+      await scraperService.enrichMovieData(client, movie, null);
+
+      expect(movie.subtitles).toEqual([
+        {
+          url: 'https://content1.discoveryftp.net/Movies/Hindi/2025/Saiyaara/Saiyaara.2025.1080p.WEB-DL.Hindi.DDP5.1.x264.en.srt',
+          filename: 'Saiyaara.2025.1080p.WEB-DL.Hindi.DDP5.1.x264.en.srt',
+          format: 'srt',
+          language: 'English',
+          languageCode: 'en',
+          forced: false,
+          hearingImpaired: false,
+          label: 'English'
+        },
+        expect.objectContaining({
+          url: `${BASE_URL}/Movies/Hindi/2025/Saiyaara/Saiyaara.2025.Bangla.SDH.ass`,
+          format: 'ass',
+          language: 'Bengali',
+          hearingImpaired: true,
+          label: 'Bengali'
+        })
+      ]);
+    });
+
+    test('falls back to download buttons and resolves relative links', async () => {
+      const movie = { id: 'oppenheimer', title: 'Oppenheimer', detailUrl: `${BASE_URL}/m/English/2023/Oppenheimer`, downloadUrls: [], genres: [] };
+
+      await scraperService.enrichMovieData(client, movie, null);
+
+      expect(movie.description).toBe('The story of J. Robert Oppenheimer and the atomic bomb.');
+      expect(movie.rating).toBe('8.3');
+      expect(movie.genres).toEqual(['Biography']);
+      expect(movie.downloadUrls).toEqual([
+        expect.objectContaining({
+          url: `${BASE_URL}/Movies/English/2023/Oppenheimer/Oppenheimer.2023.2160p.BluRay.HDR.x265.DTS.mkv`,
+          quality: '2160p',
+          format: 'MKV',
+          label: 'Download'
+        })
+      ]);
+    });
+
+    test('leaves the movie untouched when the page was never recorded', async () => {
+      const movie = { id: 'missing', title: 'Missing', detailUrl: `${BASE_URL}/m/Hindi/2025/Missing`, downloadUrls: [], genres: [] };
+
+      await scraperService.enrichMovieData(client, movie, null);
+
+      expect(movie.downloadUrls).toEqual([]);
+      expect(movie.enrichedAt).toBeUndefined();
+    });
+  });
+
+  describe('directory listings', () => {
+    test('turns video files in directories and subdirectories into movies', async () => {
+      const movies = await scraperService.scrapeDirectoryStructure(client);
+
+      expect(movies.map(movie => movie.title)).toEqual([
+        'Dune Part Two',
+        'The Matrix',
+        'Inception'
+      ]);
+      expect(movies[0]).toMatchObject({
+        year: '2024',
+        quality: '1080p',
+        format: 'MKV',
+        source: 'directory',
+        downloadUrls: [{
+          url: `${BASE_URL}/Movies/English/Dune.Part.Two.2024.1080p.BluRay.x264.mkv`,
+          quality: '1080p',
+          format: 'mkv',
+          label: '1080p MKV'
+        }]
+      });
+      expect(movies[2]).toMatchObject({ year: '2010', quality: '2160p', format: 'MKV', subtitles: [] });
+      expect(movies[2].downloadUrls[0].url).toMatch(/\/Movies\/English\/Collections\/+Inception\.2010\.2160p\.BluRay\.x265\.mkv$/);
+    });
+  });
+
+  describe('directory subtitles', () => {
+    test('attaches subtitle files named after the video or its title', async () => {
+      const movies = await scraperService.scrapeDirectoryStructure(client);
+      const [dune, matrix] = movies;
+
+      expect(dune.subtitles.map(subtitle => [subtitle.filename, subtitle.language, subtitle.forced])).toEqual([
+        ['Dune.Part.Two.2024.1080p.BluRay.x264.en.forced.srt', 'English', true],
+        ['Dune.Part.Two.2024.Hindi.vtt', 'Hindi', false]
+      ]);
+      expect(dune.subtitles[0].url).toBe(`${BASE_URL}/Movies/English/Dune.Part.Two.2024.1080p.BluRay.x264.en.forced.srt`);
+      expect(matrix.subtitles).toEqual([]);
+    });
+  });
+
+  describe('deduplicateMovies', () => {
+    const file = (name) => {
+      const $ = cheerio.load(`<a href="/Movies/English/${name}">${name}</a>`);
+      return scraperService.extractMovieFromFileLink($, $('a'), BASE_URL);
+    };
+
+    test('gives each file of a title its own ID whatever the listing order', () => {
+      const names = ['Dune.Part.Two.2024.1080p.BluRay.mkv', 'Dune.Part.Two.2024.2160p.BluRay.mkv'];
+      const forward = scraperService.deduplicateMovies(names.map(file)).map(movie => movie.id);
+      const reversed = scraperService.deduplicateMovies([...names].reverse().map(file)).map(movie => movie.id);
+
+      expect(new Set(forward).size).toBe(2);
+      expect([...reversed].reverse()).toEqual(forward);
+      forward.forEach(id => expect(id).not.toMatch(/-\d+$/));
+    });
+
+    test('merges movies sharing an ID instead of renaming one', () => {
+      const detailUrl = `${BASE_URL}/m/Hindi/2025/Saiyaara`;
+      const movies = scraperService.deduplicateMovies([
+        { id: movieIdService.generateId({ detailUrl }), title: 'Saiyaara', detailUrl, downloadUrls: [{ url: `${BASE_URL}/a/Saiyaara.720p.mkv`, quality: '720p', format: 'mkv' }] },
+        { id: movieIdService.generateId({ detailUrl }), title: 'Saiyaara (2025)', detailUrl, downloadUrls: [{ url: `${BASE_URL}/b/Saiyaara.1080p.mkv`, quality: '1080p', format: 'mkv' }] }
+      ]);
+
+      expect(movies).toHaveLength(1);
+      expect(movies[0].downloadUrls.map(source => source.quality)).toEqual(['720p', '1080p']);
+    });
+  });
+
+  describe('scrapeMovies', () => {
+    beforeEach(() => {
+      jest.spyOn(authService, 'ensureAuthenticated').mockResolvedValue(true);
+      jest.spyOn(authService, 'getClient').mockReturnValue(client);
+    });
+
+    test('scrapes, enriches and stores the catalog', async () => {
+      const movies = await scraperService.scrapeMovies({ full: true });
+
+      const saiyaara = movies.find(movie => movie.title === 'Saiyaara');
+      expect(saiyaara.downloadUrls).toHaveLength(2);
+      expect(saiyaara.firstSeenAt).toEqual(expect.any(String));
+
+      const dune = movies.find(movie => movie.title === 'Dune Part Two');
+      expect(dune.source).toBe('directory');
+
+      expect(catalogService.getMovieById(saiyaara.id)).toBe(saiyaara);
+    });
+
+    test('reuses enrichment for unchanged movies in incremental mode', async () => {
+      const enrichSpy = jest.spyOn(scraperService, 'enrichMovieData');
+
+      const movies = await scraperService.scrapeMovies();
+
+      const enrichedUrls = enrichSpy.mock.calls.map(([, movie]) => movie.detailUrl);
+      expect(enrichedUrls).not.toContain(`${BASE_URL}/m/Hindi/2025/Saiyaara`);
+      expect(movies.find(movie => movie.title === 'Saiyaara').downloadUrls).toHaveLength(2);
+
+      enrichSpy.mockRestore();
+    });
+
+    test('records each scrape in the run history', async () => {
+      const movies = await scraperService.scrapeMovies({ full: true, trigger: 'scheduled' });
+
+      expect(runHistoryService.getLastRun('scrape')).toMatchObject({
+        trigger: 'scheduled',
+        mode: 'full',
+        status: expect.stringMatching(/^(success|completed_with_errors)$/),
+        moviesFound: movies.length
+      });
+    });
+
+    test('records a failed scrape with its error', async () => {
+      jest.spyOn(client, 'get').mockRejectedValueOnce(new Error('Movies page returned status: 500'));
+
+      await expect(scraperService.scrapeMovies()).rejects.toThrow('Movies page returned status: 500');
+
+      const run = runHistoryService.getLastRun('scrape');
+      expect(run).toMatchObject({ status: 'failed', errorCount: 1 });
+      expect(runHistoryService.getRun(run.id).errors[0]).toMatchObject({ context: 'scrape', message: 'Movies page returned status: 500' });
+    });
+  });
+});
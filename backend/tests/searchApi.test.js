@@ -0,0 +1,72 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Keep the catalog of these tests out of the real data directory
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'search-api-test-'));
+process.env.STORAGE_BACKEND = 'json';
+
+const express = require('express');
+const searchService = require('../src/services/searchService');
+const searchRouter = require('../src/api/search');
+
+const movies = Array.from({ length: 25 }, (_, i) => ({
+  id: `movie_${i}`,
+  title: `Dark Knight ${i + 1}`,
+  year: String(2000 + i),
+  poster: null
+}));
+
+describe('GET /api/suggest', () => {
+  let server;
+  let baseUrl;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    searchService.rebuild(movies);
+
+    const app = express();
+    app.use('/api', searchRouter);
+    server = await new Promise(resolve => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}/api`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    searchService.rebuild([]);
+    jest.restoreAllMocks();
+    fs.rmSync(process.env.DATA_DIR, { recursive: true, force: true });
+  });
+
+  async function suggest(query) {
+    const response = await fetch(`${baseUrl}/suggest?${new URLSearchParams(query)}`);
+    return { status: response.status, body: await response.json() };
+  }
+
+  test('returns 8 suggestions by default', async () => {
+    const { status, body } = await suggest({ q: 'dark' });
+
+    expect(status).toBe(200);
+    expect(body.data).toHaveLength(8);
+    expect(body.data[0]).toEqual({ id: expect.any(String), title: expect.stringMatching(/^Dark Knight/), year: expect.any(String), poster: null });
+  });
+
+  test('caps the limit at 20', async () => {
+    const { body } = await suggest({ q: 'dark', limit: '500' });
+    expect(body.data).toHaveLength(20);
+  });
+
+  test.each(['0', '-5', '2.5', 'many'])('rejects limit=%s', async (limit) => {
+    const { status, body } = await suggest({ q: 'dark', limit });
+
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ success: false, error: 'Invalid suggestion parameters' });
+  });
+
+  test('suggests nothing before anything is typed', async () => {
+    const { body } = await suggest({ q: ' ' });
+    expect(body.data).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+const searchService = require('../src/services/searchService');
+
+const movies = [
+  { id: 'movie_saiyaara', title: 'Saiyaara', year: '2025', language: 'Hindi', genres: ['Romance', 'Drama'], description: 'A troubled musician falls for a shy writer.' },
+  { id: 'movie_bhool', title: 'Bhool Bhulaiyaa 3', year: '2024', language: 'Hindi', genres: ['Horror', 'Comedy'], description: 'A fake exorcist returns to a haunted palace.' },
+  { id: 'movie_dark', title: 'The Dark Knight', year: '2008', language: 'English', genres: ['Action', 'Crime'], description: 'Batman faces the Joker in Gotham.' },
+  { id: 'movie_rises', title: 'The Dark Knight Rises', year: '2012', language: 'English', genres: ['Action'], description: 'Eight years after the Joker, Bane arrives.' },
+  { id: 'movie_interstellar', title: 'Interstellar', year: '2014', language: 'English', genres: ['Sci-Fi'], description: 'Explorers travel through a wormhole.' },
+  { id: 'movie_joker', title: 'Joker', year: '2019', language: 'English', genres: ['Crime', 'Drama'], description: 'A failed comedian descends into madness.' },
+  { id: 'movie_amelie', title: 'Amélie', year: '2001', language: 'French', genres: ['Comedy', 'Romance'], description: 'A shy waitress helps the people around her.' }
+];
+
+function searchIds(query, options) {
+  return searchService.search(query, options).map(result => result.movie.id);
+}
+
+describe('searchService', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    searchService.rebuild(movies);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('ranks title matches above description matches', () => {
+    expect(searchIds('joker')).toEqual(['movie_joker', 'movie_dark', 'movie_rises']);
+  });
+
+  test('ranks an exact title above longer titles starting with it', () => {
+    expect(searchIds('the dark knight')).toEqual(['movie_dark', 'movie_rises']);
+  });
+
+  test('requires every word of the query', () => {
+    expect(searchIds('dark knight rises')).toEqual(['movie_rises']);
+    expect(searchIds('joker 2019')).toEqual(['movie_joker']);
+  });
+
+  test('does not require stop words', () => {
+    expect(searchIds('dark knight of gotham')).toEqual(['movie_dark']);
+  });
+
+  test.each([
+    ['saiyara', 'movie_saiyaara'],
+    ['saiyaaraa', 'movie_saiyaara'],
+    ['bhul bhulaiya', 'movie_bhool'],
+    ['bool bulaiyaa', 'movie_bhool']
+  ])('matches the transliteration "%s"', (query, id) => {
+    expect(searchIds(query)[0]).toBe(id);
+  });
+
+  test.each([
+    ['intersteller', 'movie_interstellar'],
+    ['interstlelar', 'movie_interstellar'],
+    ['jokre', 'movie_joker']
+  ])('tolerates the typo "%s"', (query, id) => {
+    expect(searchIds(query)[0]).toBe(id);
+  });
+
+  test('does not allow typos in short words', () => {
+    expect(searchIds('bane')).toEqual(['movie_rises']);
+    expect(searchIds('bne')).toEqual([]);
+  });
+
+  test('matches the start of a word while typing', () => {
+    expect(searchIds('inter')).toEqual(['movie_interstellar']);
+    expect(searchIds('dark kn')).toEqual(['movie_dark', 'movie_rises']);
+  });
+
+  test('ignores case and accents', () => {
+    expect(searchIds('AMELIE')).toEqual(['movie_amelie']);
+  });
+
+  test('matches genres and languages', () => {
+    expect(searchIds('hindi horror')).toEqual(['movie_bhool']);
+  });
+
+  test('matches titles alone for suggestions', () => {
+    expect(searchIds('joker', { titlesOnly: true })).toEqual(['movie_joker']);
+    expect(searchIds('dark kn', { titlesOnly: true })).toEqual(['movie_dark', 'movie_rises']);
+    expect(searchIds('hindi', { titlesOnly: true })).toEqual([]);
+  });
+
+  test('limits the results', () => {
+    expect(searchIds('drama', { limit: 2 })).toHaveLength(2);
+  });
+
+  test('finds nothing for blank queries', () => {
+    expect(searchIds('  ')).toEqual([]);
+    expect(searchIds('?!')).toEqual([]);
+  });
+
+  test('reflects the catalog it was last rebuilt with', () => {
+    searchService.rebuild([...movies, { id: 'movie_jawan', title: 'Jawan', year: '2023' }]);
+    expect(searchIds('jawan')).toEqual(['movie_jawan']);
+
+    searchService.rebuild(movies);
+    expect(searchIds('jawan')).toEqual([]);
+  });
+});
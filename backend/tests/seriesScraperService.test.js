@@ -0,0 +1,209 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Keep the catalog and run history of these tests out of the real data directory
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'series-test-'));
+process.env.STORAGE_BACKEND = 'json';
+process.env.HTTP_FIXTURE_MODE = 'off';
+
+const axios = require('axios');
+const cheerio = require('cheerio');
+const { enableReplay } = require('../src/http/fixtures');
+const authService = require('../src/services/authService');
+const catalogService = require('../src/services/catalogService');
+const movieIdService = require('../src/services/movieIdService');
+const runHistoryService = require('../src/services/runHistoryService');
+const scraperService = require('../src/services/scraperService');
+const seriesScraperService = require('../src/services/seriesScraperService');
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'http');
+const BASE_URL = 'https://dflix.discoveryftp.net';
+const CONTENT_URL = 'https://content1.discoveryftp.net/TV-Series/English/Dark';
+
+function createReplayClient() {
+  return enableReplay(axios.create({ validateStatus: (status) => status < 400 }), FIXTURE_DIR);
+}
+
+describe('SeriesScraperService with recorded fixtures', () => {
+  let client;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(scraperService, 'delay').mockResolvedValue();
+  });
+
+  beforeEach(() => {
+    client = createReplayClient();
+    jest.spyOn(authService, 'ensureAuthenticated').mockResolvedValue(true);
+    jest.spyOn(authService, 'getClient').mockReturnValue(client);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(process.env.DATA_DIR, { recursive: true, force: true });
+  });
+
+  test('parses series cards from the listing page', async () => {
+    const response = await client.get(`${BASE_URL}/s`);
+    const [dark] = seriesScraperService.extractSeriesFromPage(cheerio.load(response.data));
+
+    expect(dark).toMatchObject({
+      id: movieIdService.generateSeriesId({ detailUrl: `${BASE_URL}/s/English/Dark` }),
+      title: 'Dark',
+      year: '2017',
+      quality: '1080P',
+      detailUrl: `${BASE_URL}/s/English/Dark`,
+      poster: `/api/poster?url=${encodeURIComponent(`${CONTENT_URL}/poster.jpg`)}`,
+      source: 'listing',
+      seasons: []
+    });
+    expect(dark.id).toMatch(/^series_[0-9a-f]{12}$/);
+  });
+
+  describe('scrapeSeries', () => {
+    let series;
+
+    beforeAll(async () => {
+      jest.spyOn(authService, 'ensureAuthenticated').mockResolvedValue(true);
+      jest.spyOn(authService, 'getClient').mockReturnValue(createReplayClient());
+      series = await seriesScraperService.scrapeSeries();
+    });
+
+    test('groups detail page and season page episodes by season', () => {
+      const dark = series.find(item => item.title === 'Dark');
+
+      expect(dark).toMatchObject({
+        description: 'A missing child sets four families on a hunt for answers across three generations.',
+        rating: '8.7',
+        genres: ['Sci-Fi', 'Thriller'],
+        seasonCount: 2,
+        episodeCount: 4
+      });
+      expect(dark.seasons.map(season => season.seasonNumber)).toEqual([1, 2]);
+      expect(dark.seasons[0].episodes.map(episode => episode.episodeNumber)).toEqual([1, 2]);
+      expect(dark.seasons[0].episodes[0]).toMatchObject({
+        id: movieIdService.generateEpisodeId(dark.id, 1, 1),
+        seriesId: dark.id,
+        seasonNumber: 1,
+        episodeNumber: 1,
+        title: 'Episode 1',
+        downloadUrls: [{
+          url: `${CONTENT_URL}/Season%201/Dark.S01E01.1080p.WEB-DL.x264.mkv`,
+          quality: '1080p',
+          format: 'MKV',
+          label: 'Episode 1'
+        }]
+      });
+    });
+
+    test('collects every quality of an episode', () => {
+      const dark = series.find(item => item.title === 'Dark');
+      const [firstEpisode] = dark.seasons[1].episodes;
+
+      expect(firstEpisode.downloadUrls.map(downloadUrl => downloadUrl.quality)).toEqual(['720p', '1080p']);
+      expect(firstEpisode.downloadUrls[0].label).toBe('Episode 1 (720p)');
+    });
+
+    test('walks series and season folders in the directory listings', () => {
+      const breakingBad = series.find(item => item.title === 'Breaking Bad');
+
+      expect(breakingBad).toMatchObject({
+        year: '2008',
+        source: 'directory',
+        detailUrl: null,
+        directoryUrl: `${BASE_URL}/TV-Series/Breaking%20Bad%20(2008)/`,
+        seasonCount: 2,
+        episodeCount: 3
+      });
+      expect(breakingBad.seasons[0].episodes[1].downloadUrls[0].url).toBe(
+        `${BASE_URL}/TV-Series/Breaking%20Bad%20(2008)/Season%201/Breaking.Bad.S01E02.720p.BluRay.x264.mkv`
+      );
+    });
+
+    test('takes the season from the folder when the file name has none', () => {
+      const breakingBad = series.find(item => item.title === 'Breaking Bad');
+
+      expect(breakingBad.seasons[1].episodes).toEqual([
+        expect.objectContaining({ seasonNumber: 2, episodeNumber: 1 })
+      ]);
+    });
+
+    test('stores the series catalog and records a series run', () => {
+      const dark = series.find(item => item.title === 'Dark');
+
+      expect(catalogService.getSeriesById(dark.id)).toBe(dark);
+      expect(dark.firstSeenAt).toEqual(expect.any(String));
+
+      const run = runHistoryService.getLastRun('series');
+      expect(run).toMatchObject({ type: 'series', moviesFound: 2, addedCount: 2 });
+    });
+
+    test('finds the next episode across seasons', () => {
+      const dark = series.find(item => item.title === 'Dark');
+      const lastOfSeasonOne = dark.seasons[0].episodes[1];
+      const firstOfSeasonTwo = dark.seasons[1].episodes[0];
+      const lastEpisode = dark.seasons[1].episodes[1];
+
+      expect(seriesScraperService.getAdjacentEpisodes(dark, lastOfSeasonOne.id)).toEqual({
+        previous: dark.seasons[0].episodes[0],
+        next: firstOfSeasonTwo
+      });
+      expect(seriesScraperService.getAdjacentEpisodes(dark, lastEpisode.id).next).toBeNull();
+      expect(seriesScraperService.findEpisode(dark, firstOfSeasonTwo.id)).toBe(firstOfSeasonTwo);
+    });
+  });
+
+  describe('incremental scrapeSeries', () => {
+    const DETAIL_URLS = [`${BASE_URL}/s/English/Dark`, `${BASE_URL}/TV-Series/Breaking%20Bad%20(2008)/`];
+
+    // Dark's detail page doubles as its season 1 page, so pages are compared without repeats
+    function fetchedDetailPages() {
+      return [...new Set(client.get.mock.calls.map(call => call[0]).filter(url => DETAIL_URLS.includes(url)))];
+    }
+
+    beforeEach(async () => {
+      await seriesScraperService.scrapeSeries({ full: true });
+      jest.spyOn(client, 'get');
+    });
+
+    test('reuses series whose listing entry hasn\'t changed', async () => {
+      const previous = catalogService.getSeries();
+
+      const series = await seriesScraperService.scrapeSeries();
+
+      expect(fetchedDetailPages()).toEqual([]);
+      expect(series.map(item => item.seasons)).toEqual(previous.map(item => item.seasons));
+      expect(series.find(item => item.title === 'Dark')).toMatchObject({ description: previous[0].description, episodeCount: 4 });
+      expect(runHistoryService.getLastRun('series')).toMatchObject({ mode: 'incremental', enriched: 0, reused: 2 });
+    });
+
+    test('fetches series again once they are older than the refresh window', async () => {
+      const dark = catalogService.getSeries().find(item => item.title === 'Dark');
+      dark.enrichedAt = new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString();
+
+      await seriesScraperService.scrapeSeries();
+
+      expect(fetchedDetailPages()).toEqual([`${BASE_URL}/s/English/Dark`]);
+      expect(runHistoryService.getLastRun('series')).toMatchObject({ enriched: 1, reused: 1 });
+    });
+
+    test('fetches series again when their listing entry changed', async () => {
+      const dark = catalogService.getSeries().find(item => item.title === 'Dark');
+      dark.listingFingerprint = 'changed';
+
+      await seriesScraperService.scrapeSeries();
+
+      expect(fetchedDetailPages()).toEqual([`${BASE_URL}/s/English/Dark`]);
+    });
+
+    test('fetches every series in a full scrape', async () => {
+      await seriesScraperService.scrapeSeries({ full: true });
+
+      expect(fetchedDetailPages()).toEqual(DETAIL_URLS);
+      expect(runHistoryService.getLastRun('series')).toMatchObject({ mode: 'full', reused: 0 });
+    });
+  });
+});
@@ -0,0 +1,215 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const config = require('../src/config');
+const remuxService = require('../src/services/remuxService');
+const subtitleService = require('../src/services/subtitleService');
+
+const URL = 'https://dflix.discoveryftp.net/m/Movie.2023.1080p.mkv';
+
+const PROBE_OUTPUT = {
+  streams: [
+    { index: 0, codec_type: 'video', codec_name: 'h264' },
+    { index: 1, codec_type: 'audio', codec_name: 'aac' },
+    { index: 2, codec_type: 'subtitle', codec_name: 'subrip', disposition: { default: 1, forced: 0 }, tags: { language: 'eng' } },
+    { index: 3, codec_type: 'subtitle', codec_name: 'ass', disposition: { default: 0, forced: 1 }, tags: { language: 'eng', title: 'Signs' } },
+    { index: 4, codec_type: 'subtitle', codec_name: 'hdmv_pgs_subtitle', tags: { language: 'ben' } }
+  ],
+  format: { duration: '5400' }
+};
+
+const VTT = `WEBVTT
+
+00:00:01.000 --> 00:00:03.500
+First line
+
+2
+00:01:00.250 --> 00:01:02.000 line:90%
+Second line
+continued
+`;
+
+const ASS = `[Script Info]
+Title: Test
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:01.00,0:00:03.50,Default,,0,0,0,,First, with a comma
+Dialogue: 0,0:01:00.25,0:01:02.00,Default,,0,0,0,,Second`;
+
+describe('subtitle tracks from ffprobe', () => {
+  test('lists subtitle streams with their dispositions', () => {
+    const info = remuxService.parseProbeOutput(PROBE_OUTPUT);
+
+    expect(info.subtitles).toEqual([
+      { index: 0, codec: 'subrip', language: 'eng', title: null, isDefault: true, isForced: false, isText: true },
+      { index: 1, codec: 'ass', language: 'eng', title: 'Signs', isDefault: false, isForced: true, isText: true },
+      { index: 2, codec: 'hdmv_pgs_subtitle', language: 'ben', title: null, isDefault: false, isForced: false, isText: false }
+    ]);
+  });
+});
+
+describe('subtitleService.buildExtractArgs', () => {
+  test('writes every track to its own file in the requested format', () => {
+    const args = subtitleService.buildExtractArgs(URL, [
+      { track: 0, file: '/cache/0.vtt' },
+      { track: 1, file: '/cache/1.vtt' }
+    ], 'vtt').join(' ');
+
+    expect(args).toContain(`-i ${URL} -map 0:s:0 -c:s webvtt -f webvtt -y /cache/0.vtt.tmp -map 0:s:1 -c:s webvtt -f webvtt -y /cache/1.vtt.tmp`);
+    expect(subtitleService.buildExtractArgs(URL, [{ track: 0, file: '/cache/0.ass' }], 'ass').join(' ')).toContain('-map 0:s:0 -c:s ass -f ass');
+  });
+
+  test('restricts ffmpeg to network protocols', () => {
+    const args = subtitleService.buildExtractArgs(URL, [{ track: 0, file: '/cache/0.vtt' }], 'vtt');
+
+    expect(args.indexOf('-protocol_whitelist')).toBeLessThan(args.indexOf('-i'));
+    expect(args[args.indexOf('-protocol_whitelist') + 1]).toBe('http,https,tcp,tls');
+  });
+});
+
+describe('subtitleService.getSubtitle', () => {
+  const originalCache = { ...config.subtitles };
+  let cacheDir;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'subtitle-cache-'));
+    config.subtitles.cacheDir = cacheDir;
+    subtitleService.cacheEntries.clear();
+    subtitleService.cacheSize = 0;
+    subtitleService.cacheLoaded = false;
+    remuxService.probeCache.set(URL, remuxService.parseProbeOutput(PROBE_OUTPUT));
+  });
+
+  afterEach(() => {
+    Object.assign(config.subtitles, originalCache);
+    remuxService.probeCache.clear();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  test('rejects missing tracks, bitmap tracks and unknown formats', async () => {
+    await expect(subtitleService.getSubtitle(URL, 5)).rejects.toMatchObject({ code: 'TRACK_NOT_FOUND' });
+    await expect(subtitleService.getSubtitle(URL, 2)).rejects.toMatchObject({ code: 'BITMAP_SUBTITLE' });
+    await expect(subtitleService.getSubtitle(URL, 0, 'srt')).rejects.toMatchObject({ code: 'UNSUPPORTED_FORMAT' });
+  });
+
+  test('serves extracted tracks from the cache', async () => {
+    const file = subtitleService.getCachePath(URL, 0, 'vtt');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, VTT);
+    const runExtraction = jest.spyOn(subtitleService, 'runExtraction');
+
+    await expect(subtitleService.getSubtitle(URL, 0)).resolves.toBe(VTT);
+    expect(runExtraction).not.toHaveBeenCalled();
+
+    runExtraction.mockRestore();
+  });
+
+  test('extracts all text tracks in a single run', async () => {
+    const runExtraction = jest.spyOn(subtitleService, 'runExtraction').mockImplementation(async (url, outputs) => {
+      outputs.forEach(({ file }) => {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, VTT);
+      });
+    });
+
+    await Promise.all([subtitleService.getSubtitle(URL, 0), subtitleService.getSubtitle(URL, 1)]);
+
+    expect(runExtraction).toHaveBeenCalledTimes(1);
+    expect(runExtraction.mock.calls[0][1].map(output => output.track)).toEqual([0, 1]);
+
+    runExtraction.mockRestore();
+  });
+
+  test('runs at most maxConcurrent extractions at once', async () => {
+    config.subtitles.maxConcurrent = 1;
+    const otherUrl = 'https://dflix.discoveryftp.net/m/Other.2024.1080p.mkv';
+    remuxService.probeCache.set(otherUrl, remuxService.parseProbeOutput(PROBE_OUTPUT));
+    const finishers = [];
+    const runExtraction = jest.spyOn(subtitleService, 'runExtraction').mockImplementation((url, outputs) => {
+      return new Promise(resolve => finishers.push(() => {
+        outputs.forEach(({ file }) => {
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, VTT);
+        });
+        resolve();
+      }));
+    });
+
+    const tracks = await subtitleService.getTracks(URL);
+    const first = subtitleService.extractTextTracks(URL, tracks, 'vtt');
+    const second = subtitleService.extractTextTracks(otherUrl, tracks, 'vtt');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(runExtraction).toHaveBeenCalledTimes(1);
+
+    finishers[0]();
+    await first;
+    await new Promise(resolve => setImmediate(resolve));
+    expect(runExtraction).toHaveBeenCalledTimes(2);
+
+    finishers[1]();
+    await second;
+    expect(runExtraction.mock.calls.map(call => call[0])).toEqual([URL, otherUrl]);
+
+    runExtraction.mockRestore();
+  });
+
+  test('evicts least recently used tracks over the size cap', async () => {
+    config.subtitles.cacheMaxBytes = VTT.length * 3;
+    const otherUrl = 'https://dflix.discoveryftp.net/m/Other.2024.1080p.mkv';
+    remuxService.probeCache.set(otherUrl, remuxService.parseProbeOutput(PROBE_OUTPUT));
+    const runExtraction = jest.spyOn(subtitleService, 'runExtraction').mockImplementation(async (url, outputs) => {
+      outputs.forEach(({ file }) => {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, VTT);
+      });
+    });
+
+    await subtitleService.getSubtitle(URL, 0);
+    await subtitleService.getSubtitle(URL, 1);
+    await subtitleService.getSubtitle(otherUrl, 0);
+
+    expect(fs.existsSync(subtitleService.getCachePath(URL, 0, 'vtt'))).toBe(false);
+    expect(fs.existsSync(subtitleService.getCachePath(URL, 1, 'vtt'))).toBe(true);
+    expect(subtitleService.getCacheStats()).toMatchObject({ tracks: 3, bytes: VTT.length * 3 });
+
+    runExtraction.mockRestore();
+  });
+
+  test('indexes tracks cached by an earlier run', async () => {
+    const file = subtitleService.getCachePath(URL, 0, 'vtt');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, VTT);
+    fs.writeFileSync(`${file.replace('0.vtt', '1.vtt')}.tmp`, 'partial');
+
+    await subtitleService.loadCache();
+
+    expect(subtitleService.getCacheStats()).toMatchObject({ tracks: 1, bytes: VTT.length });
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['0.vtt']);
+  });
+});
+
+describe('subtitle timing', () => {
+  test('shifts WebVTT cues and keeps identifiers and settings', () => {
+    const shifted = subtitleService.shiftWebVtt(VTT, 2.5);
+
+    expect(shifted).toContain('00:00:03.500 --> 00:00:06.000\nFirst line');
+    expect(shifted).toContain('2\n00:01:02.750 --> 00:01:04.500 line:90%\nSecond line\ncontinued');
+  });
+
+  test('drops WebVTT cues that end before zero', () => {
+    const shifted = subtitleService.shiftWebVtt(VTT, -60.5);
+
+    expect(shifted.startsWith('WEBVTT')).toBe(true);
+    expect(shifted).not.toContain('First line');
+    expect(shifted).toContain('00:00:00.000 --> 00:00:01.500 line:90%');
+  });
+
+  test('shifts ASS dialogue without touching the text', () => {
+    const shifted = subtitleService.shiftAss(ASS, -30);
+
+    expect(shifted).not.toContain('First, with a comma');
+    expect(shifted).toContain('Dialogue: 0,0:00:30.25,0:00:32.00,Default,,0,0,0,,Second');
+    expect(shifted).toContain('Format: Layer, Start, End');
+  });
+});
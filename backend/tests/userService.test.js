@@ -0,0 +1,189 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const config = require('../src/config');
+const JsonCatalogStore = require('../src/storage/jsonCatalogStore');
+const catalogService = require('../src/services/catalogService');
+const userService = require('../src/services/userService');
+const { attachUser } = require('../src/api/session');
+
+describe('userService', () => {
+  let dataDir;
+  let originalStore;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'users-'));
+    originalStore = catalogService.store;
+    catalogService.store = new JsonCatalogStore(path.join(dataDir, 'catalog.json'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    userService.loginFailures.clear();
+    await userService.load();
+  });
+
+  afterEach(() => {
+    catalogService.store = originalStore;
+    config.users.allowRegistration = true;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  test('registers a user and signs them in', async () => {
+    const { user, token } = await userService.register({ username: ' Alice ', password: 'correct horse' });
+
+    expect(user.username).toBe('alice');
+    expect(userService.findBySession(token)).toBe(user);
+    expect(userService.toPublic(user)).toEqual({ id: user.id, username: 'alice', createdAt: user.createdAt });
+  });
+
+  test('stores hashes instead of the password and tokens', async () => {
+    const { token } = await userService.register({ username: 'alice', password: 'correct horse' });
+
+    const stored = fs.readFileSync(path.join(dataDir, 'users.json'), 'utf8');
+    expect(stored).not.toContain('correct horse');
+    expect(stored).not.toContain(token);
+  });
+
+  test('rejects a taken username', async () => {
+    await userService.register({ username: 'alice', password: 'correct horse' });
+
+    await expect(userService.register({ username: 'ALICE', password: 'battery staple' }))
+      .rejects.toMatchObject({ code: 'USERNAME_TAKEN' });
+  });
+
+  test('refuses sign-ups when registration is closed', async () => {
+    config.users.allowRegistration = false;
+
+    await expect(userService.register({ username: 'alice', password: 'correct horse' }))
+      .rejects.toMatchObject({ code: 'REGISTRATION_CLOSED' });
+  });
+
+  test('signs in with the right password only', async () => {
+    await userService.register({ username: 'alice', password: 'correct horse' });
+
+    const { user, token } = await userService.login({ username: 'alice', password: 'correct horse' });
+    expect(userService.findBySession(token)).toBe(user);
+
+    await expect(userService.login({ username: 'alice', password: 'wrong horse' }))
+      .rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+    await expect(userService.login({ username: 'bob', password: 'correct horse' }))
+      .rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+  });
+
+  test('ends a session on logout and keeps accounts across restarts', async () => {
+    const { token } = await userService.register({ username: 'alice', password: 'correct horse' });
+    const second = await userService.login({ username: 'alice', password: 'correct horse' });
+
+    expect(await userService.logout(token)).toBe(true);
+    expect(userService.findBySession(token)).toBeNull();
+
+    await userService.load();
+    expect(userService.findBySession(second.token).username).toBe('alice');
+  });
+
+  test('ignores expired sessions', async () => {
+    const { user, token } = await userService.register({ username: 'alice', password: 'correct horse' });
+    user.sessions[0].expiresAt = new Date(Date.now() - 1000).toISOString();
+
+    expect(userService.findBySession(token)).toBeNull();
+  });
+
+  test('merges preferences, removing keys set to null', async () => {
+    const { user } = await userService.register({ username: 'alice', password: 'correct horse' });
+
+    await userService.updatePreferences(user, { audioLanguage: 'hi', subtitleSize: 'large' });
+    const preferences = await userService.updatePreferences(user, { subtitleSize: null });
+
+    expect(preferences).toEqual({ audioLanguage: 'hi' });
+    await expect(userService.updatePreferences(user, ['hi'])).rejects.toMatchObject({ code: 'INVALID_PREFERENCES' });
+  });
+
+  test('keeps the watchlist most recently added first, without duplicates', async () => {
+    const { user } = await userService.register({ username: 'alice', password: 'correct horse' });
+
+    await userService.addToWatchlist(user, 'movie_a');
+    await userService.addToWatchlist(user, 'movie_b');
+    await userService.addToWatchlist(user, 'movie_a');
+    expect(user.watchlist.map(item => item.movieId)).toEqual(['movie_a', 'movie_b']);
+
+    await userService.removeFromWatchlist(user, 'movie_a');
+    expect(user.watchlist.map(item => item.movieId)).toEqual(['movie_b']);
+  });
+
+  describe('sign-in throttling', () => {
+    const originalUsers = { ...config.users };
+
+    beforeEach(async () => {
+      Object.assign(config.users, { loginMaxAttempts: 2, loginMaxAttemptsPerIp: 3 });
+      await userService.register({ username: 'alice', password: 'correct horse' });
+    });
+
+    afterEach(() => {
+      Object.assign(config.users, originalUsers);
+    });
+
+    test('locks an account out after too many wrong passwords, even with the right one', async () => {
+      for (const ip of ['10.0.0.1', '10.0.0.2']) {
+        await expect(userService.login({ username: 'alice', password: 'wrong horse' }, { ip }))
+          .rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+      }
+
+      const error = await userService.login({ username: 'alice', password: 'correct horse' }, { ip: '10.0.0.3' }).catch(e => e);
+      expect(error).toMatchObject({ code: 'TOO_MANY_ATTEMPTS' });
+      expect(error.retryAfter).toBeGreaterThan(0);
+    });
+
+    test('locks an address out after failures across accounts', async () => {
+      for (const username of ['bob', 'carol', 'dave']) {
+        await expect(userService.login({ username, password: 'wrong horse' }, { ip: '10.0.0.1' }))
+          .rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+      }
+
+      await expect(userService.login({ username: 'alice', password: 'correct horse' }, { ip: '10.0.0.1' }))
+        .rejects.toMatchObject({ code: 'TOO_MANY_ATTEMPTS' });
+      await expect(userService.login({ username: 'alice', password: 'correct horse' }, { ip: '10.0.0.2' }))
+        .resolves.toMatchObject({ token: expect.any(String) });
+    });
+
+    test('lets sign-ins through again once the window has passed', async () => {
+      for (let i = 0; i < 2; i++) {
+        await userService.login({ username: 'alice', password: 'wrong horse' }).catch(() => {});
+      }
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + config.users.loginWindowMinutes * 60 * 1000 + 1);
+
+      await expect(userService.login({ username: 'alice', password: 'correct horse' }))
+        .resolves.toMatchObject({ token: expect.any(String) });
+    });
+
+    test('forgets an account\'s failures after a successful sign-in', async () => {
+      await userService.login({ username: 'alice', password: 'wrong horse' }).catch(() => {});
+      await userService.login({ username: 'alice', password: 'correct horse' });
+
+      expect(userService.loginFailures.has('user:alice')).toBe(false);
+    });
+  });
+
+  describe('attachUser', () => {
+    function attach(headers) {
+      const req = { headers };
+      const next = jest.fn();
+      attachUser(req, {}, next);
+      return { req, next };
+    }
+
+    test('reads the session from the cookie', async () => {
+      const { user, token } = await userService.register({ username: 'alice', password: 'correct horse' });
+      const { req, next } = attach({ cookie: `theme=dark; ${config.users.cookieName}=${encodeURIComponent(token)}` });
+
+      expect(req.user).toBe(user);
+      expect(next).toHaveBeenCalled();
+    });
+
+    test('treats a malformed cookie as no session', () => {
+      const { req, next } = attach({ cookie: `${config.users.cookieName}=%E0%A4%A` });
+
+      expect(req.sessionToken).toBeNull();
+      expect(req.user).toBeNull();
+      expect(next).toHaveBeenCalled();
+    });
+  });
+});
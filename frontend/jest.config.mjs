@@ -0,0 +1,12 @@
+import nextJest from 'next/jest.js';
+
+// Compiles TypeScript with Next's SWC setup and loads the .env files like `next dev`
+const createJestConfig = nextJest({ dir: './' });
+
+export default createJestConfig({
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/tests/**/*.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1'
+  }
+});
@@ -33,6 +33,11 @@ export default function MovieDetailsClient({ movieId }: MovieDetailsClientProps)
         
         const movieData = await MovieAPI.getMovie(movieId);
         console.log('🎬 Movie data received:', movieData);
+
+        // Old IDs resolve through the backend alias table; move to the canonical URL
+        if (movieData.id && movieData.id !== movieId) {
+          router.replace(`/movie/${movieData.id}`);
+        }
         
         setMovie(movieData);
       } catch (err) {
@@ -44,7 +49,7 @@ export default function MovieDetailsClient({ movieId }: MovieDetailsClientProps)
     };
 
     fetchMovie();
-  }, [movieId]);
+  }, [movieId, router]);
 
   const handleBack = () => {
     router.back();
@@ -1,24 +1,34 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Movie, SearchFilters } from '@/types/movie';
-import { useMovies, useMovieSearch } from '@/hooks/useMovies';
+import { useState, useEffect, useCallback } from 'react';
+import { Movie, MovieSort, SearchFilters } from '@/types/movie';
+import { useMoviePages, useMovieSearch } from '@/hooks/useMovies';
 import MovieGrid from '@/components/MovieGrid';
+import ContinueWatching from '@/components/ContinueWatching';
 import SearchBar from '@/components/SearchBar';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import { ErrorMessage } from '@/components/ErrorBoundary';
 import { useVideoPlayer } from '@/contexts/VideoPlayerContext';
 import MovieAPI from '@/lib/api';
 
+const SORT_OPTIONS: { value: MovieSort; label: string }[] = [
+  { value: 'added', label: 'Recently added' },
+  { value: 'title', label: 'Title' },
+  { value: 'year', label: 'Year' },
+  { value: 'rating', label: 'Rating' },
+  { value: 'size', label: 'Size' }
+];
+
 export default function Home() {
   const [isSearching, setIsSearching] = useState(false);
+  const [sort, setSort] = useState<MovieSort>('added');
   const [testResult, setTestResult] = useState<string>('');
   const { showPlayer, hidePlayer, togglePlayer, state } = useVideoPlayer();
 
   console.log('🏠 Home: Component rendering...');
-  console.log('🏠 Home: About to call useMovies...');
-  const { movies, loading, error, refetch, refresh, lastUpdated } = useMovies();
-  console.log(`🏠 Home: useMovies returned ${movies.length} movies, loading: ${loading}, error: ${error}`);
+  console.log('🏠 Home: About to call useMoviePages...');
+  const { movies, total, hasMore, loadMore, loadingMore, loading, error, refetch, refresh, lastUpdated } = useMoviePages({ sort });
+  console.log(`🏠 Home: useMoviePages returned ${movies.length} of ${total} movies, loading: ${loading}, error: ${error}`);
 
 
 
@@ -27,7 +37,7 @@ export default function Home() {
     console.log('🏠 Home: useEffect triggered!');
     console.log('🏠 Home: Movies loaded:', movies.length, 'Loading:', loading, 'Error:', error);
   }, [movies.length, loading, error]);
-  const { movies: searchResults, searchMovies, clearSearch, loading: searchLoading } = useMovieSearch();
+  const { movies: searchResults, searchMovies, clearSearch, loading: searchLoading, facets } = useMovieSearch();
 
   const handleTestAPI = async () => {
     console.log('🏠 Home: Testing API directly...');
@@ -101,8 +111,10 @@ export default function Home() {
 
 
 
-  const handleSearch = async (filters: SearchFilters) => {
-    if (!filters.query && !filters.year && !filters.language && !filters.quality) {
+  // Stable, so SearchBar's debounce doesn't search again on every render
+  const handleSearch = useCallback(async (filters: SearchFilters) => {
+    const { query, ...facetFilters } = filters;
+    if (!query && !Object.values(facetFilters).some(values => values && values.length > 0)) {
       setIsSearching(false);
       clearSearch();
       return;
@@ -110,12 +122,12 @@ export default function Home() {
 
     setIsSearching(true);
     await searchMovies(filters);
-  };
+  }, [searchMovies, clearSearch]);
 
-  const handleClearSearch = () => {
+  const handleClearSearch = useCallback(() => {
     setIsSearching(false);
     clearSearch();
-  };
+  }, [clearSearch]);
 
   const handleRefresh = async () => {
     await refresh();
@@ -140,8 +152,9 @@ export default function Home() {
           onClear={handleClearSearch}
           onRefresh={handleRefresh}
           loading={loading}
-          totalMovies={displayMovies.length}
+          totalMovies={isSearching ? displayMovies.length : total}
           lastUpdated={lastUpdated}
+          facets={facets}
         />
         {/* Test Buttons */}
         <div className="mt-4 flex gap-4">
@@ -200,6 +213,26 @@ export default function Home() {
         </div>
       </div>
 
+      {/* Continue Watching */}
+      {!isSearching && <ContinueWatching />}
+
+      {!isSearching && (
+        <div className="flex justify-end mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Sort by
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as MovieSort)}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
       {/* Content */}
       {displayLoading ? (
         <LoadingSpinner size="lg" text="Loading movies..." />
@@ -210,11 +243,24 @@ export default function Home() {
           onRetry={refetch}
         />
       ) : (
-        <MovieGrid
-          movies={displayMovies}
-          loading={false}
-          error={null}
-        />
+        <>
+          <MovieGrid
+            movies={displayMovies}
+            loading={false}
+            error={null}
+          />
+          {!isSearching && hasMore && (
+            <div className="flex justify-center mt-8">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+              >
+                {loadingMore ? 'Loading...' : `Load more (${total - movies.length} left)`}
+              </button>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Series } from '@/types/movie';
+import MovieAPI from '@/lib/api';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { ErrorMessage } from '@/components/ErrorBoundary';
+import SeriesDetailsPage from '@/components/SeriesDetailsPage';
+
+interface SeriesDetailsClientProps {
+  seriesId: string;
+}
+
+export default function SeriesDetailsClient({ seriesId }: SeriesDetailsClientProps) {
+  const router = useRouter();
+  const [series, setSeries] = useState<Series | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!seriesId) {
+      setError('Series ID is required');
+      setLoading(false);
+      return;
+    }
+
+    const fetchSeries = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        console.log(`📺 Fetching series details for ID: ${seriesId}`);
+
+        const seriesData = await MovieAPI.getSeries(seriesId);
+        setSeries(seriesData);
+      } catch (err) {
+        console.error('❌ Error fetching series:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load series details');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSeries();
+  }, [seriesId]);
+
+  const handleBack = () => {
+    router.back();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <LoadingSpinner size="lg" text="Loading series details..." />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        <ErrorMessage
+          title="Failed to Load Series"
+          message={error}
+          onRetry={() => window.location.reload()}
+          showBackButton={true}
+          onBack={handleBack}
+        />
+      </div>
+    );
+  }
+
+  if (!series) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        <ErrorMessage
+          title="Series Not Found"
+          message="The requested series could not be found."
+          showBackButton={true}
+          onBack={handleBack}
+        />
+      </div>
+    );
+  }
+
+  return <SeriesDetailsPage series={series} onBack={handleBack} />;
+}
@@ -0,0 +1,36 @@
+import { Metadata } from 'next';
+import SeriesDetailsClient from './SeriesDetailsClient';
+import MovieAPI from '@/lib/api';
+
+interface Props {
+  params: { id: string };
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  try {
+    const series = await MovieAPI.getSeries(params.id);
+    const seasonsText = `${series.seasonCount} season${series.seasonCount === 1 ? '' : 's'}`;
+
+    return {
+      title: `${series.title} (${series.year || 'Unknown'}) - Discovery Movies`,
+      description: series.description || `Watch and download ${series.title}, ${seasonsText}, ${series.episodeCount} episodes. ${series.genres?.join(', ') || 'TV Series'}.`,
+      keywords: [series.title, series.year, ...(series.genres || []), 'tv series', 'episodes', 'stream', 'download'].filter(Boolean).join(', '),
+      openGraph: {
+        title: `${series.title} (${series.year || 'Unknown'})`,
+        description: series.description || `Watch ${series.title}, ${seasonsText}`,
+        images: series.poster ? [{ url: series.poster, alt: series.title }] : [],
+        type: 'video.tv_show',
+      },
+    };
+  } catch {
+    return {
+      title: 'Series Details - Discovery Movies',
+      description: 'Stream and download TV series from Discovery FTP',
+    };
+  }
+}
+
+export default function SeriesPage({ params }: Props) {
+  return <SeriesDetailsClient seriesId={params.id} />;
+}
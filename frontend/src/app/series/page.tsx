@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { Tv, Layers } from 'lucide-react';
+import { SeriesSummary } from '@/types/movie';
+import MovieAPI from '@/lib/api';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { ErrorMessage } from '@/components/ErrorBoundary';
+
+export default function SeriesIndexPage() {
+  const [series, setSeries] = useState<SeriesSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSeries = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSeries(await MovieAPI.getAllSeries());
+    } catch (err) {
+      console.error('❌ Error fetching series:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load series');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSeries();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <LoadingSpinner size="lg" text="Loading series..." />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        <ErrorMessage title="Failed to Load Series" message={error} onRetry={fetchSeries} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-6 flex items-center gap-3">
+          <Tv className="w-8 h-8 text-blue-400" />
+          TV Series
+        </h1>
+
+        {series.length === 0 ? (
+          <p className="text-gray-400">No series have been scraped yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+            {series.map((item) => (
+              <Link key={item.id} href={`/series/${item.id}`} className="block group">
+                <div className="relative aspect-[2/3] bg-gray-800 rounded-lg overflow-hidden">
+                  {item.poster ? (
+                    <Image
+                      src={item.poster}
+                      alt={item.title}
+                      fill
+                      className="object-cover group-hover:scale-105 transition-transform"
+                      sizes="(max-width: 640px) 50vw, 16vw"
+                      unoptimized={item.poster.includes('discoveryftp.net') || item.poster.includes('proxy/poster')}
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <Tv className="w-12 h-12 text-gray-600" />
+                    </div>
+                  )}
+                </div>
+                <div className="mt-2">
+                  <div className="font-medium truncate group-hover:text-blue-400 transition-colors">{item.title}</div>
+                  <div className="text-xs text-gray-400 flex items-center gap-1">
+                    <Layers className="w-3 h-3" />
+                    {item.seasonCount} season{item.seasonCount === 1 ? '' : 's'} • {item.episodeCount} episodes
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
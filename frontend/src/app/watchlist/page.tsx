@@ -0,0 +1,180 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { Bookmark, Download, FolderPlus, Trash2, Upload } from 'lucide-react';
+import { Movie } from '@/types/movie';
+import { useMovies } from '@/hooks/useMovies';
+import { useWatchlist } from '@/hooks/useWatchlist';
+import { MY_LIST_ID, resolveWatchlistItem } from '@/utils/watchlist';
+import MovieGrid from '@/components/MovieGrid';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { ErrorMessage } from '@/components/ErrorBoundary';
+
+export default function WatchlistPage() {
+  const { movies, loading, error, refetch } = useMovies();
+  const { lists, createList, deleteList, exportLists, importLists } = useWatchlist();
+  const [selectedListId, setSelectedListId] = useState(MY_LIST_ID);
+  const [newListName, setNewListName] = useState('');
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedList = lists.find(list => list.id === selectedListId) ?? lists[0];
+
+  // Items whose movie left the catalog are counted instead of shown
+  const { listMovies, missing } = useMemo(() => {
+    const found: Movie[] = [];
+    let notFound = 0;
+    selectedList?.items.forEach((item) => {
+      const movie = resolveWatchlistItem(item, movies);
+      if (movie) found.push(movie);
+      else notFound++;
+    });
+    return { listMovies: found, missing: notFound };
+  }, [selectedList, movies]);
+
+  const handleCreateList = () => {
+    if (!newListName.trim()) return;
+    createList(newListName);
+    setNewListName('');
+  };
+
+  const handleDeleteList = () => {
+    if (!selectedList || selectedList.id === MY_LIST_ID) return;
+    if (!window.confirm(`Delete the collection "${selectedList.name}"?`)) return;
+
+    deleteList(selectedList.id);
+    setSelectedListId(MY_LIST_ID);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(exportLists(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `watchlists-${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { imported, unmatched } = importLists(JSON.parse(await file.text()), movies);
+      setImportStatus(`Imported ${imported} titles${unmatched > 0 ? `, ${unmatched} of them not in the catalog right now` : ''}`);
+    } catch (err) {
+      console.error('Failed to import watchlists:', err);
+      setImportStatus(err instanceof Error ? err.message : 'Failed to import the file');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold flex items-center gap-3">
+          <Bookmark className="w-8 h-8 text-blue-400" />
+          My List
+        </h1>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={loading}
+            className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {importStatus && (
+        <div className="mb-6 p-3 bg-blue-900/20 border border-blue-500/30 rounded-lg">
+          <p className="text-blue-400 text-sm">{importStatus}</p>
+        </div>
+      )}
+
+      {/* Lists */}
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {lists.map(list => (
+          <button
+            key={list.id}
+            onClick={() => setSelectedListId(list.id)}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+              list.id === selectedList?.id
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            {list.name} <span className="opacity-70">({list.items.length})</span>
+          </button>
+        ))}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreateList();
+          }}
+          className="flex gap-1"
+        >
+          <input
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+            placeholder="New collection"
+            className="bg-gray-900 border border-gray-700 rounded-full px-4 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!newListName.trim()}
+            className="p-2 rounded-full bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white"
+            title="Create collection"
+          >
+            <FolderPlus className="w-4 h-4" />
+          </button>
+        </form>
+
+        {selectedList && selectedList.id !== MY_LIST_ID && (
+          <button
+            onClick={handleDeleteList}
+            className="ml-auto flex items-center gap-2 text-red-400 hover:text-red-300 text-sm"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete collection
+          </button>
+        )}
+      </div>
+
+      {missing > 0 && (
+        <p className="text-sm text-gray-400 mb-4">
+          {missing} {missing === 1 ? 'title is' : 'titles are'} no longer in the catalog.
+        </p>
+      )}
+
+      {loading ? (
+        <LoadingSpinner size="lg" text="Loading movies..." />
+      ) : error ? (
+        <ErrorMessage title="Failed to Load Movies" message={error} onRetry={refetch} />
+      ) : (
+        <MovieGrid movies={listMovies} loading={false} error={null} />
+      )}
+    </div>
+  );
+}
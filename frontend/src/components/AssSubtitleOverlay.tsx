@@ -0,0 +1,78 @@
+'use client';
+
+import { RefObject, useEffect, useRef } from 'react';
+import { AssScript, AssViewport, renderAssFrame } from '@/utils/assRenderer';
+
+interface AssSubtitleOverlayProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  script: AssScript;
+  // Added to the video's current time to get the script time
+  timeOffset?: number;
+}
+
+/**
+ * Draws an ASS/SSA script over a video on a canvas of the same size,
+ * redrawing on every animation frame in which the time or size changed
+ */
+export default function AssSubtitleOverlay({ videoRef, script, timeOffset = 0 }: AssSubtitleOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let frame = 0;
+    let lastTime = -1;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const video = videoRef.current;
+      if (!video) return;
+
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * ratio);
+      const height = Math.round(canvas.clientHeight * ratio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+        lastTime = -1;
+      }
+
+      const time = video.currentTime + timeOffset;
+      if (time === lastTime) return;
+      lastTime = time;
+
+      renderAssFrame(ctx, script, time, getVideoViewport(video, width, height));
+    };
+
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    };
+  }, [videoRef, script, timeOffset]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+}
+
+/**
+ * The video is letterboxed inside its element; subtitles are laid out on the picture
+ */
+function getVideoViewport(video: HTMLVideoElement, width: number, height: number): AssViewport {
+  if (!video.videoWidth || !video.videoHeight) {
+    return { x: 0, y: 0, width, height };
+  }
+
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const pictureWidth = video.videoWidth * scale;
+  const pictureHeight = video.videoHeight * scale;
+
+  return {
+    x: (width - pictureWidth) / 2,
+    y: (height - pictureHeight) / 2,
+    width: pictureWidth,
+    height: pictureHeight
+  };
+}
@@ -1,9 +1,12 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { Play, Pause, Volume2, VolumeX, Maximize, Minimize, X, ChevronUp } from 'lucide-react';
 import { clsx } from 'clsx';
 import { useVideoPlayer } from '@/contexts/VideoPlayerContext';
+import { usePlayerEngine } from '@/hooks/usePlayerEngine';
+import { createHotkeysPlugin } from '@/player/plugins/hotkeys';
+import { DownloadUrl } from '@/types/movie';
 
 interface CollapsibleVideoPlayerProps {
   /** Initial collapsed state */
@@ -23,15 +26,24 @@ export default function CollapsibleVideoPlayer({
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControls, setShowControls] = useState(true);
   
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const [plugins] = useState(() => [createHotkeysPlugin()]);
+  const { engine, videoRef, elementRef } = usePlayerEngine(plugins);
   const containerRef = useRef<HTMLDivElement>(null);
   const controlsTimeoutRef = useRef<NodeJS.Timeout>();
 
-  // Handle video events
+  // The engine plays the stream, falling back from the proxy to the file itself
+  const sources = useMemo<DownloadUrl[]>(() => {
+    if (!state.videoSrc) return [];
+    const format = state.videoSrc.split('?')[0].split('.').pop() || 'mp4';
+    return [{ url: state.videoSrc, quality: 'Auto', format }];
+  }, [state.videoSrc]);
+
   useEffect(() => {
-    const video = videoRef.current;
-    if (!video) return;
+    engine.load(sources);
+  }, [engine, sources]);
 
+  // The element only exists while expanded, so the listeners follow it
+  useEffect(() => engine.onVideo((video) => {
     const handleTimeUpdate = () => setCurrentTime(video.currentTime);
     const handleDurationChange = () => setDuration(video.duration);
     const handlePlay = () => setIsPlaying(true);
@@ -54,7 +66,7 @@ export default function CollapsibleVideoPlayer({
       video.removeEventListener('pause', handlePause);
       video.removeEventListener('volumechange', handleVolumeChange);
     };
-  }, []);
+  }), [engine]);
 
   // Auto-hide controls
   useEffect(() => {
@@ -81,7 +93,7 @@ export default function CollapsibleVideoPlayer({
   }, [isCollapsed, isPlaying]);
 
   const togglePlayPause = () => {
-    const video = videoRef.current;
+    const video = elementRef.current;
     if (!video) return;
 
     if (isPlaying) {
@@ -92,13 +104,13 @@ export default function CollapsibleVideoPlayer({
   };
 
   const toggleMute = () => {
-    const video = videoRef.current;
+    const video = elementRef.current;
     if (!video) return;
     video.muted = !video.muted;
   };
 
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const video = videoRef.current;
+    const video = elementRef.current;
     if (!video) return;
     const newVolume = parseFloat(e.target.value);
     video.volume = newVolume;
@@ -106,10 +118,8 @@ export default function CollapsibleVideoPlayer({
   };
 
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const video = videoRef.current;
-    if (!video) return;
     const newTime = parseFloat(e.target.value);
-    video.currentTime = newTime;
+    engine.seek(newTime);
     setCurrentTime(newTime);
   };
 
@@ -139,14 +149,14 @@ export default function CollapsibleVideoPlayer({
   const handleCollapse = () => {
     setIsCollapsed(true);
     // Pause video when collapsing
-    if (videoRef.current && isPlaying) {
-      videoRef.current.pause();
+    if (elementRef.current && isPlaying) {
+      elementRef.current.pause();
     }
   };
 
   const handleClose = () => {
-    if (videoRef.current && isPlaying) {
-      videoRef.current.pause();
+    if (elementRef.current && isPlaying) {
+      elementRef.current.pause();
     }
     hidePlayer();
   };
@@ -212,7 +222,6 @@ export default function CollapsibleVideoPlayer({
             <video
               ref={videoRef}
               className="w-full h-full object-contain"
-              src={state.videoSrc}
               poster={state.poster}
               onClick={togglePlayPause}
             />
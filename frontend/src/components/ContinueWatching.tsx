@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { History } from 'lucide-react';
+import { Movie } from '@/types/movie';
+import { useWatchProgress } from '@/hooks/useWatchProgress';
+import MovieAPI from '@/lib/api';
+import MovieCard from './MovieCard';
+
+// Cards shown in the row
+const MAX_ITEMS = 12;
+
+/**
+ * The movies stopped partway through, most recent first; nothing while there are none.
+ * Fetches just those movies, since the page around it only loads the catalog a page at a time.
+ */
+export default function ContinueWatching() {
+  const { inProgress } = useWatchProgress();
+  const [movies, setMovies] = useState<Movie[]>([]);
+
+  const recent = useMemo(() => inProgress.slice(0, MAX_ITEMS), [inProgress]);
+  const idsKey = recent.map(entry => entry.movieId).join(',');
+
+  useEffect(() => {
+    if (!idsKey) {
+      setMovies([]);
+      return;
+    }
+
+    let cancelled = false;
+    MovieAPI.getMovies({ ids: idsKey.split(',') })
+      .then(({ movies }) => {
+        if (!cancelled) setMovies(movies);
+      })
+      .catch((error) => {
+        console.error('Failed to load Continue Watching:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey]);
+
+  const items = useMemo(() => {
+    const byId = new Map(movies.map(movie => [movie.id, movie]));
+    return recent
+      .map(entry => ({ entry, movie: byId.get(entry.movieId) }))
+      .filter((item): item is { entry: typeof item.entry; movie: Movie } => Boolean(item.movie));
+  }, [movies, recent]);
+
+  if (items.length === 0) return null;
+
+  return (
+    <section className="mb-8">
+      <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+        <History className="w-5 h-5" />
+        Continue Watching
+      </h2>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {items.map(({ entry, movie }) => (
+          <div key={movie.id} className="w-40 flex-shrink-0">
+            <MovieCard
+              movie={movie}
+              progress={entry.duration ? entry.position / entry.duration : undefined}
+            />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
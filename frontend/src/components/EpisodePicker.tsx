@@ -0,0 +1,87 @@
+'use client';
+
+import { Season, Episode } from '@/types/movie';
+import { Play, Film } from 'lucide-react';
+
+interface EpisodePickerProps {
+  seasons: Season[];
+  selectedSeason: number;
+  currentEpisodeId: string | null;
+  onSeasonChange: (seasonNumber: number) => void;
+  onEpisodeSelect: (episode: Episode) => void;
+}
+
+export default function EpisodePicker({
+  seasons,
+  selectedSeason,
+  currentEpisodeId,
+  onSeasonChange,
+  onEpisodeSelect
+}: EpisodePickerProps) {
+  const season = seasons.find(s => s.seasonNumber === selectedSeason) || seasons[0];
+
+  if (!season) {
+    return (
+      <div className="bg-gray-900 rounded-lg p-6 text-center text-gray-400">
+        No episodes available yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4">
+      {/* Season Tabs */}
+      <div className="flex flex-wrap gap-1 mb-4">
+        {seasons.map((s) => (
+          <button
+            key={s.seasonNumber}
+            onClick={() => onSeasonChange(s.seasonNumber)}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              s.seasonNumber === season.seasonNumber
+                ? 'bg-blue-600 text-white'
+                : 'text-gray-400 hover:text-white hover:bg-gray-800'
+            }`}
+          >
+            {s.title}
+          </button>
+        ))}
+      </div>
+
+      {/* Episode List */}
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {season.episodes.map((episode) => {
+          const isCurrent = episode.id === currentEpisodeId;
+          const source = episode.downloadUrls[0];
+
+          return (
+            <button
+              key={episode.id}
+              onClick={() => onEpisodeSelect(episode)}
+              className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors ${
+                isCurrent ? 'bg-blue-900/40 border border-blue-500/50' : 'bg-gray-800 hover:bg-gray-700'
+              }`}
+            >
+              <div className="w-8 text-center text-gray-400 font-medium">{episode.episodeNumber}</div>
+              <div className="flex-1 min-w-0">
+                <div className={`font-medium truncate ${isCurrent ? 'text-blue-400' : 'text-white'}`}>
+                  {episode.title}
+                </div>
+                {source && (
+                  <div className="text-xs text-gray-400 truncate">
+                    {source.quality} • {source.format.toUpperCase()}
+                    {episode.downloadUrls.length > 1 && ` • ${episode.downloadUrls.length} files`}
+                  </div>
+                )}
+              </div>
+              {isCurrent ? (
+                <Film className="w-4 h-4 text-blue-400" />
+              ) : (
+                <Play className="w-4 h-4 text-gray-400" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
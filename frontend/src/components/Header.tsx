@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Film, Wifi, WifiOff, Clock, Database } from 'lucide-react';
+import Link from 'next/link';
+import { Film, Tv, Bookmark, Wifi, WifiOff, Clock, Database } from 'lucide-react';
 import MovieAPI from '@/lib/api';
 
 export default function Header() {
@@ -70,6 +71,18 @@ export default function Header() {
 
           {/* Status Indicators */}
           <div className="flex items-center gap-4">
+            {/* Series Link */}
+            <Link href="/series" className="flex items-center gap-1 text-gray-300 hover:text-white transition-colors">
+              <Tv className="w-4 h-4" />
+              <span className="text-xs hidden sm:inline">Series</span>
+            </Link>
+
+            {/* My List Link */}
+            <Link href="/watchlist" className="flex items-center gap-1 text-gray-300 hover:text-white transition-colors">
+              <Bookmark className="w-4 h-4" />
+              <span className="text-xs hidden sm:inline">My List</span>
+            </Link>
+
             {/* Connection Status */}
             <div className="flex items-center gap-2">
               {status.isOnline ? (
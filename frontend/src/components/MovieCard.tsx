@@ -1,16 +1,21 @@
 'use client';
 
 import { Movie } from '@/types/movie';
-import { Play, Star } from 'lucide-react';
+import { CheckCircle, Play, Star } from 'lucide-react';
 import { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
+import WatchlistButton from './WatchlistButton';
+import { resolvePosterUrl } from '@/utils/poster';
 
 interface MovieCardProps {
   movie: Movie;
   onClick?: () => void; // Made optional for backward compatibility
+  // Share of the movie played so far, shown as a bar under the poster
+  progress?: number;
+  watched?: boolean;
 }
 
-export default function MovieCard({ movie, onClick }: MovieCardProps) {
+export default function MovieCard({ movie, onClick, progress, watched }: MovieCardProps) {
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
   const [srcIndex, setSrcIndex] = useState(0);
@@ -25,20 +30,7 @@ export default function MovieCard({ movie, onClick }: MovieCardProps) {
   }, [movie.poster]);
 
   // Resolve poster URL to be relative to current origin to avoid hardcoded ports
-  const posterUrl = useMemo(() => {
-    if (!movie.poster) return '';
-    try {
-      // If backend provided absolute localhost poster API, make it relative
-      const replaced = movie.poster.replace(/^https?:\/\/localhost:\\d+\/api\/poster/i, '/api/poster');
-      // If it's a direct discoveryftp url or backend proxy, prefer routing through our frontend poster API
-      if (/discoveryftp\.net/i.test(replaced) && !/\/api\/poster\?url=/i.test(replaced)) {
-        return `/api/poster?url=${encodeURIComponent(replaced)}`;
-      }
-      return replaced;
-    } catch {
-      return movie.poster;
-    }
-  }, [movie.poster]);
+  const posterUrl = useMemo(() => resolvePosterUrl(movie.poster), [movie.poster]);
 
   // Build robust fallback sources to ensure poster.jpg shows
   const posterCandidates = useMemo(() => {
@@ -161,6 +153,24 @@ export default function MovieCard({ movie, onClick }: MovieCardProps) {
             {movie.rating}
           </div>
         )}
+
+        {/* My List */}
+        <WatchlistButton movie={movie} variant="icon" className="absolute bottom-2 left-2" />
+
+        {/* Watched Badge */}
+        {watched && (
+          <div className="absolute bottom-2 right-2 bg-green-600 text-white text-xs font-bold px-2 py-1 rounded flex items-center gap-1">
+            <CheckCircle className="w-3 h-3" />
+            Watched
+          </div>
+        )}
+
+        {/* Watch Progress */}
+        {progress !== undefined && (
+          <div className="absolute bottom-0 inset-x-0 h-1 bg-gray-700">
+            <div className="h-full bg-red-600" style={{ width: `${Math.min(progress, 1) * 100}%` }} />
+          </div>
+        )}
       </div>
 
       {/* Movie Info */}
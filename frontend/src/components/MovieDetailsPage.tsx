@@ -18,6 +18,7 @@ import {
 import Image from 'next/image';
 import MovieStreamingSection from './MovieStreamingSection';
 import DownloadSection from './DownloadSection';
+import WatchlistButton from './WatchlistButton';
 import { EXTERNAL_PLAYERS, launchInExternalPlayer } from '@/utils/externalPlayerIntegration';
 
 interface MovieDetailsPageProps {
@@ -265,6 +266,9 @@ export default function MovieDetailsPage({ movie, onBack }: MovieDetailsPageProp
                   </button>
                 </div>
               )}
+
+              {/* My List and collections */}
+              <WatchlistButton movie={movie} />
             </div>
           </div>
         </div>
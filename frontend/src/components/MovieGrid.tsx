@@ -3,6 +3,7 @@
 import { Movie } from '@/types/movie';
 import MovieCard from './MovieCard';
 import { Film } from 'lucide-react';
+import { useWatchProgress } from '@/hooks/useWatchProgress';
 
 interface MovieGridProps {
   movies: Movie[];
@@ -12,6 +13,8 @@ interface MovieGridProps {
 }
 
 export default function MovieGrid({ movies, onMovieClick, loading, error }: MovieGridProps) {
+  const { isWatched } = useWatchProgress();
+
   if (loading) {
     return (
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
@@ -68,6 +71,7 @@ export default function MovieGrid({ movies, onMovieClick, loading, error }: Movi
         <MovieCard
           key={movie.id}
           movie={movie}
+          watched={isWatched(movie.id)}
           onClick={onMovieClick ? () => onMovieClick(movie) : undefined}
         />
       ))}
@@ -5,6 +5,7 @@ import { Dialog, Transition } from '@headlessui/react';
 import { X, Download, Star, Calendar, Globe, Play, FileText } from 'lucide-react';
 import { Movie } from '@/types/movie';
 import ClientOnlyVideoPlayer from './ClientOnlyVideoPlayer';
+import WatchlistButton from './WatchlistButton';
 import Image from 'next/image';
 
 interface MovieModalProps {
@@ -72,12 +73,15 @@ export default function MovieModal({ movie, isOpen, onClose }: MovieModalProps)
                   <Dialog.Title as="h3" className="text-2xl font-bold text-white">
                     {formatTitle(movie.title)}
                   </Dialog.Title>
-                  <button
-                    onClick={onClose}
-                    className="text-gray-400 hover:text-white transition-colors"
-                  >
-                    <X className="w-6 h-6" />
-                  </button>
+                  <div className="flex items-center gap-4">
+                    <WatchlistButton movie={movie} />
+                    <button
+                      onClick={onClose}
+                      className="text-gray-400 hover:text-white transition-colors"
+                    >
+                      <X className="w-6 h-6" />
+                    </button>
+                  </div>
                 </div>
 
                 <div className="p-6 space-y-6">
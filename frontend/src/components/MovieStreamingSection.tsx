@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Movie, DownloadUrl } from '@/types/movie';
 import { 
   Play, 
@@ -8,11 +8,17 @@ import {
   ExternalLink, 
   Monitor,
   Download,
-  Info
+  Info,
+  RotateCcw,
+  CheckCircle
 } from 'lucide-react';
-import { analyzeMKVSource, checkNativeMKVSupport } from '@/utils/mkvDetector';
+import { analyzeMKVSource, checkNativeMKVSupport, MKVAnalysis, MKVCapabilities } from '@/utils/mkvDetector';
 import { EXTERNAL_PLAYERS, launchInExternalPlayer } from '@/utils/externalPlayerIntegration';
 import UniversalVideoPlayer from './UniversalVideoPlayer';
+import PlayabilityBadge from './PlayabilityBadge';
+import { usePlayability } from '@/hooks/usePlayability';
+import { useWatchProgress } from '@/hooks/useWatchProgress';
+import { formatPlaybackTime, isResumable } from '@/utils/watchProgress';
 
 interface MovieStreamingSectionProps {
   movie: Movie;
@@ -21,20 +27,42 @@ interface MovieStreamingSectionProps {
 export default function MovieStreamingSection({ movie }: MovieStreamingSectionProps) {
   const [selectedSource, setSelectedSource] = useState(0);
   const [showPlayer, setShowPlayer] = useState(false);
-  const [mkvAnalysis, setMkvAnalysis] = useState<any>(null);
-  const [browserSupport, setBrowserSupport] = useState<any>(null);
+  const [mkvAnalysis, setMkvAnalysis] = useState<MKVAnalysis | null>(null);
+  const [browserSupport, setBrowserSupport] = useState<MKVCapabilities | null>(null);
   const [launchStatus, setLaunchStatus] = useState<string | null>(null);
+  const [startTime, setStartTime] = useState<number | undefined>(undefined);
+  const { getProgress, getMovieProgress, isWatched } = useWatchProgress();
+  const latestProgress = getMovieProgress(movie.id);
+  const restoredSource = useRef(false);
+
+  const { playability, checking } = usePlayability(movie.downloadUrls || []);
+  // The player reloads when its sources change, so they keep their identity between renders
+  const playerSources = useMemo(() => {
+    const source = movie.downloadUrls?.[selectedSource];
+    return source ? [source] : [];
+  }, [movie.downloadUrls, selectedSource]);
 
   useEffect(() => {
     if (movie.downloadUrls.length > 0) {
       const source = movie.downloadUrls[selectedSource];
-      const analysis = analyzeMKVSource(source);
-      const support = checkNativeMKVSupport();
+      // Uses the real tracks once the source has been probed, the file name until then
+      const sourcePlayability = playability[source.url];
+      const analysis = analyzeMKVSource(source, sourcePlayability);
+      const support = sourcePlayability?.probe ? analysis.capabilities : checkNativeMKVSupport();
       
       setMkvAnalysis(analysis);
       setBrowserSupport(support);
     }
-  }, [selectedSource, movie.downloadUrls]);
+  }, [selectedSource, movie.downloadUrls, playability]);
+
+  // Opens on the source last played, once its progress has been read
+  useEffect(() => {
+    if (restoredSource.current || !latestProgress) return;
+    restoredSource.current = true;
+
+    const index = movie.downloadUrls?.findIndex(source => source.url === latestProgress.sourceUrl) ?? -1;
+    if (index >= 0 && !showPlayer) setSelectedSource(index);
+  }, [latestProgress, movie.downloadUrls, showPlayer]);
 
   const handleDownload = (url: string, filename?: string) => {
     const link = document.createElement('a');
@@ -91,6 +119,14 @@ export default function MovieStreamingSection({ movie }: MovieStreamingSectionPr
   }
 
   const currentSource = movie.downloadUrls[selectedSource];
+  const currentProgress = getProgress(movie.id, currentSource.url);
+  const resumePosition = isResumable(currentProgress) ? currentProgress.position : null;
+  const watched = isWatched(movie.id);
+
+  const startStreaming = (from?: number) => {
+    setStartTime(from);
+    setShowPlayer(true);
+  };
   const isMKV = mkvAnalysis?.isMKV;
   const needsExternalPlayer = isMKV && (!browserSupport?.canPlayNatively || browserSupport?.recommendedAction === 'external');
 
@@ -120,6 +156,9 @@ export default function MovieStreamingSection({ movie }: MovieStreamingSectionPr
                 {source.label && (
                   <div className="text-sm text-gray-400">{source.label}</div>
                 )}
+                <div className="mt-1">
+                  <PlayabilityBadge playability={playability[source.url]} checking={checking} />
+                </div>
               </button>
             ))}
           </div>
@@ -145,6 +184,17 @@ export default function MovieStreamingSection({ movie }: MovieStreamingSectionPr
                   This file includes embedded subtitles.
                 </p>
               )}
+              {mkvAnalysis?.probe && (
+                <p className="text-amber-200/80 text-xs mt-2">
+                  {[
+                    mkvAnalysis.probe.video && `${mkvAnalysis.probe.video.codec} ${mkvAnalysis.probe.video.resolution || ''}`.trim(),
+                    ...mkvAnalysis.probe.audioTracks.map(track =>
+                      `${track.codec}${track.channels ? ` ${track.channels}ch` : ''}${track.language ? ` (${track.language})` : ''}`
+                    ),
+                    mkvAnalysis.probe.subtitleTracks.length > 0 && `${mkvAnalysis.probe.subtitleTracks.length} subtitle tracks`
+                  ].filter(Boolean).join(' • ')}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -155,21 +205,45 @@ export default function MovieStreamingSection({ movie }: MovieStreamingSectionPr
         {showPlayer ? (
           <div className="p-4">
             <UniversalVideoPlayer
-              sources={[currentSource]}
+              sources={playerSources}
               poster={movie.poster}
               title={movie.title}
+              movieId={movie.id}
+              sourceIndex={selectedSource}
+              subtitles={movie.subtitles}
+              startTime={startTime}
               onDownload={handleDownload}
             />
           </div>
         ) : (
-          <div className="aspect-video bg-gray-800 flex items-center justify-center">
-            <button
-              onClick={() => setShowPlayer(true)}
-              className="flex items-center gap-3 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
-            >
-              <Play className="w-5 h-5" />
-              Start Streaming
-            </button>
+          <div className="aspect-video bg-gray-800 flex flex-col items-center justify-center gap-3">
+            <div className="flex flex-wrap justify-center gap-3">
+              {resumePosition !== null && (
+                <button
+                  onClick={() => startStreaming(resumePosition)}
+                  className="flex items-center gap-3 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+                >
+                  <RotateCcw className="w-5 h-5" />
+                  Resume from {formatPlaybackTime(resumePosition)}
+                </button>
+              )}
+              <button
+                onClick={() => startStreaming()}
+                className={`flex items-center gap-3 text-white px-6 py-3 rounded-lg font-medium transition-colors ${
+                  resumePosition !== null ? 'bg-gray-700 hover:bg-gray-600' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                <Play className="w-5 h-5" />
+                {resumePosition !== null ? 'Start Over' : 'Start Streaming'}
+              </button>
+            </div>
+            {watched && (
+              <span className="flex items-center gap-1 text-sm text-green-400">
+                <CheckCircle className="w-4 h-4" />
+                Watched
+              </span>
+            )}
+            <PlayabilityBadge playability={playability[currentSource.url]} checking={checking} />
           </div>
         )}
       </div>
@@ -0,0 +1,35 @@
+'use client';
+
+import { CheckCircle, VolumeX, ExternalLink, HelpCircle, Loader2 } from 'lucide-react';
+import { Playability } from '@/utils/playability';
+
+interface PlayabilityBadgeProps {
+  playability?: Playability;
+  checking?: boolean;
+}
+
+export default function PlayabilityBadge({ playability, checking = false }: PlayabilityBadgeProps) {
+  if (!playability) {
+    return checking ? (
+      <span className="inline-flex items-center gap-1 text-xs text-gray-400">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Checking playback...
+      </span>
+    ) : null;
+  }
+
+  const styles = {
+    'playable': { className: 'text-green-400', Icon: CheckCircle },
+    'audio-unsupported': { className: 'text-amber-400', Icon: VolumeX },
+    'external': { className: 'text-red-400', Icon: ExternalLink },
+    'unknown': { className: 'text-gray-400', Icon: HelpCircle }
+  };
+  const { className, Icon } = styles[playability.status];
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs ${className}`} title={playability.detail}>
+      <Icon className="w-3 h-3" />
+      {playability.label}
+    </span>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { X } from 'lucide-react';
+import { PlayerEngine } from '@/player/PlayerEngine';
+import { usePlayerEvent } from '@/hooks/usePlayerEngine';
+
+interface PlayerStatsOverlayProps {
+  engine: PlayerEngine;
+  onClose: () => void;
+}
+
+const MODE_LABELS = {
+  hls: 'HLS (packaged by the server)',
+  remux: 'Remux (MKV to MP4 on the server)',
+  proxy: 'Proxied file',
+  direct: 'Direct file'
+};
+
+/**
+ * What the stats plugin samples, in the corner of the player. Its own
+ * component, so the samples don't re-render the whole player.
+ */
+export default function PlayerStatsOverlay({ engine, onClose }: PlayerStatsOverlayProps) {
+  const stats = usePlayerEvent(engine, 'stats', null);
+
+  return (
+    <div className="absolute top-12 left-4 z-30 bg-black bg-opacity-80 text-white text-xs rounded-lg p-3 space-y-1 font-mono max-w-xs">
+      <div className="flex items-center justify-between gap-4 mb-1">
+        <span className="font-sans font-medium">Playback stats</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close stats">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+      {stats ? (
+        <>
+          <p>Mode: {stats.mode ? MODE_LABELS[stats.mode] : '–'}</p>
+          <p>Resolution: {stats.resolution ?? '–'}</p>
+          <p>Buffered: {stats.buffered.toFixed(1)}s</p>
+          <p>Dropped frames: {stats.droppedFrames} / {stats.totalFrames}</p>
+          {stats.bitrate !== null && <p>Bitrate: {(stats.bitrate / 1000000).toFixed(1)} Mbps</p>}
+          {stats.failedAttempts.map((attempt, index) => (
+            <p key={index} className="text-yellow-400">
+              {attempt.mode} failed: {attempt.error}
+            </p>
+          ))}
+        </>
+      ) : (
+        <p className="text-gray-400">Collecting…</p>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
 import { Search, Filter, X, RefreshCw } from 'lucide-react';
-import { SearchFilters } from '@/types/movie';
+import { FacetBucket, FacetName, SearchFacets, SearchFilters } from '@/types/movie';
+import { useSuggestions } from '@/hooks/useSuggestions';
+import { addRecentSearch, clearRecentSearches, readRecentSearches, removeRecentSearch } from '@/utils/recentSearches';
+import SearchSuggestions, { SuggestionItem, suggestionOptionId } from './SearchSuggestions';
 
 interface SearchBarProps {
   onSearch: (filters: SearchFilters) => void;
@@ -11,6 +15,30 @@ interface SearchBarProps {
   loading?: boolean;
   totalMovies?: number;
   lastUpdated?: Date | null;
+  // Counts for the filter chips, from the last search
+  facets?: SearchFacets | null;
+}
+
+type FacetSelection = Partial<Record<FacetName, string[]>>;
+
+const SUGGESTIONS_ID = 'search-suggestions';
+
+const FACET_GROUPS: { name: FacetName; label: string }[] = [
+  { name: 'language', label: 'Language' },
+  { name: 'genre', label: 'Genre' },
+  { name: 'decade', label: 'Decade' },
+  { name: 'year', label: 'Year' },
+  { name: 'quality', label: 'Quality' },
+  { name: 'format', label: 'Format' },
+  { name: 'hasSubtitles', label: 'Subtitles' }
+];
+
+// Chips shown per facet before "more"
+const COLLAPSED_CHIPS = 12;
+
+function chipLabel(facet: FacetName, value: string) {
+  if (facet === 'hasSubtitles') return value === 'true' ? 'With subtitles' : 'Without subtitles';
+  return value;
 }
 
 export default function SearchBar({ 
@@ -19,35 +47,139 @@ export default function SearchBar({
   onRefresh, 
   loading, 
   totalMovies, 
-  lastUpdated 
+  lastUpdated,
+  facets
 }: SearchBarProps) {
+  const router = useRouter();
+  // What is typed, and what the grid was last asked to search for
   const [query, setQuery] = useState('');
+  const [submittedQuery, setSubmittedQuery] = useState('');
+  const [dropdownOpen, setDropdownOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const searchBoxRef = useRef<HTMLDivElement>(null);
+  const { suggestions, loading: suggestionsLoading } = useSuggestions(query);
   const [showFilters, setShowFilters] = useState(false);
-  const [filters, setFilters] = useState<SearchFilters>({});
+  const [filters, setFilters] = useState<FacetSelection>({});
+  const [expandedFacets, setExpandedFacets] = useState<Set<FacetName>>(new Set());
   const [refreshing, setRefreshing] = useState(false);
 
-  // Debounced search
+  const hasFacetFilters = Object.values(filters).some(values => values && values.length > 0);
+
+  // Typing only fetches suggestions; the grid searches once a query is submitted or a filter changes
   useEffect(() => {
     const timer = setTimeout(() => {
-      if (query.trim() || Object.keys(filters).some(key => filters[key as keyof SearchFilters])) {
-        onSearch({ query: query.trim(), ...filters });
+      if (submittedQuery || hasFacetFilters) {
+        onSearch({ query: submittedQuery, ...filters });
       } else {
         onClear();
       }
     }, 300);
 
     return () => clearTimeout(timer);
-  }, [query, filters, onSearch, onClear]);
+  }, [submittedQuery, filters, hasFacetFilters, onSearch, onClear]);
+
+  // Read after mount, so server and client render the same markup
+  useEffect(() => {
+    setRecentSearches(readRecentSearches());
+  }, []);
+
+  useEffect(() => {
+    if (!dropdownOpen) return;
+
+    const handlePointerDown = (e: MouseEvent) => {
+      if (!searchBoxRef.current?.contains(e.target as Node)) setDropdownOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    return () => document.removeEventListener('mousedown', handlePointerDown);
+  }, [dropdownOpen]);
+
+  const trimmedQuery = query.trim();
+  const dropdownItems: SuggestionItem[] = trimmedQuery
+    ? [
+      ...suggestions.map(suggestion => ({ kind: 'movie' as const, suggestion })),
+      { kind: 'search', query: trimmedQuery }
+    ]
+    : recentSearches.map(recent => ({ kind: 'recent' as const, query: recent }));
+
+  const submitQuery = (value: string) => {
+    const trimmed = value.trim();
+    setSubmittedQuery(trimmed);
+    if (trimmed) setRecentSearches(addRecentSearch(trimmed));
+    setDropdownOpen(false);
+    setActiveIndex(-1);
+  };
 
-  const handleFilterChange = (key: keyof SearchFilters, value: string) => {
-    setFilters(prev => ({
-      ...prev,
-      [key]: value || undefined
-    }));
+  const selectItem = (item: SuggestionItem) => {
+    if (item.kind === 'movie') {
+      if (trimmedQuery) setRecentSearches(addRecentSearch(trimmedQuery));
+      setDropdownOpen(false);
+      router.push(`/movie/${item.suggestion.id}`);
+    } else {
+      setQuery(item.query);
+      submitQuery(item.query);
+    }
+  };
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setDropdownOpen(true);
+    setActiveIndex(-1);
+    if (!value.trim()) setSubmittedQuery('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (dropdownItems.length === 0) return;
+      e.preventDefault();
+      setDropdownOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      // Wraps through "nothing highlighted" back to the input
+      setActiveIndex(index => {
+        const next = index + step;
+        if (next < -1) return dropdownItems.length - 1;
+        if (next >= dropdownItems.length) return -1;
+        return next;
+      });
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      // Enter opens the highlighted title, or the best match when nothing is highlighted;
+      // with the list closed it searches the grid
+      const highlighted = dropdownOpen && activeIndex >= 0 ? dropdownItems[activeIndex] : undefined;
+      const item = highlighted ?? (dropdownOpen && trimmedQuery ? dropdownItems[0] : undefined);
+      if (item) selectItem(item);
+      else submitQuery(query);
+    } else if (e.key === 'Escape') {
+      setDropdownOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  // Several values can be chosen within a facet
+  const toggleFacetValue = (facet: FacetName, value: string) => {
+    setFilters(prev => {
+      const selected = prev[facet] ?? [];
+      return {
+        ...prev,
+        [facet]: selected.includes(value)
+          ? selected.filter(item => item !== value)
+          : [...selected, value]
+      };
+    });
+  };
+
+  // Chosen values stay visible even when nothing matches them any more
+  const bucketsFor = (facet: FacetName): FacetBucket[] => {
+    const buckets = facets?.[facet] ?? [];
+    const missing = (filters[facet] ?? [])
+      .filter(value => !buckets.some(bucket => bucket.value === value))
+      .map(value => ({ value, count: 0 }));
+    return [...missing, ...buckets];
   };
 
   const clearAllFilters = () => {
     setQuery('');
+    setSubmittedQuery('');
     setFilters({});
     setShowFilters(false);
     onClear();
@@ -62,30 +194,53 @@ export default function SearchBar({
     }
   };
 
-  const hasActiveFilters = query.trim() || Object.keys(filters).some(key => filters[key as keyof SearchFilters]);
+  const hasActiveFilters = trimmedQuery || submittedQuery || hasFacetFilters;
+  const showDropdown = dropdownOpen && (dropdownItems.length > 0 || (Boolean(trimmedQuery) && suggestionsLoading));
 
   return (
     <div className="space-y-4">
       {/* Main Search Bar */}
       <div className="flex flex-col sm:flex-row gap-4">
         {/* Search Input */}
-        <div className="relative flex-1">
+        <div ref={searchBoxRef} className="relative flex-1">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
           <input
             type="text"
             placeholder="Search movies..."
             value={query}
-            onChange={(e) => setQuery(e.target.value)}
+            onChange={(e) => handleQueryChange(e.target.value)}
+            onFocus={() => setDropdownOpen(true)}
+            onKeyDown={handleKeyDown}
+            role="combobox"
+            aria-expanded={showDropdown}
+            aria-controls={SUGGESTIONS_ID}
+            aria-autocomplete="list"
+            aria-activedescendant={showDropdown && activeIndex >= 0 ? suggestionOptionId(SUGGESTIONS_ID, activeIndex) : undefined}
             className="w-full bg-gray-800 border border-gray-700 rounded-lg pl-10 pr-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           />
           {query && (
             <button
-              onClick={() => setQuery('')}
+              onClick={() => handleQueryChange('')}
               className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-white"
             >
               <X className="w-5 h-5" />
             </button>
           )}
+          {showDropdown && (
+            <SearchSuggestions
+              id={SUGGESTIONS_ID}
+              items={dropdownItems}
+              activeIndex={activeIndex}
+              loading={suggestionsLoading}
+              onSelect={selectItem}
+              onHighlight={setActiveIndex}
+              onRemoveRecent={(recent) => setRecentSearches(removeRecentSearch(recent))}
+              onClearRecent={() => {
+                clearRecentSearches();
+                setRecentSearches([]);
+              }}
+            />
+          )}
         </div>
 
         {/* Action Buttons */}
@@ -93,7 +248,7 @@ export default function SearchBar({
           <button
             onClick={() => setShowFilters(!showFilters)}
             className={`flex items-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
-              showFilters || Object.keys(filters).some(key => filters[key as keyof SearchFilters])
+              showFilters || hasFacetFilters
                 ? 'bg-blue-600 text-white'
                 : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
             }`}
@@ -127,61 +282,59 @@ export default function SearchBar({
       {showFilters && (
         <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-4">
           <h3 className="text-white font-semibold mb-3">Filter Movies</h3>
-          
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-            {/* Year Filter */}
-            <div>
-              <label className="block text-gray-300 text-sm font-medium mb-2">Year</label>
-              <select
-                value={filters.year || ''}
-                onChange={(e) => handleFilterChange('year', e.target.value)}
-                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="">All Years</option>
-                {Array.from({ length: 10 }, (_, i) => new Date().getFullYear() - i).map(year => (
-                  <option key={year} value={year}>{year}</option>
-                ))}
-              </select>
-            </div>
-
-            {/* Language Filter */}
-            <div>
-              <label className="block text-gray-300 text-sm font-medium mb-2">Language</label>
-              <select
-                value={filters.language || ''}
-                onChange={(e) => handleFilterChange('language', e.target.value)}
-                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="">All Languages</option>
-                <option value="English">English</option>
-                <option value="Hindi">Hindi</option>
-                <option value="Tamil">Tamil</option>
-                <option value="Telugu">Telugu</option>
-                <option value="Malayalam">Malayalam</option>
-                <option value="Kannada">Kannada</option>
-                <option value="Bengali">Bengali</option>
-                <option value="Punjabi">Punjabi</option>
-                <option value="Marathi">Marathi</option>
-              </select>
-            </div>
-
-            {/* Quality Filter */}
-            <div>
-              <label className="block text-gray-300 text-sm font-medium mb-2">Quality</label>
-              <select
-                value={filters.quality || ''}
-                onChange={(e) => handleFilterChange('quality', e.target.value)}
-                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="">All Qualities</option>
-                <option value="4K">4K</option>
-                <option value="1080p">1080p</option>
-                <option value="720p">720p</option>
-                <option value="480p">480p</option>
-                <option value="HD">HD</option>
-              </select>
-            </div>
-          </div>
+
+          {!facets ? (
+            <p className="text-sm text-gray-400">Loading filters...</p>
+          ) : (
+            FACET_GROUPS.map(({ name, label }) => {
+              const buckets = bucketsFor(name);
+              if (buckets.length === 0) return null;
+
+              const expanded = expandedFacets.has(name);
+              const shown = expanded ? buckets : buckets.slice(0, COLLAPSED_CHIPS);
+              const selected = filters[name] ?? [];
+
+              return (
+                <div key={name}>
+                  <div className="text-gray-300 text-sm font-medium mb-2">{label}</div>
+                  <div className="flex flex-wrap gap-2">
+                    {shown.map(bucket => {
+                      const active = selected.includes(bucket.value);
+                      return (
+                        <button
+                          key={bucket.value}
+                          onClick={() => toggleFacetValue(name, bucket.value)}
+                          disabled={!active && bucket.count === 0}
+                          aria-pressed={active}
+                          className={`px-3 py-1 rounded-full text-sm transition-colors disabled:opacity-40 ${
+                            active
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                          }`}
+                        >
+                          {chipLabel(name, bucket.value)}
+                          <span className="ml-1.5 opacity-70">{bucket.count}</span>
+                        </button>
+                      );
+                    })}
+                    {buckets.length > COLLAPSED_CHIPS && (
+                      <button
+                        onClick={() => setExpandedFacets(prev => {
+                          const next = new Set(prev);
+                          if (expanded) next.delete(name);
+                          else next.add(name);
+                          return next;
+                        })}
+                        className="px-3 py-1 text-sm text-blue-400 hover:text-blue-300"
+                      >
+                        {expanded ? 'Less' : `${buckets.length - COLLAPSED_CHIPS} more`}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
         </div>
       )}
 
@@ -0,0 +1,136 @@
+'use client';
+
+import Image from 'next/image';
+import { Clock, Film, Search, X } from 'lucide-react';
+import { MovieSuggestion } from '@/types/movie';
+import { resolvePosterUrl } from '@/utils/poster';
+
+export type SuggestionItem =
+  | { kind: 'movie'; suggestion: MovieSuggestion }
+  // Shows every result in the grid instead of opening one movie
+  | { kind: 'search'; query: string }
+  | { kind: 'recent'; query: string };
+
+interface SearchSuggestionsProps {
+  id: string;
+  items: SuggestionItem[];
+  activeIndex: number;
+  loading?: boolean;
+  onSelect: (item: SuggestionItem) => void;
+  onHighlight: (index: number) => void;
+  onRemoveRecent: (query: string) => void;
+  onClearRecent: () => void;
+}
+
+export function suggestionOptionId(listId: string, index: number) {
+  return `${listId}-option-${index}`;
+}
+
+/**
+ * The dropdown under the search input: title suggestions while typing,
+ * recent searches while the input is empty. Keyboard handling stays with
+ * the input, which owns the focus.
+ */
+export default function SearchSuggestions({
+  id,
+  items,
+  activeIndex,
+  loading,
+  onSelect,
+  onHighlight,
+  onRemoveRecent,
+  onClearRecent
+}: SearchSuggestionsProps) {
+  const showingRecent = items.length > 0 && items[0].kind === 'recent';
+
+  return (
+    <div className="absolute top-full left-0 right-0 mt-2 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-30 overflow-hidden">
+      {showingRecent && (
+        <div className="flex items-center justify-between px-4 pt-3 pb-1 text-xs text-gray-400">
+          <span>Recent searches</span>
+          <button
+            // Keeps the focus in the input
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onClearRecent}
+            className="hover:text-white"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      <ul id={id} role="listbox" className="py-1 max-h-96 overflow-y-auto">
+        {items.map((item, index) => {
+          const active = index === activeIndex;
+          const key = item.kind === 'movie' ? item.suggestion.id : `${item.kind}-${item.query}`;
+
+          return (
+            <li
+              key={key}
+              id={suggestionOptionId(id, index)}
+              role="option"
+              aria-selected={active}
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => onHighlight(index)}
+              onClick={() => onSelect(item)}
+              className={`flex items-center gap-3 px-4 py-2 cursor-pointer ${active ? 'bg-gray-700' : ''}`}
+            >
+              {item.kind === 'movie' && (
+                <>
+                  <div className="relative w-8 h-12 flex-shrink-0 bg-gray-900 rounded overflow-hidden flex items-center justify-center">
+                    {item.suggestion.poster ? (
+                      <Image
+                        src={resolvePosterUrl(item.suggestion.poster)}
+                        alt=""
+                        fill
+                        className="object-cover"
+                        sizes="32px"
+                        unoptimized
+                      />
+                    ) : (
+                      <Film className="w-4 h-4 text-gray-500" />
+                    )}
+                  </div>
+                  <span className="flex-1 min-w-0 truncate text-white">{item.suggestion.title}</span>
+                  {item.suggestion.year && (
+                    <span className="text-sm text-gray-400">{item.suggestion.year}</span>
+                  )}
+                </>
+              )}
+
+              {item.kind === 'search' && (
+                <>
+                  <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <span className="flex-1 min-w-0 truncate text-gray-300">
+                    All results for <span className="text-white">&ldquo;{item.query}&rdquo;</span>
+                  </span>
+                </>
+              )}
+
+              {item.kind === 'recent' && (
+                <>
+                  <Clock className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <span className="flex-1 min-w-0 truncate text-gray-200">{item.query}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemoveRecent(item.query);
+                    }}
+                    className="text-gray-500 hover:text-white"
+                    title="Remove from recent searches"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {loading && items.length <= 1 && !showingRecent && (
+        <p className="px-4 pb-3 text-sm text-gray-400">Looking for titles...</p>
+      )}
+    </div>
+  );
+}
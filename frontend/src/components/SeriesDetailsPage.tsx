@@ -0,0 +1,243 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Series, Episode } from '@/types/movie';
+import {
+  ArrowLeft,
+  Star,
+  Calendar,
+  Globe,
+  FileText,
+  Layers,
+  SkipForward,
+  Tv
+} from 'lucide-react';
+import Image from 'next/image';
+import EpisodePicker from './EpisodePicker';
+import UniversalVideoPlayer from './UniversalVideoPlayer';
+
+interface SeriesDetailsPageProps {
+  series: Series;
+  onBack: () => void;
+}
+
+export default function SeriesDetailsPage({ series, onBack }: SeriesDetailsPageProps) {
+  const [selectedSeason, setSelectedSeason] = useState(series.seasons[0]?.seasonNumber ?? 1);
+  const [currentEpisode, setCurrentEpisode] = useState<Episode | null>(null);
+  const [autoPlayNext, setAutoPlayNext] = useState(true);
+
+  // Episodes in playback order, across season boundaries
+  const playlist = useMemo(
+    () => series.seasons.flatMap(season => season.episodes),
+    [series.seasons]
+  );
+
+  const nextEpisode = useMemo(() => {
+    if (!currentEpisode) return null;
+    const index = playlist.findIndex(episode => episode.id === currentEpisode.id);
+    return index >= 0 ? playlist[index + 1] || null : null;
+  }, [playlist, currentEpisode]);
+
+  const playEpisode = (episode: Episode) => {
+    setCurrentEpisode(episode);
+    setSelectedSeason(episode.seasonNumber);
+  };
+
+  const handleEnded = () => {
+    if (autoPlayNext && nextEpisode) {
+      playEpisode(nextEpisode);
+    }
+  };
+
+  const formatEpisodeCode = (episode: Episode) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `S${pad(episode.seasonNumber)}E${pad(episode.episodeNumber)}`;
+  };
+
+  const handleDownload = (url: string, filename?: string) => {
+    try {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename || series.title;
+      link.target = '_blank';
+      link.rel = 'noopener noreferrer';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+      console.error('Download failed:', error);
+      // Fallback: open in new tab
+      window.open(url, '_blank');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      {/* Header with Back Button */}
+      <div className="sticky top-0 z-50 bg-black/80 backdrop-blur-sm border-b border-gray-800">
+        <div className="container mx-auto px-4 py-4">
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 text-gray-300 hover:text-white transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            Back to Series
+          </button>
+        </div>
+      </div>
+
+      {/* Hero Section */}
+      <div className="container mx-auto px-4 py-12">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 items-start">
+          {/* Series Poster */}
+          <div className="lg:col-span-1">
+            {series.poster ? (
+              <div className="relative aspect-[2/3] bg-gray-800 rounded-lg overflow-hidden shadow-2xl max-w-sm mx-auto lg:mx-0">
+                <Image
+                  src={series.poster}
+                  alt={series.title}
+                  fill
+                  className="object-cover"
+                  sizes="(max-width: 1024px) 100vw, 33vw"
+                  unoptimized={series.poster.includes('discoveryftp.net') || series.poster.includes('proxy/poster')}
+                />
+              </div>
+            ) : (
+              <div className="aspect-[2/3] bg-gray-800 rounded-lg flex items-center justify-center max-w-sm mx-auto lg:mx-0">
+                <FileText className="w-16 h-16 text-gray-600" />
+              </div>
+            )}
+          </div>
+
+          {/* Series Info */}
+          <div className="lg:col-span-2 space-y-6">
+            <div>
+              <h1 className="text-4xl lg:text-5xl font-bold mb-2">{series.title}</h1>
+              <div className="flex flex-wrap items-center gap-4 text-gray-300">
+                {series.year && (
+                  <div className="flex items-center gap-1">
+                    <Calendar className="w-4 h-4" />
+                    <span>{series.year}</span>
+                  </div>
+                )}
+                {series.language && (
+                  <div className="flex items-center gap-1">
+                    <Globe className="w-4 h-4" />
+                    <span>{series.language}</span>
+                  </div>
+                )}
+                {series.rating && series.rating !== 'N/A' && (
+                  <div className="flex items-center gap-1">
+                    <Star className="w-4 h-4 text-yellow-400" />
+                    <span>{series.rating}</span>
+                  </div>
+                )}
+                <div className="flex items-center gap-1">
+                  <Layers className="w-4 h-4" />
+                  <span>
+                    {series.seasonCount} season{series.seasonCount === 1 ? '' : 's'} • {series.episodeCount} episodes
+                  </span>
+                </div>
+              </div>
+            </div>
+
+            {/* Genres */}
+            {series.genres && series.genres.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {series.genres.map((genre, index) => (
+                  <span
+                    key={index}
+                    className="px-3 py-1 bg-gray-800 rounded-full text-sm text-gray-300"
+                  >
+                    {genre}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {/* Description */}
+            {series.description && series.description !== 'N/A' && (
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Overview</h3>
+                <p className="text-gray-300 leading-relaxed">{series.description}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Player and Episode Picker */}
+      <div className="container mx-auto px-4 pb-12">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-4">
+            {currentEpisode ? (
+              <>
+                <div className="bg-black rounded-lg overflow-hidden">
+                  <UniversalVideoPlayer
+                    key={currentEpisode.id}
+                    sources={currentEpisode.downloadUrls}
+                    poster={series.poster}
+                    title={`${series.title} ${formatEpisodeCode(currentEpisode)}`}
+                    onEnded={handleEnded}
+                    onDownload={handleDownload}
+                  />
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <div className="text-sm text-gray-400">{formatEpisodeCode(currentEpisode)}</div>
+                    <div className="font-semibold">{currentEpisode.title}</div>
+                  </div>
+
+                  <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={autoPlayNext}
+                        onChange={(e) => setAutoPlayNext(e.target.checked)}
+                        className="accent-blue-600"
+                      />
+                      Autoplay next
+                    </label>
+                    {nextEpisode && (
+                      <button
+                        onClick={() => playEpisode(nextEpisode)}
+                        className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                      >
+                        <SkipForward className="w-4 h-4" />
+                        Next: {formatEpisodeCode(nextEpisode)}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </>
+            ) : (
+              <div className="aspect-video bg-gray-900 rounded-lg flex flex-col items-center justify-center gap-4 text-gray-400">
+                <Tv className="w-16 h-16 text-gray-600" />
+                <p>Pick an episode to start watching</p>
+                {playlist[0] && (
+                  <button
+                    onClick={() => playEpisode(playlist[0])}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+                  >
+                    Play {formatEpisodeCode(playlist[0])}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="lg:col-span-1">
+            <EpisodePicker
+              seasons={series.seasons}
+              selectedSeason={selectedSeason}
+              currentEpisodeId={currentEpisode?.id ?? null}
+              onSeasonChange={setSelectedSeason}
+              onEpisodeSelect={playEpisode}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-
-interface SubtitleTrack {
-  id: string;
-  label: string;
-  language: string;
-  src: string;
-  format: 'srt' | 'vtt' | 'ass' | 'ssa';
-  default?: boolean;
-}
-
-interface SubtitleCue {
-  start: number;
-  end: number;
-  text: string;
-  style?: {
-    color?: string;
-    fontSize?: string;
-    fontFamily?: string;
-    position?: string;
-    alignment?: string;
-  };
-}
+import { decodeSubtitleBuffer, fetchSubtitleBuffer, parseSubtitleFile, SubtitleCue, SubtitleTrack } from '@/utils/subtitles';
 
 interface SubtitleManagerProps {
   videoElement: HTMLVideoElement | null;
@@ -70,8 +49,8 @@ export default function SubtitleManager({ videoElement, subtitleTracks, onTrackC
 
   const loadSubtitleTrack = async (track: SubtitleTrack) => {
     try {
-      const response = await fetch(track.src);
-      const text = await response.text();
+      const buffer = await fetchSubtitleBuffer(track.src);
+      const text = decodeSubtitleBuffer(buffer, 'auto', track.language);
       const cues = parseSubtitleFile(text, track.format);
       
       setSubtitleData(prev => new Map(prev.set(track.id, cues)));
@@ -80,144 +59,6 @@ export default function SubtitleManager({ videoElement, subtitleTracks, onTrackC
     }
   };
 
-  const parseSubtitleFile = (content: string, format: SubtitleTrack['format']): SubtitleCue[] => {
-    switch (format) {
-      case 'srt':
-        return parseSRT(content);
-      case 'vtt':
-        return parseVTT(content);
-      case 'ass':
-      case 'ssa':
-        return parseASS(content);
-      default:
-        return [];
-    }
-  };
-
-  const parseSRT = (content: string): SubtitleCue[] => {
-    const cues: SubtitleCue[] = [];
-    const blocks = content.trim().split(/\n\s*\n/);
-
-    blocks.forEach(block => {
-      const lines = block.trim().split('\n');
-      if (lines.length >= 3) {
-        const timeMatch = lines[1].match(/(\d{2}):(\d{2}):(\d{2}),(\d{3}) --> (\d{2}):(\d{2}):(\d{2}),(\d{3})/);
-        
-        if (timeMatch) {
-          const start = parseTime(timeMatch[1], timeMatch[2], timeMatch[3], timeMatch[4]);
-          const end = parseTime(timeMatch[5], timeMatch[6], timeMatch[7], timeMatch[8]);
-          const text = lines.slice(2).join('\n').replace(/<[^>]*>/g, ''); // Remove HTML tags
-          
-          cues.push({ start, end, text });
-        }
-      }
-    });
-
-    return cues;
-  };
-
-  const parseVTT = (content: string): SubtitleCue[] => {
-    const cues: SubtitleCue[] = [];
-    const lines = content.split('\n');
-    let i = 0;
-
-    // Skip WEBVTT header
-    while (i < lines.length && !lines[i].includes('-->')) {
-      i++;
-    }
-
-    while (i < lines.length) {
-      const line = lines[i].trim();
-      
-      if (line.includes('-->')) {
-        const timeMatch = line.match(/(\d{2}):(\d{2}):(\d{2})\.(\d{3}) --> (\d{2}):(\d{2}):(\d{2})\.(\d{3})/);
-        
-        if (timeMatch) {
-          const start = parseTime(timeMatch[1], timeMatch[2], timeMatch[3], timeMatch[4]);
-          const end = parseTime(timeMatch[5], timeMatch[6], timeMatch[7], timeMatch[8]);
-          
-          i++;
-          const textLines = [];
-          while (i < lines.length && lines[i].trim() !== '') {
-            textLines.push(lines[i].trim());
-            i++;
-          }
-          
-          const text = textLines.join('\n').replace(/<[^>]*>/g, '');
-          cues.push({ start, end, text });
-        }
-      }
-      i++;
-    }
-
-    return cues;
-  };
-
-  const parseASS = (content: string): SubtitleCue[] => {
-    const cues: SubtitleCue[] = [];
-    const lines = content.split('\n');
-    
-    let eventsStarted = false;
-    let formatLine = '';
-
-    for (const line of lines) {
-      if (line.startsWith('[Events]')) {
-        eventsStarted = true;
-        continue;
-      }
-      
-      if (eventsStarted) {
-        if (line.startsWith('Format:')) {
-          formatLine = line;
-          continue;
-        }
-        
-        if (line.startsWith('Dialogue:')) {
-          const cue = parseASSDialogue(line, formatLine);
-          if (cue) {
-            cues.push(cue);
-          }
-        }
-      }
-    }
-
-    return cues;
-  };
-
-  const parseASSDialogue = (dialogue: string, format: string): SubtitleCue | null => {
-    try {
-      const formatFields = format.replace('Format: ', '').split(',').map(f => f.trim());
-      const dialogueFields = dialogue.replace('Dialogue: ', '').split(',');
-      
-      const startIndex = formatFields.indexOf('Start');
-      const endIndex = formatFields.indexOf('End');
-      const textIndex = formatFields.indexOf('Text');
-      
-      if (startIndex === -1 || endIndex === -1 || textIndex === -1) {
-        return null;
-      }
-      
-      const start = parseASSTime(dialogueFields[startIndex]);
-      const end = parseASSTime(dialogueFields[endIndex]);
-      const text = dialogueFields.slice(textIndex).join(',').replace(/\\N/g, '\n').replace(/{[^}]*}/g, '');
-      
-      return { start, end, text };
-    } catch (error) {
-      return null;
-    }
-  };
-
-  const parseTime = (hours: string, minutes: string, seconds: string, milliseconds: string): number => {
-    return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds) + parseInt(milliseconds) / 1000;
-  };
-
-  const parseASSTime = (timeStr: string): number => {
-    const match = timeStr.match(/(\d+):(\d{2}):(\d{2})\.(\d{2})/);
-    if (!match) return 0;
-    
-    return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]) + parseInt(match[4]) / 100;
-  };
-
   const updateCurrentCue = () => {
     if (!videoElement || !activeTrack || !subtitleSettings.enabled) {
       setCurrentCue(null);
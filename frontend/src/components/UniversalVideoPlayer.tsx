@@ -1,278 +1,473 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
-import { DownloadUrl } from '@/types/movie';
-import { getProxiedVideoUrl } from '@/utils/videoProxy';
-import { Play, Download, ExternalLink, AlertCircle } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { DownloadUrl, SubtitleFile } from '@/types/movie';
+import { getProxiedVideoUrl, getSubtitleUrl, SubtitleStream } from '@/utils/videoProxy';
+import {
+  cuesToWebVtt,
+  fetchSubtitleBuffer,
+  getSidecarSubtitleTracks,
+  getSubtitleFormat,
+  SUBTITLE_ENCODINGS,
+  SubtitleFormat,
+  SubtitleTrack
+} from '@/utils/subtitles';
+import { Download, ExternalLink, AlertCircle, Copy } from 'lucide-react';
+import AssSubtitleOverlay from './AssSubtitleOverlay';
+import PlayerStatsOverlay from './PlayerStatsOverlay';
+import { SubtitleSettings, useSubtitleSettings } from '@/hooks/useSubtitleSettings';
+import { useAudioPreference } from '@/hooks/useAudioPreference';
+import { usePlayerEngine, usePlayerEvent } from '@/hooks/usePlayerEngine';
+import { SourceStrategy } from '@/player/types';
+import { createAudioTracksPlugin } from '@/player/plugins/audioTracks';
+import { createExternalPlayerPlugin } from '@/player/plugins/externalPlayer';
+import { createHotkeysPlugin } from '@/player/plugins/hotkeys';
+import { createStatsPlugin } from '@/player/plugins/stats';
+import { createSubtitlesPlugin, SubtitleSource } from '@/player/plugins/subtitles';
+import { createWatchProgressPlugin } from '@/player/plugins/watchProgress';
+import { formatPlaybackTime } from '@/utils/watchProgress';
 
 interface UniversalVideoPlayerProps {
   sources: DownloadUrl[];
   poster?: string;
   title?: string;
   onReady?: () => void;
-  onDownload: (url: string, filename?: string) => void;
+  onEnded?: () => void;
+  // With a movie ID, MKV sources play through the backend's HLS packaging;
+  // sourceIndex is the position of sources[0] in the movie's downloadUrls
+  movieId?: string;
+  sourceIndex?: number;
+  // Subtitle files found next to the movie on the server
+  subtitles?: SubtitleFile[];
+  // Seconds to resume from once the source is ready; progress is saved against movieId
+  startTime?: number;
+  // Which sources to fall back to when the selected one fails; by default all of them
+  strategy?: SourceStrategy;
+  // Playback keys while the player has focus; the subtitle delay keys always work
+  hotkeys?: boolean;
+  onDownload?: (url: string, filename?: string) => void;
 }
 
-export default function UniversalVideoPlayer({ sources, poster, title, onReady, onDownload }: UniversalVideoPlayerProps) {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const [currentSource, setCurrentSource] = useState(0);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [playbackAttempted, setPlaybackAttempted] = useState(false);
-  const [showFallback, setShowFallback] = useState(false);
+interface LocalSubtitle {
+  id: string;
+  label: string;
+  format: SubtitleFormat;
+  buffer: ArrayBuffer;
+}
+
+// Seconds added or removed by one press of G or H
+const SUBTITLE_DELAY_STEP = 0.1;
+
+/**
+ * Where the file of a track comes from, and its format
+ */
+function getSubtitleSource(
+  id: string,
+  sourceUrl: string,
+  { localTracks, sidecarTracks, subtitleTracks }: { localTracks: LocalSubtitle[]; sidecarTracks: SubtitleTrack[]; subtitleTracks: SubtitleStream[] }
+): SubtitleSource | null {
+  const local = localTracks.find(track => track.id === id);
+  if (local) {
+    return { format: local.format, language: null, load: async () => local.buffer };
+  }
+
+  const sidecar = sidecarTracks.find(track => track.id === id);
+  if (sidecar) {
+    return { format: sidecar.format, language: sidecar.language, load: () => fetchSubtitleBuffer(sidecar.src) };
+  }
+
+  const embedded = subtitleTracks.find(track => `embedded-${track.index}` === id);
+  if (embedded) {
+    const format = ['ass', 'ssa'].includes(embedded.codec) ? 'ass' : 'vtt';
+    return { format, language: null, load: () => fetchSubtitleBuffer(getSubtitleUrl(sourceUrl, embedded.index, { format })) };
+  }
+
+  return null;
+}
+
+function shiftSubtitleDelay(settings: SubtitleSettings, trackId: string, step: number): Partial<SubtitleSettings> {
+  const delay = Math.round(((settings.delays[trackId] ?? 0) + step) * 10) / 10;
+  return { delays: { ...settings.delays, [trackId]: delay } };
+}
 
+export default function UniversalVideoPlayer({
+  sources,
+  poster,
+  title,
+  onReady,
+  onEnded,
+  movieId,
+  sourceIndex = 0,
+  subtitles,
+  startTime,
+  strategy,
+  hotkeys = true,
+  onDownload
+}: UniversalVideoPlayerProps) {
+  const trackRef = useRef<HTMLTrackElement>(null);
+  const { preferredLanguage, setPreferredLanguage } = useAudioPreference();
+  // Read when a source starts, long after the plugins were created
+  const preferredLanguageRef = useRef(preferredLanguage);
+  const movieIdRef = useRef(movieId ?? null);
+  const [plugins] = useState(() => ({
+    subtitles: createSubtitlesPlugin(),
+    audioTracks: createAudioTracksPlugin({ getPreferredLanguage: () => preferredLanguageRef.current }),
+    hotkeys: createHotkeysPlugin({ defaults: hotkeys }),
+    stats: createStatsPlugin(),
+    externalPlayer: createExternalPlayerPlugin(),
+    watchProgress: createWatchProgressPlugin({ getMovieId: () => movieIdRef.current })
+  }));
+  const pluginList = useMemo(() => Object.values(plugins), [plugins]);
+  const { engine, state, videoRef, elementRef } = usePlayerEngine(pluginList, { strategy, movieId, sourceOffset: sourceIndex });
+  const [remuxTime, setRemuxTime] = useState(0);
+  const [seekPreview, setSeekPreview] = useState<number | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [copied, setCopied] = useState(false);
+  // Text subtitle tracks embedded in the file, extracted by the backend on selection
+  const subtitleTracks = usePlayerEvent(engine, 'subtitletracks', []);
+  const loadedSubtitles = usePlayerEvent(engine, 'subtitles', { cues: null, ass: null });
+  const sidecarTracks = useMemo(() => getSidecarSubtitleTracks(subtitles), [subtitles]);
+  // Subtitle files dropped onto the player, for this session only
+  const [localTracks, setLocalTracks] = useState<LocalSubtitle[]>([]);
+  const localTrackCount = useRef(0);
+  const [dragActive, setDragActive] = useState(false);
+  const [subtitleSrc, setSubtitleSrc] = useState<string | null>(null);
+  const { settings: subtitleSettings, updateSettings: updateSubtitleSettings } = useSubtitleSettings(movieId ?? sources[0]?.url ?? null);
+  // Audio tracks of an HLS stream, a remux or, natively, of the element
+  const audio = usePlayerEvent(engine, 'audiotracks', { options: [], active: 0 });
+
+  const remux = state.remux;
+  const source = state.source;
+  const sourceUrl = source?.url ?? null;
+
+  useEffect(() => {
+    movieIdRef.current = movieId ?? null;
+  }, [movieId]);
+
+  useEffect(() => {
+    if (startTime) plugins.watchProgress.resumeAt(startTime);
+  }, [plugins, startTime]);
+
+  useEffect(() => {
+    engine.load(sources);
+  }, [engine, sources]);
+
+  useEffect(() => {
+    preferredLanguageRef.current = preferredLanguage;
+  }, [preferredLanguage]);
+
+  useEffect(() => engine.on('ready', () => onReady?.()), [engine, onReady]);
+
+  useEffect(() => engine.on('ended', () => onEnded?.()), [engine, onEnded]);
+
+  // Only a remux needs the position in React, for its own seek bar
+  useEffect(() => engine.on('timeupdate', (time) => {
+    if (engine.state.remux) setRemuxTime(time);
+  }), [engine]);
+
+  useEffect(() => plugins.hotkeys.bind('i', () => setShowStats(prev => !prev)), [plugins]);
+
+  // "embedded-<index>", "sidecar-<n>" or "local-<n>". Until the viewer picks a
+  // track a forced sidecar track is shown; a saved track this source lacks is off.
+  const subtitleIds = [
+    ...subtitleTracks.map(track => `embedded-${track.index}`),
+    ...sidecarTracks.map(track => track.id),
+    ...localTracks.map(track => track.id)
+  ];
+  const savedSubtitle = subtitleSettings.track;
+  const activeSubtitle = savedSubtitle === undefined
+    ? sidecarTracks.find(track => track.default)?.id ?? null
+    : savedSubtitle !== null && subtitleIds.includes(savedSubtitle) ? savedSubtitle : null;
+  const subtitleDelay = activeSubtitle ? subtitleSettings.delays[activeSubtitle] ?? 0 : 0;
+  const subtitleEncoding = activeSubtitle ? subtitleSettings.encodings[activeSubtitle] ?? 'auto' : 'auto';
+
+  useEffect(() => {
+    const track = activeSubtitle !== null && sourceUrl
+      ? getSubtitleSource(activeSubtitle, sourceUrl, { localTracks, sidecarTracks, subtitleTracks })
+      : null;
+    plugins.subtitles.select(track, subtitleEncoding);
+  }, [plugins, activeSubtitle, subtitleEncoding, sourceUrl, subtitleTracks, sidecarTracks, localTracks]);
+
+  // Cues go to the <track> as a blob so it stays same-origin; a remuxed stream
+  // starts at 0, so they are moved back by its start time as well as delayed
+  const remuxStart = remux?.start ?? 0;
+  const subtitleCues = loadedSubtitles.cues;
   useEffect(() => {
-    if (sources.length > 0) {
-      attemptPlayback(sources[currentSource]);
+    if (!subtitleCues) {
+      setSubtitleSrc(null);
+      return;
     }
-  }, [sources, currentSource]);
-
-  const getMimeType = (format: string): string => {
-    const formatMap: { [key: string]: string } = {
-      'mp4': 'video/mp4',
-      'mkv': 'video/x-matroska',
-      'webm': 'video/webm',
-      'avi': 'video/x-msvideo',
-      'mov': 'video/quicktime',
-      'wmv': 'video/x-ms-wmv',
-      'm4v': 'video/x-m4v',
-      'flv': 'video/x-flv',
-      'ogg': 'video/ogg'
+
+    const objectUrl = URL.createObjectURL(new Blob([cuesToWebVtt(subtitleCues, subtitleDelay - remuxStart)], { type: 'text/vtt' }));
+    setSubtitleSrc(objectUrl);
+
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [subtitleCues, subtitleDelay, remuxStart]);
+
+  useEffect(() => {
+    if (subtitleSrc && trackRef.current) {
+      trackRef.current.track.mode = 'showing';
+    }
+  }, [subtitleSrc]);
+
+  // G shows subtitles earlier and H later, as in VLC; with Shift by a whole second
+  useEffect(() => {
+    if (activeSubtitle === null) return;
+
+    const shift = (direction: number) => (e: KeyboardEvent) => {
+      const step = (e.shiftKey ? 1 : SUBTITLE_DELAY_STEP) * direction;
+      updateSubtitleSettings(prev => shiftSubtitleDelay(prev, activeSubtitle, step));
+    };
+    const unbindEarlier = plugins.hotkeys.bind('g', shift(-1), { global: true });
+    const unbindLater = plugins.hotkeys.bind('h', shift(1), { global: true });
+
+    return () => {
+      unbindEarlier();
+      unbindLater();
     };
-    return formatMap[format.toLowerCase()] || 'video/mp4';
+  }, [plugins, activeSubtitle, updateSubtitleSettings]);
+
+  const selectSubtitle = (id: string | null) => {
+    updateSubtitleSettings(() => ({ track: id }));
   };
 
-  const attemptPlayback = async (source: DownloadUrl) => {
-    if (!videoRef.current || !source) return;
-
-    setLoading(true);
-    setError(null);
-    setPlaybackAttempted(true);
-
-    try {
-      const mimeType = getMimeType(source.format);
-      const canPlay = videoRef.current.canPlayType(mimeType);
-      
-      console.log('Universal player attempting playback:', {
-        source: source.url,
-        format: source.format,
-        mimeType,
-        canPlay
-      });
-
-      // For MKV files, always try playback regardless of browser support
-      // The proxy might help with compatibility
-      const isMKV = source.format.toLowerCase() === 'mkv';
-
-      // Always attempt playback for MKV files, even if browser says it can't play them
-      if (!isMKV && canPlay === '' && canPlay !== 'maybe' && canPlay !== 'probably') {
-        console.log('Format not supported and not MKV, showing fallback immediately');
-        setShowFallback(true);
-        setLoading(false);
-        return;
-      }
-
-      console.log(`Attempting playback for ${isMKV ? 'MKV' : source.format} file (canPlay: "${canPlay}")`);
-
-      // Try proxied URL first
-      const proxiedUrl = getProxiedVideoUrl(source.url);
-      
-      // Set up video element
-      videoRef.current.src = proxiedUrl;
-      
-      // Add event listeners
-      const handleCanPlay = () => {
-        console.log('Video can play - success!');
-        setLoading(false);
-        setError(null);
-        setShowFallback(false);
-        onReady?.();
-      };
-
-      const handleLoadedData = () => {
-        console.log('Video data loaded successfully');
-        setLoading(false);
-        setError(null);
-        setShowFallback(false);
-      };
-
-      const handleError = (e: any) => {
-        const videoError = e.target?.error;
-
-        // If error is null, undefined, or empty object, it's a false positive
-        if (!videoError || (typeof videoError === 'object' && Object.keys(videoError).length === 0)) {
-          console.log('Video error event fired but no actual error object - ignoring false positive');
-
-          // Check if video is actually working despite the error event
-          if (videoRef.current && videoRef.current.readyState >= 2) {
-            console.log('Video appears to be loading successfully despite error event');
-            setLoading(false);
-            setError(null);
-            onReady?.();
-          }
-          return;
-        }
-
-        console.error('Video error details:', {
-          error: videoError,
-          code: videoError?.code,
-          message: videoError?.message,
-          src: videoRef.current?.src,
-          networkState: videoRef.current?.networkState,
-          readyState: videoRef.current?.readyState,
-          currentTime: videoRef.current?.currentTime,
-          duration: videoRef.current?.duration
-        });
-
-        // Try direct URL if proxy failed and we haven't tried it yet
-        if (videoRef.current && videoRef.current.src.includes('/proxy/video')) {
-          console.log('Proxy URL failed, trying direct URL...');
-          videoRef.current.src = source.url;
-          videoRef.current.load();
-          return;
-        }
-
-        // If both failed, show fallback options
-        let errorMessage = 'Playback failed';
-        if (videoError && videoError.code) {
-          switch (videoError.code) {
-            case MediaError.MEDIA_ERR_ABORTED:
-              errorMessage = 'Video loading was aborted';
-              break;
-            case MediaError.MEDIA_ERR_NETWORK:
-              errorMessage = 'Network error while loading video';
-              break;
-            case MediaError.MEDIA_ERR_DECODE:
-              errorMessage = 'Video format not supported or corrupted';
-              break;
-            case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
-              errorMessage = 'Video format not supported by browser';
-              break;
-            default:
-              errorMessage = videoError.message || `Video error (code: ${videoError.code})`;
-          }
-        } else {
-          errorMessage = 'Unknown video error - try external player';
-        }
-
-        setError(errorMessage);
-        setLoading(false);
-        setShowFallback(true);
-      };
-
-      const handleLoadStart = () => {
-        console.log('Video load started');
-      };
-
-      // Clean up existing listeners
-      const video = videoRef.current;
-      const cleanupListeners = () => {
-        video.removeEventListener('canplay', handleCanPlay);
-        video.removeEventListener('error', handleError);
-        video.removeEventListener('loadstart', handleLoadStart);
-      };
-
-      cleanupListeners();
-
-      // Add new listeners
-      video.addEventListener('canplay', handleCanPlay);
-      video.addEventListener('loadeddata', handleLoadedData);
-      video.addEventListener('error', handleError);
-      video.addEventListener('loadstart', handleLoadStart);
-
-      // Start loading
-      video.load();
-
-      // Periodic check to see if video is loading despite missing events
-      const checkInterval = setInterval(() => {
-        if (videoRef.current && loading) {
-          const readyState = videoRef.current.readyState;
-          const networkState = videoRef.current.networkState;
-
-          console.log('Video loading check:', {
-            readyState,
-            networkState,
-            currentTime: videoRef.current.currentTime,
-            duration: videoRef.current.duration,
-            buffered: videoRef.current.buffered.length
-          });
-
-          // If video has loaded enough data, consider it successful
-          if (readyState >= 2) { // HAVE_CURRENT_DATA or higher
-            console.log('Video loaded successfully (detected via polling)');
-            setLoading(false);
-            setError(null);
-            setShowFallback(false);
-            onReady?.();
-            clearInterval(checkInterval);
-          }
-        }
-      }, 1000); // Check every second
-
-      // Timeout fallback - reduced since proxy is working
-      const timeoutId = setTimeout(() => {
-        if (loading && !error && !showFallback) {
-          console.log('Playback timeout, showing fallback options');
-          setShowFallback(true);
-          setLoading(false);
-        }
-        clearInterval(checkInterval);
-      }, 10000); // 10 second timeout
-
-      // Cleanup function
-      return () => {
-        clearTimeout(timeoutId);
-        clearInterval(checkInterval);
-        if (video) {
-          video.removeEventListener('canplay', handleCanPlay);
-          video.removeEventListener('loadeddata', handleLoadedData);
-          video.removeEventListener('error', handleError);
-          video.removeEventListener('loadstart', handleLoadStart);
-        }
-      };
-
-    } catch (err) {
-      console.error('Playback attempt failed:', err);
-      setError(`Failed to load video: ${err instanceof Error ? err.message : 'Unknown error'}`);
-      setLoading(false);
-      setShowFallback(true);
-    }
+  const changeSubtitleDelay = (step: number) => {
+    if (activeSubtitle === null) return;
+
+    updateSubtitleSettings(prev => shiftSubtitleDelay(prev, activeSubtitle, step));
   };
 
-  const launchExternalPlayer = (playerName: string) => {
-    const source = sources[currentSource];
-    if (!source) return;
-
-    const url = source.url;
-    let playerUrl = '';
-
-    switch (playerName.toLowerCase()) {
-      case 'vlc':
-        playerUrl = `vlc://${url}`;
-        break;
-      case 'potplayer':
-        playerUrl = `potplayer://${url}`;
-        break;
-      case 'mpc-hc':
-        playerUrl = `mpc-hc://${url}`;
-        break;
-      default:
-        // Fallback: copy URL to clipboard
-        navigator.clipboard?.writeText(url);
-        alert('Video URL copied to clipboard. Paste it into your preferred video player.');
-        return;
-    }
+  const resetSubtitleDelay = () => {
+    if (activeSubtitle === null) return;
+    updateSubtitleSettings(prev => ({ delays: { ...prev.delays, [activeSubtitle]: 0 } }));
+  };
+
+  const changeSubtitleEncoding = (encoding: string) => {
+    if (activeSubtitle === null) return;
+    updateSubtitleSettings(prev => ({ encodings: { ...prev.encodings, [activeSubtitle]: encoding } }));
+  };
+
+  const handleSubtitleDrop = async (files: FileList) => {
+    const file = files[0];
+    const format = file ? getSubtitleFormat(file.name) : null;
+    if (!file || !format) return;
+
+    const id = `local-${localTrackCount.current++}`;
+    const buffer = await file.arrayBuffer();
+    setLocalTracks(prev => [...prev, { id, label: file.name, format, buffer }]);
+    selectSubtitle(id);
+  };
 
-    // Try to open in external player
-    const link = document.createElement('a');
-    link.href = playerUrl;
-    link.click();
+  const getSubtitleLabel = (track: SubtitleStream) => {
+    const label = track.title || track.language || `Track ${track.index + 1}`;
+    return track.isForced ? `${label} (forced)` : label;
   };
 
-  if (showFallback || (error && playbackAttempted)) {
-    return (
-      <div className="aspect-video bg-gradient-to-br from-gray-800 to-gray-900 rounded-lg overflow-hidden border border-gray-700">
-        <div className="relative h-full">
+  const getSubtitleLanguage = (key: string) => {
+    const sidecar = sidecarTracks.find(track => track.id === key);
+    if (sidecar) return sidecar.language;
+    return subtitleTracks.find(track => `embedded-${track.index}` === key)?.language || undefined;
+  };
+
+  const seekRemux = (time: number) => {
+    setRemuxTime(time);
+    engine.seek(time);
+  };
+
+  // The choice becomes the preferred language
+  const selectAudio = (index: number) => {
+    const option = plugins.audioTracks.select(index);
+    if (option?.language) setPreferredLanguage(option.language);
+  };
+
+  const copySourceUrl = async () => {
+    setCopied(await plugins.externalPlayer.copyUrl());
+  };
+
+  return (
+    <div
+      className="aspect-video bg-black rounded-lg overflow-hidden border border-gray-700 relative"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setDragActive(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragActive(false);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragActive(false);
+        handleSubtitleDrop(e.dataTransfer.files);
+      }}
+    >
+      {dragActive && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center bg-black bg-opacity-75 border-2 border-dashed border-blue-500 rounded-lg pointer-events-none">
+          <p className="text-white text-sm">Drop a subtitle file (.srt, .vtt, .ass, .ssa, .sub)</p>
+        </div>
+      )}
+
+      {state.status === 'loading' && (
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-75 z-10">
+          <div className="text-center text-white">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+            <p>Loading video...</p>
+            <p className="text-sm text-gray-400 mt-2">
+              Format: {source?.format.toUpperCase()} | Quality: {source?.quality}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <video
+        ref={videoRef}
+        className="w-full h-full"
+        controls
+        poster={poster}
+        preload="metadata"
+      >
+        {subtitleSrc && activeSubtitle !== null && (
+          <track
+            key={subtitleSrc}
+            ref={trackRef}
+            kind="subtitles"
+            src={subtitleSrc}
+            srcLang={getSubtitleLanguage(activeSubtitle)}
+            label="Subtitles"
+          />
+        )}
+        Your browser does not support the video tag.
+      </video>
+
+      {loadedSubtitles.ass && <AssSubtitleOverlay videoRef={elementRef} script={loadedSubtitles.ass} timeOffset={remuxStart - subtitleDelay} />}
+
+      {showStats && <PlayerStatsOverlay engine={engine} onClose={() => setShowStats(false)} />}
+
+      {/* Audio Track Selector */}
+      {audio.options.length > 1 && (
+        <div className="absolute bottom-16 left-4 z-20">
+          <select
+            value={audio.active}
+            onChange={(e) => selectAudio(parseInt(e.target.value))}
+            className="bg-black bg-opacity-75 text-white text-sm rounded px-2 py-1 border border-gray-600"
+            aria-label="Audio track"
+            title="Your choice is remembered as the preferred audio language"
+          >
+            {audio.options.map(option => (
+              <option key={option.index} value={option.index}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Subtitle Selector */}
+      {subtitleIds.length > 0 && (
+        <div className="absolute bottom-16 right-4 z-20 flex items-center gap-2">
+          {activeSubtitle !== null && (
+            <div
+              className="flex items-center bg-black bg-opacity-75 text-white text-sm rounded border border-gray-600"
+              title="Subtitle delay: G / H, with Shift for 1 second"
+            >
+              <button onClick={() => changeSubtitleDelay(-SUBTITLE_DELAY_STEP)} className="px-2 py-1 hover:bg-gray-700 rounded-l" aria-label="Show subtitles earlier">
+                −
+              </button>
+              <button onClick={resetSubtitleDelay} className="px-1 py-1 tabular-nums hover:bg-gray-700" aria-label="Reset subtitle delay">
+                {subtitleDelay > 0 ? '+' : ''}{subtitleDelay.toFixed(1)}s
+              </button>
+              <button onClick={() => changeSubtitleDelay(SUBTITLE_DELAY_STEP)} className="px-2 py-1 hover:bg-gray-700 rounded-r" aria-label="Show subtitles later">
+                +
+              </button>
+            </div>
+          )}
+          {activeSubtitle !== null && !activeSubtitle.startsWith('embedded-') && (
+            <select
+              value={subtitleEncoding}
+              onChange={(e) => changeSubtitleEncoding(e.target.value)}
+              className="bg-black bg-opacity-75 text-white text-sm rounded px-2 py-1 border border-gray-600"
+              aria-label="Subtitle encoding"
+            >
+              {SUBTITLE_ENCODINGS.map(encoding => (
+                <option key={encoding.value} value={encoding.value}>
+                  {encoding.label}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={activeSubtitle ?? ''}
+            onChange={(e) => selectSubtitle(e.target.value || null)}
+            className="bg-black bg-opacity-75 text-white text-sm rounded px-2 py-1 border border-gray-600"
+            aria-label="Subtitles"
+          >
+            <option value="">Subtitles off</option>
+            {subtitleTracks.map(track => (
+              <option key={`embedded-${track.index}`} value={`embedded-${track.index}`}>
+                {getSubtitleLabel(track)}
+              </option>
+            ))}
+            {sidecarTracks.map(track => (
+              <option key={track.id} value={track.id}>
+                {track.label}
+              </option>
+            ))}
+            {localTracks.map(track => (
+              <option key={track.id} value={track.id}>
+                {track.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Remux Seek Bar: the remuxed stream has no index, so seeking restarts it at the new time */}
+      {remux && remux.info.duration && (
+        <div className="absolute top-0 left-0 right-0 z-20 flex items-center gap-3 px-4 py-2 bg-gradient-to-b from-black/80 to-transparent">
+          <input
+            type="range"
+            min={0}
+            max={remux.info.duration}
+            step={1}
+            value={seekPreview ?? remuxTime}
+            onChange={(e) => setSeekPreview(parseFloat(e.target.value))}
+            onPointerUp={() => {
+              if (seekPreview !== null) seekRemux(seekPreview);
+              setSeekPreview(null);
+            }}
+            onKeyUp={() => {
+              if (seekPreview !== null) seekRemux(seekPreview);
+              setSeekPreview(null);
+            }}
+            className="flex-1 accent-blue-500"
+            aria-label="Seek"
+          />
+          <span className="text-xs text-white tabular-nums">
+            {formatPlaybackTime(seekPreview ?? remuxTime)} / {formatPlaybackTime(remux.info.duration)}
+          </span>
+        </div>
+      )}
+
+      {/* Quality Selector */}
+      {sources.length > 1 && (
+        <div className="absolute bottom-4 right-4 z-20">
+          <select
+            value={state.sourceIndex}
+            onChange={(e) => engine.selectSource(parseInt(e.target.value))}
+            className="bg-black bg-opacity-75 text-white text-sm rounded px-2 py-1 border border-gray-600"
+          >
+            {sources.map((source, index) => (
+              <option key={index} value={index}>
+                {source.quality} {source.format.toUpperCase()}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Fallback Options: shown over the element, which the engine keeps for a retry */}
+      {state.status === 'failed' && (
+        <div className="absolute inset-0 z-40 bg-gradient-to-br from-gray-800 to-gray-900">
           {/* Background */}
           {poster && (
             <div className="absolute inset-0">
@@ -290,7 +485,7 @@ export default function UniversalVideoPlayer({ sources, poster, title, onReady,
               <AlertCircle className="w-16 h-16 mx-auto text-yellow-400 mb-4" />
               <h3 className="text-xl font-semibold mb-2">Playback Options</h3>
               <p className="text-gray-300 text-sm mb-4">
-                {error || 'Browser playback may not be supported for this format. Try these alternatives:'}
+                {state.error || 'Browser playback may not be supported for this format. Try these alternatives:'}
               </p>
 
               {/* Debug info in development */}
@@ -298,10 +493,10 @@ export default function UniversalVideoPlayer({ sources, poster, title, onReady,
                 <details className="mb-4 text-left">
                   <summary className="text-xs text-gray-400 cursor-pointer">Debug Info</summary>
                   <div className="mt-2 text-xs text-gray-500 space-y-1">
-                    <p>Source: {sources[currentSource]?.url}</p>
-                    <p>Format: {sources[currentSource]?.format}</p>
-                    <p>Proxied: {getProxiedVideoUrl(sources[currentSource]?.url || '')}</p>
-                    <p>Error: {error}</p>
+                    <p>Source: {source?.url}</p>
+                    <p>Format: {source?.format}</p>
+                    <p>Proxied: {getProxiedVideoUrl(source?.url || '')}</p>
+                    <p>Error: {state.error}</p>
                   </div>
                 </details>
               )}
@@ -310,49 +505,54 @@ export default function UniversalVideoPlayer({ sources, poster, title, onReady,
               <div className="space-y-3 mb-6">
                 <h4 className="text-sm font-medium text-gray-300">Launch in External Player:</h4>
                 <div className="flex flex-wrap gap-2 justify-center">
-                  {['VLC', 'PotPlayer', 'MPC-HC'].map((player) => (
+                  {plugins.externalPlayer.players.map((player) => (
                     <button
-                      key={player}
-                      onClick={() => launchExternalPlayer(player)}
+                      key={player.id}
+                      onClick={() => plugins.externalPlayer.launch(player.id)}
                       className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+                      title={player.description}
                     >
                       <ExternalLink className="w-4 h-4" />
-                      {player}
+                      {player.name}
                     </button>
                   ))}
+                  <button
+                    onClick={copySourceUrl}
+                    className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+                  >
+                    <Copy className="w-4 h-4" />
+                    {copied ? 'Link copied' : 'Copy link'}
+                  </button>
                 </div>
               </div>
 
               {/* Download Option */}
-              <div className="space-y-3">
-                <h4 className="text-sm font-medium text-gray-300">Or Download:</h4>
-                <div className="space-y-2">
-                  {sources.map((source, index) => (
-                    <button
-                      key={index}
-                      onClick={() => onDownload(source.url, `${title}_${source.quality}.${source.format.toLowerCase()}`)}
-                      className="flex items-center justify-between bg-gray-700 hover:bg-gray-600 rounded-lg p-3 w-full transition-colors"
-                    >
-                      <div className="flex items-center gap-3">
-                        <Download className="w-4 h-4 text-blue-400" />
-                        <div className="text-left">
-                          <div className="text-sm font-medium">{source.quality} {source.format.toUpperCase()}</div>
-                          <div className="text-xs text-gray-400">{source.label || 'Download'}</div>
+              {onDownload && (
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium text-gray-300">Or Download:</h4>
+                  <div className="space-y-2">
+                    {sources.map((source, index) => (
+                      <button
+                        key={index}
+                        onClick={() => onDownload(source.url, `${title}_${source.quality}.${source.format.toLowerCase()}`)}
+                        className="flex items-center justify-between bg-gray-700 hover:bg-gray-600 rounded-lg p-3 w-full transition-colors"
+                      >
+                        <div className="flex items-center gap-3">
+                          <Download className="w-4 h-4 text-blue-400" />
+                          <div className="text-left">
+                            <div className="text-sm font-medium">{source.quality} {source.format.toUpperCase()}</div>
+                            <div className="text-xs text-gray-400">{source.label || 'Download'}</div>
+                          </div>
                         </div>
-                      </div>
-                    </button>
-                  ))}
+                      </button>
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* Retry Button */}
               <button
-                onClick={() => {
-                  setShowFallback(false);
-                  setError(null);
-                  setPlaybackAttempted(false);
-                  attemptPlayback(sources[currentSource]);
-                }}
+                onClick={() => engine.retry()}
                 className="mt-4 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm transition-colors"
               >
                 Try Again
@@ -360,49 +560,6 @@ export default function UniversalVideoPlayer({ sources, poster, title, onReady,
             </div>
           </div>
         </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="aspect-video bg-black rounded-lg overflow-hidden border border-gray-700 relative">
-      {loading && (
-        <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-75 z-10">
-          <div className="text-center text-white">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
-            <p>Loading video...</p>
-            <p className="text-sm text-gray-400 mt-2">
-              Format: {sources[currentSource]?.format.toUpperCase()} | Quality: {sources[currentSource]?.quality}
-            </p>
-          </div>
-        </div>
-      )}
-
-      <video
-        ref={videoRef}
-        className="w-full h-full"
-        controls
-        poster={poster}
-        preload="metadata"
-      >
-        Your browser does not support the video tag.
-      </video>
-
-      {/* Quality Selector */}
-      {sources.length > 1 && (
-        <div className="absolute bottom-4 right-4 z-20">
-          <select
-            value={currentSource}
-            onChange={(e) => setCurrentSource(parseInt(e.target.value))}
-            className="bg-black bg-opacity-75 text-white text-sm rounded px-2 py-1 border border-gray-600"
-          >
-            {sources.map((source, index) => (
-              <option key={index} value={index}>
-                {source.quality} {source.format.toUpperCase()}
-              </option>
-            ))}
-          </select>
-        </div>
       )}
     </div>
   );
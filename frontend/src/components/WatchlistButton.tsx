@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Bookmark, BookmarkCheck, Check, ChevronDown, Plus } from 'lucide-react';
+import { Movie } from '@/types/movie';
+import { useWatchlist } from '@/hooks/useWatchlist';
+import { MY_LIST_ID } from '@/utils/watchlist';
+
+interface WatchlistButtonProps {
+  movie: Movie;
+  // A round icon for movie cards, a labelled button with the collections menu elsewhere
+  variant?: 'icon' | 'button';
+  className?: string;
+}
+
+export default function WatchlistButton({ movie, variant = 'button', className = '' }: WatchlistButtonProps) {
+  const { lists, isInList, toggle, createList } = useWatchlist();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [newListName, setNewListName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+  const saved = isInList(movie.id);
+
+  useEffect(() => {
+    if (!menuOpen) return;
+
+    const handlePointerDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setMenuOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    return () => document.removeEventListener('mousedown', handlePointerDown);
+  }, [menuOpen]);
+
+  if (variant === 'icon') {
+    return (
+      <button
+        onClick={(e) => {
+          // Cards are links to the movie page
+          e.preventDefault();
+          e.stopPropagation();
+          toggle(movie);
+        }}
+        className={`p-1.5 rounded-full transition-colors ${
+          saved ? 'bg-blue-600 text-white' : 'bg-black/60 text-gray-200 hover:bg-black/80'
+        } ${className}`}
+        title={saved ? 'Remove from My List' : 'Add to My List'}
+        aria-pressed={saved}
+      >
+        {saved ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+      </button>
+    );
+  }
+
+  const collections = lists.filter(list => list.id !== MY_LIST_ID);
+
+  const addNewList = () => {
+    const name = newListName.trim();
+    if (!name) return;
+
+    createList(name);
+    setNewListName('');
+  };
+
+  return (
+    <div ref={menuRef} className={`relative inline-flex ${className}`}>
+      <button
+        onClick={() => toggle(movie)}
+        className={`flex items-center gap-2 px-4 py-2 rounded-l-lg font-medium transition-colors ${
+          saved ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-white'
+        }`}
+        aria-pressed={saved}
+      >
+        {saved ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+        {saved ? 'In My List' : 'My List'}
+      </button>
+      <button
+        onClick={() => setMenuOpen(open => !open)}
+        className={`px-2 rounded-r-lg border-l border-black/20 transition-colors ${
+          saved ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-white'
+        }`}
+        title="Add to a collection"
+        aria-expanded={menuOpen}
+      >
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {menuOpen && (
+        <div className="absolute top-full left-0 mt-2 w-64 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-30 p-2">
+          <div className="text-xs text-gray-400 px-2 py-1">Collections</div>
+          {collections.length === 0 && (
+            <p className="text-sm text-gray-500 px-2 py-1">No collections yet</p>
+          )}
+          {collections.map(list => {
+            const inList = isInList(movie.id, list.id);
+            return (
+              <button
+                key={list.id}
+                onClick={() => toggle(movie, list.id)}
+                className="w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded text-sm text-left text-gray-200 hover:bg-gray-700"
+              >
+                <span className="truncate">{list.name}</span>
+                {inList && <Check className="w-4 h-4 text-blue-400 flex-shrink-0" />}
+              </button>
+            );
+          })}
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              addNewList();
+            }}
+            className="flex gap-1 mt-2 pt-2 border-t border-gray-700"
+          >
+            <input
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              placeholder="New collection"
+              className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!newListName.trim()}
+              className="p-1.5 rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white"
+              title="Create collection"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'preferred-audio-language';
+
+/**
+ * The audio language the viewer prefers, as an ISO 639-1 code; players pick
+ * the matching track when a source has several. Read after mount, so server
+ * and client render the same markup.
+ */
+export function useAudioPreference() {
+  const [preferredLanguage, setPreferredLanguageState] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      setPreferredLanguageState(window.localStorage.getItem(STORAGE_KEY));
+    } catch {
+      setPreferredLanguageState(null);
+    }
+  }, []);
+
+  const setPreferredLanguage = useCallback((language: string | null) => {
+    setPreferredLanguageState(language);
+    try {
+      if (language) window.localStorage.setItem(STORAGE_KEY, language);
+      else window.localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to save the audio language:', error);
+    }
+  }, []);
+
+  return { preferredLanguage, setPreferredLanguage };
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Movie, SearchFilters } from '@/types/movie';
+import { Movie, MovieListQuery, SearchFacets, SearchFilters } from '@/types/movie';
 import MovieAPI from '@/lib/api';
 
 interface UseMoviesState {
@@ -98,25 +98,165 @@ export function useMovies() {
   };
 }
 
+interface UseMoviePagesState extends UseMoviesState {
+  total: number;
+  nextCursor: string | null;
+  loadingMore: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 48;
+
+/**
+ * The catalog a page at a time, sorted and filtered on the server. Pages
+ * after the first follow the cursor of the one before, so movies added in
+ * between are neither skipped nor shown twice.
+ */
+export function useMoviePages(query: Omit<MovieListQuery, 'page' | 'cursor'> = {}) {
+  const [state, setState] = useState<UseMoviePagesState>({
+    movies: [],
+    loading: true,
+    error: null,
+    lastUpdated: null,
+    total: 0,
+    nextCursor: null,
+    loadingMore: false,
+  });
+
+  // Compared by value, so callers can pass a new object on every render
+  const queryKey = JSON.stringify(query);
+  // Ignores pages of a query that has since changed
+  const requestRef = useRef(0);
+
+  const fetchFirstPage = useCallback(async () => {
+    const request = ++requestRef.current;
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      const { movies, meta } = await MovieAPI.getMovies({ pageSize: DEFAULT_PAGE_SIZE, ...JSON.parse(queryKey) });
+      if (request !== requestRef.current) return;
+
+      setState({
+        movies,
+        loading: false,
+        error: null,
+        lastUpdated: meta.lastUpdated ? new Date(meta.lastUpdated) : new Date(),
+        total: meta.total,
+        nextCursor: meta.nextCursor ?? null,
+        loadingMore: false,
+      });
+    } catch (error) {
+      if (request !== requestRef.current) return;
+      setState(prev => ({
+        ...prev,
+        movies: [],
+        loading: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch movies',
+      }));
+    }
+  }, [queryKey]);
+
+  const loadMore = useCallback(async () => {
+    if (!state.nextCursor || state.loadingMore) return;
+
+    const request = requestRef.current;
+    try {
+      setState(prev => ({ ...prev, loadingMore: true }));
+      const { movies, meta } = await MovieAPI.getMovies({
+        pageSize: DEFAULT_PAGE_SIZE,
+        ...JSON.parse(queryKey),
+        cursor: state.nextCursor,
+      });
+      if (request !== requestRef.current) return;
+
+      setState(prev => ({
+        ...prev,
+        movies: [...prev.movies, ...movies],
+        total: meta.total,
+        nextCursor: meta.nextCursor ?? null,
+        loadingMore: false,
+      }));
+    } catch (error) {
+      if (request !== requestRef.current) return;
+      setState(prev => ({
+        ...prev,
+        loadingMore: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch more movies',
+      }));
+    }
+  }, [queryKey, state.nextCursor, state.loadingMore]);
+
+  const refreshMovies = useCallback(async () => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await MovieAPI.refreshMovies();
+      await fetchFirstPage();
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: error instanceof Error ? error.message : 'Failed to refresh movies',
+      }));
+    }
+  }, [fetchFirstPage]);
+
+  useEffect(() => {
+    fetchFirstPage();
+  }, [fetchFirstPage]);
+
+  return {
+    ...state,
+    hasMore: state.nextCursor !== null,
+    loadMore,
+    refetch: fetchFirstPage,
+    refresh: refreshMovies,
+  };
+}
+
+/**
+ * Search results with the facet counts for the filter chips. Before anything
+ * is searched, the counts cover the whole catalog.
+ */
 export function useMovieSearch() {
-  const [state, setState] = useState<UseMoviesState>({
+  const [state, setState] = useState<UseMoviesState & { facets: SearchFacets | null }>({
     movies: [],
     loading: false,
     error: null,
     lastUpdated: null,
+    facets: null,
   });
+  const catalogFacetsRef = useRef<SearchFacets | null>(null);
+  // Ignores results of a search that has since been replaced
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    const request = requestRef.current;
+    MovieAPI.searchMovies({}, { pageSize: 1 })
+      .then(({ meta }) => {
+        catalogFacetsRef.current = meta.facets ?? null;
+        if (request === requestRef.current) {
+          setState(prev => ({ ...prev, facets: catalogFacetsRef.current }));
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load search facets:', error);
+      });
+  }, []);
 
   const searchMovies = useCallback(async (filters: SearchFilters) => {
+    const request = ++requestRef.current;
     try {
       setState(prev => ({ ...prev, loading: true, error: null }));
-      const movies = await MovieAPI.searchMovies(filters);
+      const { movies, meta } = await MovieAPI.searchMovies(filters);
+      if (request !== requestRef.current) return;
+
       setState({
         movies,
         loading: false,
         error: null,
         lastUpdated: new Date(),
+        facets: meta.facets ?? null,
       });
     } catch (error) {
+      if (request !== requestRef.current) return;
       setState(prev => ({
         ...prev,
         loading: false,
@@ -126,11 +266,13 @@ export function useMovieSearch() {
   }, []);
 
   const clearSearch = useCallback(() => {
+    requestRef.current++;
     setState({
       movies: [],
       loading: false,
       error: null,
       lastUpdated: null,
+      facets: catalogFacetsRef.current,
     });
   }, []);
 
@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DownloadUrl } from '@/types/movie';
+import { Playability, checkPlayability } from '@/utils/playability';
+
+/**
+ * Checks the playability of every source, keyed by URL. Results arrive one
+ * by one as each probe finishes.
+ */
+export function usePlayability(sources: DownloadUrl[]) {
+  const [playability, setPlayability] = useState<Record<string, Playability>>({});
+  const [checking, setChecking] = useState(false);
+
+  // Re-run only when the URLs change, not on every new array instance
+  const sourceKey = sources.map(source => source.url).join('\n');
+
+  useEffect(() => {
+    const urls = sourceKey ? sourceKey.split('\n') : [];
+    if (urls.length === 0) {
+      setPlayability({});
+      return;
+    }
+
+    let cancelled = false;
+    setChecking(true);
+
+    const checks = urls.map(url =>
+      checkPlayability(url).then((result) => {
+        if (!cancelled) {
+          setPlayability(prev => ({ ...prev, [url]: result }));
+        }
+      })
+    );
+
+    Promise.all(checks).finally(() => {
+      if (!cancelled) setChecking(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceKey]);
+
+  return { playability, checking };
+}
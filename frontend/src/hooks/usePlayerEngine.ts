@@ -0,0 +1,52 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PlayerEngine } from '@/player/PlayerEngine';
+import { PlayerEngineOptions, PlayerEventName, PlayerEvents, PlayerPlugin, PlayerState } from '@/player/types';
+
+/**
+ * A player engine for the lifetime of the component, with `plugins` added and
+ * its state mirrored into React. `videoRef` goes on the <video> element, which
+ * `elementRef` then holds; the plugin list and the strategy should keep their
+ * identity between renders.
+ */
+export function usePlayerEngine(plugins: PlayerPlugin[], options: PlayerEngineOptions = {}) {
+  const [engine] = useState(() => new PlayerEngine(options));
+  const [state, setState] = useState<PlayerState>(engine.state);
+  const elementRef = useRef<HTMLVideoElement | null>(null);
+  const { strategy, movieId, sourceOffset, loadTimeout } = options;
+
+  useEffect(() => {
+    engine.configure({ strategy, movieId, sourceOffset, loadTimeout });
+  }, [engine, strategy, movieId, sourceOffset, loadTimeout]);
+
+  useEffect(() => engine.on('statechange', setState), [engine]);
+
+  useEffect(() => {
+    const removers = plugins.map(plugin => engine.use(plugin));
+    return () => removers.forEach(remove => remove());
+  }, [engine, plugins]);
+
+  useEffect(() => {
+    return () => engine.stop();
+  }, [engine]);
+
+  const videoRef = useCallback((video: HTMLVideoElement | null) => {
+    elementRef.current = video;
+    if (video) engine.attach(video);
+    else engine.detach();
+  }, [engine]);
+
+  return { engine, state, videoRef, elementRef };
+}
+
+/**
+ * The latest payload of an engine event, `initial` until the first one
+ */
+export function usePlayerEvent<K extends PlayerEventName, I = PlayerEvents[K]>(engine: PlayerEngine, event: K, initial: I): PlayerEvents[K] | I {
+  const [payload, setPayload] = useState<PlayerEvents[K] | I>(initial);
+
+  useEffect(() => engine.on(event, next => setPayload(() => next)), [engine, event]);
+
+  return payload;
+}
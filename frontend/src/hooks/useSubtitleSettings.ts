@@ -0,0 +1,56 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+export interface SubtitleSettings {
+  // Selected track id, null when turned off; undefined until the viewer picks one
+  track?: string | null;
+  // Delay in seconds per track id; positive values show subtitles later
+  delays: Record<string, number>;
+  // Character set per track id, when not auto-detected
+  encodings: Record<string, string>;
+}
+
+const STORAGE_PREFIX = 'subtitle-settings:';
+
+const EMPTY_SETTINGS: SubtitleSettings = { delays: {}, encodings: {} };
+
+function loadSettings(key: string): SubtitleSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_PREFIX + key);
+    return stored ? { ...EMPTY_SETTINGS, ...JSON.parse(stored) } : EMPTY_SETTINGS;
+  } catch {
+    return EMPTY_SETTINGS;
+  }
+}
+
+function saveSettings(key: string, settings: SubtitleSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save subtitle settings:', error);
+  }
+}
+
+/**
+ * Subtitle track, delay and encoding choices, remembered in localStorage
+ * under `key` (a movie ID). Settings are read after mount, so server and
+ * client render the same markup.
+ */
+export function useSubtitleSettings(key: string | null) {
+  const [settings, setSettings] = useState<SubtitleSettings>(EMPTY_SETTINGS);
+
+  useEffect(() => {
+    setSettings(key ? loadSettings(key) : EMPTY_SETTINGS);
+  }, [key]);
+
+  const updateSettings = useCallback((update: (prev: SubtitleSettings) => Partial<SubtitleSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...update(prev) };
+      if (key) saveSettings(key, next);
+      return next;
+    });
+  }, [key]);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MovieSuggestion } from '@/types/movie';
+import MovieAPI from '@/lib/api';
+
+// Shorter than the grid search's debounce, since a suggestion request is small
+const SUGGEST_DELAY_MS = 150;
+
+/**
+ * Title suggestions for what has been typed so far. Answers to earlier
+ * keystrokes that arrive late are dropped.
+ */
+export function useSuggestions(query: string) {
+  const [suggestions, setSuggestions] = useState<MovieSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const results = await MovieAPI.getSuggestions(trimmed);
+        if (!cancelled) setSuggestions(results);
+      } catch {
+        if (!cancelled) setSuggestions([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SUGGEST_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return { suggestions, loading };
+}
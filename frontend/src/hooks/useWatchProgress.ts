@@ -0,0 +1,62 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  isResumable,
+  readWatchProgress,
+  syncWatchProgress,
+  WATCH_PROGRESS_EVENT,
+  WatchProgress
+} from '@/utils/watchProgress';
+
+// The backend is pulled from once per page load, however many components ask
+let syncStarted = false;
+
+/**
+ * The saved watch progress, kept current as players save it in this tab or
+ * another. Read after mount, so server and client render the same markup.
+ */
+export function useWatchProgress() {
+  const [entries, setEntries] = useState<WatchProgress[]>([]);
+
+  useEffect(() => {
+    const refresh = () => setEntries(readWatchProgress());
+    refresh();
+
+    window.addEventListener(WATCH_PROGRESS_EVENT, refresh);
+    window.addEventListener('storage', refresh);
+
+    if (!syncStarted) {
+      syncStarted = true;
+      syncWatchProgress();
+    }
+
+    return () => {
+      window.removeEventListener(WATCH_PROGRESS_EVENT, refresh);
+      window.removeEventListener('storage', refresh);
+    };
+  }, []);
+
+  // The most recently played source of each movie, newest first
+  const latestByMovie = useMemo(() => {
+    const latest = new Map<string, WatchProgress>();
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (!latest.has(entries[i].movieId)) latest.set(entries[i].movieId, entries[i]);
+    }
+    return latest;
+  }, [entries]);
+
+  const getProgress = useCallback((movieId: string, sourceUrl: string) => (
+    entries.find(entry => entry.movieId === movieId && entry.sourceUrl === sourceUrl) ?? null
+  ), [entries]);
+
+  const getMovieProgress = useCallback((movieId: string) => latestByMovie.get(movieId) ?? null, [latestByMovie]);
+
+  const watchedMovies = useMemo(() => new Set(entries.filter(entry => entry.watched).map(entry => entry.movieId)), [entries]);
+  const isWatched = useCallback((movieId: string) => watchedMovies.has(movieId), [watchedMovies]);
+
+  // Movies stopped partway through, most recent first
+  const inProgress = useMemo(() => [...latestByMovie.values()].filter(isResumable), [latestByMovie]);
+
+  return { entries, getProgress, getMovieProgress, isWatched, inProgress };
+}
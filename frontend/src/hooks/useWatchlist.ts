@@ -0,0 +1,98 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Movie } from '@/types/movie';
+import {
+  addToWatchlist,
+  createCollection,
+  exportWatchlists,
+  importWatchlists,
+  MY_LIST_ID,
+  pushWatchlistChanges,
+  readWatchlists,
+  removeFromWatchlist,
+  syncWatchlist,
+  Watchlist,
+  WATCHLIST_EVENT,
+  writeWatchlists
+} from '@/utils/watchlist';
+
+// The account is checked once per page load, however many components ask
+let syncStarted = false;
+
+/**
+ * My List and the named collections, kept current as they change in this
+ * tab or another, and My List with the signed-in account. Read after mount,
+ * so server and client render the same markup.
+ */
+export function useWatchlist() {
+  const [lists, setLists] = useState<Watchlist[]>([]);
+
+  useEffect(() => {
+    const refresh = () => setLists(readWatchlists());
+    refresh();
+
+    window.addEventListener(WATCHLIST_EVENT, refresh);
+    window.addEventListener('storage', refresh);
+
+    if (!syncStarted) {
+      syncStarted = true;
+      syncWatchlist();
+    }
+
+    return () => {
+      window.removeEventListener(WATCHLIST_EVENT, refresh);
+      window.removeEventListener('storage', refresh);
+    };
+  }, []);
+
+  // Every change starts from what is stored, so two components editing at once don't undo each other
+  const update = useCallback((change: (lists: Watchlist[]) => Watchlist[]) => {
+    const current = readWatchlists();
+    const next = change(current);
+    writeWatchlists(next);
+    pushWatchlistChanges(current, next);
+  }, []);
+
+  const isInList = useCallback((movieId: string, listId: string = MY_LIST_ID) => (
+    lists.some(list => list.id === listId && list.items.some(item => item.movieId === movieId))
+  ), [lists]);
+
+  const toggle = useCallback((movie: Movie, listId: string = MY_LIST_ID) => {
+    update(current => current.some(list => list.id === listId && list.items.some(item => item.movieId === movie.id))
+      ? removeFromWatchlist(current, listId, movie.id)
+      : addToWatchlist(current, listId, movie));
+  }, [update]);
+
+  const remove = useCallback((listId: string, movieId: string) => {
+    update(current => removeFromWatchlist(current, listId, movieId));
+  }, [update]);
+
+  const createList = useCallback((name: string) => {
+    if (!name.trim()) return;
+    update(current => createCollection(current, name));
+  }, [update]);
+
+  const renameList = useCallback((listId: string, name: string) => {
+    if (listId === MY_LIST_ID || !name.trim()) return;
+    update(current => current.map(list => list.id === listId ? { ...list, name: name.trim() } : list));
+  }, [update]);
+
+  const deleteList = useCallback((listId: string) => {
+    if (listId === MY_LIST_ID) return;
+    update(current => current.filter(list => list.id !== listId));
+  }, [update]);
+
+  const exportLists = useCallback(() => exportWatchlists(readWatchlists()), []);
+
+  // Returns how many titles were added and how many couldn't be found in the catalog
+  const importLists = useCallback((data: unknown, movies: Movie[]) => {
+    const current = readWatchlists();
+    const result = importWatchlists(current, data, movies);
+    writeWatchlists(result.lists);
+    pushWatchlistChanges(current, result.lists);
+    return { imported: result.imported, unmatched: result.unmatched };
+  }, []);
+
+  return { lists, isInList, toggle, remove, createList, renameList, deleteList, exportLists, importLists };
+}
@@ -1,5 +1,7 @@
 import axios from 'axios';
-import { Movie, ApiResponse, SearchFilters, ApiStatus } from '@/types/movie';
+import { Movie, ApiResponse, SearchFilters, ApiStatus, Series, SeriesSummary, MovieListQuery, MoviePage, MovieSuggestion, User } from '@/types/movie';
+import type { WatchProgress } from '@/utils/watchProgress';
+import type { AccountWatchlistItem } from '@/utils/watchlist';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
 
@@ -12,6 +14,8 @@ console.log('🔧 API Configuration:', {
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
   timeout: 30000,
+  // Sends the session cookie, so synced progress lands in the signed-in user's account
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json',
   },
@@ -67,6 +71,34 @@ export class MovieAPI {
     }
   }
 
+  /**
+   * One page of the catalog, or all of it without page, pageSize or cursor
+   */
+  static async getMovies(query: MovieListQuery = {}): Promise<MoviePage> {
+    try {
+      const params = new URLSearchParams();
+
+      Object.entries(query).forEach(([key, value]) => {
+        if (value === undefined || value === '') return;
+        if (Array.isArray(value)) {
+          if (value.length > 0) params.append(key, value.join(','));
+        } else {
+          params.append(key, String(value));
+        }
+      });
+
+      const response = await apiClient.get<ApiResponse<Movie[]>>(`/movies?${params.toString()}`);
+      const movies = response.data.data;
+      return {
+        movies,
+        meta: response.data.meta ?? { total: movies.length, lastUpdated: '' }
+      };
+    } catch (error) {
+      console.error('Error fetching movie page:', error);
+      throw error;
+    }
+  }
+
   static async getMovie(id: string): Promise<Movie> {
     try {
       const response = await apiClient.get<ApiResponse<Movie>>(`/movies/${id}`);
@@ -77,23 +109,44 @@ export class MovieAPI {
     }
   }
 
-  static async searchMovies(filters: SearchFilters): Promise<Movie[]> {
+  /**
+   * Ranked search results with the facet counts of everything matching
+   */
+  static async searchMovies(filters: SearchFilters, paging: { page?: number; pageSize?: number } = {}): Promise<MoviePage> {
     try {
+      const { query, ...facets } = filters;
       const params = new URLSearchParams();
-      
-      if (filters.query) params.append('q', filters.query);
-      if (filters.year) params.append('year', filters.year);
-      if (filters.language) params.append('language', filters.language);
-      if (filters.quality) params.append('quality', filters.quality);
 
-      const response = await apiClient.get<ApiResponse<Movie[]>>(`/movies/search?${params.toString()}`);
-      return response.data.data;
+      if (query) params.append('q', query);
+      Object.entries(facets).forEach(([facet, values]) => {
+        if (values && values.length > 0) params.append(facet, values.join(','));
+      });
+      if (paging.page) params.append('page', String(paging.page));
+      if (paging.pageSize) params.append('pageSize', String(paging.pageSize));
+
+      const response = await apiClient.get<ApiResponse<Movie[]>>(`/search?${params.toString()}`);
+      const movies = response.data.data;
+      return {
+        movies,
+        meta: response.data.meta ?? { total: movies.length, lastUpdated: '' }
+      };
     } catch (error) {
       console.error('Error searching movies:', error);
       throw error;
     }
   }
 
+  static async getSuggestions(query: string, limit = 8): Promise<MovieSuggestion[]> {
+    try {
+      const params = new URLSearchParams({ q: query, limit: String(limit) });
+      const response = await apiClient.get<ApiResponse<MovieSuggestion[]>>(`/suggest?${params.toString()}`);
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching suggestions:', error);
+      throw error;
+    }
+  }
+
   static async refreshMovies(): Promise<Movie[]> {
     try {
       const response = await apiClient.post<ApiResponse<Movie[]>>('/movies/refresh');
@@ -104,6 +157,88 @@ export class MovieAPI {
     }
   }
 
+  static async getAllSeries(): Promise<SeriesSummary[]> {
+    try {
+      const response = await apiClient.get<ApiResponse<SeriesSummary[]>>('/series');
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching series:', error);
+      throw error;
+    }
+  }
+
+  static async getSeries(id: string): Promise<Series> {
+    try {
+      const response = await apiClient.get<ApiResponse<Series>>(`/series/${id}`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching series ${id}:`, error);
+      throw error;
+    }
+  }
+
+  static async getWatchProgress(): Promise<WatchProgress[]> {
+    try {
+      const response = await apiClient.get<ApiResponse<WatchProgress[]>>('/progress');
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching watch progress:', error);
+      throw error;
+    }
+  }
+
+  static async saveWatchProgress({ movieId, ...progress }: WatchProgress): Promise<WatchProgress> {
+    try {
+      const response = await apiClient.put<ApiResponse<WatchProgress>>(`/progress/${encodeURIComponent(movieId)}`, progress);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error saving watch progress of ${movieId}:`, error);
+      throw error;
+    }
+  }
+
+  // Resolves with null when nobody is signed in
+  static async getCurrentUser(): Promise<User | null> {
+    try {
+      const response = await apiClient.get<ApiResponse<User>>('/users/me');
+      return response.data.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 401) return null;
+      console.error('Error fetching the signed-in user:', error);
+      throw error;
+    }
+  }
+
+  static async getAccountWatchlist(): Promise<AccountWatchlistItem[]> {
+    try {
+      const response = await apiClient.get<ApiResponse<AccountWatchlistItem[]>>('/users/me/watchlist');
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching the account watchlist:', error);
+      throw error;
+    }
+  }
+
+  static async addToAccountWatchlist(movieId: string): Promise<AccountWatchlistItem[]> {
+    try {
+      const response = await apiClient.put<ApiResponse<AccountWatchlistItem[]>>(`/users/me/watchlist/${encodeURIComponent(movieId)}`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error adding ${movieId} to the account watchlist:`, error);
+      throw error;
+    }
+  }
+
+  static async removeFromAccountWatchlist(movieId: string): Promise<AccountWatchlistItem[]> {
+    try {
+      const response = await apiClient.delete<ApiResponse<AccountWatchlistItem[]>>(`/users/me/watchlist/${encodeURIComponent(movieId)}`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error removing ${movieId} from the account watchlist:`, error);
+      throw error;
+    }
+  }
+
   static async getStatus(): Promise<ApiStatus> {
     try {
       const response = await apiClient.get<ApiResponse<ApiStatus['data']>>('/status');
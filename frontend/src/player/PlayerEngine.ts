@@ -0,0 +1,474 @@
+/**
+ * Player Engine
+ * Drives a <video> element through the ways a source can play: the backend's
+ * HLS packaging, the MKV remux, the CORS proxy and the file itself. When every
+ * way fails for a source, the strategy names the next one to try. Subtitles,
+ * audio tracks, hotkeys and the rest are plugins on top of the events it emits.
+ */
+
+import type Hls from 'hls.js';
+import { DownloadUrl } from '@/types/movie';
+import { getHlsUrl, getProxiedVideoUrl, getRemuxInfo, getRemuxUrl, RemuxInfo } from '@/utils/videoProxy';
+import { selectedFirst } from './strategies';
+import {
+  PlaybackAttempt,
+  PlayerEngineOptions,
+  PlayerEventListener,
+  PlayerEventName,
+  PlayerEvents,
+  PlayerPlugin,
+  PlayerState
+} from './types';
+
+const MIME_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  mkv: 'video/x-matroska',
+  webm: 'video/webm',
+  avi: 'video/x-msvideo',
+  mov: 'video/quicktime',
+  wmv: 'video/x-ms-wmv',
+  m4v: 'video/x-m4v',
+  flv: 'video/x-flv',
+  ogg: 'video/ogg'
+};
+
+const DEFAULT_LOAD_TIMEOUT = 10000;
+
+const INITIAL_STATE: PlayerState = {
+  status: 'idle',
+  sourceIndex: 0,
+  source: null,
+  mode: null,
+  remux: null,
+  error: null
+};
+
+export function describeMediaError(error: MediaError | null): string {
+  switch (error?.code) {
+    case MediaError.MEDIA_ERR_ABORTED:
+      return 'Video loading was aborted';
+    case MediaError.MEDIA_ERR_NETWORK:
+      return 'Network error while loading video';
+    case MediaError.MEDIA_ERR_DECODE:
+      return 'Video format not supported or corrupted';
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+      return 'Video format not supported by browser';
+    default:
+      return error?.message || 'Unknown video error - try external player';
+  }
+}
+
+export class PlayerEngine {
+  private options: PlayerEngineOptions;
+  private listeners = new Map<PlayerEventName, Set<(payload: never) => void>>();
+  private plugins: PlayerPlugin[] = [];
+  private videoElement: HTMLVideoElement | null = null;
+  private hlsPlayer: Hls | null = null;
+  private sources: DownloadUrl[] = [];
+  // Sources still to fall back to, in the order the strategy gave
+  private queue: number[] = [];
+  private attempts: PlaybackAttempt[] = [];
+  private attemptIndex = 0;
+  private remuxInfo: RemuxInfo | null = null;
+  // Bumped on every load, so async work of a superseded one stops
+  private loadId = 0;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private detachVideo: (() => void) | null = null;
+  private videoCallbacks = new Set<(video: HTMLVideoElement) => () => void>();
+  private videoCleanups = new Map<(video: HTMLVideoElement) => () => void, () => void>();
+
+  state: PlayerState = INITIAL_STATE;
+
+  constructor(options: PlayerEngineOptions = {}) {
+    this.options = options;
+  }
+
+  get video(): HTMLVideoElement | null {
+    return this.videoElement;
+  }
+
+  get hls(): Hls | null {
+    return this.hlsPlayer;
+  }
+
+  configure(options: PlayerEngineOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  on<K extends PlayerEventName>(event: K, listener: PlayerEventListener<K>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+
+    return () => this.off(event, listener);
+  }
+
+  off<K extends PlayerEventName>(event: K, listener: PlayerEventListener<K>) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends PlayerEventName>(event: K, payload: PlayerEvents[K]) {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        (listener as PlayerEventListener<K>)(payload);
+      } catch (error) {
+        console.error(`Player ${event} listener failed:`, error);
+      }
+    });
+  }
+
+  /**
+   * Adds a plugin; the returned function removes it again
+   */
+  use(plugin: PlayerPlugin): () => void {
+    this.plugins.push(plugin);
+    const cleanup = plugin.setup(this);
+
+    return () => {
+      cleanup();
+      this.plugins = this.plugins.filter(other => other !== plugin);
+    };
+  }
+
+  /**
+   * Runs `callback` for the attached element and every one attached later;
+   * what it returns is called when that element is detached
+   */
+  onVideo(callback: (video: HTMLVideoElement) => () => void): () => void {
+    this.videoCallbacks.add(callback);
+    if (this.videoElement) this.videoCleanups.set(callback, callback(this.videoElement));
+
+    return () => {
+      this.videoCallbacks.delete(callback);
+      this.videoCleanups.get(callback)?.();
+      this.videoCleanups.delete(callback);
+    };
+  }
+
+  /**
+   * Takes over an element. A source that was loaded before starts again on it.
+   */
+  attach(video: HTMLVideoElement) {
+    if (this.videoElement === video) return;
+    this.detach();
+    this.videoElement = video;
+
+    const handleReady = () => this.markReady();
+    const handleError = () => this.handleMediaError();
+    const handleTimeUpdate = () => this.emit('timeupdate', this.getCurrentTime());
+    const handleEnded = () => this.emit('ended', undefined);
+
+    video.addEventListener('canplay', handleReady);
+    video.addEventListener('loadeddata', handleReady);
+    video.addEventListener('error', handleError);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('ended', handleEnded);
+    this.detachVideo = () => {
+      video.removeEventListener('canplay', handleReady);
+      video.removeEventListener('loadeddata', handleReady);
+      video.removeEventListener('error', handleError);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('ended', handleEnded);
+    };
+
+    this.videoCallbacks.forEach(callback => this.videoCleanups.set(callback, callback(video)));
+
+    if (this.sources.length > 0) {
+      this.playSource(this.state.sourceIndex);
+    }
+  }
+
+  detach() {
+    if (!this.videoElement) return;
+
+    this.stop();
+    this.videoCleanups.forEach(cleanup => cleanup());
+    this.videoCleanups.clear();
+    this.detachVideo?.();
+    this.detachVideo = null;
+    this.videoElement = null;
+  }
+
+  /**
+   * Plays `sources[selected]`, falling back to the sources the strategy orders after it
+   */
+  load(sources: DownloadUrl[], selected = 0) {
+    const strategy = this.options.strategy ?? selectedFirst;
+    this.sources = sources;
+    this.queue = strategy(sources, selected);
+
+    const first = this.queue.shift();
+    if (first === undefined) {
+      this.stop();
+      this.setState({ ...INITIAL_STATE, sourceIndex: selected });
+      return;
+    }
+
+    this.playSource(first);
+  }
+
+  selectSource(index: number) {
+    this.load(this.sources, index);
+  }
+
+  /**
+   * Starts the current source over from its first attempt
+   */
+  retry() {
+    this.load(this.sources, this.state.sourceIndex);
+  }
+
+  /**
+   * Stops loading and releases hls.js; the element keeps what it has
+   */
+  stop() {
+    this.loadId++;
+    this.clearLoadTimeout();
+    this.destroyHls();
+  }
+
+  /**
+   * Position in the movie; a remuxed stream starts at 0 wherever it was cut
+   */
+  getCurrentTime(): number {
+    const time = this.videoElement?.currentTime ?? 0;
+    return this.state.remux ? this.state.remux.start + time : time;
+  }
+
+  /**
+   * Seeks the element, or restarts a remux at the new position since the
+   * remuxed stream has no index to seek in
+   */
+  seek(time: number) {
+    const video = this.videoElement;
+    if (!video) return;
+
+    if (this.state.remux) {
+      this.restartRemux({ start: time });
+    } else {
+      video.currentTime = time;
+    }
+  }
+
+  /**
+   * Restarts the remux with another start time or audio stream, carrying on
+   * playing if it was
+   */
+  restartRemux({ start = this.getCurrentTime(), audioTrack }: { start?: number; audioTrack?: number }) {
+    const video = this.videoElement;
+    const remux = this.state.remux;
+    if (!video || !remux) return;
+
+    const wasPlaying = !video.paused;
+    this.startRemux(remux.info, Math.max(start, 0), audioTrack ?? remux.audioTrack);
+    if (wasPlaying) {
+      video.play().catch(() => {});
+    }
+  }
+
+  private setState(update: Partial<PlayerState>) {
+    this.state = { ...this.state, ...update };
+    this.emit('statechange', this.state);
+  }
+
+  private async playSource(index: number) {
+    const source = this.sources[index];
+    const video = this.videoElement;
+
+    this.stop();
+    const loadId = this.loadId;
+    this.remuxInfo = null;
+    this.setState({ status: 'loading', sourceIndex: index, source: source ?? null, mode: null, remux: null, error: null });
+    if (!source || !video) return;
+
+    this.emit('sourcechange', { source, index });
+    this.attempts = await this.planAttempts(source, index, video);
+    if (loadId !== this.loadId) return;
+
+    if (this.attempts.length === 0) {
+      this.failSource(`${source.format.toUpperCase()} is not supported by this browser`);
+      return;
+    }
+
+    this.startAttempt(0);
+  }
+
+  /**
+   * Lists the ways to play a source. MKV files are always tried, since the
+   * remux or the proxy may get them to play where canPlayType says no.
+   */
+  private async planAttempts(source: DownloadUrl, index: number, video: HTMLVideoElement): Promise<PlaybackAttempt[]> {
+    const format = source.format.toLowerCase();
+    const isMKV = format === 'mkv';
+    const canPlay = video.canPlayType(MIME_TYPES[format] || 'video/mp4');
+
+    if (!isMKV && canPlay === '') return [];
+
+    const attempts: PlaybackAttempt[] = [];
+    this.remuxInfo = isMKV ? await getRemuxInfo(source.url) : null;
+
+    // HLS seeks natively, so it is preferred over the remux stream when the movie is known
+    if (this.remuxInfo?.remuxable) {
+      if (this.options.movieId) {
+        attempts.push({ mode: 'hls', url: getHlsUrl(this.options.movieId, (this.options.sourceOffset ?? 0) + index) });
+      }
+      attempts.push({ mode: 'remux', url: '' });
+    }
+
+    const proxiedUrl = getProxiedVideoUrl(source.url);
+    attempts.push({ mode: 'proxy', url: proxiedUrl });
+    if (proxiedUrl !== source.url) {
+      attempts.push({ mode: 'direct', url: source.url });
+    }
+
+    return attempts;
+  }
+
+  private async startAttempt(index: number) {
+    const attempt = this.attempts[index];
+    const video = this.videoElement;
+    if (!attempt || !video) return;
+
+    this.clearLoadTimeout();
+    this.destroyHls();
+    const loadId = this.loadId;
+    this.attemptIndex = index;
+    this.setState({ status: 'loading', mode: attempt.mode, remux: null });
+    this.emit('attempt', attempt);
+
+    if (attempt.mode === 'hls') {
+      const attached = await this.attachHls(attempt.url, video);
+      if (loadId !== this.loadId) return;
+      if (!attached) {
+        this.failAttempt('HLS is not supported by this browser');
+        return;
+      }
+    } else if (attempt.mode === 'remux' && this.remuxInfo) {
+      this.startRemux(this.remuxInfo, 0, this.selectRemuxAudio(this.remuxInfo));
+    } else {
+      video.src = attempt.url;
+      video.load();
+    }
+
+    // Read the element itself; a stalled request fires no error
+    this.timeoutId = setTimeout(() => {
+      if (loadId === this.loadId && video.readyState < 2) {
+        this.failAttempt('Timed out while loading the video');
+      }
+    }, this.options.loadTimeout ?? DEFAULT_LOAD_TIMEOUT);
+  }
+
+  private startRemux(info: RemuxInfo, start: number, audioTrack: number) {
+    const video = this.videoElement;
+    const source = this.state.source;
+    if (!video || !source) return;
+
+    this.setState({ remux: { info, start, audioTrack } });
+    video.src = getRemuxUrl(source.url, start, audioTrack);
+    video.load();
+  }
+
+  private selectRemuxAudio(info: RemuxInfo): number {
+    for (const plugin of this.plugins) {
+      const track = plugin.selectRemuxAudio?.(info);
+      if (track !== null && track !== undefined) return track;
+    }
+    return 0;
+  }
+
+  /**
+   * Plays an HLS playlist with hls.js, or natively in Safari. Returns false
+   * when neither works.
+   */
+  private async attachHls(url: string, video: HTMLVideoElement): Promise<boolean> {
+    const { default: HlsPlayer } = await import('hls.js');
+
+    if (!HlsPlayer.isSupported()) {
+      if (video.canPlayType('application/vnd.apple.mpegurl') === '') return false;
+      video.src = url;
+      video.load();
+      return true;
+    }
+
+    const hls = new HlsPlayer({ backBufferLength: 90 });
+    hls.on(HlsPlayer.Events.ERROR, (_event, data) => {
+      if (data.fatal && hls === this.hlsPlayer) {
+        this.failAttempt(`HLS playback failed: ${data.details}`);
+      }
+    });
+    hls.loadSource(url);
+    hls.attachMedia(video);
+    this.hlsPlayer = hls;
+    this.emit('hlsattached', { hls, Events: HlsPlayer.Events });
+    return true;
+  }
+
+  private destroyHls() {
+    if (this.hlsPlayer) {
+      this.hlsPlayer.destroy();
+      this.hlsPlayer = null;
+    }
+  }
+
+  private clearLoadTimeout() {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+
+  private markReady() {
+    if (this.state.status !== 'loading') return;
+
+    const attempt = this.attempts[this.attemptIndex];
+    this.clearLoadTimeout();
+    this.setState({ status: 'ready', error: null });
+    if (attempt) this.emit('ready', attempt);
+  }
+
+  private handleMediaError() {
+    const video = this.videoElement;
+    if (!video || this.state.status === 'idle' || this.state.status === 'failed') return;
+
+    // An error event without an error object is a false positive
+    if (!video.error) {
+      if (video.readyState >= 2) this.markReady();
+      return;
+    }
+
+    console.error('Video error details:', {
+      code: video.error.code,
+      message: video.error.message,
+      mode: this.state.mode,
+      networkState: video.networkState,
+      readyState: video.readyState
+    });
+    this.failAttempt(describeMediaError(video.error));
+  }
+
+  private failAttempt(error: string) {
+    const attempt = this.attempts[this.attemptIndex];
+    if (!attempt) return;
+
+    this.emit('attemptfailed', { attempt, error });
+
+    if (this.attemptIndex + 1 < this.attempts.length) {
+      this.startAttempt(this.attemptIndex + 1);
+    } else {
+      this.failSource(error);
+    }
+  }
+
+  private failSource(error: string) {
+    this.attempts = [];
+    const next = this.queue.shift();
+    if (next !== undefined) {
+      this.playSource(next);
+      return;
+    }
+
+    this.stop();
+    this.setState({ status: 'failed', mode: null, remux: null, error });
+    this.emit('fatal', { error });
+  }
+}
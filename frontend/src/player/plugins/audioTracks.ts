@@ -0,0 +1,120 @@
+/**
+ * Audio Tracks Plugin
+ * Lists and switches audio tracks whichever way a source plays, and starts
+ * each source in the viewer's preferred language when it has one.
+ */
+
+import {
+  AudioOption,
+  findPreferredAudio,
+  getHlsAudioOptions,
+  getNativeActiveAudio,
+  getNativeAudioOptions,
+  getRemuxAudioOptions,
+  setNativeAudioTrack,
+  watchNativeAudioTracks
+} from '@/utils/audioTracks';
+import type { PlayerEngine } from '../PlayerEngine';
+import { PlayerPlugin, RemuxState } from '../types';
+
+export interface AudioTracksPlugin extends PlayerPlugin {
+  // Returns the option switched to, so its language can become the preferred one
+  select: (index: number) => AudioOption | null;
+}
+
+export function createAudioTracksPlugin({ getPreferredLanguage }: { getPreferredLanguage: () => string | null }): AudioTracksPlugin {
+  let engine: PlayerEngine | null = null;
+  let options: AudioOption[] = [];
+  let remux: RemuxState | null = null;
+  // The preferred language is applied once per source, not after every manual switch
+  let nativePicked = false;
+
+  const publish = (next: AudioOption[], active: number) => {
+    options = next;
+    engine?.emit('audiotracks', { options, active });
+  };
+
+  return {
+    name: 'audio-tracks',
+
+    setup(target) {
+      engine = target;
+
+      const stopAttempt = target.on('attempt', () => {
+        nativePicked = false;
+        remux = null;
+        publish([], 0);
+      });
+
+      // A remux lists the streams of the file and switches by restarting
+      const stopState = target.on('statechange', (state) => {
+        if (state.remux === remux) return;
+        remux = state.remux;
+        if (remux) publish(getRemuxAudioOptions(remux.info.audio), remux.audioTrack);
+      });
+
+      const stopHls = target.on('hlsattached', ({ hls, Events }) => {
+        hls.on(Events.AUDIO_TRACKS_UPDATED, (_event, data) => {
+          const next = getHlsAudioOptions(data.audioTracks);
+          const preferred = findPreferredAudio(next, getPreferredLanguage());
+          if (preferred && preferred.index !== hls.audioTrack) {
+            hls.audioTrack = preferred.index;
+          }
+          publish(next, preferred?.index ?? hls.audioTrack);
+        });
+        hls.on(Events.AUDIO_TRACK_SWITCHED, () => publish(options, hls.audioTrack));
+      });
+
+      // hls.js reports its renditions itself; the element only sees the one playing
+      const stopVideo = target.onVideo((video) => {
+        const update = () => {
+          if (target.hls || target.state.remux) return;
+
+          const next = getNativeAudioOptions(video);
+          if (!nativePicked && next.length > 1) {
+            nativePicked = true;
+            const preferred = findPreferredAudio(next, getPreferredLanguage());
+            if (preferred) setNativeAudioTrack(video, preferred.index);
+          }
+          publish(next, getNativeActiveAudio(video));
+        };
+
+        const stopWatching = watchNativeAudioTracks(video, update);
+        video.addEventListener('loadedmetadata', update);
+
+        return () => {
+          stopWatching();
+          video.removeEventListener('loadedmetadata', update);
+        };
+      });
+
+      return () => {
+        stopAttempt();
+        stopState();
+        stopHls();
+        stopVideo();
+        engine = null;
+      };
+    },
+
+    selectRemuxAudio(info) {
+      return findPreferredAudio(getRemuxAudioOptions(info.audio), getPreferredLanguage())?.index ?? null;
+    },
+
+    select(index) {
+      const video = engine?.video;
+      if (!engine || !video) return null;
+
+      if (engine.hls) {
+        engine.hls.audioTrack = index;
+      } else if (engine.state.remux) {
+        engine.restartRemux({ audioTrack: index });
+      } else {
+        setNativeAudioTrack(video, index);
+      }
+      publish(options, index);
+
+      return options.find(option => option.index === index) ?? null;
+    }
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * External Player Plugin
+ * Hands the current source to an installed media player through its URL
+ * scheme, for when the browser can't play it.
+ */
+
+import { ExternalPlayer, getAvailableExternalPlayers, launchInExternalPlayer } from '@/utils/mkvDetector';
+import type { PlayerEngine } from '../PlayerEngine';
+import { PlayerPlugin } from '../types';
+
+export interface ExternalPlayerPlugin extends PlayerPlugin {
+  players: ExternalPlayer[];
+  launch: (playerId: string) => Promise<boolean>;
+  // Copies the file's URL, to paste into a player without a URL scheme
+  copyUrl: () => Promise<boolean>;
+}
+
+export function createExternalPlayerPlugin(): ExternalPlayerPlugin {
+  let engine: PlayerEngine | null = null;
+
+  return {
+    name: 'external-player',
+    players: getAvailableExternalPlayers(),
+
+    setup(target) {
+      engine = target;
+      return () => {
+        engine = null;
+      };
+    },
+
+    async launch(playerId) {
+      const source = engine?.state.source;
+      if (!source) return false;
+
+      engine?.video?.pause();
+      return launchInExternalPlayer(source, playerId);
+    },
+
+    async copyUrl() {
+      const source = engine?.state.source;
+      if (!source || !navigator.clipboard) return false;
+
+      try {
+        await navigator.clipboard.writeText(source.url);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Hotkeys Plugin
+ * Keyboard control of the player. The playback keys only act while focus is
+ * inside the player, so they don't take the arrow keys from the page;
+ * bindings added as global act anywhere outside a form field.
+ */
+
+import type { PlayerEngine } from '../PlayerEngine';
+import { PlayerPlugin } from '../types';
+
+export type HotkeyHandler = (event: KeyboardEvent, engine: PlayerEngine) => void;
+
+interface Binding {
+  handler: HotkeyHandler;
+  global: boolean;
+}
+
+export interface HotkeysPlugin extends PlayerPlugin {
+  // Binds a key as KeyboardEvent.key lower-cased; returns what unbinds it
+  bind: (key: string, handler: HotkeyHandler, options?: { global?: boolean }) => () => void;
+}
+
+const SEEK_STEP = 5;
+const VOLUME_STEP = 0.1;
+
+const togglePlay: HotkeyHandler = (_event, engine) => {
+  const video = engine.video;
+  if (!video) return;
+  if (video.paused) video.play().catch(() => {});
+  else video.pause();
+};
+
+// Arrow seeks go through the engine, which restarts a remux instead of seeking it
+const DEFAULT_BINDINGS: Record<string, HotkeyHandler> = {
+  ' ': togglePlay,
+  k: togglePlay,
+  arrowleft: (_event, engine) => engine.seek(Math.max(engine.getCurrentTime() - SEEK_STEP, 0)),
+  arrowright: (_event, engine) => engine.seek(engine.getCurrentTime() + SEEK_STEP),
+  arrowup: (_event, engine) => {
+    if (engine.video) engine.video.volume = Math.min(engine.video.volume + VOLUME_STEP, 1);
+  },
+  arrowdown: (_event, engine) => {
+    if (engine.video) engine.video.volume = Math.max(engine.video.volume - VOLUME_STEP, 0);
+  },
+  m: (_event, engine) => {
+    if (engine.video) engine.video.muted = !engine.video.muted;
+  },
+  f: (_event, engine) => {
+    const container = engine.video?.parentElement;
+    if (!container) return;
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    else container.requestFullscreen().catch(() => {});
+  }
+};
+
+export function createHotkeysPlugin({ defaults = true }: { defaults?: boolean } = {}): HotkeysPlugin {
+  const bindings = new Map<string, Binding[]>();
+
+  const bind = (key: string, handler: HotkeyHandler, { global = false }: { global?: boolean } = {}) => {
+    const binding = { handler, global };
+    bindings.set(key, [...(bindings.get(key) ?? []), binding]);
+
+    return () => {
+      bindings.set(key, (bindings.get(key) ?? []).filter(other => other !== binding));
+    };
+  };
+
+  if (defaults) {
+    Object.entries(DEFAULT_BINDINGS).forEach(([key, handler]) => bind(key, handler));
+  }
+
+  return {
+    name: 'hotkeys',
+    bind,
+
+    setup(engine) {
+      const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+        if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+        const container = engine.video?.parentElement;
+        const focused = Boolean(container && target && container.contains(target));
+        // The most recent binding of a key wins
+        const binding = (bindings.get(e.key.toLowerCase()) ?? [])
+          .filter(candidate => candidate.global || focused)
+          .pop();
+        if (!binding) return;
+
+        e.preventDefault();
+        binding.handler(e, engine);
+      };
+
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Stats Plugin
+ * Samples what the element and hls.js report about playback once a second,
+ * along with the attempts that failed on the way to it.
+ */
+
+import { PlaybackStats, PlayerPlugin } from '../types';
+
+const SAMPLE_INTERVAL = 1000;
+
+function getBufferedAhead(video: HTMLVideoElement): number {
+  for (let i = 0; i < video.buffered.length; i++) {
+    if (video.buffered.start(i) <= video.currentTime && video.currentTime <= video.buffered.end(i)) {
+      return video.buffered.end(i) - video.currentTime;
+    }
+  }
+  return 0;
+}
+
+export function createStatsPlugin(): PlayerPlugin {
+  return {
+    name: 'stats',
+
+    setup(engine) {
+      let failedAttempts: PlaybackStats['failedAttempts'] = [];
+
+      const stopSource = engine.on('sourcechange', () => {
+        failedAttempts = [];
+      });
+      const stopFailed = engine.on('attemptfailed', ({ attempt, error }) => {
+        failedAttempts = [...failedAttempts, { mode: attempt.mode, error }];
+      });
+
+      const stopVideo = engine.onVideo((video) => {
+        const sample = () => {
+          const quality = video.getVideoPlaybackQuality?.();
+          const level = engine.hls ? engine.hls.levels[engine.hls.currentLevel] : undefined;
+
+          engine.emit('stats', {
+            mode: engine.state.mode,
+            resolution: video.videoWidth ? `${video.videoWidth}×${video.videoHeight}` : null,
+            buffered: getBufferedAhead(video),
+            droppedFrames: quality?.droppedVideoFrames ?? 0,
+            totalFrames: quality?.totalVideoFrames ?? 0,
+            bitrate: level?.bitrate ?? null,
+            failedAttempts
+          });
+        };
+
+        const intervalId = setInterval(sample, SAMPLE_INTERVAL);
+        return () => clearInterval(intervalId);
+      });
+
+      return () => {
+        stopSource();
+        stopFailed();
+        stopVideo();
+      };
+    }
+  };
+}
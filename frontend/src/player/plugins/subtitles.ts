@@ -0,0 +1,77 @@
+/**
+ * Subtitles Plugin
+ * Lists the text subtitle tracks embedded in each source and loads the one
+ * selected, whether embedded, next to the movie on the server or dropped
+ * onto the player.
+ */
+
+import { decodeSubtitleBuffer, parseSubtitleFile, SubtitleFormat } from '@/utils/subtitles';
+import { parseAssScript } from '@/utils/assRenderer';
+import { getSubtitleTracks } from '@/utils/videoProxy';
+import type { PlayerEngine } from '../PlayerEngine';
+import { PlayerPlugin } from '../types';
+
+export interface SubtitleSource {
+  format: SubtitleFormat;
+  // Hint for detecting the character set
+  language: string | null;
+  load: () => Promise<ArrayBuffer>;
+}
+
+export interface SubtitlesPlugin extends PlayerPlugin {
+  select: (source: SubtitleSource | null, encoding: string) => void;
+}
+
+export function createSubtitlesPlugin(): SubtitlesPlugin {
+  let engine: PlayerEngine | null = null;
+  // Bumped on every selection, so a slow load can't replace a newer one
+  let selection = 0;
+
+  return {
+    name: 'subtitles',
+
+    setup(target) {
+      engine = target;
+      let listing = 0;
+
+      const stopSource = target.on('sourcechange', ({ source }) => {
+        const id = ++listing;
+        target.emit('subtitletracks', []);
+
+        getSubtitleTracks(source.url).then((tracks) => {
+          if (id === listing) target.emit('subtitletracks', tracks.filter(track => track.isText));
+        });
+      });
+
+      return () => {
+        listing++;
+        selection++;
+        stopSource();
+        engine = null;
+      };
+    },
+
+    // Files are fetched as bytes and decoded here, so sidecar and dropped files
+    // in legacy character sets read correctly; embedded tracks arrive as UTF-8
+    select(source, encoding) {
+      const id = ++selection;
+      engine?.emit('subtitles', { cues: null, ass: null });
+      if (!source) return;
+
+      source.load()
+        .then((buffer) => {
+          if (id !== selection) return;
+
+          const text = decodeSubtitleBuffer(buffer, encoding, source.language);
+          if (source.format === 'ass' || source.format === 'ssa') {
+            engine?.emit('subtitles', { cues: null, ass: parseAssScript(text) });
+          } else {
+            engine?.emit('subtitles', { cues: parseSubtitleFile(text, source.format), ass: null });
+          }
+        })
+        .catch((err) => {
+          console.error('Failed to load subtitles:', err);
+        });
+    }
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Watch Progress Plugin
+ * Saves where the current source is every few seconds, when it pauses and
+ * when it ends, and seeks to a resume position once the source is ready.
+ */
+
+import { saveWatchProgress } from '@/utils/watchProgress';
+import type { PlayerEngine } from '../PlayerEngine';
+import { PlayerPlugin } from '../types';
+
+// Milliseconds between saves while playing
+const SAVE_INTERVAL = 10000;
+
+export interface WatchProgressPlugin extends PlayerPlugin {
+  // Seeks there now if the source is ready, or as soon as it is
+  resumeAt: (time: number) => void;
+}
+
+function getDuration(engine: PlayerEngine, video: HTMLVideoElement): number | null {
+  // A remuxed stream only knows how long the part after its start is
+  const duration = engine.state.remux ? engine.state.remux.info.duration : video.duration;
+  return duration && Number.isFinite(duration) ? duration : null;
+}
+
+export function createWatchProgressPlugin({ getMovieId }: { getMovieId: () => string | null }): WatchProgressPlugin {
+  let engine: PlayerEngine | null = null;
+  let pendingResume: number | null = null;
+  let lastSaved = 0;
+
+  const save = (video: HTMLVideoElement, position: number) => {
+    const movieId = getMovieId();
+    const source = engine?.state.source;
+    // Nothing is saved before the resume seek, which would rewind the saved position
+    if (!engine || !movieId || !source || pendingResume !== null || engine.state.status !== 'ready') return;
+
+    lastSaved = Date.now();
+    saveWatchProgress(movieId, { sourceUrl: source.url, position, duration: getDuration(engine, video) });
+  };
+
+  return {
+    name: 'watch-progress',
+
+    setup(target) {
+      engine = target;
+
+      const stopSource = target.on('sourcechange', () => {
+        lastSaved = Date.now();
+      });
+
+      const stopReady = target.on('ready', () => {
+        if (pendingResume === null) return;
+        const time = pendingResume;
+        pendingResume = null;
+        target.seek(time);
+      });
+
+      const stopVideo = target.onVideo((video) => {
+        const handleTimeUpdate = () => {
+          if (Date.now() - lastSaved >= SAVE_INTERVAL && !video.paused) save(video, target.getCurrentTime());
+        };
+        const handlePause = () => {
+          if (!video.ended) save(video, target.getCurrentTime());
+        };
+        const handleEnded = () => {
+          save(video, getDuration(target, video) ?? target.getCurrentTime());
+        };
+
+        video.addEventListener('timeupdate', handleTimeUpdate);
+        video.addEventListener('pause', handlePause);
+        video.addEventListener('ended', handleEnded);
+        return () => {
+          video.removeEventListener('timeupdate', handleTimeUpdate);
+          video.removeEventListener('pause', handlePause);
+          video.removeEventListener('ended', handleEnded);
+        };
+      });
+
+      return () => {
+        stopSource();
+        stopReady();
+        stopVideo();
+        engine = null;
+      };
+    },
+
+    resumeAt(time) {
+      if (engine?.state.status === 'ready') {
+        engine.seek(time);
+      } else {
+        pendingResume = time;
+      }
+    }
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Source Strategies
+ * Decide which sources the engine falls back to when the selected one fails.
+ */
+
+import { DownloadUrl } from '@/types/movie';
+import { Playability, PlayabilityStatus } from '@/utils/playability';
+import { SourceStrategy } from './types';
+
+/**
+ * Plays the selected source and nothing else
+ */
+export const selectedOnly: SourceStrategy = (sources, selected) => (sources[selected] ? [selected] : []);
+
+/**
+ * Plays the selected source, then the others in the order they are listed
+ */
+export const selectedFirst: SourceStrategy = (sources, selected) => {
+  const others = sources.map((_, index) => index).filter(index => index !== selected);
+  return sources[selected] ? [selected, ...others] : others;
+};
+
+const PLAYABILITY_RANK: Record<PlayabilityStatus, number> = {
+  playable: 0,
+  'audio-unsupported': 1,
+  unknown: 2,
+  external: 3
+};
+
+/**
+ * Plays the selected source, then falls back to the others by how well the
+ * probe says this browser decodes them. Sources no browser codec handles are
+ * left out, unless selected.
+ */
+export function playableFirst(playability: Record<string, Playability>): SourceStrategy {
+  const rank = (source: DownloadUrl) => PLAYABILITY_RANK[playability[source.url]?.status ?? 'unknown'];
+
+  return (sources, selected) => {
+    const others = sources
+      .map((source, index) => ({ index, rank: rank(source) }))
+      .filter(({ index, rank }) => index !== selected && rank < PLAYABILITY_RANK.external)
+      .sort((a, b) => a.rank - b.rank)
+      .map(({ index }) => index);
+
+    return sources[selected] ? [selected, ...others] : others;
+  };
+}
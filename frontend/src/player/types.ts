@@ -0,0 +1,118 @@
+/**
+ * Player Types
+ * The event model, state and extension points shared by the player engine
+ * and its plugins.
+ */
+
+import type Hls from 'hls.js';
+import { DownloadUrl } from '@/types/movie';
+import { RemuxInfo, SubtitleStream } from '@/utils/videoProxy';
+import { AudioOption } from '@/utils/audioTracks';
+import { SubtitleCue } from '@/utils/subtitles';
+import { AssScript } from '@/utils/assRenderer';
+import type { PlayerEngine } from './PlayerEngine';
+
+// The ways one source can reach the element, tried in this order:
+// backend HLS packaging, backend MKV remux, the CORS proxy, the file itself
+export type PlaybackMode = 'hls' | 'remux' | 'proxy' | 'direct';
+
+export interface PlaybackAttempt {
+  mode: PlaybackMode;
+  // Empty for the remux, whose URL depends on the start time and audio track
+  url: string;
+}
+
+// Set while an MKV plays through the backend remux; `start` is where the current stream begins
+export interface RemuxState {
+  info: RemuxInfo;
+  start: number;
+  audioTrack: number;
+}
+
+export type PlayerStatus = 'idle' | 'loading' | 'ready' | 'failed';
+
+export interface PlayerState {
+  status: PlayerStatus;
+  // Index into the sources the engine was loaded with
+  sourceIndex: number;
+  source: DownloadUrl | null;
+  mode: PlaybackMode | null;
+  remux: RemuxState | null;
+  // Why the last source failed, once every attempt has
+  error: string | null;
+}
+
+export interface AudioTracksState {
+  options: AudioOption[];
+  active: number;
+}
+
+export interface LoadedSubtitles {
+  cues: SubtitleCue[] | null;
+  // ASS/SSA tracks are drawn on a canvas instead of as cues, to keep their styling
+  ass: AssScript | null;
+}
+
+export interface PlaybackStats {
+  mode: PlaybackMode | null;
+  resolution: string | null;
+  // Seconds buffered ahead of the playhead
+  buffered: number;
+  droppedFrames: number;
+  totalFrames: number;
+  // Bits per second of the HLS rendition playing, when hls.js knows it
+  bitrate: number | null;
+  failedAttempts: { mode: PlaybackMode; error: string }[];
+}
+
+/**
+ * Every event the engine and the bundled plugins emit, with its payload
+ */
+export interface PlayerEvents {
+  statechange: PlayerState;
+  sourcechange: { source: DownloadUrl; index: number };
+  attempt: PlaybackAttempt;
+  ready: PlaybackAttempt;
+  attemptfailed: { attempt: PlaybackAttempt; error: string };
+  // Every attempt of every source the strategy offered has failed
+  fatal: { error: string };
+  // Position in the movie, which a remuxed stream offsets by its start
+  timeupdate: number;
+  ended: undefined;
+  hlsattached: { hls: Hls; Events: typeof Hls.Events };
+  audiotracks: AudioTracksState;
+  subtitletracks: SubtitleStream[];
+  subtitles: LoadedSubtitles;
+  stats: PlaybackStats;
+}
+
+export type PlayerEventName = keyof PlayerEvents;
+
+export type PlayerEventListener<K extends PlayerEventName> = (payload: PlayerEvents[K]) => void;
+
+/**
+ * Orders the sources to try: the first entry is played, the rest are fallen
+ * back to in turn when every attempt of the one before fails
+ */
+export type SourceStrategy = (sources: DownloadUrl[], selected: number) => number[];
+
+/**
+ * An extension of the engine. `setup` runs when the plugin is added and
+ * returns what undoes it.
+ */
+export interface PlayerPlugin {
+  name: string;
+  setup: (engine: PlayerEngine) => () => void;
+  // Picks the audio stream a remux starts with; null leaves the choice to the next plugin
+  selectRemuxAudio?: (info: RemuxInfo) => number | null;
+}
+
+export interface PlayerEngineOptions {
+  strategy?: SourceStrategy;
+  // With a movie ID, MKV sources play through the backend's HLS packaging;
+  // sourceOffset is the position of sources[0] in the movie's downloadUrls
+  movieId?: string;
+  sourceOffset?: number;
+  // Milliseconds an attempt may take to have data before the next one is tried
+  loadTimeout?: number;
+}
@@ -1,8 +1,42 @@
+/**
+ * Fields parsed by the backend from a release name such as
+ * `Movie.Name.2024.1080p.WEB-DL.DDP5.1.x265-GRP.mkv`
+ */
+export interface ReleaseInfo {
+  title: string;
+  year: string | null;
+  resolution: string | null;
+  source: string | null;
+  videoCodec: string | null;
+  audioCodec: string | null;
+  audioChannels: string | null;
+  hdr: string | null;
+  languages: string[];
+  multiAudio: boolean;
+  edition: string | null;
+  releaseGroup: string | null;
+  season: number | null;
+  episode: number | null;
+  container: string | null;
+}
+
 export interface DownloadUrl {
   url: string;
   quality: string;
   format: string;
   label?: string;
+  release?: ReleaseInfo;
+}
+
+export interface SubtitleFile {
+  url: string;
+  filename: string;
+  format: 'srt' | 'vtt' | 'ass' | 'ssa' | 'sub';
+  language: string | null;
+  languageCode: string | null;
+  forced: boolean;
+  hearingImpaired: boolean;
+  label: string;
 }
 
 export interface Movie {
@@ -13,11 +47,56 @@ export interface Movie {
   language?: string;
   detailUrl?: string;
   downloadUrls?: DownloadUrl[];
+  subtitles?: SubtitleFile[];
   genres?: string[];
   rating?: string;
   size?: string;
   quality?: string;
   description?: string;
+  firstSeenAt?: string;
+  lastSeenAt?: string;
+}
+
+export interface Episode {
+  id: string;
+  seriesId: string;
+  seasonNumber: number;
+  episodeNumber: number;
+  title: string;
+  downloadUrls: DownloadUrl[];
+}
+
+export interface Season {
+  seasonNumber: number;
+  title: string;
+  episodes: Episode[];
+}
+
+export interface Series {
+  id: string;
+  title: string;
+  poster?: string;
+  year?: string;
+  language?: string;
+  detailUrl?: string;
+  directoryUrl?: string;
+  description?: string;
+  rating?: string;
+  genres?: string[];
+  quality?: string;
+  seasons: Season[];
+  seasonCount: number;
+  episodeCount: number;
+  firstSeenAt?: string;
+  lastSeenAt?: string;
+}
+
+/**
+ * Series as returned by the listing endpoint: seasons carry an episode
+ * count instead of the episode list
+ */
+export interface SeriesSummary extends Omit<Series, 'seasons'> {
+  seasons: (Omit<Season, 'episodes'> & { episodeCount: number })[];
 }
 
 export interface ApiResponse<T> {
@@ -27,16 +106,79 @@ export interface ApiResponse<T> {
     total: number;
     lastUpdated: string;
     isAuthenticated?: boolean;
+    // Set by the movie listing when a page was asked for
+    sort?: MovieSort;
+    order?: SortOrder;
+    page?: number;
+    pageSize?: number;
+    totalPages?: number;
+    nextCursor?: string | null;
+    // Set by search
+    query?: string;
+    facets?: SearchFacets;
   };
   error?: string;
   message?: string;
 }
 
-export interface SearchFilters {
+export type MovieSort = 'title' | 'year' | 'added' | 'rating' | 'size';
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Query parameters of GET /api/movies. List filters match any of their
+ * values; leave out page, pageSize and cursor to get every match at once.
+ */
+export interface MovieListQuery extends Partial<Record<FacetName, string[]>> {
+  sort?: MovieSort;
+  order?: SortOrder;
+  yearFrom?: number;
+  yearTo?: number;
+  minRating?: number;
+  ids?: string[];
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+}
+
+export interface MoviePage {
+  movies: Movie[];
+  meta: NonNullable<ApiResponse<Movie[]>['meta']>;
+}
+
+/**
+ * What search results can be narrowed by. Qualities are resolutions such as
+ * "1080p", formats are "MKV" or "MP4", and hasSubtitles is "true" or "false".
+ */
+export type FacetName = 'language' | 'year' | 'decade' | 'quality' | 'genre' | 'format' | 'hasSubtitles';
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+/**
+ * Movies per facet value. A facet's counts ignore what is chosen in that
+ * facet, so they show how many movies choosing another value would add.
+ */
+export type SearchFacets = Record<FacetName, FacetBucket[]>;
+
+/**
+ * A search query with the facet values chosen; a movie matches any of the
+ * values chosen in a facet
+ */
+export interface SearchFilters extends Partial<Record<FacetName, string[]>> {
   query?: string;
-  year?: string;
-  language?: string;
-  quality?: string;
+}
+
+/**
+ * A search-as-you-type suggestion from GET /api/suggest
+ */
+export interface MovieSuggestion {
+  id: string;
+  title: string;
+  year: string | null;
+  poster: string | null;
 }
 
 export interface ApiStatus {
@@ -45,8 +187,25 @@ export interface ApiStatus {
     isAuthenticated: boolean;
     lastAuthTime: string;
     moviesCount: number;
+    seriesCount?: number;
     lastScrapeTime: string;
     uptime: number;
     version: string;
+    usingMockData?: boolean;
+    dataSource?: string;
+    storage?: {
+      backend: string;
+      path: string;
+      isLoaded: boolean;
+      isPersistent: boolean;
+      lastSavedAt: string | null;
+    };
   };
 }
+
+// The signed-in account, as the backend's /users/me returns it
+export interface User {
+  id: string;
+  username: string;
+  createdAt: string;
+}
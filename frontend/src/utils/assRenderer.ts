@@ -0,0 +1,785 @@
+/**
+ * ASS Renderer
+ * Parses Advanced SubStation Alpha (ASS/SSA) scripts and draws them onto a
+ * canvas, keeping the styling that a WebVTT conversion loses: styles, \pos,
+ * \move and \an positioning, colours and transparency, fades, karaoke and
+ * several events on screen at once.
+ */
+
+export interface AssColor {
+  r: number;
+  g: number;
+  b: number;
+  // 0 is transparent, 1 opaque (ASS stores the inverse)
+  opacity: number;
+}
+
+export interface AssStyle {
+  name: string;
+  fontName: string;
+  fontSize: number;
+  primaryColour: AssColor;
+  secondaryColour: AssColor;
+  outlineColour: AssColor;
+  backColour: AssColor;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikeOut: boolean;
+  scaleX: number;
+  spacing: number;
+  borderStyle: number;
+  outline: number;
+  shadow: number;
+  // Numpad layout: 1-3 bottom, 4-6 middle, 7-9 top
+  alignment: number;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+}
+
+export interface AssEvent {
+  layer: number;
+  start: number;
+  end: number;
+  style: string;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+  text: string;
+}
+
+export interface AssScript {
+  playResX: number;
+  playResY: number;
+  wrapStyle: number;
+  styles: Record<string, AssStyle>;
+  events: AssEvent[];
+}
+
+/**
+ * The area of the canvas the video picture covers, in canvas pixels
+ */
+export interface AssViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface RunState {
+  fontName: string;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikeOut: boolean;
+  scaleX: number;
+  spacing: number;
+  primaryColour: AssColor;
+  secondaryColour: AssColor;
+  outlineColour: AssColor;
+  backColour: AssColor;
+  outline: number;
+  shadow: number;
+}
+
+interface TextRun extends RunState {
+  text: string;
+  // Karaoke timing in milliseconds from the event start
+  karaoke: { type: 'k' | 'kf' | 'ko'; start: number; duration: number } | null;
+  lineBreak: boolean;
+}
+
+interface EventLayout {
+  runs: TextRun[];
+  alignment: number;
+  pos: { x: number; y: number } | null;
+  move: { x1: number; y1: number; x2: number; y2: number; t1: number; t2: number } | null;
+  fade: { alphas: [number, number, number]; times: [number, number, number, number] } | null;
+}
+
+interface MeasuredRun {
+  run: TextRun;
+  // The run this piece was cut from when wrapping
+  source: TextRun;
+  width: number;
+}
+
+interface MeasuredLine {
+  runs: MeasuredRun[];
+  width: number;
+  height: number;
+}
+
+const DEFAULT_STYLE: AssStyle = {
+  name: 'Default',
+  fontName: 'Arial',
+  fontSize: 20,
+  primaryColour: { r: 255, g: 255, b: 255, opacity: 1 },
+  secondaryColour: { r: 255, g: 0, b: 0, opacity: 1 },
+  outlineColour: { r: 0, g: 0, b: 0, opacity: 1 },
+  backColour: { r: 0, g: 0, b: 0, opacity: 0.5 },
+  bold: false,
+  italic: false,
+  underline: false,
+  strikeOut: false,
+  scaleX: 100,
+  spacing: 0,
+  borderStyle: 1,
+  outline: 2,
+  shadow: 2,
+  alignment: 2,
+  marginL: 10,
+  marginR: 10,
+  marginV: 10
+};
+
+// Script resolution when [Script Info] doesn't give one, as in libass
+const DEFAULT_PLAY_RES = { x: 384, y: 288 };
+
+const layoutCache = new WeakMap<AssEvent, EventLayout>();
+
+export function parseAssScript(content: string): AssScript {
+  const script: AssScript = {
+    playResX: 0,
+    playResY: 0,
+    wrapStyle: 0,
+    styles: {},
+    events: []
+  };
+
+  let section = '';
+  let styleFormat: string[] = [];
+  let eventFormat: string[] = [];
+  let legacyAlignment = false;
+
+  content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      legacyAlignment = section === 'v4 styles';
+      return;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1 || line.startsWith(';')) return;
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+
+    if (section === 'script info') {
+      if (key === 'PlayResX') script.playResX = parseInt(value) || 0;
+      if (key === 'PlayResY') script.playResY = parseInt(value) || 0;
+      if (key === 'WrapStyle') script.wrapStyle = parseInt(value) || 0;
+    } else if (section === 'v4+ styles' || section === 'v4 styles') {
+      if (key === 'Format') {
+        styleFormat = value.split(',').map(field => field.trim().toLowerCase());
+      } else if (key === 'Style') {
+        const style = parseStyle(styleFormat, value.split(','), legacyAlignment);
+        script.styles[style.name] = style;
+      }
+    } else if (section === 'events') {
+      if (key === 'Format') {
+        eventFormat = value.split(',').map(field => field.trim().toLowerCase());
+      } else if (key === 'Dialogue') {
+        const event = parseEvent(eventFormat, value);
+        if (event) script.events.push(event);
+      }
+    }
+  });
+
+  // A missing dimension follows the other one at 4:3, as libass does
+  if (!script.playResX && !script.playResY) {
+    script.playResX = DEFAULT_PLAY_RES.x;
+    script.playResY = DEFAULT_PLAY_RES.y;
+  } else if (!script.playResY) {
+    script.playResY = script.playResX === 1280 ? 1024 : Math.round(script.playResX * 3 / 4);
+  } else if (!script.playResX) {
+    script.playResX = script.playResY === 1024 ? 1280 : Math.round(script.playResY * 4 / 3);
+  }
+
+  script.events.sort((a, b) => a.start - b.start);
+  return script;
+}
+
+/**
+ * Draws every event visible at `time` seconds. The canvas is cleared first.
+ */
+export function renderAssFrame(ctx: CanvasRenderingContext2D, script: AssScript, time: number, viewport: AssViewport): void {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+  const active = getActiveEvents(script, time);
+  if (active.length === 0) return;
+
+  const scaleX = viewport.width / script.playResX;
+  const scaleY = viewport.height / script.playResY;
+  // Boxes taken by events placed by alignment; later events move out of their way
+  const occupied: { top: number; bottom: number; left: number; right: number }[] = [];
+
+  ctx.save();
+  ctx.translate(viewport.x, viewport.y);
+  ctx.textBaseline = 'alphabetic';
+  ctx.lineJoin = 'round';
+
+  for (const event of active) {
+    const style = script.styles[event.style] || script.styles.Default || DEFAULT_STYLE;
+    const layout = getEventLayout(event, style, script.styles);
+    if (layout.runs.every(run => run.text === '')) continue;
+
+    const elapsed = (time - event.start) * 1000;
+    const duration = (event.end - event.start) * 1000;
+    const opacity = getFadeOpacity(layout, elapsed, duration);
+    if (opacity <= 0) continue;
+
+    const marginL = event.marginL || style.marginL;
+    const marginR = event.marginR || style.marginR;
+    const marginV = event.marginV || style.marginV;
+    const maxWidth = (script.playResX - marginL - marginR) * scaleX;
+    const lines = layoutLines(ctx, layout.runs, scaleY, script.wrapStyle === 2 ? Infinity : maxWidth);
+    const blockWidth = Math.max(...lines.map(line => line.width));
+    const blockHeight = lines.reduce((total, line) => total + line.height, 0);
+
+    const horizontal = (layout.alignment - 1) % 3;
+    const vertical = layout.alignment <= 3 ? 'bottom' : layout.alignment <= 6 ? 'middle' : 'top';
+    const anchor = getAnchor(layout, script, elapsed, { marginL, marginR, marginV, horizontal, vertical });
+    const anchorX = anchor.x * scaleX;
+    let anchorY = anchor.y * scaleY;
+
+    const left = anchorX - blockWidth * horizontal / 2;
+    let top = vertical === 'bottom' ? anchorY - blockHeight : vertical === 'middle' ? anchorY - blockHeight / 2 : anchorY;
+
+    if (!layout.pos && !layout.move) {
+      for (const box of occupied) {
+        const overlaps = left < box.right && left + blockWidth > box.left && top < box.bottom && top + blockHeight > box.top;
+        if (!overlaps) continue;
+        top = vertical === 'bottom' ? box.top - blockHeight : box.bottom;
+      }
+      anchorY = top;
+      occupied.push({ top, bottom: top + blockHeight, left, right: left + blockWidth });
+    }
+
+    let y = top;
+    for (const line of lines) {
+      const x = left + (blockWidth - line.width) * horizontal / 2;
+      drawLine(ctx, line, x, y, { elapsed, opacity, scaleY, borderStyle: style.borderStyle });
+      y += line.height;
+    }
+  }
+
+  ctx.restore();
+}
+
+function getActiveEvents(script: AssScript, time: number): AssEvent[] {
+  const active: AssEvent[] = [];
+
+  for (const event of script.events) {
+    if (event.start > time) break;
+    if (event.end > time) active.push(event);
+  }
+
+  // Lower layers are drawn first; the sort is stable, so file order breaks ties
+  return active.sort((a, b) => a.layer - b.layer);
+}
+
+function parseStyle(format: string[], fields: string[], legacyAlignment: boolean): AssStyle {
+  const get = (name: string) => {
+    const index = format.indexOf(name);
+    return index === -1 ? undefined : fields[index]?.trim();
+  };
+  const number = (name: string, fallback: number) => {
+    const value = parseFloat(get(name) ?? '');
+    return Number.isNaN(value) ? fallback : value;
+  };
+  const flag = (name: string) => {
+    const value = get(name);
+    return value !== undefined && value !== '0';
+  };
+  const colour = (name: string, fallback: AssColor) => {
+    const value = get(name);
+    return value ? parseColor(value) ?? fallback : fallback;
+  };
+
+  const alignment = number('alignment', DEFAULT_STYLE.alignment);
+
+  return {
+    name: get('name') || 'Default',
+    fontName: get('fontname') || DEFAULT_STYLE.fontName,
+    fontSize: number('fontsize', DEFAULT_STYLE.fontSize),
+    primaryColour: colour('primarycolour', DEFAULT_STYLE.primaryColour),
+    secondaryColour: colour('secondarycolour', DEFAULT_STYLE.secondaryColour),
+    // SSA calls the outline colour TertiaryColour
+    outlineColour: colour('outlinecolour', colour('tertiarycolour', DEFAULT_STYLE.outlineColour)),
+    backColour: colour('backcolour', DEFAULT_STYLE.backColour),
+    bold: flag('bold'),
+    italic: flag('italic'),
+    underline: flag('underline'),
+    strikeOut: flag('strikeout'),
+    scaleX: number('scalex', 100),
+    spacing: number('spacing', 0),
+    borderStyle: number('borderstyle', 1),
+    outline: number('outline', DEFAULT_STYLE.outline),
+    shadow: number('shadow', DEFAULT_STYLE.shadow),
+    alignment: legacyAlignment ? fromLegacyAlignment(alignment) : alignment,
+    marginL: number('marginl', DEFAULT_STYLE.marginL),
+    marginR: number('marginr', DEFAULT_STYLE.marginR),
+    marginV: number('marginv', DEFAULT_STYLE.marginV)
+  };
+}
+
+function parseEvent(format: string[], value: string): AssEvent | null {
+  const textIndex = format.indexOf('text');
+  if (textIndex === -1) return null;
+
+  // Only the last field (Text) may contain commas
+  const fields = value.split(',');
+  const text = fields.slice(textIndex).join(',');
+  const get = (name: string) => {
+    const index = format.indexOf(name);
+    return index === -1 || index >= textIndex ? '' : fields[index].trim();
+  };
+
+  return {
+    layer: parseInt(get('layer')) || 0,
+    start: parseAssTime(get('start')),
+    end: parseAssTime(get('end')),
+    style: get('style').replace(/^\*/, '') || 'Default',
+    marginL: parseInt(get('marginl')) || 0,
+    marginR: parseInt(get('marginr')) || 0,
+    marginV: parseInt(get('marginv')) || 0,
+    text
+  };
+}
+
+function parseAssTime(value: string): number {
+  const match = value.match(/(\d+):(\d{1,2}):(\d{1,2})(?:\.(\d+))?/);
+  if (!match) return 0;
+
+  const fraction = match[4] ? parseInt(match[4]) / Math.pow(10, match[4].length) : 0;
+  return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]) + fraction;
+}
+
+/**
+ * Reads &HAABBGGRR& (ASS) and decimal BGR (SSA) colours
+ */
+function parseColor(value: string): AssColor | null {
+  const trimmed = value.trim().replace(/&$/, '');
+  const number = /^&H/i.test(trimmed) ? parseInt(trimmed.slice(2), 16) : parseInt(trimmed, 10);
+  if (Number.isNaN(number)) return null;
+
+  return {
+    r: number & 0xff,
+    g: (number >>> 8) & 0xff,
+    b: (number >>> 16) & 0xff,
+    opacity: 1 - ((number >>> 24) & 0xff) / 255
+  };
+}
+
+function parseAlpha(value: string): number {
+  const number = parseInt(value.replace(/&/g, '').replace(/^H/i, ''), 16);
+  return Number.isNaN(number) ? 1 : 1 - Math.min(number, 255) / 255;
+}
+
+/**
+ * SSA numbers alignments 1-3 (bottom), 5-7 (top) and 9-11 (middle)
+ */
+function fromLegacyAlignment(alignment: number): number {
+  const horizontal = ((alignment - 1) & 3) + 1;
+  if (alignment & 4) return horizontal + 6;
+  if (alignment & 8) return horizontal + 3;
+  return horizontal;
+}
+
+function styleState(style: AssStyle): RunState {
+  return {
+    fontName: style.fontName,
+    fontSize: style.fontSize,
+    bold: style.bold,
+    italic: style.italic,
+    underline: style.underline,
+    strikeOut: style.strikeOut,
+    scaleX: style.scaleX,
+    spacing: style.spacing,
+    primaryColour: style.primaryColour,
+    secondaryColour: style.secondaryColour,
+    outlineColour: style.outlineColour,
+    backColour: style.backColour,
+    outline: style.outline,
+    shadow: style.shadow
+  };
+}
+
+/**
+ * Splits the event text into runs of identically styled text, applying the
+ * override blocks. Positioning and fades apply to the whole event; the first
+ * occurrence wins, as in libass.
+ */
+function getEventLayout(event: AssEvent, style: AssStyle, styles: Record<string, AssStyle>): EventLayout {
+  const cached = layoutCache.get(event);
+  if (cached) return cached;
+
+  const layout: EventLayout = { runs: [], alignment: style.alignment, pos: null, move: null, fade: null };
+  let alignmentSet = false;
+  let state = styleState(style);
+  let karaoke: TextRun['karaoke'] = null;
+  let karaokeTime = 0;
+  // Text in drawing mode (\p1) is vector drawing commands, which aren't rendered
+  let drawing = false;
+
+  const pushText = (text: string) => {
+    if (drawing) return;
+    const parts = text.replace(/\\h/g, ' ').replace(/\\n/g, ' ').split('\\N');
+    parts.forEach((part, index) => {
+      if (part !== '' || index > 0) {
+        layout.runs.push({ ...state, text: part, karaoke, lineBreak: index > 0 });
+      }
+    });
+  };
+
+  const applyTag = (name: string, args: string) => {
+    const params = args.replace(/^\(|\)$/g, '').split(',').map(param => param.trim());
+    const first = parseFloat(params[0]);
+
+    switch (name) {
+      case 'pos':
+        if (!layout.pos && !layout.move && params.length >= 2) layout.pos = { x: first, y: parseFloat(params[1]) };
+        break;
+      case 'move':
+        if (!layout.pos && !layout.move && params.length >= 4) {
+          const [x1, y1, x2, y2, t1, t2] = params.map(parseFloat);
+          layout.move = { x1, y1, x2, y2, t1: t1 || 0, t2: t2 || 0 };
+        }
+        break;
+      case 'an':
+        if (!alignmentSet && first >= 1 && first <= 9) {
+          layout.alignment = first;
+          alignmentSet = true;
+        }
+        break;
+      case 'a':
+        if (!alignmentSet && first > 0) {
+          layout.alignment = fromLegacyAlignment(first);
+          alignmentSet = true;
+        }
+        break;
+      case 'fad':
+        if (!layout.fade && params.length >= 2) {
+          const fadeIn = first;
+          const fadeOut = parseFloat(params[1]);
+          const duration = (event.end - event.start) * 1000;
+          layout.fade = { alphas: [0, 1, 0], times: [0, fadeIn, duration - fadeOut, duration] };
+        }
+        break;
+      case 'fade':
+        if (!layout.fade && params.length >= 7) {
+          const [a1, a2, a3, t1, t2, t3, t4] = params.map(parseFloat);
+          layout.fade = { alphas: [1 - a1 / 255, 1 - a2 / 255, 1 - a3 / 255], times: [t1, t2, t3, t4] };
+        }
+        break;
+      case 'b':
+        // \b1 or a weight of 700 and up
+        state = { ...state, bold: args === '' ? style.bold : first === 1 || first >= 700 };
+        break;
+      case 'i':
+        state = { ...state, italic: args === '' ? style.italic : args === '1' };
+        break;
+      case 'u':
+        state = { ...state, underline: args === '' ? style.underline : args === '1' };
+        break;
+      case 's':
+        state = { ...state, strikeOut: args === '' ? style.strikeOut : args === '1' };
+        break;
+      case 'fn':
+        state = { ...state, fontName: args || style.fontName };
+        break;
+      case 'fs':
+        state = { ...state, fontSize: first > 0 ? first : style.fontSize };
+        break;
+      case 'fscx':
+        state = { ...state, scaleX: Number.isNaN(first) ? style.scaleX : first };
+        break;
+      case 'fsp':
+        state = { ...state, spacing: Number.isNaN(first) ? style.spacing : first };
+        break;
+      case 'bord':
+        state = { ...state, outline: Number.isNaN(first) ? style.outline : first };
+        break;
+      case 'shad':
+        state = { ...state, shadow: Number.isNaN(first) ? style.shadow : first };
+        break;
+      case 'c':
+      case '1c':
+        state = { ...state, primaryColour: withColor(state.primaryColour, args, style.primaryColour) };
+        break;
+      case '2c':
+        state = { ...state, secondaryColour: withColor(state.secondaryColour, args, style.secondaryColour) };
+        break;
+      case '3c':
+        state = { ...state, outlineColour: withColor(state.outlineColour, args, style.outlineColour) };
+        break;
+      case '4c':
+        state = { ...state, backColour: withColor(state.backColour, args, style.backColour) };
+        break;
+      case 'alpha': {
+        const opacity = parseAlpha(args);
+        state = {
+          ...state,
+          primaryColour: { ...state.primaryColour, opacity },
+          secondaryColour: { ...state.secondaryColour, opacity },
+          outlineColour: { ...state.outlineColour, opacity },
+          backColour: { ...state.backColour, opacity }
+        };
+        break;
+      }
+      case '1a':
+        state = { ...state, primaryColour: { ...state.primaryColour, opacity: parseAlpha(args) } };
+        break;
+      case '2a':
+        state = { ...state, secondaryColour: { ...state.secondaryColour, opacity: parseAlpha(args) } };
+        break;
+      case '3a':
+        state = { ...state, outlineColour: { ...state.outlineColour, opacity: parseAlpha(args) } };
+        break;
+      case '4a':
+        state = { ...state, backColour: { ...state.backColour, opacity: parseAlpha(args) } };
+        break;
+      case 'k':
+      case 'K':
+      case 'kf':
+      case 'ko': {
+        // Durations are in centiseconds; \K is the same sweep as \kf
+        const duration = (Number.isNaN(first) ? 0 : first) * 10;
+        const type = name === 'k' ? 'k' : name === 'ko' ? 'ko' : 'kf';
+        karaoke = { type, start: karaokeTime, duration };
+        karaokeTime += duration;
+        break;
+      }
+      case 'r':
+        state = styleState(styles[args] || style);
+        break;
+      case 'p':
+        drawing = first > 0;
+        break;
+    }
+  };
+
+  // Longer names come first so that \alpha isn't read as \a and \blur as \b.
+  // Tags the renderer doesn't support are matched too, and ignored.
+  const tagPattern = /\\(pos|move|org|an|alpha|a|fade|fad|fscx|fscy|fsp|fax|fay|fn|fe|frx|fry|frz|fr|fs|xbord|ybord|bord|xshad|yshad|shad|blur|be|iclip|clip|[1-4]?c|[1-4]a|kf|ko|k|K|b|i|u|s|r|t|q|pbo|p)(\([^)]*\)?|[^\\]*)/g;
+  const blockPattern = /\{([^}]*)\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = blockPattern.exec(event.text)) !== null) {
+    pushText(event.text.slice(lastIndex, match.index));
+    lastIndex = blockPattern.lastIndex;
+
+    let tag: RegExpExecArray | null;
+    tagPattern.lastIndex = 0;
+    while ((tag = tagPattern.exec(match[1])) !== null) {
+      applyTag(tag[1], tag[2].trim());
+    }
+  }
+  pushText(event.text.slice(lastIndex));
+
+  layoutCache.set(event, layout);
+  return layout;
+}
+
+function withColor(current: AssColor, value: string, fallback: AssColor): AssColor {
+  if (value === '') return fallback;
+  const color = parseColor(value);
+  // Override colours carry no alpha; \alpha and \Na set it separately
+  return color ? { ...color, opacity: current.opacity } : current;
+}
+
+function getFadeOpacity(layout: EventLayout, elapsed: number, duration: number): number {
+  if (!layout.fade) return 1;
+
+  const { alphas: [a1, a2, a3], times: [t1, t2, t3, t4] } = layout.fade;
+  if (elapsed < t1) return a1;
+  if (elapsed < t2) return a1 + (a2 - a1) * (elapsed - t1) / Math.max(t2 - t1, 1);
+  if (elapsed < t3) return a2;
+  if (elapsed < t4) return a2 + (a3 - a2) * (elapsed - t3) / Math.max(t4 - t3, 1);
+  return elapsed <= duration ? a3 : 0;
+}
+
+function getAnchor(
+  layout: EventLayout,
+  script: AssScript,
+  elapsed: number,
+  placement: { marginL: number; marginR: number; marginV: number; horizontal: number; vertical: string }
+): { x: number; y: number } {
+  if (layout.pos) return layout.pos;
+
+  if (layout.move) {
+    const { x1, y1, x2, y2, t1, t2 } = layout.move;
+    const progress = t2 > t1 ? Math.min(Math.max((elapsed - t1) / (t2 - t1), 0), 1) : 1;
+    return { x: x1 + (x2 - x1) * progress, y: y1 + (y2 - y1) * progress };
+  }
+
+  const { marginL, marginR, marginV, horizontal, vertical } = placement;
+  const x = horizontal === 0 ? marginL : horizontal === 2 ? script.playResX - marginR : (marginL + script.playResX - marginR) / 2;
+  const y = vertical === 'top' ? marginV : vertical === 'bottom' ? script.playResY - marginV : script.playResY / 2;
+  return { x, y };
+}
+
+function getFont(run: RunState, scaleY: number): string {
+  return `${run.italic ? 'italic ' : ''}${run.bold ? 'bold ' : ''}${run.fontSize * scaleY}px "${run.fontName}", sans-serif`;
+}
+
+function measureRun(ctx: CanvasRenderingContext2D, run: TextRun, text: string, scaleY: number): number {
+  ctx.font = getFont(run, scaleY);
+  const spacing = run.spacing * scaleY * text.length;
+  return (ctx.measureText(text).width + spacing) * run.scaleX / 100;
+}
+
+/**
+ * Breaks runs into lines at \N and wraps lines wider than `maxWidth` at spaces
+ */
+function layoutLines(ctx: CanvasRenderingContext2D, runs: TextRun[], scaleY: number, maxWidth: number): MeasuredLine[] {
+  const lines: MeasuredLine[] = [];
+  let current: MeasuredLine = { runs: [], width: 0, height: 0 };
+
+  const finishLine = () => {
+    if (current.height === 0) current.height = (runs[0]?.fontSize ?? DEFAULT_STYLE.fontSize) * scaleY;
+    lines.push(current);
+    current = { runs: [], width: 0, height: 0 };
+  };
+
+  for (const run of runs) {
+    if (run.lineBreak) finishLine();
+
+    const words = run.text.split(/(?<= )/);
+    for (const word of words) {
+      if (word === '') continue;
+      const width = measureRun(ctx, run, word, scaleY);
+
+      if (current.width > 0 && current.width + width > maxWidth && word.trim() !== '') {
+        // Trailing spaces don't count towards the width of a wrapped line
+        const last = current.runs[current.runs.length - 1];
+        if (last && last.run.text.endsWith(' ')) {
+          current.width -= measureRun(ctx, last.run, ' ', scaleY);
+        }
+        finishLine();
+      }
+
+      const previous = current.runs[current.runs.length - 1];
+      if (previous && previous.source === run) {
+        previous.width += width;
+        previous.run = { ...run, text: previous.run.text + word };
+      } else {
+        current.runs.push({ run: { ...run, text: word }, source: run, width });
+      }
+      current.width += width;
+      current.height = Math.max(current.height, run.fontSize * scaleY);
+    }
+  }
+
+  finishLine();
+  return lines;
+}
+
+function toCss(color: AssColor, opacity: number): string {
+  return `rgba(${color.r}, ${color.g}, ${color.b}, ${Math.max(0, Math.min(1, color.opacity * opacity))})`;
+}
+
+function drawLine(
+  ctx: CanvasRenderingContext2D,
+  line: MeasuredLine,
+  left: number,
+  top: number,
+  options: { elapsed: number; opacity: number; scaleY: number; borderStyle: number }
+): void {
+  const { elapsed, opacity, scaleY, borderStyle } = options;
+  // Place the baseline so descenders stay inside the line box
+  const baseline = top + line.height * 0.8;
+
+  // Border style 3 draws an opaque box in the outline colour instead of an outline
+  if (borderStyle === 3 && line.runs.length > 0) {
+    const padding = line.runs[0].run.outline * scaleY;
+    ctx.fillStyle = toCss(line.runs[0].run.outlineColour, opacity);
+    ctx.fillRect(left - padding, top - padding, line.width + padding * 2, line.height + padding * 2);
+  }
+
+  const passes: ('shadow' | 'outline' | 'fill')[] = borderStyle === 3 ? ['fill'] : ['shadow', 'outline', 'fill'];
+
+  for (const pass of passes) {
+    let x = left;
+
+    for (const { run, width } of line.runs) {
+      ctx.save();
+      ctx.font = getFont(run, scaleY);
+      ctx.translate(x, baseline);
+      ctx.scale(run.scaleX / 100, 1);
+      ctx.letterSpacing = `${run.spacing * scaleY}px`;
+
+      const karaoke = getKaraokeProgress(run, elapsed);
+      const outline = run.outline * scaleY;
+      const shadow = run.shadow * scaleY;
+
+      if (pass === 'shadow' && shadow > 0) {
+        ctx.fillStyle = toCss(run.backColour, opacity);
+        ctx.strokeStyle = ctx.fillStyle;
+        ctx.lineWidth = outline * 2;
+        if (outline > 0) ctx.strokeText(run.text, shadow, shadow);
+        ctx.fillText(run.text, shadow, shadow);
+      } else if (pass === 'outline' && outline > 0 && !(run.karaoke?.type === 'ko' && karaoke < 1)) {
+        ctx.strokeStyle = toCss(run.outlineColour, opacity);
+        ctx.lineWidth = outline * 2;
+        ctx.strokeText(run.text, 0, 0);
+      } else if (pass === 'fill') {
+        const unscaledWidth = width * 100 / Math.max(run.scaleX, 1);
+        drawFill(ctx, run, unscaledWidth, karaoke, opacity);
+        drawDecorations(ctx, run, unscaledWidth, scaleY, opacity);
+      }
+
+      ctx.restore();
+      x += width;
+    }
+  }
+}
+
+/**
+ * How far the karaoke highlight has reached in a run, from 0 to 1
+ */
+function getKaraokeProgress(run: TextRun, elapsed: number): number {
+  if (!run.karaoke) return 1;
+
+  const { type, start, duration } = run.karaoke;
+  if (elapsed < start) return 0;
+  if (type !== 'kf' || duration <= 0 || elapsed >= start + duration) return 1;
+  return (elapsed - start) / duration;
+}
+
+function drawFill(ctx: CanvasRenderingContext2D, run: TextRun, width: number, karaoke: number, opacity: number): void {
+  if (karaoke >= 1) {
+    ctx.fillStyle = toCss(run.primaryColour, opacity);
+    ctx.fillText(run.text, 0, 0);
+    return;
+  }
+
+  ctx.fillStyle = toCss(run.secondaryColour, opacity);
+  ctx.fillText(run.text, 0, 0);
+  if (karaoke <= 0) return;
+
+  // \kf sweeps the primary colour across the syllable from the left
+  const height = run.fontSize * 4;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, -height, width * karaoke, height * 2);
+  ctx.clip();
+  ctx.fillStyle = toCss(run.primaryColour, opacity);
+  ctx.fillText(run.text, 0, 0);
+  ctx.restore();
+}
+
+function drawDecorations(ctx: CanvasRenderingContext2D, run: TextRun, width: number, scaleY: number, opacity: number): void {
+  if (!run.underline && !run.strikeOut) return;
+
+  const size = run.fontSize * scaleY;
+  const thickness = Math.max(size / 16, 1);
+  ctx.fillStyle = toCss(run.primaryColour, opacity);
+  if (run.underline) ctx.fillRect(0, size * 0.1, width, thickness);
+  if (run.strikeOut) ctx.fillRect(0, -size * 0.3, width, thickness);
+}
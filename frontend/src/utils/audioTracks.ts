@@ -0,0 +1,179 @@
+/**
+ * Audio Tracks
+ * One list of audio tracks, whichever way a source plays: the renditions of
+ * an HLS playlist, the streams a remux can pick from, or the browser's own
+ * HTMLMediaElement.audioTracks.
+ */
+
+import { RemuxAudioStream } from './videoProxy';
+
+export interface AudioOption {
+  // Index into the track list of the current playback mode
+  index: number;
+  label: string;
+  // ISO 639-1 code where it could be mapped, otherwise as the source gives it
+  language: string | null;
+}
+
+// AudioTrackList isn't in the DOM typings; only Safari ships it without a flag
+interface NativeAudioTrack {
+  label: string;
+  language: string;
+  enabled: boolean;
+}
+
+interface NativeAudioTrackList extends EventTarget {
+  readonly length: number;
+  [index: number]: NativeAudioTrack;
+}
+
+// ISO 639-2 codes, as ffprobe reports them, for the languages on the server
+const LANGUAGE_CODES: Record<string, string> = {
+  eng: 'en',
+  hin: 'hi',
+  ben: 'bn',
+  tam: 'ta',
+  tel: 'te',
+  mal: 'ml',
+  kan: 'kn',
+  mar: 'mr',
+  guj: 'gu',
+  pan: 'pa',
+  urd: 'ur',
+  jpn: 'ja',
+  kor: 'ko',
+  chi: 'zh',
+  zho: 'zh',
+  spa: 'es',
+  fre: 'fr',
+  fra: 'fr',
+  ger: 'de',
+  deu: 'de',
+  ita: 'it',
+  por: 'pt',
+  rus: 'ru',
+  ara: 'ar',
+  tur: 'tr',
+  tha: 'th',
+  ind: 'id'
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  hi: 'Hindi',
+  bn: 'Bangla',
+  ta: 'Tamil',
+  te: 'Telugu',
+  ml: 'Malayalam',
+  kn: 'Kannada',
+  mr: 'Marathi',
+  gu: 'Gujarati',
+  pa: 'Punjabi',
+  ur: 'Urdu',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  ar: 'Arabic',
+  tr: 'Turkish',
+  th: 'Thai',
+  id: 'Indonesian'
+};
+
+export function normalizeLanguage(language?: string | null): string | null {
+  if (!language || language === 'und') return null;
+
+  const code = language.toLowerCase().split('-')[0];
+  return LANGUAGE_CODES[code] || code;
+}
+
+export function getLanguageName(language: string): string {
+  return LANGUAGE_NAMES[language] || language.toUpperCase();
+}
+
+export function getRemuxAudioOptions(streams: RemuxAudioStream[]): AudioOption[] {
+  return streams.map((stream) => {
+    const language = normalizeLanguage(stream.language);
+    const channels = stream.channels && stream.channels > 2 ? ` ${stream.channels - 1}.1` : '';
+
+    return {
+      index: stream.index,
+      label: stream.title || `${language ? getLanguageName(language) : `Track ${stream.index + 1}`}${channels}`,
+      language
+    };
+  });
+}
+
+export function getHlsAudioOptions(tracks: { id: number; name: string; lang?: string }[]): AudioOption[] {
+  return tracks.map((track, index) => {
+    const language = normalizeLanguage(track.lang);
+    // Renditions without a title are named after their language code
+    return {
+      index,
+      label: language && track.name === track.lang ? getLanguageName(language) : track.name,
+      language
+    };
+  });
+}
+
+function getNativeTrackList(video: HTMLVideoElement): NativeAudioTrackList | null {
+  return (video as HTMLVideoElement & { audioTracks?: NativeAudioTrackList }).audioTracks ?? null;
+}
+
+/**
+ * The element's own audio tracks; empty when the browser doesn't expose them
+ */
+export function getNativeAudioOptions(video: HTMLVideoElement): AudioOption[] {
+  const list = getNativeTrackList(video);
+  if (!list) return [];
+
+  return Array.from({ length: list.length }, (_, index) => {
+    const language = normalizeLanguage(list[index].language);
+    return {
+      index,
+      label: list[index].label || (language ? getLanguageName(language) : `Track ${index + 1}`),
+      language
+    };
+  });
+}
+
+export function getNativeActiveAudio(video: HTMLVideoElement): number {
+  const list = getNativeTrackList(video);
+  if (!list) return 0;
+
+  for (let i = 0; i < list.length; i++) {
+    if (list[i].enabled) return i;
+  }
+  return 0;
+}
+
+export function setNativeAudioTrack(video: HTMLVideoElement, index: number): void {
+  const list = getNativeTrackList(video);
+  if (!list) return;
+
+  for (let i = 0; i < list.length; i++) {
+    list[i].enabled = i === index;
+  }
+}
+
+/**
+ * Calls `listener` whenever the element's audio tracks are added, removed or switched
+ */
+export function watchNativeAudioTracks(video: HTMLVideoElement, listener: () => void): () => void {
+  const list = getNativeTrackList(video);
+  if (!list) return () => {};
+
+  const events = ['addtrack', 'removetrack', 'change'];
+  events.forEach(event => list.addEventListener(event, listener));
+  return () => events.forEach(event => list.removeEventListener(event, listener));
+}
+
+export function findPreferredAudio(options: AudioOption[], language: string | null): AudioOption | null {
+  if (!language) return null;
+  return options.find(option => option.language === language) ?? null;
+}
@@ -0,0 +1,993 @@
+/**
+ * Container Probe
+ * Reads the real track layout of Matroska/WebM and MP4 files by fetching the
+ * first few MB through the video proxy with a Range header and parsing the
+ * EBML header (Matroska) or the `moov` box (MP4). Results are cached per URL.
+ */
+
+import { DownloadUrl } from '@/types/movie';
+import { getProxiedVideoUrl } from './videoProxy';
+
+export type ContainerFormat = 'matroska' | 'webm' | 'mp4';
+
+export interface ProbedVideoTrack {
+  codec: string;
+  codecString: string | null;
+  width: number | null;
+  height: number | null;
+  resolution: string | null;
+}
+
+export interface ProbedAudioTrack {
+  index: number;
+  codec: string;
+  codecString: string | null;
+  language: string | null;
+  name: string | null;
+  channels: number | null;
+  sampleRate: number | null;
+  isDefault: boolean;
+}
+
+export interface ProbedSubtitleTrack {
+  index: number;
+  codec: string;
+  language: string | null;
+  name: string | null;
+  isDefault: boolean;
+  isForced: boolean;
+  isText: boolean;
+}
+
+export interface ContainerProbe {
+  url: string;
+  container: ContainerFormat;
+  mimeType: string;
+  duration: number | null;
+  fileSize: number | null;
+  video: ProbedVideoTrack | null;
+  audioTracks: ProbedAudioTrack[];
+  subtitleTracks: ProbedSubtitleTrack[];
+  probedAt: string;
+}
+
+// Bytes fetched up front; enough for the header of almost every file
+const PROBE_SIZE = 2 * 1024 * 1024;
+// Bytes fetched when following a Matroska seek entry or an MP4 box offset
+const FOLLOW_UP_SIZE = 256 * 1024;
+// Largest track list / moov box we are willing to download
+const MAX_HEADER_SIZE = 16 * 1024 * 1024;
+// Top-level MP4 boxes walked while looking for `moov`
+const MAX_MP4_BOXES = 16;
+
+const probeCache = new Map<string, Promise<ContainerProbe>>();
+
+/**
+ * Probes a source, reusing the cached result for its URL. Failed probes are
+ * not cached so they can be retried.
+ */
+export function probeContainer(source: DownloadUrl | string): Promise<ContainerProbe> {
+  const url = typeof source === 'string' ? source : source.url;
+
+  const cached = probeCache.get(url);
+  if (cached) return cached;
+
+  const probe = runProbe(url).catch((error) => {
+    probeCache.delete(url);
+    throw error;
+  });
+
+  probeCache.set(url, probe);
+  return probe;
+}
+
+export function clearProbeCache(): void {
+  probeCache.clear();
+}
+
+/**
+ * Builds the content type of a probe for canPlayType/MediaCapabilities checks,
+ * e.g. `video/mp4; codecs="avc1.64001f, mp4a.40.2"`. Uses the given audio
+ * track, or the default one; returns the bare MIME type when no codec string is known.
+ */
+export function getProbeContentType(probe: ContainerProbe, audioTrack?: ProbedAudioTrack): string {
+  const audio = audioTrack || probe.audioTracks.find(track => track.isDefault) || probe.audioTracks[0];
+  const codecs = [probe.video?.codecString, audio?.codecString].filter(Boolean);
+
+  return codecs.length > 0 ? `${probe.mimeType}; codecs="${codecs.join(', ')}"` : probe.mimeType;
+}
+
+async function runProbe(url: string): Promise<ContainerProbe> {
+  const requestUrl = getProxiedVideoUrl(url);
+  const chunk = await fetchRange(requestUrl, 0, PROBE_SIZE);
+  const bytes = chunk.bytes;
+
+  let result: ProbeResult;
+  if (bytes.length >= 4 && readUint(bytes, 0, 4) === EBML_ID) {
+    result = await probeMatroska(requestUrl, chunk);
+  } else if (bytes.length >= 8 && MP4_TOP_LEVEL_BOXES.includes(readFourCC(bytes, 4))) {
+    result = await probeMp4(requestUrl, chunk);
+  } else {
+    throw new Error('Unsupported container: no Matroska or MP4 header found');
+  }
+
+  return {
+    url,
+    ...result,
+    fileSize: chunk.totalSize,
+    probedAt: new Date().toISOString()
+  };
+}
+
+// Range requests
+
+interface RangeChunk {
+  start: number;
+  bytes: Uint8Array;
+  totalSize: number | null;
+}
+
+/**
+ * Fetches `length` bytes starting at `start`. Stops reading once enough bytes
+ * arrived, so a server that ignores the Range header doesn't send the whole file.
+ */
+async function fetchRange(url: string, start: number, length: number): Promise<RangeChunk> {
+  const controller = new AbortController();
+  const response = await fetch(url, {
+    headers: { Range: `bytes=${start}-${start + length - 1}` },
+    signal: controller.signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`Range request failed with status ${response.status}`);
+  }
+
+  const isPartial = response.status === 206;
+  if (!isPartial && start > 0) {
+    controller.abort();
+    throw new Error('Server does not support range requests');
+  }
+
+  const bytes = await readBody(response, length, controller);
+  return {
+    start,
+    bytes,
+    totalSize: getTotalSize(response, isPartial)
+  };
+}
+
+async function readBody(response: Response, length: number, controller: AbortController): Promise<Uint8Array> {
+  if (!response.body) {
+    return new Uint8Array(await response.arrayBuffer()).slice(0, length);
+  }
+
+  const reader = response.body.getReader();
+  const buffer = new Uint8Array(length);
+  let received = 0;
+
+  while (received < length) {
+    const { done, value } = await reader.read();
+    if (done || !value) break;
+
+    const take = Math.min(value.length, length - received);
+    buffer.set(value.subarray(0, take), received);
+    received += take;
+  }
+
+  if (received >= length) {
+    controller.abort();
+  }
+
+  return buffer.subarray(0, received);
+}
+
+function getTotalSize(response: Response, isPartial: boolean): number | null {
+  if (isPartial) {
+    const match = /\/(\d+)\s*$/.exec(response.headers.get('content-range') || '');
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  const contentLength = response.headers.get('content-length');
+  return contentLength ? parseInt(contentLength, 10) : null;
+}
+
+// Byte helpers; readers clamp to the buffer so values cut off by the probe range can't throw
+
+function readUint(bytes: Uint8Array, start: number, end: number): number {
+  let value = 0;
+  for (let i = start; i < Math.min(end, bytes.length); i++) {
+    value = value * 256 + bytes[i];
+  }
+  return value;
+}
+
+function readFloat(bytes: Uint8Array, start: number, end: number): number {
+  if (end > bytes.length) return 0;
+  const view = new DataView(bytes.buffer, bytes.byteOffset + start, end - start);
+  if (end - start === 4) return view.getFloat32(0);
+  if (end - start === 8) return view.getFloat64(0);
+  return 0;
+}
+
+function readString(bytes: Uint8Array, start: number, end: number): string {
+  return new TextDecoder().decode(bytes.subarray(start, end)).replace(/\0+$/, '');
+}
+
+function readFourCC(bytes: Uint8Array, start: number): string {
+  return String.fromCharCode(bytes[start], bytes[start + 1], bytes[start + 2], bytes[start + 3]);
+}
+
+function toHex(value: number, digits = 2): string {
+  return value.toString(16).toUpperCase().padStart(digits, '0');
+}
+
+/**
+ * Maps a frame size to the usual resolution label, allowing for cropped
+ * (scope) frames by also looking at the width
+ */
+function getResolutionLabel(width: number | null, height: number | null): string | null {
+  if (!width || !height) return null;
+
+  if (height >= 2000 || width >= 3800) return '2160p';
+  if (height >= 1000 || width >= 1900) return '1080p';
+  if (height >= 700 || width >= 1260) return '720p';
+  if (height >= 560) return '576p';
+  if (height >= 460) return '480p';
+  return `${height}p`;
+}
+
+function normalizeLanguage(language: string | null): string | null {
+  if (!language || language === 'und') return null;
+  return language;
+}
+
+// Codec strings
+
+/**
+ * `avc1.PPCCLL` from an AVCDecoderConfigurationRecord
+ */
+function getAvcCodecString(record: Uint8Array | null, prefix = 'avc1'): string {
+  if (!record || record.length < 4) return `${prefix}.640028`;
+  return `${prefix}.${toHex(record[1])}${toHex(record[2])}${toHex(record[3])}`;
+}
+
+/**
+ * `hvc1.P.C.TL.B` from an HEVCDecoderConfigurationRecord
+ */
+function getHevcCodecString(record: Uint8Array | null, prefix = 'hvc1'): string {
+  if (!record || record.length < 13) return `${prefix}.1.6.L93.B0`;
+
+  const profileSpace = ['', 'A', 'B', 'C'][record[1] >> 6];
+  const tier = (record[1] >> 5) & 1 ? 'H' : 'L';
+  const profile = record[1] & 0x1f;
+
+  // Compatibility flags are written bit-reversed
+  const flags = readUint(record, 2, 6);
+  let reversed = 0;
+  for (let i = 0; i < 32; i++) {
+    reversed = reversed * 2 + ((flags >>> i) & 1);
+  }
+
+  const constraints = Array.from(record.subarray(6, 12));
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) {
+    constraints.pop();
+  }
+
+  return [
+    prefix,
+    `${profileSpace}${profile}`,
+    reversed.toString(16).toUpperCase(),
+    `${tier}${record[12]}`,
+    ...constraints.map(byte => byte.toString(16).toUpperCase())
+  ].join('.');
+}
+
+/**
+ * `av01.P.LLT.DD` from an AV1CodecConfigurationRecord
+ */
+function getAv1CodecString(record: Uint8Array | null): string {
+  if (!record || record.length < 3) return 'av01.0.08M.08';
+
+  const profile = record[1] >> 5;
+  const level = record[1] & 0x1f;
+  const tier = record[2] >> 7 ? 'H' : 'M';
+  const highBitDepth = (record[2] >> 6) & 1;
+  const twelveBit = (record[2] >> 5) & 1;
+  const bitDepth = highBitDepth ? (twelveBit ? 12 : 10) : 8;
+
+  return `av01.${profile}.${String(level).padStart(2, '0')}${tier}.${String(bitDepth).padStart(2, '0')}`;
+}
+
+/**
+ * `vp09.PP.LL.DD` from a VPCodecConfigurationRecord (vpcC box payload)
+ */
+function getVp9CodecString(record: Uint8Array | null): string {
+  if (!record || record.length < 7) return 'vp09.00.10.08';
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `vp09.${pad(record[4])}.${pad(record[5])}.${pad(record[6] >> 4)}`;
+}
+
+// Matroska
+
+interface ProbeResult {
+  container: ContainerFormat;
+  mimeType: string;
+  duration: number | null;
+  video: ProbedVideoTrack | null;
+  audioTracks: ProbedAudioTrack[];
+  subtitleTracks: ProbedSubtitleTrack[];
+}
+
+const EBML_ID = 0x1a45dfa3;
+const EBML_DOC_TYPE = 0x4282;
+const SEGMENT = 0x18538067;
+const SEEK_HEAD = 0x114d9b74;
+const SEEK = 0x4dbb;
+const SEEK_ID = 0x53ab;
+const SEEK_POSITION = 0x53ac;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const DURATION = 0x4489;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const CODEC_PRIVATE = 0x63a2;
+const LANGUAGE = 0x22b59c;
+const LANGUAGE_IETF = 0x22b59d;
+const NAME = 0x536e;
+const FLAG_DEFAULT = 0x88;
+const FLAG_FORCED = 0x55aa;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const AUDIO = 0xe1;
+const SAMPLING_FREQUENCY = 0xb5;
+const CHANNELS = 0x9f;
+const CLUSTER = 0x1f43b675;
+
+const TRACK_TYPE_VIDEO = 1;
+const TRACK_TYPE_AUDIO = 2;
+const TRACK_TYPE_SUBTITLE = 0x11;
+
+// Matroska codec IDs by prefix, with display names matching ReleaseInfo
+const MATROSKA_CODECS: [string, string][] = [
+  ['V_MPEG4/ISO/AVC', 'H.264'],
+  ['V_MPEGH/ISO/HEVC', 'H.265'],
+  ['V_AV1', 'AV1'],
+  ['V_VP9', 'VP9'],
+  ['V_VP8', 'VP8'],
+  ['V_MPEG4/ISO', 'MPEG-4'],
+  ['V_MPEG2', 'MPEG-2'],
+  ['A_AAC', 'AAC'],
+  ['A_EAC3', 'E-AC-3'],
+  ['A_AC3', 'AC-3'],
+  ['A_DTS', 'DTS'],
+  ['A_TRUEHD', 'TrueHD'],
+  ['A_OPUS', 'Opus'],
+  ['A_VORBIS', 'Vorbis'],
+  ['A_FLAC', 'FLAC'],
+  ['A_MPEG/L3', 'MP3'],
+  ['A_PCM', 'PCM'],
+  ['S_TEXT/UTF8', 'SRT'],
+  ['S_TEXT/ASS', 'ASS'],
+  ['S_ASS', 'ASS'],
+  ['S_TEXT/SSA', 'SSA'],
+  ['S_SSA', 'SSA'],
+  ['S_TEXT/WEBVTT', 'WebVTT'],
+  ['S_HDMV/PGS', 'PGS'],
+  ['S_VOBSUB', 'VobSub'],
+  ['S_DVBSUB', 'DVB']
+];
+
+// MIME codec strings for audio codecs browsers may decode
+const AUDIO_CODEC_STRINGS: Record<string, string> = {
+  'AAC': 'mp4a.40.2',
+  'AC-3': 'ac-3',
+  'E-AC-3': 'ec-3',
+  'Opus': 'opus',
+  'Vorbis': 'vorbis',
+  'FLAC': 'flac',
+  'MP3': 'mp3'
+};
+
+interface MatroskaTrack {
+  number: number;
+  type: number;
+  codecId: string;
+  codecPrivate: Uint8Array | null;
+  language: string | null;
+  name: string | null;
+  isDefault: boolean;
+  isForced: boolean;
+  width: number | null;
+  height: number | null;
+  channels: number | null;
+  sampleRate: number | null;
+}
+
+interface MatroskaState {
+  docType: string;
+  segmentDataOffset: number | null;
+  timecodeScale: number;
+  duration: number | null;
+  tracks: MatroskaTrack[];
+  hasInfo: boolean;
+  hasTracks: boolean;
+  // Absolute offsets of Info/Tracks from the SeekHead or from a truncated element
+  pending: Map<number, { offset: number; size: number }>;
+}
+
+interface ElementHeader {
+  id: number;
+  start: number;
+  dataStart: number;
+  dataEnd: number;
+}
+
+/**
+ * Reads an element ID and size at `pos`; unknown sizes give an infinite end
+ */
+function readElementHeader(bytes: Uint8Array, pos: number): ElementHeader | null {
+  const id = readVint(bytes, pos, true);
+  if (!id || id.length > 4) return null;
+
+  const size = readVint(bytes, pos + id.length, false);
+  if (!size) return null;
+
+  const dataStart = pos + id.length + size.length;
+  return {
+    id: id.value,
+    start: pos,
+    dataStart,
+    dataEnd: size.isUnknown ? Infinity : dataStart + size.value
+  };
+}
+
+function readVint(bytes: Uint8Array, pos: number, keepMarker: boolean) {
+  if (pos >= bytes.length || bytes[pos] === 0) return null;
+
+  const first = bytes[pos];
+  let length = 1;
+  let mask = 0x80;
+  while (!(first & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  if (pos + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (mask - 1);
+  let isUnknown = !keepMarker && value === mask - 1;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[pos + i];
+    if (bytes[pos + i] !== 0xff) isUnknown = false;
+  }
+
+  return { value, length, isUnknown };
+}
+
+/**
+ * Calls `visit` for every child element in [start, end), stopping at the end
+ * of the buffer or at an element with an unknown size
+ */
+function forEachElement(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  visit: (element: ElementHeader) => boolean | void
+): void {
+  let pos = start;
+  const limit = Math.min(end, bytes.length);
+
+  while (pos < limit) {
+    const element = readElementHeader(bytes, pos);
+    if (!element) return;
+    if (visit(element) === false) return;
+    if (element.dataEnd === Infinity) return;
+    pos = element.dataEnd;
+  }
+}
+
+async function probeMatroska(url: string, chunk: RangeChunk): Promise<ProbeResult> {
+  const state: MatroskaState = {
+    docType: 'matroska',
+    segmentDataOffset: null,
+    timecodeScale: 1000000,
+    duration: null,
+    tracks: [],
+    hasInfo: false,
+    hasTracks: false,
+    pending: new Map()
+  };
+  const bytes = chunk.bytes;
+
+  forEachElement(bytes, 0, bytes.length, (element) => {
+    if (element.id === EBML_ID) {
+      forEachElement(bytes, element.dataStart, element.dataEnd, (child) => {
+        if (child.id === EBML_DOC_TYPE) {
+          state.docType = readString(bytes, child.dataStart, child.dataEnd);
+        }
+      });
+    } else if (element.id === SEGMENT) {
+      state.segmentDataOffset = chunk.start + element.dataStart;
+      readSegmentChildren(bytes, chunk.start, element.dataStart, element.dataEnd, state);
+      return false;
+    }
+  });
+
+  // Info or Tracks lie beyond the first chunk: follow the seek entries
+  for (const id of [INFO, TRACKS]) {
+    const isMissing = id === INFO ? !state.hasInfo : !state.hasTracks;
+    const target = state.pending.get(id);
+    if (!isMissing || !target) continue;
+
+    const size = Math.min(Math.max(target.size, FOLLOW_UP_SIZE), MAX_HEADER_SIZE);
+    const followUp = await fetchRange(url, target.offset, size);
+    readSegmentChildren(followUp.bytes, followUp.start, 0, followUp.bytes.length, state);
+  }
+
+  if (!state.hasTracks) {
+    throw new Error('Matroska track list not found in probed range');
+  }
+
+  return buildMatroskaResult(state);
+}
+
+function readSegmentChildren(
+  bytes: Uint8Array,
+  chunkStart: number,
+  start: number,
+  end: number,
+  state: MatroskaState
+): void {
+  forEachElement(bytes, start, end, (element) => {
+    const isTruncated = element.dataEnd > bytes.length;
+
+    switch (element.id) {
+      case CLUSTER:
+        // Media data starts here; headers we still need are reached via the SeekHead
+        return false;
+      case SEEK_HEAD:
+        readSeekHead(bytes, element, state);
+        break;
+      case INFO:
+      case TRACKS:
+        if (isTruncated) {
+          state.pending.set(element.id, {
+            offset: chunkStart + element.start,
+            size: element.dataEnd - element.start
+          });
+          return false;
+        }
+        if (element.id === INFO) {
+          readInfo(bytes, element, state);
+        } else {
+          readTracks(bytes, element, state);
+        }
+        break;
+    }
+  });
+}
+
+function readSeekHead(bytes: Uint8Array, seekHead: ElementHeader, state: MatroskaState): void {
+  if (state.segmentDataOffset === null) return;
+
+  forEachElement(bytes, seekHead.dataStart, seekHead.dataEnd, (seek) => {
+    if (seek.id !== SEEK) return;
+
+    let seekId = 0;
+    let position = -1;
+    forEachElement(bytes, seek.dataStart, seek.dataEnd, (child) => {
+      if (child.id === SEEK_ID) seekId = readUint(bytes, child.dataStart, child.dataEnd);
+      if (child.id === SEEK_POSITION) position = readUint(bytes, child.dataStart, child.dataEnd);
+    });
+
+    if ((seekId === INFO || seekId === TRACKS) && position >= 0 && !state.pending.has(seekId)) {
+      state.pending.set(seekId, { offset: state.segmentDataOffset! + position, size: FOLLOW_UP_SIZE });
+    }
+  });
+}
+
+function readInfo(bytes: Uint8Array, info: ElementHeader, state: MatroskaState): void {
+  state.hasInfo = true;
+
+  forEachElement(bytes, info.dataStart, info.dataEnd, (child) => {
+    if (child.id === TIMECODE_SCALE) state.timecodeScale = readUint(bytes, child.dataStart, child.dataEnd);
+    if (child.id === DURATION) state.duration = readFloat(bytes, child.dataStart, child.dataEnd);
+  });
+}
+
+function readTracks(bytes: Uint8Array, tracks: ElementHeader, state: MatroskaState): void {
+  state.hasTracks = true;
+
+  forEachElement(bytes, tracks.dataStart, tracks.dataEnd, (entry) => {
+    if (entry.id !== TRACK_ENTRY) return;
+
+    // Defaults from the Matroska spec
+    const track: MatroskaTrack = {
+      number: 0,
+      type: 0,
+      codecId: '',
+      codecPrivate: null,
+      language: 'eng',
+      name: null,
+      isDefault: true,
+      isForced: false,
+      width: null,
+      height: null,
+      channels: null,
+      sampleRate: null
+    };
+    let ietfLanguage: string | null = null;
+
+    forEachElement(bytes, entry.dataStart, entry.dataEnd, (child) => {
+      const { dataStart, dataEnd } = child;
+
+      switch (child.id) {
+        case TRACK_NUMBER: track.number = readUint(bytes, dataStart, dataEnd); break;
+        case TRACK_TYPE: track.type = readUint(bytes, dataStart, dataEnd); break;
+        case CODEC_ID: track.codecId = readString(bytes, dataStart, dataEnd); break;
+        case CODEC_PRIVATE: track.codecPrivate = bytes.slice(dataStart, dataEnd); break;
+        case LANGUAGE: track.language = readString(bytes, dataStart, dataEnd); break;
+        case LANGUAGE_IETF: ietfLanguage = readString(bytes, dataStart, dataEnd); break;
+        case NAME: track.name = readString(bytes, dataStart, dataEnd) || null; break;
+        case FLAG_DEFAULT: track.isDefault = readUint(bytes, dataStart, dataEnd) === 1; break;
+        case FLAG_FORCED: track.isForced = readUint(bytes, dataStart, dataEnd) === 1; break;
+        case VIDEO:
+          forEachElement(bytes, dataStart, dataEnd, (video) => {
+            if (video.id === PIXEL_WIDTH) track.width = readUint(bytes, video.dataStart, video.dataEnd);
+            if (video.id === PIXEL_HEIGHT) track.height = readUint(bytes, video.dataStart, video.dataEnd);
+          });
+          break;
+        case AUDIO:
+          forEachElement(bytes, dataStart, dataEnd, (audio) => {
+            if (audio.id === CHANNELS) track.channels = readUint(bytes, audio.dataStart, audio.dataEnd);
+            if (audio.id === SAMPLING_FREQUENCY) track.sampleRate = readFloat(bytes, audio.dataStart, audio.dataEnd);
+          });
+          break;
+      }
+    });
+
+    if (ietfLanguage) {
+      track.language = ietfLanguage;
+    }
+    state.tracks.push(track);
+  });
+}
+
+function getMatroskaCodecName(codecId: string): string {
+  const match = MATROSKA_CODECS.find(([prefix]) => codecId.startsWith(prefix));
+  return match ? match[1] : codecId;
+}
+
+function getMatroskaVideoCodecString(codec: string, codecPrivate: Uint8Array | null): string | null {
+  switch (codec) {
+    case 'H.264': return getAvcCodecString(codecPrivate);
+    case 'H.265': return getHevcCodecString(codecPrivate, 'hev1');
+    case 'AV1': return getAv1CodecString(codecPrivate);
+    case 'VP9': return 'vp9';
+    case 'VP8': return 'vp8';
+    default: return null;
+  }
+}
+
+function buildMatroskaResult(state: MatroskaState): ProbeResult {
+  const isWebM = state.docType === 'webm';
+  const videoTrack = state.tracks.find(track => track.type === TRACK_TYPE_VIDEO);
+
+  let video: ProbedVideoTrack | null = null;
+  if (videoTrack) {
+    const codec = getMatroskaCodecName(videoTrack.codecId);
+    video = {
+      codec,
+      codecString: getMatroskaVideoCodecString(codec, videoTrack.codecPrivate),
+      width: videoTrack.width,
+      height: videoTrack.height,
+      resolution: getResolutionLabel(videoTrack.width, videoTrack.height)
+    };
+  }
+
+  const audioTracks = state.tracks
+    .filter(track => track.type === TRACK_TYPE_AUDIO)
+    .map((track): ProbedAudioTrack => {
+      const codec = getMatroskaCodecName(track.codecId);
+      return {
+        index: track.number,
+        codec,
+        codecString: AUDIO_CODEC_STRINGS[codec] || null,
+        language: normalizeLanguage(track.language),
+        name: track.name,
+        channels: track.channels,
+        sampleRate: track.sampleRate,
+        isDefault: track.isDefault
+      };
+    });
+
+  const subtitleTracks = state.tracks
+    .filter(track => track.type === TRACK_TYPE_SUBTITLE)
+    .map((track): ProbedSubtitleTrack => ({
+      index: track.number,
+      codec: getMatroskaCodecName(track.codecId),
+      language: normalizeLanguage(track.language),
+      name: track.name,
+      isDefault: track.isDefault,
+      isForced: track.isForced,
+      isText: track.codecId.startsWith('S_TEXT') || track.codecId === 'S_ASS' || track.codecId === 'S_SSA'
+    }));
+
+  return {
+    container: isWebM ? 'webm' : 'matroska',
+    mimeType: isWebM ? 'video/webm' : 'video/x-matroska',
+    duration: state.duration !== null ? (state.duration * state.timecodeScale) / 1e9 : null,
+    video,
+    audioTracks,
+    subtitleTracks
+  };
+}
+
+// MP4
+
+const MP4_TOP_LEVEL_BOXES = ['ftyp', 'moov', 'free', 'skip', 'mdat', 'wide', 'pdin', 'styp'];
+
+// Sample entry types with display names matching ReleaseInfo
+const MP4_CODECS: Record<string, string> = {
+  avc1: 'H.264',
+  avc3: 'H.264',
+  hvc1: 'H.265',
+  hev1: 'H.265',
+  av01: 'AV1',
+  vp09: 'VP9',
+  mp4v: 'MPEG-4',
+  mp4a: 'AAC',
+  'ac-3': 'AC-3',
+  'ec-3': 'E-AC-3',
+  Opus: 'Opus',
+  fLaC: 'FLAC',
+  '.mp3': 'MP3',
+  tx3g: 'TX3G',
+  wvtt: 'WebVTT',
+  stpp: 'TTML',
+  c608: 'CEA-608'
+};
+
+const MP4_TEXT_SUBTITLES = ['tx3g', 'wvtt', 'stpp'];
+
+interface BoxHeader {
+  type: string;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+function readBoxHeader(bytes: Uint8Array, pos: number, parentEnd: number): BoxHeader | null {
+  if (pos + 8 > bytes.length) return null;
+
+  let size = readUint(bytes, pos, pos + 4);
+  const type = readFourCC(bytes, pos + 4);
+  let headerSize = 8;
+
+  if (size === 1) {
+    if (pos + 16 > bytes.length) return null;
+    size = readUint(bytes, pos + 8, pos + 16);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = parentEnd - pos;
+  }
+
+  if (size < headerSize) return null;
+  return { type, start: pos, dataStart: pos + headerSize, end: pos + size };
+}
+
+function forEachBox(bytes: Uint8Array, start: number, end: number, visit: (box: BoxHeader) => void): void {
+  let pos = start;
+  const limit = Math.min(end, bytes.length);
+
+  while (pos + 8 <= limit) {
+    const box = readBoxHeader(bytes, pos, end);
+    if (!box) return;
+    visit(box);
+    pos = box.end;
+  }
+}
+
+function findBox(bytes: Uint8Array, start: number, end: number, type: string): BoxHeader | null {
+  let found: BoxHeader | null = null;
+  forEachBox(bytes, start, end, (box) => {
+    if (!found && box.type === type) found = box;
+  });
+  return found;
+}
+
+/**
+ * Walks the top-level boxes until `moov`, fetching further ranges when it
+ * sits after `mdat` (files that weren't written for progressive download)
+ */
+async function probeMp4(url: string, firstChunk: RangeChunk): Promise<ProbeResult> {
+  let chunk = firstChunk;
+  let offset = 0;
+  const fileSize = firstChunk.totalSize ?? Infinity;
+
+  for (let boxes = 0; boxes < MAX_MP4_BOXES && offset < fileSize; boxes++) {
+    if (offset < chunk.start || offset + 16 > chunk.start + chunk.bytes.length) {
+      chunk = await fetchRange(url, offset, FOLLOW_UP_SIZE);
+    }
+
+    const box = readBoxHeader(chunk.bytes, offset - chunk.start, fileSize - chunk.start);
+    if (!box) break;
+
+    const boxEnd = chunk.start + box.end;
+    if (box.type === 'moov') {
+      if (boxEnd > chunk.start + chunk.bytes.length) {
+        if (boxEnd - offset > MAX_HEADER_SIZE) {
+          throw new Error('MP4 moov box is too large to probe');
+        }
+        chunk = await fetchRange(url, offset, boxEnd - offset);
+      }
+
+      const moovStart = offset - chunk.start;
+      return readMoov(chunk.bytes, moovStart + (box.dataStart - box.start), moovStart + (box.end - box.start));
+    }
+
+    offset = boxEnd;
+  }
+
+  throw new Error('MP4 moov box not found in probed range');
+}
+
+function readMoov(bytes: Uint8Array, start: number, end: number): ProbeResult {
+  let duration: number | null = null;
+  let video: ProbedVideoTrack | null = null;
+  const audioTracks: ProbedAudioTrack[] = [];
+  const subtitleTracks: ProbedSubtitleTrack[] = [];
+  let trackIndex = 0;
+
+  forEachBox(bytes, start, end, (box) => {
+    if (box.type === 'mvhd') {
+      const version = bytes[box.dataStart];
+      const timescale = readUint(bytes, box.dataStart + (version === 1 ? 20 : 12), box.dataStart + (version === 1 ? 24 : 16));
+      const rawDuration = version === 1
+        ? readUint(bytes, box.dataStart + 24, box.dataStart + 32)
+        : readUint(bytes, box.dataStart + 16, box.dataStart + 20);
+      duration = timescale > 0 ? rawDuration / timescale : null;
+      return;
+    }
+
+    if (box.type !== 'trak') return;
+    trackIndex++;
+
+    const track = readTrak(bytes, box);
+    if (!track) return;
+
+    if (track.handler === 'vide' && !video) {
+      video = {
+        codec: track.codec,
+        codecString: track.codecString,
+        width: track.width,
+        height: track.height,
+        resolution: getResolutionLabel(track.width, track.height)
+      };
+    } else if (track.handler === 'soun') {
+      audioTracks.push({
+        index: trackIndex,
+        codec: track.codec,
+        codecString: track.codecString,
+        language: track.language,
+        name: null,
+        channels: track.channels,
+        sampleRate: track.sampleRate,
+        isDefault: track.isEnabled
+      });
+    } else if (['sbtl', 'subt', 'text', 'clcp'].includes(track.handler)) {
+      subtitleTracks.push({
+        index: trackIndex,
+        codec: track.codec,
+        language: track.language,
+        name: null,
+        isDefault: track.isEnabled,
+        isForced: false,
+        isText: MP4_TEXT_SUBTITLES.includes(track.sampleEntry)
+      });
+    }
+  });
+
+  return {
+    container: 'mp4',
+    mimeType: 'video/mp4',
+    duration,
+    video,
+    audioTracks,
+    subtitleTracks
+  };
+}
+
+interface Mp4Track {
+  handler: string;
+  sampleEntry: string;
+  codec: string;
+  codecString: string | null;
+  language: string | null;
+  isEnabled: boolean;
+  width: number | null;
+  height: number | null;
+  channels: number | null;
+  sampleRate: number | null;
+}
+
+function readTrak(bytes: Uint8Array, trak: BoxHeader): Mp4Track | null {
+  const tkhd = findBox(bytes, trak.dataStart, trak.end, 'tkhd');
+  const mdia = findBox(bytes, trak.dataStart, trak.end, 'mdia');
+  if (!mdia) return null;
+
+  const track: Mp4Track = {
+    handler: '',
+    sampleEntry: '',
+    codec: '',
+    codecString: null,
+    language: null,
+    isEnabled: tkhd ? (bytes[tkhd.dataStart + 3] & 1) === 1 : true,
+    width: null,
+    height: null,
+    channels: null,
+    sampleRate: null
+  };
+
+  const hdlr = findBox(bytes, mdia.dataStart, mdia.end, 'hdlr');
+  if (hdlr) {
+    track.handler = readFourCC(bytes, hdlr.dataStart + 8);
+  }
+
+  const mdhd = findBox(bytes, mdia.dataStart, mdia.end, 'mdhd');
+  if (mdhd) {
+    const languageOffset = mdhd.dataStart + (bytes[mdhd.dataStart] === 1 ? 32 : 20);
+    const packed = readUint(bytes, languageOffset, languageOffset + 2);
+    const language = String.fromCharCode(
+      ((packed >> 10) & 0x1f) + 0x60,
+      ((packed >> 5) & 0x1f) + 0x60,
+      (packed & 0x1f) + 0x60
+    );
+    track.language = normalizeLanguage(/^[a-z]{3}$/.test(language) ? language : null);
+  }
+
+  const minf = findBox(bytes, mdia.dataStart, mdia.end, 'minf');
+  const stbl = minf && findBox(bytes, minf.dataStart, minf.end, 'stbl');
+  const stsd = stbl && findBox(bytes, stbl.dataStart, stbl.end, 'stsd');
+  if (!stsd) return track;
+
+  // Version/flags and entry count precede the first sample entry
+  const entry = readBoxHeader(bytes, stsd.dataStart + 8, stsd.end);
+  if (!entry) return track;
+
+  track.sampleEntry = entry.type;
+  track.codec = MP4_CODECS[entry.type] || entry.type;
+
+  if (track.handler === 'vide') {
+    track.width = readUint(bytes, entry.dataStart + 24, entry.dataStart + 26) || null;
+    track.height = readUint(bytes, entry.dataStart + 26, entry.dataStart + 28) || null;
+    if (tkhd && (!track.width || !track.height)) {
+      track.width = Math.round(readUint(bytes, tkhd.end - 8, tkhd.end - 4) / 65536) || null;
+      track.height = Math.round(readUint(bytes, tkhd.end - 4, tkhd.end) / 65536) || null;
+    }
+
+    // Codec configuration boxes follow the 78 bytes of visual sample entry fields
+    const childrenStart = entry.dataStart + 78;
+    const getConfig = (type: string) => {
+      const box = findBox(bytes, childrenStart, entry.end, type);
+      return box ? bytes.subarray(box.dataStart, box.end) : null;
+    };
+
+    switch (track.codec) {
+      case 'H.264': track.codecString = getAvcCodecString(getConfig('avcC'), entry.type); break;
+      case 'H.265': track.codecString = getHevcCodecString(getConfig('hvcC'), entry.type); break;
+      case 'AV1': track.codecString = getAv1CodecString(getConfig('av1C')); break;
+      case 'VP9': track.codecString = getVp9CodecString(getConfig('vpcC')); break;
+    }
+  } else if (track.handler === 'soun') {
+    track.channels = readUint(bytes, entry.dataStart + 16, entry.dataStart + 18) || null;
+    track.sampleRate = readUint(bytes, entry.dataStart + 24, entry.dataStart + 26) || null;
+    track.codecString = AUDIO_CODEC_STRINGS[track.codec] || null;
+  }
+
+  return track;
+}
@@ -5,6 +5,8 @@
  */
 
 import { DownloadUrl } from '@/types/movie';
+import { ContainerProbe } from './containerProbe';
+import { Playability, checkPlayability } from './playability';
 
 export interface MKVCapabilities {
   canPlayNatively: boolean;
@@ -31,12 +33,20 @@ export interface MKVAnalysis {
   fileSize?: number;
   quality?: string;
   capabilities: MKVCapabilities;
+  probe?: ContainerProbe | null;
+  playability?: Playability | null;
 }
 
 /**
- * Detects if a source is an MKV file and analyzes its characteristics
+ * Detects if a source is an MKV file and analyzes its characteristics.
+ * With a playability check of the probed container the analysis uses the real
+ * tracks; without one it falls back to what the file name and release info suggest.
  */
-export function analyzeMKVSource(source: DownloadUrl): MKVAnalysis {
+export function analyzeMKVSource(source: DownloadUrl, playability?: Playability | null): MKVAnalysis {
+  if (playability?.probe) {
+    return analyzeProbedSource(source, playability.probe, playability);
+  }
+
   const format = source.format.toLowerCase();
   const url = source.url.toLowerCase();
   const filename = extractFilename(source.url);
@@ -58,7 +68,7 @@ export function analyzeMKVSource(source: DownloadUrl): MKVAnalysis {
   const analysis: MKVAnalysis = {
     isMKV: true,
     hasSubtitles: detectSubtitles(filename),
-    estimatedCodecs: estimateCodecs(filename, source),
+    estimatedCodecs: estimateCodecs(source),
     quality: source.quality,
     capabilities: analyzeMKVCapabilities()
   };
@@ -66,6 +76,15 @@ export function analyzeMKVSource(source: DownloadUrl): MKVAnalysis {
   return analysis;
 }
 
+/**
+ * Probes the source container and analyzes it from the real tracks,
+ * falling back to the file name analysis when the probe fails
+ */
+export async function probeMKVSource(source: DownloadUrl): Promise<MKVAnalysis> {
+  const playability = await checkPlayability(source);
+  return analyzeMKVSource(source, playability);
+}
+
 /**
  * Checks browser's native MKV support
  */
@@ -221,50 +240,79 @@ function detectSubtitles(filename: string): boolean {
   return subtitleIndicators.some(indicator => lowerFilename.includes(indicator));
 }
 
+// Display names for the codecs reported in ReleaseInfo
+const VIDEO_CODEC_NAMES: Record<string, string> = {
+  'H.264': 'H.264/AVC',
+  'H.265': 'H.265/HEVC'
+};
+
 /**
- * Estimates video/audio codecs from filename patterns
+ * Lists video/audio codecs from the release info the backend parsed for the source
  */
-function estimateCodecs(filename: string, source: DownloadUrl): string[] {
+function estimateCodecs(source: DownloadUrl): string[] {
   const codecs: string[] = [];
-  const lowerFilename = filename.toLowerCase();
-  
-  // Video codecs
-  if (lowerFilename.includes('h264') || lowerFilename.includes('x264')) {
-    codecs.push('H.264/AVC');
-  }
-  if (lowerFilename.includes('h265') || lowerFilename.includes('x265') || lowerFilename.includes('hevc')) {
-    codecs.push('H.265/HEVC');
+  const release = source.release;
+
+  if (release?.videoCodec) {
+    codecs.push(VIDEO_CODEC_NAMES[release.videoCodec] || release.videoCodec);
   }
-  if (lowerFilename.includes('vp9')) {
-    codecs.push('VP9');
+  if (release?.audioCodec) {
+    codecs.push(release.audioCodec);
   }
-  if (lowerFilename.includes('av1')) {
-    codecs.push('AV1');
+
+  // If no specific codecs detected, assume common ones
+  if (!release?.videoCodec) {
+    codecs.unshift('H.264/AVC');
   }
-  
-  // Audio codecs
-  if (lowerFilename.includes('aac')) {
+  if (!release?.audioCodec) {
     codecs.push('AAC');
   }
-  if (lowerFilename.includes('ac3') || lowerFilename.includes('dolby')) {
-    codecs.push('AC-3');
-  }
-  if (lowerFilename.includes('dts')) {
-    codecs.push('DTS');
-  }
-  if (lowerFilename.includes('opus')) {
-    codecs.push('Opus');
-  }
-  if (lowerFilename.includes('flac')) {
-    codecs.push('FLAC');
+
+  return codecs;
+}
+
+/**
+ * Builds the analysis of a probed source from its real tracks
+ */
+function analyzeProbedSource(source: DownloadUrl, probe: ContainerProbe, playability: Playability): MKVAnalysis {
+  const codecs: string[] = [];
+  if (probe.video) {
+    codecs.push(VIDEO_CODEC_NAMES[probe.video.codec] || probe.video.codec);
   }
-  
-  // If no specific codecs detected, assume common ones
-  if (codecs.length === 0) {
-    codecs.push('H.264/AVC', 'AAC');
+  for (const track of probe.audioTracks) {
+    if (!codecs.includes(track.codec)) {
+      codecs.push(track.codec);
+    }
   }
-  
-  return codecs;
+
+  return {
+    isMKV: probe.container !== 'mp4',
+    hasSubtitles: probe.subtitleTracks.length > 0,
+    estimatedCodecs: codecs,
+    fileSize: probe.fileSize ?? undefined,
+    quality: probe.video?.resolution || source.quality,
+    capabilities: getPlayabilityCapabilities(playability),
+    probe,
+    playability
+  };
+}
+
+/**
+ * Maps a playability check onto the capabilities used for player decisions
+ */
+function getPlayabilityCapabilities(playability: Playability): MKVCapabilities {
+  const contentType = playability.contentType;
+  const browserSupport = playability.status === 'playable'
+    ? 'full'
+    : playability.status === 'audio-unsupported' ? 'limited' : 'none';
+
+  return {
+    canPlayNatively: browserSupport !== 'none',
+    browserSupport,
+    recommendedAction: browserSupport === 'full' ? 'native' : 'external',
+    supportedCodecs: contentType ? [contentType.split('codecs="')[1]?.split('"')[0] || ''] : [],
+    externalPlayers: getAvailableExternalPlayers()
+  };
 }
 
 /**
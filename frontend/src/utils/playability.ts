@@ -0,0 +1,222 @@
+/**
+ * Playability
+ * Decides whether the browser can play a source from its probed codecs. Builds
+ * exact `codecs="..."` content types and asks MediaCapabilities.decodingInfo
+ * (falling back to canPlayType) about the video and each audio track separately,
+ * so a file whose only problem is its AC-3/DTS audio is told apart from one
+ * that needs an external player.
+ */
+
+import { DownloadUrl } from '@/types/movie';
+import { ContainerProbe, ProbedAudioTrack, probeContainer } from './containerProbe';
+
+export type PlayabilityStatus = 'playable' | 'audio-unsupported' | 'external' | 'unknown';
+
+export interface Playability {
+  status: PlayabilityStatus;
+  label: string;
+  detail: string;
+  videoSupported: boolean | null;
+  smooth: boolean | null;
+  powerEfficient: boolean | null;
+  playableAudioTracks: number[];
+  unsupportedAudioCodecs: string[];
+  contentType: string | null;
+  probe: ContainerProbe | null;
+}
+
+// Bitrate assumed when the file size or duration is unknown
+const DEFAULT_VIDEO_BITRATE = 5000000;
+const DEFAULT_AUDIO_BITRATE = 192000;
+const DEFAULT_FRAMERATE = 24;
+
+interface DecodingResult {
+  supported: boolean;
+  smooth: boolean | null;
+  powerEfficient: boolean | null;
+}
+
+const playabilityCache = new Map<string, Promise<Playability>>();
+
+/**
+ * Returns the playability of a source, probing its container first. Results
+ * are cached per URL; failed probes give an 'unknown' result that isn't cached.
+ */
+export function checkPlayability(source: DownloadUrl | string): Promise<Playability> {
+  const url = typeof source === 'string' ? source : source.url;
+  const cached = playabilityCache.get(url);
+  if (cached) return cached;
+
+  const check = probeContainer(url)
+    .then(probe => getPlayability(probe))
+    .catch((error) => {
+      playabilityCache.delete(url);
+      console.warn(`Playability check failed for ${url}:`, error instanceof Error ? error.message : error);
+      return createUnknownPlayability();
+    });
+
+  playabilityCache.set(url, check);
+  return check;
+}
+
+export function checkSourcesPlayability(sources: DownloadUrl[]): Promise<Playability[]> {
+  return Promise.all(sources.map(source => checkPlayability(source)));
+}
+
+/**
+ * Decides the playability of a probed file
+ */
+export async function getPlayability(probe: ContainerProbe): Promise<Playability> {
+  if (typeof window === 'undefined') {
+    return createUnknownPlayability(probe);
+  }
+
+  const video = probe.video;
+  const videoResult = video?.codecString
+    ? await queryVideo(probe, video.codecString)
+    : { supported: !video, smooth: null, powerEfficient: null, contentType: null };
+
+  const playableAudioTracks: number[] = [];
+  const unsupportedAudioCodecs: string[] = [];
+  for (const track of probe.audioTracks) {
+    const supported = track.codecString ? await queryAudio(probe, track) : false;
+    if (supported) {
+      playableAudioTracks.push(track.index);
+    } else if (!unsupportedAudioCodecs.includes(track.codec)) {
+      unsupportedAudioCodecs.push(track.codec);
+    }
+  }
+
+  const defaultAudio = probe.audioTracks.find(track => track.isDefault) || probe.audioTracks[0];
+  const result = {
+    videoSupported: videoResult.supported,
+    smooth: videoResult.smooth,
+    powerEfficient: videoResult.powerEfficient,
+    playableAudioTracks,
+    unsupportedAudioCodecs,
+    contentType: videoResult.contentType,
+    probe
+  };
+
+  if (!videoResult.supported) {
+    return {
+      ...result,
+      status: 'external',
+      label: 'Needs external player',
+      detail: `${video?.codec || 'This video codec'} can't be decoded by this browser`
+    };
+  }
+
+  if (defaultAudio && !playableAudioTracks.includes(defaultAudio.index)) {
+    const codecs = unsupportedAudioCodecs.join('/');
+    return {
+      ...result,
+      status: 'audio-unsupported',
+      label: `Audio won't play (${codecs})`,
+      detail: playableAudioTracks.length > 0
+        ? `The default ${defaultAudio.codec} track is unsupported; another audio track can be played`
+        : `Video plays without sound: this browser can't decode ${codecs} audio`
+    };
+  }
+
+  return {
+    ...result,
+    status: 'playable',
+    label: 'Plays in browser',
+    detail: result.smooth === false ? 'Playback may stutter on this device' : 'Video and audio decode natively'
+  };
+}
+
+export function clearPlayabilityCache(): void {
+  playabilityCache.clear();
+}
+
+function createUnknownPlayability(probe: ContainerProbe | null = null): Playability {
+  return {
+    status: 'unknown',
+    label: 'Playability unknown',
+    detail: 'The file could not be probed',
+    videoSupported: null,
+    smooth: null,
+    powerEfficient: null,
+    playableAudioTracks: [],
+    unsupportedAudioCodecs: [],
+    contentType: null,
+    probe
+  };
+}
+
+/**
+ * MIME types to try for a container. Browsers that play Matroska do it
+ * through their WebM demuxer, so Matroska is also checked as WebM.
+ */
+function getContainerTypes(probe: ContainerProbe): string[] {
+  return probe.container === 'matroska' ? [probe.mimeType, 'video/webm'] : [probe.mimeType];
+}
+
+function estimateBitrate(probe: ContainerProbe): number {
+  if (probe.fileSize && probe.duration) {
+    return Math.round((probe.fileSize * 8) / probe.duration);
+  }
+  return DEFAULT_VIDEO_BITRATE;
+}
+
+async function queryVideo(probe: ContainerProbe, codecString: string) {
+  for (const mimeType of getContainerTypes(probe)) {
+    const contentType = `${mimeType}; codecs="${codecString}"`;
+    const info = await decodingInfo({
+      type: 'file',
+      video: {
+        contentType,
+        width: probe.video?.width || 1920,
+        height: probe.video?.height || 1080,
+        bitrate: estimateBitrate(probe),
+        framerate: DEFAULT_FRAMERATE
+      }
+    }, contentType);
+
+    if (info.supported) {
+      return { ...info, contentType };
+    }
+  }
+
+  return { supported: false, smooth: null, powerEfficient: null, contentType: null };
+}
+
+async function queryAudio(probe: ContainerProbe, track: ProbedAudioTrack): Promise<boolean> {
+  for (const mimeType of getContainerTypes(probe)) {
+    const contentType = `${mimeType}; codecs="${track.codecString}"`;
+    const info = await decodingInfo({
+      type: 'file',
+      audio: {
+        contentType,
+        channels: track.channels ? String(track.channels) : undefined,
+        samplerate: track.sampleRate || undefined,
+        bitrate: DEFAULT_AUDIO_BITRATE
+      }
+    }, contentType);
+
+    if (info.supported) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Asks MediaCapabilities, falling back to canPlayType where it is missing or throws
+ */
+async function decodingInfo(configuration: MediaDecodingConfiguration, contentType: string): Promise<DecodingResult> {
+  if (navigator.mediaCapabilities?.decodingInfo) {
+    try {
+      const info = await navigator.mediaCapabilities.decodingInfo(configuration);
+      return { supported: info.supported, smooth: info.smooth, powerEfficient: info.powerEfficient };
+    } catch {
+      // Invalid or unknown content types throw in some browsers
+    }
+  }
+
+  const support = document.createElement('video').canPlayType(contentType);
+  return { supported: support !== '', smooth: null, powerEfficient: null };
+}
@@ -0,0 +1,18 @@
+/**
+ * Poster URLs relative to the current origin, with Discovery FTP posters
+ * routed through the frontend's /api/poster proxy
+ */
+export function resolvePosterUrl(poster?: string | null): string {
+  if (!poster) return '';
+  try {
+    // If backend provided absolute localhost poster API, make it relative
+    const replaced = poster.replace(/^https?:\/\/localhost:\d+\/api\/poster/i, '/api/poster');
+    // If it's a direct discoveryftp url or backend proxy, prefer routing through our frontend poster API
+    if (/discoveryftp\.net/i.test(replaced) && !/\/api\/poster\?url=/i.test(replaced)) {
+      return `/api/poster?url=${encodeURIComponent(replaced)}`;
+    }
+    return replaced;
+  } catch {
+    return poster;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Recent Searches
+ * What the viewer searched for last, kept in localStorage for the search
+ * suggestions to offer again. Most recent first, without repeats.
+ */
+
+const STORAGE_KEY = 'recentSearches';
+const MAX_RECENT_SEARCHES = 8;
+
+export function readRecentSearches(): string[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeRecentSearches(searches: string[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(searches));
+  } catch (error) {
+    console.warn('Failed to save recent searches:', error);
+  }
+}
+
+/**
+ * Moves a search to the top, dropping the oldest once the list is full.
+ * Returns the new list.
+ */
+export function addRecentSearch(query: string): string[] {
+  const trimmed = query.trim();
+  if (!trimmed) return readRecentSearches();
+
+  const searches = [
+    trimmed,
+    ...readRecentSearches().filter(item => item.toLowerCase() !== trimmed.toLowerCase())
+  ].slice(0, MAX_RECENT_SEARCHES);
+  writeRecentSearches(searches);
+  return searches;
+}
+
+export function removeRecentSearch(query: string): string[] {
+  const searches = readRecentSearches().filter(item => item !== query);
+  writeRecentSearches(searches);
+  return searches;
+}
+
+export function clearRecentSearches() {
+  writeRecentSearches([]);
+}
@@ -0,0 +1,342 @@
+/**
+ * Subtitles
+ * Decodes subtitle files in legacy character sets, parses SRT, WebVTT, ASS/SSA
+ * and MicroDVD files into cues, and turns the sidecar subtitle files found by
+ * the scraper into loadable tracks.
+ */
+
+import { SubtitleFile } from '@/types/movie';
+import { getProxiedVideoUrl } from './videoProxy';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'ssa' | 'sub';
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass', 'ssa', 'sub'];
+
+export const SUBTITLE_ENCODINGS = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16' },
+  { value: 'windows-1252', label: 'Western (Windows-1252)' },
+  { value: 'windows-1250', label: 'Central European (Windows-1250)' },
+  { value: 'windows-1251', label: 'Cyrillic (Windows-1251)' },
+  { value: 'windows-1253', label: 'Greek (Windows-1253)' },
+  { value: 'windows-1254', label: 'Turkish (Windows-1254)' },
+  { value: 'windows-1255', label: 'Hebrew (Windows-1255)' },
+  { value: 'windows-1256', label: 'Arabic (Windows-1256)' },
+  { value: 'windows-874', label: 'Thai (Windows-874)' },
+  { value: 'gb18030', label: 'Chinese Simplified (GB18030)' },
+  { value: 'big5', label: 'Chinese Traditional (Big5)' },
+  { value: 'shift_jis', label: 'Japanese (Shift JIS)' },
+  { value: 'euc-kr', label: 'Korean (EUC-KR)' }
+];
+
+export interface SubtitleTrack {
+  id: string;
+  label: string;
+  language: string;
+  src: string;
+  format: SubtitleFormat;
+  default?: boolean;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  style?: {
+    color?: string;
+    fontSize?: string;
+    fontFamily?: string;
+    position?: string;
+    alignment?: string;
+  };
+}
+
+// MicroDVD files count frames; most releases are 23.976 fps
+const MICRODVD_FRAMERATE = 23.976;
+
+// The code page subtitles in a language are usually saved in when they aren't
+// Unicode, by ISO 639-1 code; anything else falls back to Windows-1252
+const LEGACY_ENCODINGS: Record<string, string> = {
+  ru: 'windows-1251',
+  uk: 'windows-1251',
+  bg: 'windows-1251',
+  sr: 'windows-1251',
+  pl: 'windows-1250',
+  cs: 'windows-1250',
+  sk: 'windows-1250',
+  hu: 'windows-1250',
+  ro: 'windows-1250',
+  hr: 'windows-1250',
+  sl: 'windows-1250',
+  el: 'windows-1253',
+  tr: 'windows-1254',
+  he: 'windows-1255',
+  ar: 'windows-1256',
+  fa: 'windows-1256',
+  ur: 'windows-1256',
+  th: 'windows-874',
+  vi: 'windows-1258',
+  zh: 'gb18030',
+  ja: 'shift_jis',
+  ko: 'euc-kr'
+};
+
+/**
+ * Converts the scraped sidecar subtitle files of a movie into tracks. Files
+ * are fetched through the backend proxy because the file server sends no
+ * CORS headers.
+ */
+export function getSidecarSubtitleTracks(subtitles: SubtitleFile[] = []): SubtitleTrack[] {
+  const defaultIndex = subtitles.findIndex(subtitle => subtitle.forced);
+
+  return subtitles.map((subtitle, index) => {
+    const flags = [subtitle.forced && 'forced', subtitle.hearingImpaired && 'SDH'].filter(Boolean);
+
+    return {
+      id: `sidecar-${index}`,
+      label: flags.length > 0 ? `${subtitle.label} (${flags.join(', ')})` : subtitle.label,
+      language: subtitle.languageCode || subtitle.language || 'unknown',
+      src: getProxiedVideoUrl(subtitle.url),
+      format: subtitle.format,
+      default: index === defaultIndex
+    };
+  });
+}
+
+export function getSubtitleFormat(filename: string): SubtitleFormat | null {
+  const extension = filename.split('.').pop()?.toLowerCase() as SubtitleFormat | undefined;
+  return extension && SUBTITLE_FORMATS.includes(extension) ? extension : null;
+}
+
+export async function fetchSubtitleBuffer(src: string): Promise<ArrayBuffer> {
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.arrayBuffer();
+}
+
+/**
+ * Decodes a subtitle file with the given encoding, or the detected one for
+ * 'auto'. `language` is a hint for picking the legacy code page.
+ */
+export function decodeSubtitleBuffer(buffer: ArrayBuffer, encoding = 'auto', language?: string | null): string {
+  const bytes = new Uint8Array(buffer);
+  return new TextDecoder(encoding === 'auto' ? detectEncoding(bytes, language) : encoding).decode(bytes);
+}
+
+/**
+ * Detects the character set from a byte order mark, the zero bytes of UTF-16
+ * text, or valid UTF-8. Bengali subtitles not in UTF-8 are nearly always
+ * UTF-16 saved without a BOM, which this covers.
+ */
+export function detectEncoding(bytes: Uint8Array, language?: string | null): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, index) => {
+    if (byte !== 0) return;
+    if (index % 2 === 0) evenZeros++;
+    else oddZeros++;
+  });
+  if (oddZeros > sample.length / 4) return 'utf-16le';
+  if (evenZeros > sample.length / 4) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return (language && LEGACY_ENCODINGS[language.toLowerCase()]) || 'windows-1252';
+  }
+}
+
+export function parseSubtitleFile(content: string, format: SubtitleFormat): SubtitleCue[] {
+  const normalized = content.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, '');
+
+  switch (format) {
+    case 'srt':
+      return parseSRT(normalized);
+    case 'vtt':
+      return parseVTT(normalized);
+    case 'ass':
+    case 'ssa':
+      return parseASS(normalized);
+    case 'sub':
+      return parseMicroDVD(normalized);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Writes cues as a WebVTT file, moved by `offset` seconds; cues that end
+ * before zero are dropped
+ */
+export function cuesToWebVtt(cues: SubtitleCue[], offset = 0): string {
+  const blocks = cues
+    .map(cue => ({ ...cue, start: Math.max(cue.start + offset, 0), end: cue.end + offset }))
+    .filter(cue => cue.end > 0)
+    .map(cue => `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}\n${cue.text}`);
+
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+function parseSRT(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  const blocks = content.trim().split(/\n\s*\n/);
+
+  blocks.forEach(block => {
+    const lines = block.trim().split('\n');
+    if (lines.length >= 3) {
+      const timeMatch = lines[1].match(/(\d{2}):(\d{2}):(\d{2}),(\d{3}) --> (\d{2}):(\d{2}):(\d{2}),(\d{3})/);
+
+      if (timeMatch) {
+        const start = parseTime(timeMatch[1], timeMatch[2], timeMatch[3], timeMatch[4]);
+        const end = parseTime(timeMatch[5], timeMatch[6], timeMatch[7], timeMatch[8]);
+        const text = lines.slice(2).join('\n').replace(/<[^>]*>/g, ''); // Remove HTML tags
+
+        cues.push({ start, end, text });
+      }
+    }
+  });
+
+  return cues;
+}
+
+function parseVTT(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  const lines = content.split('\n');
+  let i = 0;
+
+  // Skip WEBVTT header
+  while (i < lines.length && !lines[i].includes('-->')) {
+    i++;
+  }
+
+  while (i < lines.length) {
+    const line = lines[i].trim();
+
+    if (line.includes('-->')) {
+      // The hours are optional in WebVTT
+      const timeMatch = line.match(/(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3}) --> (?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})/);
+
+      if (timeMatch) {
+        const start = parseTime(timeMatch[1] || '0', timeMatch[2], timeMatch[3], timeMatch[4]);
+        const end = parseTime(timeMatch[5] || '0', timeMatch[6], timeMatch[7], timeMatch[8]);
+
+        i++;
+        const textLines = [];
+        while (i < lines.length && lines[i].trim() !== '') {
+          textLines.push(lines[i].trim());
+          i++;
+        }
+
+        const text = textLines.join('\n').replace(/<[^>]*>/g, '');
+        cues.push({ start, end, text });
+      }
+    }
+    i++;
+  }
+
+  return cues;
+}
+
+// Plain text only; the player draws ASS/SSA tracks with their styling through assRenderer
+function parseASS(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  const lines = content.split('\n');
+
+  let eventsStarted = false;
+  let formatLine = '';
+
+  for (const line of lines) {
+    if (line.startsWith('[Events]')) {
+      eventsStarted = true;
+      continue;
+    }
+
+    if (eventsStarted) {
+      if (line.startsWith('Format:')) {
+        formatLine = line;
+        continue;
+      }
+
+      if (line.startsWith('Dialogue:')) {
+        const cue = parseASSDialogue(line, formatLine);
+        if (cue) {
+          cues.push(cue);
+        }
+      }
+    }
+  }
+
+  return cues;
+}
+
+function parseASSDialogue(dialogue: string, format: string): SubtitleCue | null {
+  const formatFields = format.replace('Format: ', '').split(',').map(f => f.trim());
+  const dialogueFields = dialogue.replace('Dialogue: ', '').split(',');
+
+  const startIndex = formatFields.indexOf('Start');
+  const endIndex = formatFields.indexOf('End');
+  const textIndex = formatFields.indexOf('Text');
+
+  if (startIndex === -1 || endIndex === -1 || textIndex === -1) {
+    return null;
+  }
+
+  const start = parseASSTime(dialogueFields[startIndex] || '');
+  const end = parseASSTime(dialogueFields[endIndex] || '');
+  const text = dialogueFields.slice(textIndex).join(',').replace(/\\N/g, '\n').replace(/{[^}]*}/g, '');
+
+  return { start, end, text };
+}
+
+/**
+ * MicroDVD: "{startFrame}{endFrame}Text|Second line". A "{1}{1}25" first
+ * line gives the frame rate.
+ */
+function parseMicroDVD(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let framerate = MICRODVD_FRAMERATE;
+
+  content.split('\n').forEach((line, index) => {
+    const match = line.trim().match(/^\{(\d+)\}\{(\d*)\}(.*)$/);
+    if (!match) return;
+
+    const [, startFrame, endFrame, text] = match;
+    if (index === 0 && startFrame === '1' && endFrame === '1' && parseFloat(text) > 0) {
+      framerate = parseFloat(text);
+      return;
+    }
+
+    const start = parseInt(startFrame) / framerate;
+    const end = endFrame ? parseInt(endFrame) / framerate : start + 3;
+    cues.push({ start, end, text: text.replace(/\{[^}]*\}/g, '').replace(/\|/g, '\n') });
+  });
+
+  return cues;
+}
+
+function parseTime(hours: string, minutes: string, seconds: string, milliseconds: string): number {
+  return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds) + parseInt(milliseconds) / 1000;
+}
+
+function parseASSTime(timeStr: string): number {
+  const match = timeStr.match(/(\d+):(\d{2}):(\d{2})\.(\d{2})/);
+  if (!match) return 0;
+
+  return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]) + parseInt(match[4]) / 100;
+}
+
+function formatVttTime(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(ms).padStart(3, '0')}`;
+}
@@ -73,3 +73,96 @@ export async function testVideoProxy(): Promise<boolean> {
     return false;
   }
 }
+
+export interface RemuxAudioStream {
+  index: number;
+  codec: string;
+  channels: number | null;
+  language: string | null;
+  title: string | null;
+  transcode: boolean;
+}
+
+export interface SubtitleStream {
+  index: number;
+  codec: string;
+  language: string | null;
+  title: string | null;
+  isDefault: boolean;
+  isForced: boolean;
+  isText: boolean;
+}
+
+export interface RemuxInfo {
+  duration: number | null;
+  bitrate: number | null;
+  video: { codec: string; copyable: boolean } | null;
+  audio: RemuxAudioStream[];
+  subtitles: SubtitleStream[];
+  remuxable: boolean;
+}
+
+function getProxyBaseUrl(): string {
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
+  return apiUrl.replace('/api', '');
+}
+
+/**
+ * Get the URL of the MKV-to-fragmented-MP4 remux stream, starting at `start` seconds
+ */
+export function getRemuxUrl(url: string, start = 0, audioTrack = 0): string {
+  const params = new URLSearchParams({ url: getOriginalUrl(url) });
+  if (start > 0) params.set('t', start.toFixed(3));
+  if (audioTrack > 0) params.set('audioTrack', String(audioTrack));
+
+  return `${getProxyBaseUrl()}/proxy/remux?${params.toString()}`;
+}
+
+/**
+ * Get the HLS master playlist the backend packages for a movie's source
+ */
+export function getHlsUrl(movieId: string, sourceIndex: number): string {
+  return `${getProxyBaseUrl()}/proxy/hls/${encodeURIComponent(movieId)}/${sourceIndex}/master.m3u8`;
+}
+
+/**
+ * Get the URL of an embedded subtitle track extracted as WebVTT or ASS,
+ * with its cues moved by `offset` seconds
+ */
+export function getSubtitleUrl(url: string, track: number, { format = 'vtt', offset = 0 }: { format?: 'vtt' | 'ass'; offset?: number } = {}): string {
+  const params = new URLSearchParams({ url: getOriginalUrl(url), format });
+  if (offset !== 0) params.set('offset', offset.toFixed(3));
+
+  return `${getProxyBaseUrl()}/proxy/subtitles/${track}?${params.toString()}`;
+}
+
+/**
+ * List the subtitle tracks embedded in a file; empty when the backend can't probe it
+ */
+export async function getSubtitleTracks(url: string): Promise<SubtitleStream[]> {
+  try {
+    const response = await fetch(`${getProxyBaseUrl()}/proxy/subtitles?url=${encodeURIComponent(getOriginalUrl(url))}`);
+    if (!response.ok) return [];
+
+    const body = await response.json();
+    return body.data as SubtitleStream[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Ask the backend whether a file can be remuxed and how long it is.
+ * Returns null when the remux endpoint is unavailable (e.g. no ffmpeg).
+ */
+export async function getRemuxInfo(url: string): Promise<RemuxInfo | null> {
+  try {
+    const response = await fetch(`${getProxyBaseUrl()}/proxy/remux/info?url=${encodeURIComponent(getOriginalUrl(url))}`);
+    if (!response.ok) return null;
+
+    const body = await response.json();
+    return body.data as RemuxInfo;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Watch Progress
+ * Where playback of each movie and source stopped, kept in localStorage and,
+ * with NEXT_PUBLIC_PROGRESS_SYNC=true, mirrored to the backend so another
+ * browser can pick up from the same place.
+ */
+
+import MovieAPI from '@/lib/api';
+
+export interface WatchProgress {
+  movieId: string;
+  sourceUrl: string;
+  // Seconds into the movie
+  position: number;
+  duration: number | null;
+  // Set once WATCHED_THRESHOLD of the title has played, and kept on a rewatch
+  watched: boolean;
+  updatedAt: string;
+}
+
+export interface WatchProgressUpdate {
+  sourceUrl: string;
+  position: number;
+  duration: number | null;
+}
+
+const STORAGE_KEY = 'watch-progress';
+// Dispatched on window when this tab saves, since 'storage' only fires in the others
+export const WATCH_PROGRESS_EVENT = 'watch-progress-change';
+
+// A title counts as watched once this share of it has played
+export const WATCHED_THRESHOLD = 0.9;
+// Positions closer to the start than this aren't worth resuming
+const MIN_RESUME_SECONDS = 30;
+// Entries kept in localStorage; the oldest go first
+const MAX_ENTRIES = 500;
+
+export const isProgressSyncEnabled = process.env.NEXT_PUBLIC_PROGRESS_SYNC === 'true';
+
+function getKey(movieId: string, sourceUrl: string): string {
+  return `${movieId}\n${sourceUrl}`;
+}
+
+/**
+ * Every saved entry, in the order they were last updated
+ */
+export function readWatchProgress(): WatchProgress[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const entries = stored ? JSON.parse(stored) : [];
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeWatchProgress(entries: WatchProgress[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(-MAX_ENTRIES)));
+    window.dispatchEvent(new Event(WATCH_PROGRESS_EVENT));
+  } catch (error) {
+    console.warn('Failed to save watch progress:', error);
+  }
+}
+
+/**
+ * Merges entries into the stored ones, the newer of two for the same source winning
+ */
+function mergeWatchProgress(entries: WatchProgress[], incoming: WatchProgress[]): WatchProgress[] {
+  const merged = new Map(entries.map(entry => [getKey(entry.movieId, entry.sourceUrl), entry]));
+
+  incoming.forEach((entry) => {
+    const key = getKey(entry.movieId, entry.sourceUrl);
+    const existing = merged.get(key);
+    if (existing && existing.updatedAt >= entry.updatedAt) return;
+
+    merged.delete(key);
+    merged.set(key, { ...entry, watched: entry.watched || Boolean(existing?.watched) });
+  });
+
+  return [...merged.values()].sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+}
+
+export function saveWatchProgress(movieId: string, { sourceUrl, position, duration }: WatchProgressUpdate): WatchProgress {
+  const entries = readWatchProgress();
+  const existing = entries.find(entry => entry.movieId === movieId && entry.sourceUrl === sourceUrl);
+  const knownDuration = duration ?? existing?.duration ?? null;
+
+  const entry: WatchProgress = {
+    movieId,
+    sourceUrl,
+    position,
+    duration: knownDuration,
+    watched: Boolean(existing?.watched) || (knownDuration !== null && position / knownDuration >= WATCHED_THRESHOLD),
+    updatedAt: new Date().toISOString()
+  };
+  writeWatchProgress(mergeWatchProgress(entries, [entry]));
+
+  if (isProgressSyncEnabled) {
+    MovieAPI.saveWatchProgress(entry).catch((error) => {
+      console.warn('Failed to sync watch progress:', error);
+    });
+  }
+
+  return entry;
+}
+
+/**
+ * Pulls the backend's entries into localStorage
+ */
+export async function syncWatchProgress(): Promise<void> {
+  if (!isProgressSyncEnabled) return;
+
+  try {
+    const remote = await MovieAPI.getWatchProgress();
+    writeWatchProgress(mergeWatchProgress(readWatchProgress(), remote));
+  } catch (error) {
+    console.warn('Failed to sync watch progress:', error);
+  }
+}
+
+/**
+ * Whether an entry is far enough in, and far enough from the end, to offer resuming it
+ */
+export function isResumable(entry: WatchProgress | null | undefined): entry is WatchProgress {
+  if (!entry || entry.position < MIN_RESUME_SECONDS) return false;
+  return entry.duration === null || entry.position / entry.duration < WATCHED_THRESHOLD;
+}
+
+/**
+ * Seconds as "1:12:30", or "12:30" under an hour
+ */
+export function formatPlaybackTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mm = h > 0 ? String(m).padStart(2, '0') : String(m);
+  return `${h > 0 ? `${h}:` : ''}${mm}:${String(s).padStart(2, '0')}`;
+}
@@ -0,0 +1,293 @@
+/**
+ * Watchlist
+ * "My List" and the viewer's named collections, kept in localStorage. While
+ * someone is signed in, My List mirrors their account's watchlist on the
+ * backend; collections stay on this device, since the account holds a single
+ * list. Items remember the title and year next to the movie ID, so an
+ * exported list can be matched back to the catalog after a rescrape has
+ * changed its IDs.
+ */
+
+import MovieAPI from '@/lib/api';
+import { Movie } from '@/types/movie';
+
+export interface WatchlistItem {
+  movieId: string;
+  title: string;
+  year: string | null;
+  addedAt: string;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  createdAt: string;
+  // Most recently added first
+  items: WatchlistItem[];
+}
+
+// An entry of the account watchlist; `movie` is null once the catalog no longer has it
+export interface AccountWatchlistItem {
+  movieId: string;
+  addedAt: string;
+  movie: Movie | null;
+}
+
+export interface WatchlistExport {
+  version: 1;
+  exportedAt: string;
+  lists: { name: string; items: Omit<WatchlistItem, 'addedAt'>[] }[];
+}
+
+const STORAGE_KEY = 'watchlists';
+// ID of the account My List mirrors; absent while signed out
+const ACCOUNT_KEY = 'watchlist-account';
+// Dispatched on window when this tab saves, since 'storage' only fires in the others
+export const WATCHLIST_EVENT = 'watchlist-change';
+
+// The list every movie card adds to; it can't be renamed or deleted
+export const MY_LIST_ID = 'my-list';
+const MY_LIST_NAME = 'My List';
+
+function createMyList(): Watchlist {
+  return { id: MY_LIST_ID, name: MY_LIST_NAME, createdAt: new Date().toISOString(), items: [] };
+}
+
+/**
+ * Every list, My List first
+ */
+export function readWatchlists(): Watchlist[] {
+  let lists: Watchlist[] = [];
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    lists = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    lists = [];
+  }
+
+  return lists.some(list => list.id === MY_LIST_ID) ? lists : [createMyList(), ...lists];
+}
+
+export function writeWatchlists(lists: Watchlist[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(lists));
+    window.dispatchEvent(new Event(WATCHLIST_EVENT));
+  } catch (error) {
+    console.warn('Failed to save the watchlist:', error);
+  }
+}
+
+function readSyncedAccount(): string | null {
+  try {
+    return window.localStorage.getItem(ACCOUNT_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function writeSyncedAccount(userId: string | null) {
+  try {
+    if (userId) {
+      window.localStorage.setItem(ACCOUNT_KEY, userId);
+    } else {
+      window.localStorage.removeItem(ACCOUNT_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to save the watchlist account:', error);
+  }
+}
+
+function getMyListIds(lists: Watchlist[]): string[] {
+  return lists.find(list => list.id === MY_LIST_ID)?.items.map(item => item.movieId) ?? [];
+}
+
+/**
+ * My List with the account's items in their order. Titles come from the
+ * catalog, or from the local item for movies the catalog no longer has.
+ */
+export function applyAccountWatchlist(lists: Watchlist[], remote: AccountWatchlistItem[]): Watchlist[] {
+  return lists.map((list) => {
+    if (list.id !== MY_LIST_ID) return list;
+
+    const local = new Map(list.items.map(item => [item.movieId, item]));
+    return {
+      ...list,
+      items: remote.map(({ movieId, addedAt, movie }) => ({
+        movieId,
+        title: movie?.title ?? local.get(movieId)?.title ?? movieId,
+        year: movie ? movie.year ?? null : local.get(movieId)?.year ?? null,
+        addedAt
+      }))
+    };
+  });
+}
+
+/**
+ * Brings My List in line with the signed-in account. On sign-in, titles added
+ * while signed out are added to the account; after that the account's list
+ * wins, so removals on other devices stick. Signing out empties My List,
+ * since its items belong to the account.
+ */
+export async function syncWatchlist(): Promise<void> {
+  try {
+    const user = await MovieAPI.getCurrentUser();
+    const syncedAccount = readSyncedAccount();
+
+    if (!user) {
+      if (syncedAccount) {
+        writeSyncedAccount(null);
+        writeWatchlists(readWatchlists().map(list => list.id === MY_LIST_ID ? { ...list, items: [] } : list));
+      }
+      return;
+    }
+
+    let remote = await MovieAPI.getAccountWatchlist();
+    // Only a signed-out list is merged; one mirrored from another account stays with it
+    if (!syncedAccount) {
+      const known = new Set(remote.map(item => item.movieId));
+      // Oldest first, so the newest local title ends up on top
+      for (const movieId of getMyListIds(readWatchlists()).reverse()) {
+        if (known.has(movieId)) continue;
+        try {
+          remote = await MovieAPI.addToAccountWatchlist(movieId);
+        } catch (error) {
+          console.warn(`Failed to add ${movieId} to the account watchlist:`, error);
+        }
+      }
+    }
+
+    writeSyncedAccount(user.id);
+    writeWatchlists(applyAccountWatchlist(readWatchlists(), remote));
+  } catch (error) {
+    console.warn('Failed to sync the watchlist:', error);
+  }
+}
+
+/**
+ * Sends what a change added to or removed from My List to the signed-in
+ * account. Nothing is sent while signed out.
+ */
+export async function pushWatchlistChanges(before: Watchlist[], after: Watchlist[]): Promise<void> {
+  if (!readSyncedAccount()) return;
+
+  const previous = new Set(getMyListIds(before));
+  const next = getMyListIds(after);
+  const remaining = new Set(next);
+
+  for (const movieId of [...previous].filter(id => !remaining.has(id))) {
+    await MovieAPI.removeFromAccountWatchlist(movieId).catch((error) => {
+      console.warn(`Failed to remove ${movieId} from the account watchlist:`, error);
+    });
+  }
+  for (const movieId of next.filter(id => !previous.has(id)).reverse()) {
+    await MovieAPI.addToAccountWatchlist(movieId).catch((error) => {
+      console.warn(`Failed to add ${movieId} to the account watchlist:`, error);
+    });
+  }
+}
+
+export function toWatchlistItem(movie: Movie): WatchlistItem {
+  return {
+    movieId: movie.id,
+    title: movie.title,
+    year: movie.year ?? null,
+    addedAt: new Date().toISOString()
+  };
+}
+
+export function addToWatchlist(lists: Watchlist[], listId: string, movie: Movie): Watchlist[] {
+  return lists.map(list => list.id === listId
+    ? { ...list, items: [toWatchlistItem(movie), ...list.items.filter(item => item.movieId !== movie.id)] }
+    : list);
+}
+
+export function removeFromWatchlist(lists: Watchlist[], listId: string, movieId: string): Watchlist[] {
+  return lists.map(list => list.id === listId
+    ? { ...list, items: list.items.filter(item => item.movieId !== movieId) }
+    : list);
+}
+
+export function createCollection(lists: Watchlist[], name: string): Watchlist[] {
+  const collection: Watchlist = {
+    id: `list-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    items: []
+  };
+  return [...lists, collection];
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/\(\d{4}\)/, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Finds the movie an item points at: by ID, then by title and year, for
+ * lists exported before the catalog IDs changed
+ */
+export function resolveWatchlistItem(item: Pick<WatchlistItem, 'movieId' | 'title' | 'year'>, movies: Movie[]): Movie | null {
+  const byId = movies.find(movie => movie.id === item.movieId);
+  if (byId) return byId;
+
+  const title = normalizeTitle(item.title);
+  return movies.find(movie =>
+    normalizeTitle(movie.title) === title && (!item.year || !movie.year || movie.year === item.year)
+  ) ?? null;
+}
+
+export function exportWatchlists(lists: Watchlist[]): WatchlistExport {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    lists: lists.map(list => ({
+      name: list.name,
+      items: list.items.map(({ movieId, title, year }) => ({ movieId, title, year }))
+    }))
+  };
+}
+
+/**
+ * Merges an export into the lists: items land in the list of the same name,
+ * pointed at the current ID of their movie where it can be found. Throws when
+ * the file isn't an export.
+ */
+export function importWatchlists(lists: Watchlist[], data: unknown, movies: Movie[]): { lists: Watchlist[]; imported: number; unmatched: number } {
+  const file = data as Partial<WatchlistExport> | null;
+  if (!file || file.version !== 1 || !Array.isArray(file.lists)) {
+    throw new Error('This file is not a watchlist export');
+  }
+
+  let next = lists;
+  let imported = 0;
+  let unmatched = 0;
+
+  file.lists.forEach((exported) => {
+    if (!exported || typeof exported.name !== 'string' || !Array.isArray(exported.items)) return;
+
+    const existing = exported.name === MY_LIST_NAME
+      ? next.find(list => list.id === MY_LIST_ID)
+      : next.find(list => list.name === exported.name);
+    if (!existing) next = createCollection(next, exported.name);
+    const target = existing ?? next[next.length - 1];
+
+    const known = new Set(target.items.map(item => item.movieId));
+    const added: WatchlistItem[] = [];
+    exported.items.forEach((item) => {
+      if (!item || typeof item.title !== 'string') return;
+
+      const movie = resolveWatchlistItem(item, movies);
+      if (!movie) unmatched++;
+      const resolved = movie ? toWatchlistItem(movie) : { ...item, year: item.year ?? null, addedAt: new Date().toISOString() };
+      if (known.has(resolved.movieId)) return;
+
+      known.add(resolved.movieId);
+      added.push(resolved);
+      imported++;
+    });
+
+    next = next.map(list => list.id === target.id ? { ...list, items: [...list.items, ...added] } : list);
+  });
+
+  return { lists: next, imported, unmatched };
+}
@@ -0,0 +1,284 @@
+import { clearProbeCache, getProbeContentType, probeContainer } from '@/utils/containerProbe';
+
+const URL = 'https://dflix.discoveryftp.net/m/Movie.2023.1080p.mkv';
+
+// EBML IDs, written with their length marker
+const EBML = 0x1a45dfa3;
+const DOC_TYPE = 0x4282;
+const SEGMENT = 0x18538067;
+const SEEK_HEAD = 0x114d9b74;
+const SEEK = 0x4dbb;
+const SEEK_ID = 0x53ab;
+const SEEK_POSITION = 0x53ac;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const DURATION = 0x4489;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const CODEC_PRIVATE = 0x63a2;
+const LANGUAGE = 0x22b59c;
+const NAME = 0x536e;
+const FLAG_DEFAULT = 0x88;
+const FLAG_FORCED = 0x55aa;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const AUDIO = 0xe1;
+const SAMPLING_FREQUENCY = 0xb5;
+const CHANNELS = 0x9f;
+const VOID = 0xec;
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+function uint(value: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+}
+
+function text(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+function float(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+// An EBML element with an 8-byte size
+function element(id: number, ...children: Uint8Array[]): Uint8Array {
+  const payload = concat(...children);
+  const idLength = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1;
+  return concat(uint(id, idLength), new Uint8Array([0x01]), uint(payload.length, 7), payload);
+}
+
+function uintElement(id: number, value: number): Uint8Array {
+  return element(id, uint(value, 4));
+}
+
+function ebmlHeader(docType = 'matroska'): Uint8Array {
+  return element(EBML, element(DOC_TYPE, text(docType)));
+}
+
+const info = element(INFO, uintElement(TIMECODE_SCALE, 1000000), element(DURATION, float(5400000)));
+
+const tracks = element(
+  TRACKS,
+  element(
+    TRACK_ENTRY,
+    uintElement(TRACK_NUMBER, 1),
+    uintElement(TRACK_TYPE, 1),
+    element(CODEC_ID, text('V_MPEG4/ISO/AVC')),
+    element(CODEC_PRIVATE, new Uint8Array([1, 0x64, 0x00, 0x28])),
+    element(VIDEO, uintElement(PIXEL_WIDTH, 1920), uintElement(PIXEL_HEIGHT, 800))
+  ),
+  element(
+    TRACK_ENTRY,
+    uintElement(TRACK_NUMBER, 2),
+    uintElement(TRACK_TYPE, 2),
+    element(CODEC_ID, text('A_AC3')),
+    element(LANGUAGE, text('hin')),
+    element(NAME, text('Hindi DD 5.1')),
+    element(AUDIO, uintElement(CHANNELS, 6), element(SAMPLING_FREQUENCY, float(48000)))
+  ),
+  element(
+    TRACK_ENTRY,
+    uintElement(TRACK_NUMBER, 3),
+    uintElement(TRACK_TYPE, 2),
+    element(CODEC_ID, text('A_AAC')),
+    uintElement(FLAG_DEFAULT, 0),
+    element(AUDIO, uintElement(CHANNELS, 2))
+  ),
+  element(
+    TRACK_ENTRY,
+    uintElement(TRACK_NUMBER, 4),
+    uintElement(TRACK_TYPE, 0x11),
+    element(CODEC_ID, text('S_TEXT/UTF8')),
+    uintElement(FLAG_FORCED, 1)
+  ),
+  element(
+    TRACK_ENTRY,
+    uintElement(TRACK_NUMBER, 5),
+    uintElement(TRACK_TYPE, 0x11),
+    element(CODEC_ID, text('S_HDMV/PGS')),
+    element(LANGUAGE, text('und'))
+  )
+);
+
+// Four-character-code boxes for MP4 files
+
+function box(type: string, ...children: Uint8Array[]): Uint8Array {
+  const payload = concat(...children);
+  return concat(uint(payload.length + 8, 4), text(type), payload);
+}
+
+function packLanguage(language: string): Uint8Array {
+  const [a, b, c] = [...language].map(char => char.charCodeAt(0) - 0x60);
+  return uint((a << 10) | (b << 5) | c, 2);
+}
+
+function mp4Track(handler: string, language: string, sampleEntry: Uint8Array): Uint8Array {
+  return box(
+    'trak',
+    box('tkhd', new Uint8Array([0, 0, 0, 1]), new Uint8Array(80)),
+    box(
+      'mdia',
+      box('mdhd', new Uint8Array(20), packLanguage(language), new Uint8Array(2)),
+      box('hdlr', new Uint8Array(8), text(handler), new Uint8Array(12)),
+      box('minf', box('stbl', box('stsd', new Uint8Array([0, 0, 0, 0, 0, 0, 0, 1]), sampleEntry)))
+    )
+  );
+}
+
+const avc1 = box(
+  'avc1',
+  new Uint8Array(24), uint(1920, 2), uint(1080, 2), new Uint8Array(50),
+  box('avcC', new Uint8Array([1, 0x64, 0x00, 0x29]))
+);
+const mp4a = box('mp4a', new Uint8Array(16), uint(2, 2), new Uint8Array(6), uint(48000, 2), new Uint8Array(2));
+
+const moov = box(
+  'moov',
+  box('mvhd', new Uint8Array(12), uint(1000, 4), uint(7200000, 4), new Uint8Array(80)),
+  mp4Track('vide', 'und', avc1),
+  mp4Track('soun', 'eng', mp4a)
+);
+
+/**
+ * Serves `file` to fetch, answering Range requests with 206 like the video proxy
+ */
+function serve(file: Uint8Array) {
+  return jest.spyOn(global, 'fetch').mockImplementation(async (_input, init) => {
+    const range = /bytes=(\d+)-(\d+)/.exec(new Headers(init?.headers).get('range') || '');
+    const start = range ? parseInt(range[1], 10) : 0;
+    const end = range ? Math.min(parseInt(range[2], 10), file.length - 1) : file.length - 1;
+
+    return new Response(file.slice(start, end + 1), {
+      status: 206,
+      headers: { 'Content-Range': `bytes ${start}-${end}/${file.length}` }
+    });
+  });
+}
+
+function getRangeStart(fetchMock: ReturnType<typeof serve>, call: number): number {
+  const headers = new Headers(fetchMock.mock.calls[call][1]?.headers);
+  return parseInt(/bytes=(\d+)-/.exec(headers.get('range') || '')![1], 10);
+}
+
+describe('probeContainer', () => {
+  beforeEach(() => {
+    clearProbeCache();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('reads the tracks of a Matroska file through the video proxy', async () => {
+    const file = concat(ebmlHeader(), element(SEGMENT, info, tracks));
+    const fetchMock = serve(file);
+
+    const probe = await probeContainer({ url: URL, quality: '1080p', format: 'MKV' });
+
+    expect(String(fetchMock.mock.calls[0][0])).toContain(`/proxy/video?url=${encodeURIComponent(URL)}`);
+    expect(probe).toMatchObject({
+      url: URL,
+      container: 'matroska',
+      mimeType: 'video/x-matroska',
+      duration: 5400,
+      fileSize: file.length,
+      video: { codec: 'H.264', codecString: 'avc1.640028', width: 1920, height: 800, resolution: '1080p' }
+    });
+    expect(probe.audioTracks).toEqual([
+      { index: 2, codec: 'AC-3', codecString: 'ac-3', language: 'hin', name: 'Hindi DD 5.1', channels: 6, sampleRate: 48000, isDefault: true },
+      { index: 3, codec: 'AAC', codecString: 'mp4a.40.2', language: 'eng', name: null, channels: 2, sampleRate: null, isDefault: false }
+    ]);
+    expect(probe.subtitleTracks).toEqual([
+      { index: 4, codec: 'SRT', language: 'eng', name: null, isDefault: true, isForced: true, isText: true },
+      { index: 5, codec: 'PGS', language: null, name: null, isDefault: true, isForced: false, isText: false }
+    ]);
+  });
+
+  test('tells WebM apart from Matroska by its doc type', async () => {
+    serve(concat(ebmlHeader('webm'), element(SEGMENT, info, tracks)));
+
+    await expect(probeContainer(URL)).resolves.toMatchObject({ container: 'webm', mimeType: 'video/webm' });
+  });
+
+  test('follows the seek head to a track list past the first range', async () => {
+    const padding = element(VOID, new Uint8Array(2.5 * 1024 * 1024));
+    const seekHeadSize = element(SEEK_HEAD, element(SEEK, element(SEEK_ID, uint(TRACKS, 4)), uintElement(SEEK_POSITION, 0))).length;
+    const tracksPosition = seekHeadSize + info.length + padding.length;
+    const seekHead = element(SEEK_HEAD, element(SEEK, element(SEEK_ID, uint(TRACKS, 4)), uintElement(SEEK_POSITION, tracksPosition)));
+    const header = ebmlHeader();
+    const fetchMock = serve(concat(header, element(SEGMENT, seekHead, info, padding, tracks)));
+
+    const probe = await probeContainer(URL);
+
+    expect(probe.audioTracks).toHaveLength(2);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    // The segment's data starts after its 4-byte ID and 8-byte size
+    expect(getRangeStart(fetchMock, 1)).toBe(header.length + 12 + tracksPosition);
+  });
+
+  test('reads an MP4 whose moov box comes after the media data', async () => {
+    const mdat = box('mdat', new Uint8Array(3 * 1024 * 1024));
+    const file = concat(box('ftyp', text('isom'), new Uint8Array(4)), mdat, moov);
+    const fetchMock = serve(file);
+
+    const probe = await probeContainer(URL);
+
+    expect(probe).toMatchObject({
+      container: 'mp4',
+      mimeType: 'video/mp4',
+      duration: 7200,
+      video: { codec: 'H.264', codecString: 'avc1.640029', width: 1920, height: 1080, resolution: '1080p' }
+    });
+    expect(probe.audioTracks).toEqual([
+      { index: 2, codec: 'AAC', codecString: 'mp4a.40.2', language: 'eng', name: null, channels: 2, sampleRate: 48000, isDefault: true }
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('caches probes per URL but not failures', async () => {
+    const fetchMock = serve(new Uint8Array(64));
+
+    await expect(probeContainer(URL)).rejects.toThrow('Unsupported container');
+    serve(concat(ebmlHeader(), element(SEGMENT, info, tracks)));
+    const probe = await probeContainer(URL);
+
+    await expect(probeContainer(URL)).resolves.toBe(probe);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('getProbeContentType', () => {
+  afterEach(() => {
+    clearProbeCache();
+    jest.restoreAllMocks();
+  });
+
+  test('names the video and the default audio codec', async () => {
+    serve(concat(ebmlHeader(), element(SEGMENT, info, tracks)));
+    const probe = await probeContainer(URL);
+
+    expect(getProbeContentType(probe)).toBe('video/x-matroska; codecs="avc1.640028, ac-3"');
+    expect(getProbeContentType(probe, probe.audioTracks[1])).toBe('video/x-matroska; codecs="avc1.640028, mp4a.40.2"');
+    expect(getProbeContentType({ ...probe, video: null, audioTracks: [] })).toBe('video/x-matroska');
+  });
+});
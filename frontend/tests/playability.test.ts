@@ -0,0 +1,164 @@
+import { checkPlayability, clearPlayabilityCache, getPlayability } from '@/utils/playability';
+import { clearProbeCache, ContainerProbe, ProbedAudioTrack } from '@/utils/containerProbe';
+
+// Content types this pretend browser decodes
+const DECODABLE = [
+  'video/mp4; codecs="avc1.640028"',
+  'video/webm; codecs="avc1.640028"',
+  'video/mp4; codecs="mp4a.40.2"',
+  'video/webm; codecs="mp4a.40.2"',
+  'video/webm; codecs="opus"'
+];
+
+function audioTrack(index: number, codec: string, codecString: string | null, isDefault = index === 1): ProbedAudioTrack {
+  return { index, codec, codecString, language: null, name: null, channels: 2, sampleRate: 48000, isDefault };
+}
+
+function createProbe(overrides: Partial<ContainerProbe> = {}): ContainerProbe {
+  return {
+    url: 'https://dflix.discoveryftp.net/m/Movie.2023.1080p.mkv',
+    container: 'matroska',
+    mimeType: 'video/x-matroska',
+    duration: 7200,
+    fileSize: 4500000000,
+    video: { codec: 'H.264', codecString: 'avc1.640028', width: 1920, height: 1080, resolution: '1080p' },
+    audioTracks: [audioTrack(1, 'AAC', 'mp4a.40.2')],
+    subtitleTracks: [],
+    probedAt: '2025-06-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+function stubGlobal(name: string, value: unknown) {
+  Object.defineProperty(globalThis, name, { value, configurable: true, writable: true });
+}
+
+describe('getPlayability', () => {
+  let decodingInfo: jest.Mock;
+  let canPlayType: jest.Mock;
+
+  beforeEach(() => {
+    decodingInfo = jest.fn(async (configuration: MediaDecodingConfiguration) => {
+      const contentType = configuration.video?.contentType ?? configuration.audio?.contentType;
+      const supported = DECODABLE.includes(contentType ?? '');
+      return { supported, smooth: supported, powerEfficient: supported };
+    });
+    canPlayType = jest.fn((contentType: string) => DECODABLE.includes(contentType) ? 'probably' : '');
+
+    stubGlobal('window', globalThis);
+    stubGlobal('navigator', { mediaCapabilities: { decodingInfo } });
+    stubGlobal('document', { createElement: () => ({ canPlayType }) });
+  });
+
+  afterEach(() => {
+    for (const name of ['window', 'navigator', 'document']) {
+      delete (globalThis as Record<string, unknown>)[name];
+    }
+  });
+
+  test('plays H.264 with AAC, checking Matroska as WebM', async () => {
+    const result = await getPlayability(createProbe());
+
+    expect(result).toMatchObject({
+      status: 'playable',
+      label: 'Plays in browser',
+      videoSupported: true,
+      smooth: true,
+      playableAudioTracks: [1],
+      unsupportedAudioCodecs: [],
+      contentType: 'video/webm; codecs="avc1.640028"'
+    });
+    expect(decodingInfo.mock.calls[0][0]).toMatchObject({
+      type: 'file',
+      video: { contentType: 'video/x-matroska; codecs="avc1.640028"', width: 1920, height: 1080, bitrate: 5000000 }
+    });
+  });
+
+  test('tells apart a file whose default audio track is the only problem', async () => {
+    const result = await getPlayability(createProbe({
+      audioTracks: [audioTrack(1, 'AC-3', 'ac-3'), audioTrack(2, 'DTS', null), audioTrack(3, 'AAC', 'mp4a.40.2')]
+    }));
+
+    expect(result).toMatchObject({
+      status: 'audio-unsupported',
+      label: "Audio won't play (AC-3/DTS)",
+      detail: 'The default AC-3 track is unsupported; another audio track can be played',
+      playableAudioTracks: [3],
+      unsupportedAudioCodecs: ['AC-3', 'DTS']
+    });
+  });
+
+  test('plays the video without sound when no audio track decodes', async () => {
+    const result = await getPlayability(createProbe({ audioTracks: [audioTrack(1, 'AC-3', 'ac-3')] }));
+
+    expect(result.status).toBe('audio-unsupported');
+    expect(result.detail).toBe("Video plays without sound: this browser can't decode AC-3 audio");
+  });
+
+  test('needs an external player for video the browser can\'t decode', async () => {
+    const result = await getPlayability(createProbe({
+      video: { codec: 'H.265', codecString: 'hev1.1.6.L93.B0', width: 3840, height: 2160, resolution: '2160p' }
+    }));
+
+    expect(result).toMatchObject({
+      status: 'external',
+      label: 'Needs external player',
+      detail: "H.265 can't be decoded by this browser",
+      videoSupported: false,
+      contentType: null
+    });
+  });
+
+  test('warns about video that won\'t decode smoothly', async () => {
+    decodingInfo.mockImplementation(async (configuration: MediaDecodingConfiguration) => {
+      const supported = DECODABLE.includes(configuration.video?.contentType ?? configuration.audio?.contentType ?? '');
+      return { supported, smooth: false, powerEfficient: false };
+    });
+
+    const result = await getPlayability(createProbe({ container: 'mp4', mimeType: 'video/mp4' }));
+
+    expect(result).toMatchObject({ status: 'playable', smooth: false, detail: 'Playback may stutter on this device' });
+  });
+
+  test('falls back to canPlayType when MediaCapabilities throws', async () => {
+    decodingInfo.mockRejectedValue(new TypeError('Unsupported content type'));
+
+    const result = await getPlayability(createProbe({ container: 'mp4', mimeType: 'video/mp4' }));
+
+    expect(result).toMatchObject({ status: 'playable', smooth: null, powerEfficient: null });
+    expect(canPlayType).toHaveBeenCalledWith('video/mp4; codecs="avc1.640028"');
+  });
+
+  test('estimates the bitrate from the file size and duration', async () => {
+    await getPlayability(createProbe({ fileSize: 900000000, duration: 3600 }));
+
+    expect(decodingInfo.mock.calls[0][0].video.bitrate).toBe(2000000);
+  });
+
+  test('stays unknown outside the browser', async () => {
+    delete (globalThis as Record<string, unknown>).window;
+
+    await expect(getPlayability(createProbe())).resolves.toMatchObject({ status: 'unknown', label: 'Playability unknown' });
+    expect(decodingInfo).not.toHaveBeenCalled();
+  });
+});
+
+describe('checkPlayability', () => {
+  afterEach(() => {
+    clearPlayabilityCache();
+    clearProbeCache();
+    jest.restoreAllMocks();
+  });
+
+  test('reports sources that can\'t be probed as unknown and checks them again later', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockRejectedValue(new Error('Network error'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const url = 'https://dflix.discoveryftp.net/m/Movie.2023.1080p.mkv';
+
+    await expect(checkPlayability(url)).resolves.toMatchObject({ status: 'unknown', probe: null });
+    await checkPlayability({ url, quality: '1080p', format: 'MKV' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(console.warn).toHaveBeenCalledWith(`Playability check failed for ${url}:`, 'Network error');
+  });
+});